@@ -5,6 +5,10 @@ const nextConfig = {
     images: {
         domains: ['localhost'],
     },
+    experimental: {
+        // pdfkit reads its font metrics from disk at runtime, so it must not be bundled
+        serverComponentsExternalPackages: ['pdfkit'],
+    },
     // Add any other config options you need here
 }
 
@@ -1,4 +1,195 @@
 // app/(auth)/register/page.tsx
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import { signIn } from "@/lib/firebase/auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Loader2 } from "lucide-react";
+import { isUserRole, ROLE_LABELS, type UserRole } from "@/lib/utils/roles";
+
+interface InviteInfo {
+    role: UserRole;
+    email: string | null;
+}
+
 export default function RegisterPage() {
-    return null
+    const router = useRouter();
+    const searchParams = useSearchParams();
+    const inviteToken = searchParams.get("invite") || "";
+
+    const [invite, setInvite] = useState<InviteInfo | null>(null);
+    const [inviteError, setInviteError] = useState<string | null>(null);
+    const [checkingInvite, setCheckingInvite] = useState(true);
+
+    const [name, setName] = useState("");
+    const [email, setEmail] = useState("");
+    const [password, setPassword] = useState("");
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        const checkInvite = async () => {
+            if (!inviteToken) {
+                setInviteError("ההרשמה למערכת אפשרית רק דרך קישור הזמנה מבעלי העסק");
+                setCheckingInvite(false);
+                return;
+            }
+
+            try {
+                const response = await fetch(`/api/auth/register?invite=${encodeURIComponent(inviteToken)}`);
+                const data = await response.json();
+
+                if (!response.ok || !data.valid || !isUserRole(data.role)) {
+                    setInviteError(data.error || "קישור ההזמנה אינו תקין");
+                    return;
+                }
+
+                setInvite({ role: data.role, email: data.email });
+                if (data.email) {
+                    setEmail(data.email);
+                }
+            } catch {
+                setInviteError("שגיאה בבדיקת ההזמנה");
+            } finally {
+                setCheckingInvite(false);
+            }
+        };
+
+        checkInvite();
+    }, [inviteToken]);
+
+    const handleRegister = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setLoading(true);
+        setError(null);
+
+        try {
+            const response = await fetch('/api/auth/register', {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                },
+                credentials: 'include',
+                body: JSON.stringify({ inviteToken, email, password, name: name || undefined }),
+            });
+
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.error || 'שגיאה ביצירת החשבון');
+            }
+
+            // Sign in client-side as well so the auth state is in sync
+            await signIn(email, password);
+
+            router.push("/dashboard");
+        } catch (error: any) {
+            setError(error.message || "שגיאה ביצירת החשבון");
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="min-h-screen flex items-center justify-center bg-gray-50 py-12 px-4 sm:px-6 lg:px-8">
+            <Card className="w-full max-w-md">
+                <CardHeader className="space-y-1">
+                    <CardTitle className="text-2xl font-bold text-center">
+                        הצטרפות לצוות
+                    </CardTitle>
+                    <CardDescription className="text-center">
+                        {invite
+                            ? `הוזמנת להצטרף בתפקיד ${ROLE_LABELS[invite.role]}`
+                            : "יצירת חשבון חדש"}
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {checkingInvite ? (
+                        <div className="flex justify-center py-8">
+                            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                        </div>
+                    ) : inviteError ? (
+                        <div className="space-y-4">
+                            <Alert variant="destructive">
+                                <AlertDescription>{inviteError}</AlertDescription>
+                            </Alert>
+                            <Link href="/login">
+                                <Button variant="outline" className="w-full">
+                                    למסך ההתחברות
+                                </Button>
+                            </Link>
+                        </div>
+                    ) : (
+                        <form onSubmit={handleRegister} className="space-y-4">
+                            {error && (
+                                <Alert variant="destructive">
+                                    <AlertDescription>{error}</AlertDescription>
+                                </Alert>
+                            )}
+
+                            <div className="space-y-2">
+                                <Label htmlFor="name">שם</Label>
+                                <Input
+                                    id="name"
+                                    value={name}
+                                    onChange={(e) => setName(e.target.value)}
+                                    disabled={loading}
+                                />
+                            </div>
+
+                            <div className="space-y-2">
+                                <Label htmlFor="email">אימייל</Label>
+                                <Input
+                                    id="email"
+                                    type="email"
+                                    placeholder="your@email.com"
+                                    value={email}
+                                    onChange={(e) => setEmail(e.target.value)}
+                                    required
+                                    readOnly={!!invite?.email}
+                                    disabled={loading}
+                                    dir="ltr"
+                                />
+                            </div>
+
+                            <div className="space-y-2">
+                                <Label htmlFor="password">סיסמה</Label>
+                                <Input
+                                    id="password"
+                                    type="password"
+                                    placeholder="••••••••"
+                                    value={password}
+                                    onChange={(e) => setPassword(e.target.value)}
+                                    required
+                                    minLength={6}
+                                    disabled={loading}
+                                    dir="ltr"
+                                />
+                            </div>
+
+                            <Button
+                                type="submit"
+                                className="w-full"
+                                disabled={loading}
+                            >
+                                {loading ? (
+                                    <>
+                                        <Loader2 className="ml-2 h-4 w-4 animate-spin" />
+                                        יוצר חשבון...
+                                    </>
+                                ) : (
+                                    "יצירת חשבון"
+                                )}
+                            </Button>
+                        </form>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
 }
@@ -13,17 +13,28 @@ import { Separator } from '@/components/ui/separator'
 import { LoadingSpinner } from '@/components/shared/loading-spinner'
 import { useToast } from '@/lib/hooks/use-toast'
 import { PreferenceInput } from '@/components/customers/preference-input'
+import { AddressFields } from '@/components/shared/address-fields'
 import { CriticalPreferenceAlert } from '@/components/customers/preference-badge'
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog'
 import { normalizePhoneNumber } from '@/lib/validators/customer'
 import { fetchWithAuth } from '@/lib/api/fetch-with-auth'
+import {
+    EMPTY_ADDRESS_DRAFT,
+    fromAddressDraft,
+    getAddressDraftError,
+    parseAddress,
+    toAddressDraft,
+    type AddressDraft
+} from '@/lib/utils/address'
 import type { Customer, CustomerPreference } from '@/lib/types/database'
 
 interface FormData {
     name: string
     phone: string
     email: string
+    // Free-text address that couldn't be split into parts; kept until the parts are filled in
     address: string
+    addressParts: AddressDraft
     notes: string
     preferences: Partial<CustomerPreference>[]
 }
@@ -32,6 +43,7 @@ interface FormErrors {
     name?: string
     phone?: string
     email?: string
+    address?: string
     preferences?: string
 }
 
@@ -50,6 +62,7 @@ export default function EditCustomerPage() {
         phone: '',
         email: '',
         address: '',
+        addressParts: EMPTY_ADDRESS_DRAFT,
         notes: '',
         preferences: []
     })
@@ -74,11 +87,13 @@ export default function EditCustomerPage() {
             setCustomer(data)
 
             // Initialize form data
+            const structuredAddress = data.structuredAddress || parseAddress(data.address)
             setFormData({
                 name: data.name || '',
                 phone: data.phone || '',
                 email: data.email || '',
-                address: data.address || '',
+                address: structuredAddress ? '' : data.address || '',
+                addressParts: toAddressDraft(structuredAddress),
                 notes: data.notes || '',
                 preferences: data.preferences || []
             })
@@ -111,6 +126,11 @@ export default function EditCustomerPage() {
             newErrors.email = 'כתובת אימייל לא תקינה'
         }
 
+        const addressError = getAddressDraftError(formData.addressParts)
+        if (addressError) {
+            newErrors.address = addressError
+        }
+
         // Validate preferences
         const seenPreferences = new Set<string>()
         for (const pref of formData.preferences) {
@@ -144,6 +164,7 @@ export default function EditCustomerPage() {
         try {
             setSaving(true)
 
+            const structuredAddress = fromAddressDraft(formData.addressParts)
             const response = await fetchWithAuth(`/api/customers/${customerId}`, {
                 method: 'PUT',
                 headers: {
@@ -153,7 +174,8 @@ export default function EditCustomerPage() {
                     name: formData.name.trim(),
                     phone: normalizePhoneNumber(formData.phone.trim()),
                     email: formData.email.trim() || null,
-                    address: formData.address.trim() || null,
+                    address: structuredAddress ? null : formData.address.trim() || null,
+                    structuredAddress,
                     notes: formData.notes.trim() || null,
                     preferences: formData.preferences.map(pref => ({
                         type: pref.type,
@@ -344,14 +366,24 @@ export default function EditCustomerPage() {
                                     )}
                                 </div>
 
-                                <div className="space-y-2">
-                                    <Label htmlFor="address">כתובת</Label>
-                                    <Input
-                                        id="address"
-                                        value={formData.address}
-                                        onChange={(e) => handleInputChange('address', e.target.value)}
+                                <div className="space-y-2 md:col-span-2">
+                                    <Label>כתובת</Label>
+                                    {formData.address && (
+                                        <p className="text-sm text-muted-foreground">
+                                            כתובת קודמת: {formData.address}
+                                        </p>
+                                    )}
+                                    <AddressFields
+                                        value={formData.addressParts}
+                                        onChange={(value) => {
+                                            handleInputChange('addressParts', value)
+                                            setErrors(prev => ({ ...prev, address: undefined }))
+                                        }}
                                         disabled={saving}
                                     />
+                                    {errors.address && (
+                                        <p className="text-sm text-destructive">{errors.address}</p>
+                                    )}
                                 </div>
                             </div>
 
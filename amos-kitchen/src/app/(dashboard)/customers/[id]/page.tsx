@@ -19,7 +19,10 @@ import {
     AlertTriangle,
     Utensils,
     Stethoscope,
-    Plus
+    Plus,
+    Copy,
+    ChevronDown,
+    Wallet
 } from 'lucide-react'
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -28,20 +31,34 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Separator } from '@/components/ui/separator'
 import { LoadingSpinner } from '@/components/shared/loading-spinner'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
 import { format } from 'date-fns'
 import { he } from 'date-fns/locale'
 import { PreferenceBadge, CriticalPreferenceAlert } from '@/components/customers/preference-badge'
 import { PREFERENCE_CONFIGS, groupPreferencesByType, getPreferenceSummary } from '@/lib/utils/preferences'
+import { PAYMENT_METHOD_LABELS, PAYMENT_STATUS_LABELS } from '@/lib/utils/payments'
 import { fetchWithAuth } from '@/lib/api/fetch-with-auth'
 import type { Customer, Order, OrderItem, Dish, CustomerPreference } from '@/lib/types/database'
+import type { CustomerBalance, OrderTemplate, Payment, PaymentStatus } from '@/lib/types/firestore'
 
 interface CustomerDetails extends Customer {
     orders: (Order & {
         orderItems: (OrderItem & {
             dish: Dish
         })[]
+        amountDue: number
+        paymentStatus: PaymentStatus
     })[]
     preferences?: CustomerPreference[]
+    payments: Payment[]
+    balance: CustomerBalance
 }
 
 interface DishStats {
@@ -60,6 +77,7 @@ export default function CustomerProfilePage() {
     const [customer, setCustomer] = useState<CustomerDetails | null>(null)
     const [loading, setLoading] = useState(true)
     const [error, setError] = useState<string | null>(null)
+    const [templates, setTemplates] = useState<OrderTemplate[]>([])
 
     const fetchCustomerDetails = useCallback(async () => {
         try {
@@ -83,6 +101,14 @@ export default function CustomerProfilePage() {
         fetchCustomerDetails()
     }, [fetchCustomerDetails])
 
+    // Templates for the "new order" menu; the page works without them
+    useEffect(() => {
+        fetchWithAuth('/api/order-templates')
+            .then(response => response.ok ? response.json() : [])
+            .then(setTemplates)
+            .catch(err => console.error('Error fetching order templates:', err))
+    }, [])
+
     if (loading) return <LoadingSpinner />
     if (error) return <div className="text-center text-red-600">שגיאה: {error}</div>
     if (!customer) return <div className="text-center">לקוח לא נמצא</div>
@@ -152,10 +178,45 @@ export default function CustomerProfilePage() {
                         </p>
                     </div>
                 </div>
-                <Button onClick={() => router.push(`/customers/${customerId}/edit`)}>
-                    <Edit className="h-4 w-4 mr-2" />
-                    ערוך פרטים
-                </Button>
+                <div className="flex gap-2">
+                    <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                            <Button variant="outline">
+                                <Plus className="h-4 w-4 ml-2" />
+                                הזמנה חדשה
+                                <ChevronDown className="h-4 w-4 mr-2" />
+                            </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                            <DropdownMenuItem onClick={() => router.push(`/orders/new?customerId=${customerId}`)}>
+                                הזמנה ריקה
+                            </DropdownMenuItem>
+                            {lastOrder && (
+                                <DropdownMenuItem onClick={() => router.push(`/orders/new?fromOrder=${lastOrder.id}`)}>
+                                    שכפול ההזמנה האחרונה ({lastOrder.orderNumber})
+                                </DropdownMenuItem>
+                            )}
+                            {templates.length > 0 && (
+                                <>
+                                    <DropdownMenuSeparator />
+                                    <DropdownMenuLabel>מתבנית</DropdownMenuLabel>
+                                    {templates.map(template => (
+                                        <DropdownMenuItem
+                                            key={template.id}
+                                            onClick={() => router.push(`/orders/new?template=${template.id}&customerId=${customerId}`)}
+                                        >
+                                            {template.name}
+                                        </DropdownMenuItem>
+                                    ))}
+                                </>
+                            )}
+                        </DropdownMenuContent>
+                    </DropdownMenu>
+                    <Button onClick={() => router.push(`/customers/${customerId}/edit`)}>
+                        <Edit className="h-4 w-4 mr-2" />
+                        ערוך פרטים
+                    </Button>
+                </div>
             </div>
 
             {/* Critical Preferences Alert */}
@@ -248,6 +309,17 @@ export default function CustomerProfilePage() {
                                     }
                                 </p>
                             </div>
+                            <div className="space-y-1 col-span-2">
+                                <div className="flex items-center gap-2 text-muted-foreground">
+                                    <Wallet className="h-4 w-4" />
+                                    <span className="text-sm">יתרה לתשלום</span>
+                                </div>
+                                <p className={`text-xl font-semibold ${customer.balance.balance > 0 ? 'text-red-600' : ''}`}>
+                                    {customer.balance.balance < 0
+                                        ? `זכות ${formatCurrency(-customer.balance.balance)}`
+                                        : formatCurrency(customer.balance.balance)}
+                                </p>
+                            </div>
                         </div>
                     </CardContent>
                 </Card>
@@ -313,6 +385,7 @@ export default function CustomerProfilePage() {
             <Tabs defaultValue="orders" className="space-y-4">
                 <TabsList>
                     <TabsTrigger value="orders">הזמנות ({orderCount})</TabsTrigger>
+                    <TabsTrigger value="payments">תשלומים ({customer.payments.length})</TabsTrigger>
                     <TabsTrigger value="favorites">מנות מועדפות</TabsTrigger>
                 </TabsList>
 
@@ -325,7 +398,7 @@ export default function CustomerProfilePage() {
                                 <Button
                                     variant="outline"
                                     className="mt-4"
-                                    onClick={() => router.push('/orders/new')}
+                                    onClick={() => router.push(`/orders/new?customerId=${customerId}`)}
                                 >
                                     <Plus className="h-4 w-4 ml-2" />
                                     צור הזמנה חדשה
@@ -341,6 +414,7 @@ export default function CustomerProfilePage() {
                                         <TableHead>תאריך</TableHead>
                                         <TableHead>סטטוס</TableHead>
                                         <TableHead className="text-right">סכום</TableHead>
+                                        <TableHead>תשלום</TableHead>
                                         <TableHead></TableHead>
                                     </TableRow>
                                 </TableHeader>
@@ -365,21 +439,108 @@ export default function CustomerProfilePage() {
                                             <TableCell className="text-right">
                                                 {formatCurrency(Number(order.totalAmount))}
                                             </TableCell>
+                                            <TableCell>
+                                                {order.amountPaid === undefined ? (
+                                                    <span className="text-muted-foreground">-</span>
+                                                ) : (
+                                                    <Badge variant={order.paymentStatus === 'UNPAID' ? 'destructive' : 'outline'}>
+                                                        {PAYMENT_STATUS_LABELS[order.paymentStatus]}
+                                                    </Badge>
+                                                )}
+                                            </TableCell>
+                                            <TableCell>
+                                                <div className="flex gap-1">
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="sm"
+                                                        title="שכפול למשלוח הבא"
+                                                        onClick={() => router.push(`/orders/new?fromOrder=${order.id}`)}
+                                                    >
+                                                        <Copy className="h-4 w-4" />
+                                                    </Button>
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="sm"
+                                                        onClick={() => router.push(`/orders/${order.id}`)}
+                                                    >
+                                                        <FileText className="h-4 w-4" />
+                                                    </Button>
+                                                </div>
+                                            </TableCell>
+                                        </TableRow>
+                                    ))}
+                                </TableBody>
+                            </Table>
+                        </Card>
+                    )}
+                </TabsContent>
+
+                <TabsContent value="payments" className="space-y-4">
+                    <div className="grid gap-4 md:grid-cols-3">
+                        <Card>
+                            <CardHeader className="pb-2">
+                                <CardDescription>חויב</CardDescription>
+                                <CardTitle>{formatCurrency(customer.balance.charged)}</CardTitle>
+                            </CardHeader>
+                        </Card>
+                        <Card>
+                            <CardHeader className="pb-2">
+                                <CardDescription>שולם</CardDescription>
+                                <CardTitle className="text-green-600">{formatCurrency(customer.balance.paid)}</CardTitle>
+                            </CardHeader>
+                        </Card>
+                        <Card>
+                            <CardHeader className="pb-2">
+                                <CardDescription>יתרה</CardDescription>
+                                <CardTitle className={customer.balance.balance > 0 ? 'text-red-600' : undefined}>
+                                    {formatCurrency(customer.balance.balance)}
+                                </CardTitle>
+                            </CardHeader>
+                        </Card>
+                    </div>
+
+                    <Card>
+                        {customer.payments.length === 0 ? (
+                            <CardContent className="text-center py-8 text-muted-foreground">
+                                לא נרשמו תשלומים
+                            </CardContent>
+                        ) : (
+                            <Table>
+                                <TableHeader>
+                                    <TableRow>
+                                        <TableHead>תאריך</TableHead>
+                                        <TableHead>הזמנה</TableHead>
+                                        <TableHead>אמצעי תשלום</TableHead>
+                                        <TableHead>אסמכתא</TableHead>
+                                        <TableHead className="text-right">סכום</TableHead>
+                                    </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                    {customer.payments.map((payment) => (
+                                        <TableRow key={payment.id}>
+                                            <TableCell>
+                                                {format(new Date(payment.paidAt), 'dd/MM/yyyy', { locale: he })}
+                                            </TableCell>
                                             <TableCell>
                                                 <Button
-                                                    variant="ghost"
-                                                    size="sm"
-                                                    onClick={() => router.push(`/orders/${order.id}`)}
+                                                    variant="link"
+                                                    className="p-0 h-auto"
+                                                    onClick={() => router.push(`/orders/${payment.orderId}`)}
                                                 >
-                                                    <FileText className="h-4 w-4" />
+                                                    {payment.orderNumber}
                                                 </Button>
                                             </TableCell>
+                                            <TableCell>{PAYMENT_METHOD_LABELS[payment.method]}</TableCell>
+                                            <TableCell>{payment.reference || '-'}</TableCell>
+                                            <TableCell className={`text-right ${payment.type === 'REFUND' ? 'text-red-600' : ''}`}>
+                                                {formatCurrency(payment.type === 'REFUND' ? -payment.amount : payment.amount)}
+                                            </TableCell>
                                         </TableRow>
                                     ))}
                                 </TableBody>
                             </Table>
-                        </Card>
-                    )}
+                        )}
+                    </Card>
                 </TabsContent>
 
                 <TabsContent value="favorites" className="space-y-4">
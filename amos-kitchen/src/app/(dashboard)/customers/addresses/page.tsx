@@ -0,0 +1,142 @@
+// app/(dashboard)/customers/addresses/page.tsx
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { ArrowRight, Loader2, Pencil, Split } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { LoadingSpinner } from '@/components/shared/loading-spinner'
+import { fetchWithAuth, postWithAuth } from '@/lib/api/fetch-with-auth'
+import { useToast } from '@/lib/hooks/use-toast'
+
+interface ReviewCustomer {
+    id: string
+    name: string
+    phone: string
+    address: string | null
+}
+
+export default function CustomerAddressesPage() {
+    const { toast } = useToast()
+    const [customers, setCustomers] = useState<ReviewCustomer[]>([])
+    const [isLoading, setIsLoading] = useState(true)
+    const [isMigrating, setIsMigrating] = useState(false)
+
+    const fetchCustomers = async () => {
+        try {
+            const response = await fetchWithAuth('/api/customers/addresses')
+            if (!response.ok) throw new Error('Failed to fetch addresses for review')
+
+            setCustomers(await response.json())
+        } catch (error) {
+            toast({
+                title: 'שגיאה',
+                description: 'לא ניתן לטעון את הכתובות לבדיקה',
+                variant: 'destructive'
+            })
+        } finally {
+            setIsLoading(false)
+        }
+    }
+
+    useEffect(() => {
+        fetchCustomers()
+    }, [])
+
+    const handleMigrate = async () => {
+        setIsMigrating(true)
+        try {
+            const response = await postWithAuth('/api/customers/addresses')
+            if (!response.ok) throw new Error('Failed to migrate addresses')
+
+            const result: { migrated: number, needsReview: number } = await response.json()
+            toast({
+                title: 'הכתובות פוצלו',
+                description: `${result.migrated} כתובות פוצלו לשדות, ${result.needsReview} דורשות בדיקה ידנית`
+            })
+            await fetchCustomers()
+        } catch (error) {
+            toast({
+                title: 'שגיאה',
+                description: 'לא ניתן לפצל את הכתובות',
+                variant: 'destructive'
+            })
+        } finally {
+            setIsMigrating(false)
+        }
+    }
+
+    if (isLoading) return <LoadingSpinner />
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight">כתובות לבדיקה</h1>
+                    <p className="text-muted-foreground">
+                        כתובות שנכתבו כטקסט חופשי ולא ניתן היה לפצל לעיר, רחוב ומספר
+                    </p>
+                </div>
+                <div className="flex gap-2">
+                    <Link href="/customers">
+                        <Button variant="outline">
+                            <ArrowRight className="h-4 w-4 ml-2" />
+                            לקוחות
+                        </Button>
+                    </Link>
+                    <Button onClick={handleMigrate} disabled={isMigrating}>
+                        {isMigrating
+                            ? <Loader2 className="h-4 w-4 ml-2 animate-spin" />
+                            : <Split className="h-4 w-4 ml-2" />}
+                        פיצול כתובות ישנות
+                    </Button>
+                </div>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>{customers.length} לקוחות</CardTitle>
+                    <CardDescription>
+                        יש להזין את הכתובת בשדות במסך עריכת הלקוח. עד אז ההזמנות שלהם לא משויכות לאזור משלוח
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {customers.length === 0 ? (
+                        <p className="text-center text-muted-foreground py-6">אין כתובות שדורשות בדיקה</p>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead className="text-right">לקוח</TableHead>
+                                    <TableHead className="text-right">טלפון</TableHead>
+                                    <TableHead className="text-right">כתובת</TableHead>
+                                    <TableHead />
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {customers.map(customer => (
+                                    <TableRow key={customer.id}>
+                                        <TableCell className="font-medium">{customer.name}</TableCell>
+                                        <TableCell dir="ltr" className="text-right">{customer.phone}</TableCell>
+                                        <TableCell>{customer.address}</TableCell>
+                                        <TableCell className="text-left">
+                                            <Link href={`/customers/${customer.id}/edit`}>
+                                                <Button variant="ghost" size="sm">
+                                                    <Pencil className="h-4 w-4 ml-1" />
+                                                    עריכה
+                                                </Button>
+                                            </Link>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    )
+}
@@ -0,0 +1,235 @@
+// app/(dashboard)/customers/import/page.tsx
+'use client'
+
+import { useRef, useState } from 'react'
+import Link from 'next/link'
+import { ArrowRight, FileSpreadsheet, Loader2, Upload } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table'
+import { fetchWithAuth } from '@/lib/api/fetch-with-auth'
+import { useToast } from '@/lib/hooks/use-toast'
+import type { ImportAction, ImportRowResult, ImportSummary } from '@/lib/utils/customer-import'
+
+interface ImportResponse {
+    dryRun: boolean
+    rows: ImportRowResult[]
+    summary: ImportSummary
+}
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+    create: 'חדש',
+    update: 'עדכון',
+    skip: 'דילוג',
+    error: 'שגיאה'
+}
+
+const ACTION_VARIANTS: Record<ImportAction, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+    create: 'default',
+    update: 'secondary',
+    skip: 'outline',
+    error: 'destructive'
+}
+
+export default function CustomerImportPage() {
+    const { toast } = useToast()
+    const fileInputRef = useRef<HTMLInputElement>(null)
+    const [file, setFile] = useState<File | null>(null)
+    const [updateExisting, setUpdateExisting] = useState(true)
+    const [preview, setPreview] = useState<ImportResponse | null>(null)
+    const [isProcessing, setIsProcessing] = useState(false)
+
+    const submitImport = async (dryRun: boolean) => {
+        if (!file) return
+
+        const formData = new FormData()
+        formData.append('file', file)
+        formData.append('dryRun', String(dryRun))
+        formData.append('updateExisting', String(updateExisting))
+
+        setIsProcessing(true)
+        try {
+            const response = await fetchWithAuth('/api/customers/import', {
+                method: 'POST',
+                body: formData
+            })
+            const data = await response.json()
+
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to import customers')
+            }
+
+            setPreview(data)
+
+            if (!dryRun) {
+                toast({
+                    title: 'הייבוא הושלם',
+                    description: `${data.summary.create} לקוחות נוספו, ${data.summary.update} עודכנו`
+                })
+            }
+        } catch (error) {
+            console.error('Import failed:', error)
+            toast({
+                title: 'שגיאה בייבוא',
+                description: error instanceof Error ? error.message : 'לא ניתן לעבד את הקובץ',
+                variant: 'destructive'
+            })
+        } finally {
+            setIsProcessing(false)
+        }
+    }
+
+    const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        setFile(event.target.files?.[0] || null)
+        setPreview(null)
+    }
+
+    const pendingChanges = preview ? preview.summary.create + preview.summary.update : 0
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight">ייבוא לקוחות</h1>
+                    <p className="text-muted-foreground">
+                        טעינת לקוחות מקובץ CSV או Excel. לקוחות קיימים מזוהים לפי מספר טלפון
+                    </p>
+                </div>
+                <Link href="/customers">
+                    <Button variant="outline" size="sm">
+                        <ArrowRight className="h-4 w-4 ml-2" />
+                        חזרה ללקוחות
+                    </Button>
+                </Link>
+            </div>
+
+            {/* File selection */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>בחירת קובץ</CardTitle>
+                    <CardDescription>
+                        עמודות נתמכות: שם, טלפון, אימייל, כתובת, הערות, אלרגיות, רפואי, הגבלות תזונתיות, העדפות.
+                        ניתן להשתמש בקובץ שיוצא ממסך הלקוחות
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="flex flex-wrap items-center gap-4">
+                        <input
+                            ref={fileInputRef}
+                            type="file"
+                            accept=".csv,.xlsx,.xls"
+                            className="hidden"
+                            onChange={handleFileChange}
+                        />
+                        <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+                            <FileSpreadsheet className="h-4 w-4 ml-2" />
+                            {file ? file.name : 'בחר קובץ'}
+                        </Button>
+                        <div className="flex items-center gap-2">
+                            <Switch
+                                id="update-existing"
+                                checked={updateExisting}
+                                onCheckedChange={(checked) => {
+                                    setUpdateExisting(checked)
+                                    setPreview(null)
+                                }}
+                            />
+                            <Label htmlFor="update-existing">עדכן לקוחות קיימים</Label>
+                        </div>
+                        <Button onClick={() => submitImport(true)} disabled={!file || isProcessing}>
+                            {isProcessing && <Loader2 className="h-4 w-4 ml-2 animate-spin" />}
+                            תצוגה מקדימה
+                        </Button>
+                    </div>
+                </CardContent>
+            </Card>
+
+            {/* Preview */}
+            {preview && (
+                <Card>
+                    <CardHeader>
+                        <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+                            <div>
+                                <CardTitle>{preview.dryRun ? 'תצוגה מקדימה' : 'תוצאות הייבוא'}</CardTitle>
+                                <CardDescription className="flex flex-wrap gap-2 mt-2">
+                                    {(Object.keys(ACTION_LABELS) as ImportAction[]).map(action => (
+                                        <Badge key={action} variant={ACTION_VARIANTS[action]}>
+                                            {ACTION_LABELS[action]}: {preview.summary[action]}
+                                        </Badge>
+                                    ))}
+                                </CardDescription>
+                            </div>
+                            {preview.dryRun && (
+                                <Button
+                                    onClick={() => submitImport(false)}
+                                    disabled={isProcessing || pendingChanges === 0}
+                                >
+                                    {isProcessing
+                                        ? <Loader2 className="h-4 w-4 ml-2 animate-spin" />
+                                        : <Upload className="h-4 w-4 ml-2" />}
+                                    אישור ייבוא ({pendingChanges})
+                                </Button>
+                            )}
+                        </div>
+                    </CardHeader>
+                    <CardContent>
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead className="text-right w-16">שורה</TableHead>
+                                    <TableHead className="text-right">פעולה</TableHead>
+                                    <TableHead className="text-right">שם</TableHead>
+                                    <TableHead className="text-right">טלפון</TableHead>
+                                    <TableHead className="text-right">העדפות</TableHead>
+                                    <TableHead className="text-right">פרטים</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {preview.rows.map(row => (
+                                    <TableRow key={row.rowNumber}>
+                                        <TableCell>{row.rowNumber}</TableCell>
+                                        <TableCell>
+                                            <Badge variant={ACTION_VARIANTS[row.action]}>
+                                                {ACTION_LABELS[row.action]}
+                                            </Badge>
+                                        </TableCell>
+                                        <TableCell className="font-medium">{row.name || '—'}</TableCell>
+                                        <TableCell dir="ltr" className="text-right">{row.phone || '—'}</TableCell>
+                                        <TableCell>
+                                            <div className="flex flex-wrap gap-1">
+                                                {row.preferences.map((pref, index) => (
+                                                    <Badge key={index} variant="outline" className="text-xs">
+                                                        {pref.value}
+                                                    </Badge>
+                                                ))}
+                                            </div>
+                                        </TableCell>
+                                        <TableCell className="text-sm">
+                                            {row.errors.map((error, index) => (
+                                                <div key={`e-${index}`} className="text-red-600">{error}</div>
+                                            ))}
+                                            {row.changes.map((change, index) => (
+                                                <div key={`c-${index}`} className="text-muted-foreground">{change}</div>
+                                            ))}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </CardContent>
+                </Card>
+            )}
+        </div>
+    )
+}
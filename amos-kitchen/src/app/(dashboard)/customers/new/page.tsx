@@ -12,6 +12,8 @@ import { Textarea } from '@/components/ui/textarea'
 import { useToast } from '@/lib/hooks/use-toast'
 import { postWithAuth } from '@/lib/api/fetch-with-auth'
 import { PreferenceInput } from '@/components/customers/preference-input'
+import { AddressFields } from '@/components/shared/address-fields'
+import { EMPTY_ADDRESS_DRAFT, fromAddressDraft, getAddressDraftError } from '@/lib/utils/address'
 import type { CustomerPreference } from '@/lib/types/database'
 import Link from 'next/link'
 
@@ -23,10 +25,10 @@ export default function NewCustomerPage() {
         name: '',
         phone: '',
         email: '',
-        address: '',
         notes: '',
         preferences: [] as Partial<CustomerPreference>[]
     })
+    const [address, setAddress] = useState(EMPTY_ADDRESS_DRAFT)
 
     const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
         const { name, value } = e.target
@@ -74,10 +76,23 @@ export default function NewCustomerPage() {
             }
         }
 
+        const addressError = getAddressDraftError(address)
+        if (addressError) {
+            toast({
+                title: "שגיאה",
+                description: addressError,
+                variant: "destructive"
+            })
+            return
+        }
+
         try {
             setIsSubmitting(true)
 
-            const response = await postWithAuth('/api/customers', formData)
+            const response = await postWithAuth('/api/customers', {
+                ...formData,
+                structuredAddress: fromAddressDraft(address)
+            })
 
             if (!response.ok) {
                 const errorData = await response.json()
@@ -195,16 +210,13 @@ export default function NewCustomerPage() {
 
                         {/* Address */}
                         <div className="space-y-2">
-                            <Label htmlFor="address" className="flex items-center gap-2">
+                            <Label className="flex items-center gap-2">
                                 <MapPin className="h-4 w-4" />
                                 כתובת
                             </Label>
-                            <Input
-                                id="address"
-                                name="address"
-                                value={formData.address}
-                                onChange={handleInputChange}
-                                placeholder="רחוב, מספר בית, עיר"
+                            <AddressFields
+                                value={address}
+                                onChange={setAddress}
                                 disabled={isSubmitting}
                             />
                         </div>
@@ -1,19 +1,35 @@
 // app/(dashboard)/customers/page.tsx
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
-import { Plus, Search, Download, Users, ShoppingCart, DollarSign } from 'lucide-react'
+import { useState } from 'react'
+import Link from 'next/link'
+import { Plus, Search, Download, Upload, Users, ShoppingCart, DollarSign, MapPin, Loader2 } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select'
 import { CustomerList } from '@/components/customers/customer-list'
 import { CustomerGrid } from '@/components/customers/customer-grid'
 import { CustomerDialog } from '@/components/customers/customer-dialog'
 import { LoadingSpinner } from '@/components/shared/loading-spinner'
 import { useDebounce } from '@/lib/hooks/use-debounce'
+import { useCustomers } from '@/lib/api/customers'
 import { fetchWithAuth, postWithAuth, putWithAuth, deleteWithAuth } from '@/lib/api/fetch-with-auth'
 import type { Customer } from '@/lib/types/database'
+import type { ExportFormat } from '@/lib/utils/export'
 
 interface CustomerWithStats extends Customer {
     orderCount: number
@@ -22,47 +38,30 @@ interface CustomerWithStats extends Customer {
 }
 
 export default function CustomersPage() {
-    const [customers, setCustomers] = useState<CustomerWithStats[]>([])
-    const [isLoading, setIsLoading] = useState(true)
     const [searchQuery, setSearchQuery] = useState('')
+    const [sort, setSort] = useState<'newest' | 'name'>('newest')
     const [viewMode, setViewMode] = useState<'cards' | 'table'>('cards')
     const [isDialogOpen, setIsDialogOpen] = useState(false)
     const [selectedCustomer, setSelectedCustomer] = useState<Customer | null>(null)
 
     const debouncedSearch = useDebounce(searchQuery, 300)
 
-    // Wrap fetchCustomers in useCallback to fix the dependency warning
-    const fetchCustomers = useCallback(async () => {
+    // Customers come a page at a time; "load more" appends the next page
+    const {
+        customers: loadedCustomers,
+        loading,
+        pagination,
+        hasNext,
+        loadMore,
+        refetch: fetchCustomers
+    } = useCustomers({ search: debouncedSearch || undefined, sort })
+    const customers = loadedCustomers as CustomerWithStats[]
+    // Keep the loaded cards on screen while the next page comes in
+    const isLoading = loading && customers.length === 0
+
+    const handleExport = async (exportFormat: ExportFormat) => {
         try {
-            setIsLoading(true)
-            const params = new URLSearchParams()
-            if (debouncedSearch) params.append('search', debouncedSearch)
-
-            const response = await fetchWithAuth(`/api/customers?${params}`)
-            if (!response.ok) throw new Error('Failed to fetch customers')
-
-            const data = await response.json()
-            setCustomers(data)
-        } catch (error) {
-            console.error('Error fetching customers:', error)
-        } finally {
-            setIsLoading(false)
-        }
-    }, [debouncedSearch])
-
-    // Fetch customers - now includes fetchCustomers in dependencies
-    useEffect(() => {
-        fetchCustomers()
-    }, [fetchCustomers])
-
-    const handleExport = async () => {
-        try {
-            const response = await fetchWithAuth('/api/customers/export', {
-                method: 'GET',
-                headers: {
-                    'Content-Type': 'application/csv'
-                }
-            })
+            const response = await fetchWithAuth(`/api/customers/export?format=${exportFormat}`)
 
             if (!response.ok) throw new Error('Failed to export customers')
 
@@ -70,7 +69,7 @@ export default function CustomersPage() {
             const url = window.URL.createObjectURL(blob)
             const a = document.createElement('a')
             a.href = url
-            a.download = `customers-${new Date().toISOString().split('T')[0]}.csv`
+            a.download = `customers-${new Date().toISOString().split('T')[0]}.${exportFormat}`
             document.body.appendChild(a)
             a.click()
             window.URL.revokeObjectURL(url)
@@ -98,7 +97,7 @@ export default function CustomersPage() {
 
             if (!response.ok) throw new Error('Failed to delete customer')
 
-            await fetchCustomers()
+            fetchCustomers()
         } catch (error) {
             console.error('Error deleting customer:', error)
         }
@@ -125,16 +124,16 @@ export default function CustomersPage() {
             }
 
             setIsDialogOpen(false)
-            await fetchCustomers()
+            fetchCustomers()
         } catch (error) {
             console.error('Error saving customer:', error)
             alert(`Error: ${error instanceof Error ? error.message : 'Failed to save customer'}`)
         }
     }
 
-    // Calculate statistics
+    // Calculate statistics; orders and revenue cover the customers loaded so far
     const stats = {
-        totalCustomers: customers.length,
+        totalCustomers: pagination?.total ?? customers.length,
         totalOrders: customers.reduce((sum, c) => sum + c.orderCount, 0),
         totalRevenue: customers.reduce((sum, c) => sum + c.totalSpent, 0),
         avgOrderValue: customers.length > 0
@@ -151,10 +150,34 @@ export default function CustomersPage() {
                     <p className="text-muted-foreground">ניהול לקוחות והיסטוריית הזמנות</p>
                 </div>
                 <div className="flex gap-2">
-                    <Button onClick={handleExport} variant="outline" size="sm">
-                        <Download className="h-4 w-4 ml-2" />
-                        ייצוא
-                    </Button>
+                    <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                            <Button variant="outline" size="sm">
+                                <Download className="h-4 w-4 ml-2" />
+                                ייצוא
+                            </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                            <DropdownMenuItem onClick={() => handleExport('xlsx')}>
+                                ייצוא לאקסל (xlsx)
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => handleExport('csv')}>
+                                ייצוא ל-CSV
+                            </DropdownMenuItem>
+                        </DropdownMenuContent>
+                    </DropdownMenu>
+                    <Link href="/customers/addresses">
+                        <Button variant="outline" size="sm">
+                            <MapPin className="h-4 w-4 ml-2" />
+                            כתובות לבדיקה
+                        </Button>
+                    </Link>
+                    <Link href="/customers/import">
+                        <Button variant="outline" size="sm">
+                            <Upload className="h-4 w-4 ml-2" />
+                            ייבוא
+                        </Button>
+                    </Link>
                     <Button onClick={handleAddCustomer} size="sm">
                         <Plus className="h-4 w-4 ml-2" />
                         לקוח חדש
@@ -222,6 +245,15 @@ export default function CustomersPage() {
                         className="pr-8"
                     />
                 </div>
+                <Select value={sort} onValueChange={(value) => setSort(value as 'newest' | 'name')}>
+                    <SelectTrigger className="w-[160px]">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="newest">החדשים ביותר</SelectItem>
+                        <SelectItem value="name">לפי שם</SelectItem>
+                    </SelectContent>
+                </Select>
             </div>
 
             {/* View Tabs */}
@@ -268,6 +300,18 @@ export default function CustomersPage() {
                 </TabsContent>
             </Tabs>
 
+            {hasNext && (
+                <div className="flex flex-col items-center gap-2">
+                    <p className="text-sm text-muted-foreground">
+                        מוצגים {customers.length} מתוך {pagination?.total} לקוחות
+                    </p>
+                    <Button variant="outline" onClick={loadMore} disabled={loading}>
+                        {loading && <Loader2 className="h-4 w-4 ml-2 animate-spin" />}
+                        טען עוד
+                    </Button>
+                </div>
+            )}
+
             {/* Customer Dialog */}
             <CustomerDialog
                 open={isDialogOpen}
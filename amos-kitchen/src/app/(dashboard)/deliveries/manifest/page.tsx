@@ -0,0 +1,251 @@
+// app/(dashboard)/deliveries/manifest/page.tsx
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { format } from 'date-fns'
+import { he } from 'date-fns/locale'
+import { CheckCircle, Clock, Download, KeyRound, Loader2, MapPin, Phone, Wallet } from 'lucide-react'
+import { fetchWithAuth } from '@/lib/api/fetch-with-auth'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { LoadingSpinner } from '@/components/shared/loading-spinner'
+import { PaymentDialog } from '@/components/orders/payment-dialog'
+import { useToast } from '@/lib/hooks/use-toast'
+import { fromDateKey } from '@/lib/utils/delivery-schedule'
+import { buildRouteManifest, formatDeliveryWindow } from '@/lib/utils/delivery-routes'
+import { ORDER_STATUS_LABELS } from '@/lib/utils/order-status'
+import type { DeliveryOrder, DeliveryRoute } from '@/lib/types/firestore'
+
+const formatPrice = (amount: number) =>
+    new Intl.NumberFormat('he-IL', { style: 'currency', currency: 'ILS' }).format(amount)
+
+export default function DeliveryManifestPage() {
+    const { toast } = useToast()
+    const [date, setDate] = useState<string | null>(null)
+    const [orders, setOrders] = useState<DeliveryOrder[]>([])
+    const [routes, setRoutes] = useState<DeliveryRoute[]>([])
+    const [routeId, setRouteId] = useState<string>('')
+    const [loading, setLoading] = useState(true)
+    const [updatingId, setUpdatingId] = useState<string | null>(null)
+    const [collecting, setCollecting] = useState<DeliveryOrder | null>(null)
+
+    const route = routes.find(r => r.id === routeId) || null
+    const stops = useMemo(() => route ? buildRouteManifest(route, orders) : [], [route, orders])
+    const remaining = stops.filter(stop => stop.status !== 'DELIVERED')
+
+    const fetchDeliveries = async () => {
+        try {
+            const response = await fetchWithAuth('/api/deliveries')
+            if (!response.ok) throw new Error('Failed to fetch deliveries')
+
+            const data = await response.json()
+            setDate(data.date)
+            setOrders(data.orders)
+            setRoutes(data.routes)
+            setRouteId(current => current || data.routes[0]?.id || '')
+        } catch (error) {
+            toast({
+                title: 'שגיאה',
+                description: 'לא ניתן לטעון את רשימת המשלוחים',
+                variant: 'destructive'
+            })
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    useEffect(() => {
+        fetchDeliveries()
+    }, [])
+
+    const markDelivered = async (order: DeliveryOrder) => {
+        setUpdatingId(order.id)
+        try {
+            const response = await fetchWithAuth(`/api/orders/${order.id}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ status: 'DELIVERED', expectedStatus: order.status })
+            })
+
+            if (response.status === 409) {
+                // Someone else changed the order; show what it is now
+                const conflict = await response.json().catch(() => ({}))
+                toast({
+                    title: 'ההזמנה כבר עודכנה',
+                    description: conflict.error || 'מישהו אחר שינה את ההזמנה בינתיים',
+                    variant: 'destructive'
+                })
+                await fetchDeliveries()
+                return
+            }
+            if (!response.ok) throw new Error('Failed to mark order delivered')
+
+            setOrders(current => current.map(o => o.id === order.id ? { ...o, status: 'DELIVERED' } : o))
+            toast({
+                title: 'נמסר',
+                description: `הזמנה ${order.orderNumber} סומנה כנמסרה`
+            })
+        } catch (error) {
+            toast({
+                title: 'שגיאה',
+                description: 'לא ניתן לעדכן את ההזמנה',
+                variant: 'destructive'
+            })
+        } finally {
+            setUpdatingId(null)
+        }
+    }
+
+    if (loading) return <LoadingSpinner />
+
+    if (!date || routes.length === 0) {
+        return (
+            <div className="p-6 text-center text-muted-foreground" dir="rtl">
+                אין מסלולי משלוח ליום המשלוח הקרוב
+            </div>
+        )
+    }
+
+    return (
+        <div className="p-4 space-y-4 max-w-2xl mx-auto" dir="rtl">
+            <div>
+                <h1 className="text-2xl font-bold">רשימת משלוחים</h1>
+                <p className="text-muted-foreground">
+                    {format(fromDateKey(date), 'EEEE, dd בMMMM', { locale: he })}
+                </p>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-2">
+                <Select value={routeId} onValueChange={setRouteId}>
+                    <SelectTrigger className="flex-1 min-w-48">
+                        <SelectValue placeholder="בחר מסלול" />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {routes.map(r => (
+                            <SelectItem key={r.id} value={r.id}>
+                                {r.driverName ? `${r.name} · ${r.driverName}` : r.name}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                {route && (
+                    <a href={`/api/deliveries/${date}/export?route=${route.id}&format=xlsx`}>
+                        <Button variant="outline">
+                            <Download className="ml-2 h-4 w-4" />
+                            ייצוא
+                        </Button>
+                    </a>
+                )}
+            </div>
+
+            {route && (
+                <p className="text-sm text-muted-foreground">
+                    {remaining.length} מתוך {stops.length} עצירות ממתינות · לגבייה {formatPrice(remaining.reduce((sum, stop) => sum + stop.amountDue, 0))}
+                </p>
+            )}
+
+            {stops.map(stop => {
+                const delivered = stop.status === 'DELIVERED'
+                const timeWindow = formatDeliveryWindow(stop.windowStart, stop.windowEnd)
+
+                return (
+                    <Card key={stop.id} className={delivered ? 'opacity-60' : undefined}>
+                        <CardContent className="p-4 space-y-3">
+                            <div className="flex items-start justify-between gap-2">
+                                <div>
+                                    <div className="text-lg font-semibold">
+                                        {stop.sequence}. {stop.customerName}
+                                    </div>
+                                    <div className="text-xs text-muted-foreground">
+                                        {stop.orderNumber} · {stop.area}
+                                    </div>
+                                </div>
+                                <Badge variant={delivered ? 'secondary' : 'outline'}>
+                                    {ORDER_STATUS_LABELS[stop.status]}
+                                </Badge>
+                            </div>
+
+                            <div className="space-y-1 text-sm">
+                                {stop.address ? (
+                                    <a
+                                        href={`https://waze.com/ul?q=${encodeURIComponent(stop.address)}`}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="flex items-center gap-2 text-blue-700"
+                                    >
+                                        <MapPin className="h-4 w-4" />
+                                        {stop.address}
+                                    </a>
+                                ) : (
+                                    <div className="flex items-center gap-2 text-red-600">
+                                        <MapPin className="h-4 w-4" />
+                                        אין כתובת
+                                    </div>
+                                )}
+                                {stop.accessNotes && (
+                                    <div className="flex items-center gap-2">
+                                        <KeyRound className="h-4 w-4" />
+                                        {stop.accessNotes}
+                                    </div>
+                                )}
+                                {stop.phone && (
+                                    <a href={`tel:${stop.phone}`} className="flex items-center gap-2 text-blue-700">
+                                        <Phone className="h-4 w-4" />
+                                        <span dir="ltr">{stop.phone}</span>
+                                    </a>
+                                )}
+                                {timeWindow && (
+                                    <div className="flex items-center gap-2">
+                                        <Clock className="h-4 w-4" />
+                                        {timeWindow}
+                                    </div>
+                                )}
+                            </div>
+
+                            {stop.notes && (
+                                <p className="text-sm bg-yellow-50 rounded p-2">{stop.notes}</p>
+                            )}
+
+                            <div className="flex items-center justify-between">
+                                <span className="font-semibold">
+                                    {stop.amountDue > 0 ? `לגבייה: ${formatPrice(stop.amountDue)}` : 'שולם'}
+                                </span>
+                                <div className="flex gap-2">
+                                    {stop.amountDue > 0 && (
+                                        <Button variant="outline" onClick={() => setCollecting(stop)}>
+                                            <Wallet className="ml-2 h-4 w-4" />
+                                            נגבה
+                                        </Button>
+                                    )}
+                                    {stop.status === 'READY' && (
+                                        <Button onClick={() => markDelivered(stop)} disabled={updatingId === stop.id}>
+                                            {updatingId === stop.id
+                                                ? <Loader2 className="ml-2 h-4 w-4 animate-spin" />
+                                                : <CheckCircle className="ml-2 h-4 w-4" />}
+                                            סמן כנמסר
+                                        </Button>
+                                    )}
+                                </div>
+                            </div>
+                        </CardContent>
+                    </Card>
+                )
+            })}
+
+            {collecting && (
+                <PaymentDialog
+                    open={!!collecting}
+                    onOpenChange={(open) => !open && setCollecting(null)}
+                    orderId={collecting.id}
+                    orderNumber={collecting.orderNumber}
+                    amountDue={collecting.amountDue}
+                    onRecorded={(summary) => setOrders(current => current.map(o =>
+                        o.id === collecting.id ? { ...o, amountDue: summary.amountDue } : o
+                    ))}
+                />
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,453 @@
+// app/(dashboard)/deliveries/page.tsx
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { he } from 'date-fns/locale'
+import { Download, GripVertical, Loader2, MapPinned, Plus, Save, Trash2, Truck, X } from 'lucide-react'
+import { fetchWithAuth } from '@/lib/api/fetch-with-auth'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table'
+import { LoadingSpinner } from '@/components/shared/loading-spinner'
+import { useToast } from '@/lib/hooks/use-toast'
+import { fromDateKey } from '@/lib/utils/delivery-schedule'
+import {
+    arrangeStops,
+    DELIVERY_ROUTE_SORT_LABELS,
+    groupOrdersByArea,
+    NO_AREA
+} from '@/lib/utils/delivery-routes'
+import { ORDER_STATUS_LABELS } from '@/lib/utils/order-status'
+import type { DeliveryOrder, DeliveryRoute, DeliveryStop } from '@/lib/types/firestore'
+
+// The stop being dragged: its route and its place in the driving order
+interface DragSource {
+    routeId: string
+    index: number
+}
+
+const newRoute = (name: string, stops: DeliveryStop[] = []): DeliveryRoute => ({
+    id: crypto.randomUUID(),
+    name,
+    driverName: null,
+    sortBy: 'AREA',
+    stops
+})
+
+const toStop = (orderId: string): DeliveryStop => ({ orderId, windowStart: null, windowEnd: null })
+
+export default function DeliveryRoutesPage() {
+    const { toast } = useToast()
+    const [date, setDate] = useState<string | null>(null)
+    const [orders, setOrders] = useState<DeliveryOrder[]>([])
+    const [routes, setRoutes] = useState<DeliveryRoute[]>([])
+    const [loading, setLoading] = useState(true)
+    const [saving, setSaving] = useState(false)
+    const [dragSource, setDragSource] = useState<DragSource | null>(null)
+
+    const orderMap = useMemo(() => new Map(orders.map(order => [order.id, order])), [orders])
+
+    const assignedIds = useMemo(
+        () => new Set(routes.flatMap(route => route.stops.map(stop => stop.orderId))),
+        [routes]
+    )
+    const unassigned = orders.filter(order => !assignedIds.has(order.id))
+    const unassignedReady = unassigned.filter(order => order.status === 'READY')
+    const notReadyCount = unassigned.filter(order => order.status !== 'READY' && order.status !== 'DELIVERED').length
+
+    useEffect(() => {
+        const fetchDeliveries = async () => {
+            try {
+                const response = await fetchWithAuth('/api/deliveries')
+                if (!response.ok) throw new Error('Failed to fetch deliveries')
+
+                const data = await response.json()
+                setDate(data.date)
+                setOrders(data.orders)
+                setRoutes(data.routes)
+            } catch (error) {
+                toast({
+                    title: 'שגיאה',
+                    description: 'לא ניתן לטעון את המשלוחים',
+                    variant: 'destructive'
+                })
+            } finally {
+                setLoading(false)
+            }
+        }
+
+        fetchDeliveries()
+    }, [])
+
+    const updateRoute = (routeId: string, updates: Partial<DeliveryRoute>) => {
+        setRoutes(current => current.map(route => route.id === routeId ? { ...route, ...updates } : route))
+    }
+
+    const updateStop = (routeId: string, orderId: string, updates: Partial<DeliveryStop>) => {
+        setRoutes(current => current.map(route => route.id !== routeId ? route : {
+            ...route,
+            stops: route.stops.map(stop => stop.orderId === orderId ? { ...stop, ...updates } : stop)
+        }))
+    }
+
+    const assignOrder = (orderId: string, routeId: string) => {
+        setRoutes(current => current.map(route => route.id === routeId
+            ? { ...route, stops: [...route.stops, toStop(orderId)] }
+            : route))
+    }
+
+    const removeStop = (routeId: string, orderId: string) => {
+        setRoutes(current => current.map(route => route.id === routeId
+            ? { ...route, stops: route.stops.filter(stop => stop.orderId !== orderId) }
+            : route))
+    }
+
+    const removeRoute = (route: DeliveryRoute) => {
+        if (route.stops.length > 0 && !confirm(`למחוק את המסלול "${route.name}"? ההזמנות בו יחזרו לרשימת הלא משובצות`)) return
+        setRoutes(current => current.filter(r => r.id !== route.id))
+    }
+
+    const addRoute = () => {
+        setRoutes(current => [...current, newRoute(`מסלול ${current.length + 1}`)])
+    }
+
+    // Every area's unassigned ready orders join the route of that name, or a new one
+    const groupByArea = () => {
+        setRoutes(current => {
+            const next = [...current]
+            groupOrdersByArea(unassignedReady).forEach(({ area, orders: areaOrders }) => {
+                const stops = areaOrders.map(order => toStop(order.id))
+                const index = next.findIndex(route => route.name === area)
+                if (index >= 0) {
+                    next[index] = { ...next[index], stops: [...next[index].stops, ...stops] }
+                } else {
+                    next.push(newRoute(area, stops))
+                }
+            })
+            return next
+        })
+    }
+
+    // Dropping a stop fixes the route's order as it is now shown, with the stop in its new place
+    const handleDrop = (target: DragSource) => {
+        if (!dragSource) return
+        const source = dragSource
+        setDragSource(null)
+        if (source.routeId === target.routeId && source.index === target.index) return
+
+        setRoutes(current => {
+            const sourceRoute = current.find(route => route.id === source.routeId)
+            if (!sourceRoute) return current
+            const moved = arrangeStops(sourceRoute, orderMap)[source.index]
+
+            return current.map(route => {
+                const stops = arrangeStops(route, orderMap).filter(stop => stop.orderId !== moved.orderId)
+                if (route.id === target.routeId) {
+                    stops.splice(target.index, 0, moved)
+                    return { ...route, sortBy: 'MANUAL', stops }
+                }
+                return route.id === source.routeId ? { ...route, stops } : route
+            })
+        })
+    }
+
+    const handleSave = async () => {
+        if (!date) return
+
+        setSaving(true)
+        try {
+            const response = await fetchWithAuth(`/api/deliveries/${date}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ routes })
+            })
+            const data = await response.json()
+            if (!response.ok) {
+                throw new Error(data.details?.[0]?.message || data.error || 'Failed to save delivery routes')
+            }
+
+            setRoutes(data.routes)
+            toast({
+                title: 'המסלולים נשמרו',
+                description: `${routes.length} מסלולים ל-${format(fromDateKey(date), 'dd/MM')}`
+            })
+        } catch (error) {
+            toast({
+                title: 'שגיאה',
+                description: error instanceof Error ? error.message : 'לא ניתן לשמור את המסלולים',
+                variant: 'destructive'
+            })
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    if (loading) return <LoadingSpinner />
+
+    if (!date) {
+        return (
+            <div className="p-6 text-center text-muted-foreground" dir="rtl">
+                אין יום משלוח קרוב בלוח המשלוחים
+            </div>
+        )
+    }
+
+    return (
+        <div className="p-6 space-y-6" dir="rtl">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+                <div>
+                    <h1 className="text-3xl font-bold">מסלולי משלוח</h1>
+                    <p className="text-muted-foreground">
+                        {format(fromDateKey(date), 'EEEE, dd בMMMM yyyy', { locale: he })}
+                    </p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                    <Link href="/deliveries/manifest">
+                        <Button variant="outline">
+                            <Truck className="ml-2 h-4 w-4" />
+                            רשימת שליח
+                        </Button>
+                    </Link>
+                    <Button variant="outline" onClick={groupByArea} disabled={unassignedReady.length === 0}>
+                        <MapPinned className="ml-2 h-4 w-4" />
+                        חלק לפי אזור
+                    </Button>
+                    <Button variant="outline" onClick={addRoute}>
+                        <Plus className="ml-2 h-4 w-4" />
+                        מסלול חדש
+                    </Button>
+                    <Button onClick={handleSave} disabled={saving}>
+                        {saving
+                            ? <Loader2 className="ml-2 h-4 w-4 animate-spin" />
+                            : <Save className="ml-2 h-4 w-4" />}
+                        שמור
+                    </Button>
+                </div>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>הזמנות מוכנות שלא שובצו</CardTitle>
+                    <CardDescription>
+                        {notReadyCount > 0
+                            ? `${notReadyCount} הזמנות נוספות עדיין לא מוכנות ויופיעו כאן כשיסומנו כמוכנות`
+                            : 'כל ההזמנות של היום מוכנות'}
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {unassignedReady.length === 0 ? (
+                        <p className="text-center text-muted-foreground py-4">אין הזמנות מוכנות שממתינות לשיבוץ</p>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead className="text-right">הזמנה</TableHead>
+                                    <TableHead className="text-right">כתובת</TableHead>
+                                    <TableHead className="text-right">אזור</TableHead>
+                                    <TableHead className="text-right">שבץ למסלול</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {unassignedReady.map(order => (
+                                    <TableRow key={order.id}>
+                                        <TableCell>
+                                            <div className="font-medium">{order.customerName}</div>
+                                            <div className="text-xs text-muted-foreground">{order.orderNumber}</div>
+                                        </TableCell>
+                                        <TableCell>{order.address || <span className="text-red-600">אין כתובת</span>}</TableCell>
+                                        <TableCell>{order.area}</TableCell>
+                                        <TableCell>
+                                            <Select
+                                                value=""
+                                                onValueChange={(routeId) => assignOrder(order.id, routeId)}
+                                                disabled={routes.length === 0}
+                                            >
+                                                <SelectTrigger className="w-44">
+                                                    <SelectValue placeholder="בחר מסלול" />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    {routes.map(route => (
+                                                        <SelectItem key={route.id} value={route.id}>{route.name}</SelectItem>
+                                                    ))}
+                                                </SelectContent>
+                                            </Select>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+
+            {routes.length === 0 && (
+                <p className="text-center text-muted-foreground">
+                    אין מסלולים עדיין. צור מסלול חדש או חלק את ההזמנות לפי אזור.
+                </p>
+            )}
+
+            {routes.map(route => {
+                const stops = arrangeStops(route, orderMap)
+                const pendingStops = stops.filter(stop => orderMap.get(stop.orderId)?.status !== 'DELIVERED').length
+
+                return (
+                    <Card key={route.id}>
+                        <CardHeader>
+                            <div className="flex flex-wrap items-end gap-4">
+                                <div className="space-y-1">
+                                    <Label>שם המסלול</Label>
+                                    <Input
+                                        value={route.name}
+                                        onChange={(e) => updateRoute(route.id, { name: e.target.value })}
+                                        className="w-48"
+                                    />
+                                </div>
+                                <div className="space-y-1">
+                                    <Label>שליח</Label>
+                                    <Input
+                                        value={route.driverName || ''}
+                                        onChange={(e) => updateRoute(route.id, { driverName: e.target.value || null })}
+                                        className="w-40"
+                                    />
+                                </div>
+                                <div className="space-y-1">
+                                    <Label>סדר עצירות</Label>
+                                    <Select
+                                        value={route.sortBy}
+                                        onValueChange={(sortBy) => updateRoute(route.id, {
+                                            sortBy: sortBy as DeliveryRoute['sortBy'],
+                                            // Switching to manual starts from the order shown now
+                                            stops: sortBy === 'MANUAL' ? stops : route.stops
+                                        })}
+                                    >
+                                        <SelectTrigger className="w-32">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {Object.entries(DELIVERY_ROUTE_SORT_LABELS).map(([value, label]) => (
+                                                <SelectItem key={value} value={value}>{label}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                                <div className="flex-1 text-sm text-muted-foreground">
+                                    {stops.length} עצירות · {pendingStops} ממתינות למסירה
+                                </div>
+                                <a href={`/api/deliveries/${date}/export?route=${route.id}&format=xlsx`}>
+                                    <Button variant="ghost" size="icon" title="ייצוא רשימת שליח">
+                                        <Download className="h-4 w-4" />
+                                    </Button>
+                                </a>
+                                <Button variant="ghost" size="icon" onClick={() => removeRoute(route)}>
+                                    <Trash2 className="h-4 w-4 text-red-600" />
+                                </Button>
+                            </div>
+                        </CardHeader>
+                        <CardContent
+                            onDragOver={(e) => e.preventDefault()}
+                            onDrop={() => stops.length === 0 && handleDrop({ routeId: route.id, index: 0 })}
+                        >
+                            {stops.length === 0 ? (
+                                <p className="text-center text-muted-foreground py-4 border border-dashed rounded-md">
+                                    גרור לכאן הזמנות ממסלול אחר או שבץ הזמנות מהרשימה
+                                </p>
+                            ) : (
+                                <Table>
+                                    <TableHeader>
+                                        <TableRow>
+                                            <TableHead className="w-8" />
+                                            <TableHead className="text-right w-8">#</TableHead>
+                                            <TableHead className="text-right">הזמנה</TableHead>
+                                            <TableHead className="text-right">כתובת</TableHead>
+                                            <TableHead className="text-right">חלון זמן</TableHead>
+                                            <TableHead className="text-right">סטטוס</TableHead>
+                                            <TableHead />
+                                        </TableRow>
+                                    </TableHeader>
+                                    <TableBody>
+                                        {stops.map((stop, index) => {
+                                            const order = orderMap.get(stop.orderId)
+                                            return (
+                                                <TableRow
+                                                    key={stop.orderId}
+                                                    draggable
+                                                    onDragStart={() => setDragSource({ routeId: route.id, index })}
+                                                    onDragEnd={() => setDragSource(null)}
+                                                    onDragOver={(e) => e.preventDefault()}
+                                                    onDrop={(e) => {
+                                                        e.stopPropagation()
+                                                        handleDrop({ routeId: route.id, index })
+                                                    }}
+                                                    className="cursor-move"
+                                                >
+                                                    <TableCell>
+                                                        <GripVertical className="h-4 w-4 text-muted-foreground" />
+                                                    </TableCell>
+                                                    <TableCell>{index + 1}</TableCell>
+                                                    <TableCell>
+                                                        <div className="font-medium">{order?.customerName || 'הזמנה לא נמצאה'}</div>
+                                                        <div className="text-xs text-muted-foreground">{order?.orderNumber}</div>
+                                                    </TableCell>
+                                                    <TableCell>
+                                                        <div>{order?.address || <span className="text-red-600">אין כתובת</span>}</div>
+                                                        <div className="text-xs text-muted-foreground">{order?.area || NO_AREA}</div>
+                                                    </TableCell>
+                                                    <TableCell>
+                                                        <div className="flex items-center gap-1">
+                                                            <Input
+                                                                type="time"
+                                                                value={stop.windowStart || ''}
+                                                                onChange={(e) => updateStop(route.id, stop.orderId, { windowStart: e.target.value || null })}
+                                                                className="w-28"
+                                                            />
+                                                            <span>–</span>
+                                                            <Input
+                                                                type="time"
+                                                                value={stop.windowEnd || ''}
+                                                                onChange={(e) => updateStop(route.id, stop.orderId, { windowEnd: e.target.value || null })}
+                                                                className="w-28"
+                                                            />
+                                                        </div>
+                                                    </TableCell>
+                                                    <TableCell>
+                                                        {order && (
+                                                            <Badge variant={order.status === 'DELIVERED' ? 'secondary' : 'outline'}>
+                                                                {ORDER_STATUS_LABELS[order.status]}
+                                                            </Badge>
+                                                        )}
+                                                    </TableCell>
+                                                    <TableCell>
+                                                        <Button
+                                                            variant="ghost"
+                                                            size="icon"
+                                                            onClick={() => removeStop(route.id, stop.orderId)}
+                                                        >
+                                                            <X className="h-4 w-4" />
+                                                        </Button>
+                                                    </TableCell>
+                                                </TableRow>
+                                            )
+                                        })}
+                                    </TableBody>
+                                </Table>
+                            )}
+                        </CardContent>
+                    </Card>
+                )
+            })}
+        </div>
+    )
+}
@@ -20,6 +20,8 @@ import {
 import { Switch } from '@/components/ui/switch'
 import { LoadingSpinner } from '@/components/shared/loading-spinner'
 import { useToast } from '@/lib/hooks/use-toast'
+import { AllergenSelect } from '@/components/dishes/allergen-select'
+import { parseIngredientList } from '@/lib/utils/allergens'
 import type { Dish } from '@/lib/types/database'
 
 interface FormData {
@@ -28,6 +30,8 @@ interface FormData {
     price: string
     category: string
     isAvailable: boolean
+    allergens: string[]
+    ingredients: string
 }
 
 interface FormErrors {
@@ -58,7 +62,9 @@ export default function EditDishPage() {
         description: '',
         price: '',
         category: '',
-        isAvailable: true
+        isAvailable: true,
+        allergens: [],
+        ingredients: ''
     })
     const [errors, setErrors] = useState<FormErrors>({})
 
@@ -78,7 +84,9 @@ export default function EditDishPage() {
                 description: data.description || '',
                 price: data.price.toString(),
                 category: data.category,
-                isAvailable: data.isAvailable
+                isAvailable: data.isAvailable,
+                allergens: data.allergens || [],
+                ingredients: (data.ingredients || []).join(', ')
             })
         } catch (error) {
             toast({
@@ -128,7 +136,9 @@ export default function EditDishPage() {
                     description: formData.description.trim() || undefined,
                     price: Number(formData.price),
                     category: formData.category,
-                    isAvailable: formData.isAvailable
+                    isAvailable: formData.isAvailable,
+                    allergens: formData.allergens,
+                    ingredients: parseIngredientList(formData.ingredients)
                 })
             })
 
@@ -247,6 +257,28 @@ export default function EditDishPage() {
                             </div>
                         </div>
 
+                        <div className="grid gap-2">
+                            <Label htmlFor="ingredients">רכיבים</Label>
+                            <Textarea
+                                id="ingredients"
+                                value={formData.ingredients}
+                                onChange={(e) => setFormData({ ...formData, ingredients: e.target.value })}
+                                placeholder="מופרדים בפסיקים, לדוגמה: עוף, פירורי לחם, ביצים"
+                                rows={2}
+                            />
+                        </div>
+
+                        <div className="grid gap-2">
+                            <Label>אלרגנים</Label>
+                            <AllergenSelect
+                                value={formData.allergens}
+                                onChange={(allergens) => setFormData({ ...formData, allergens })}
+                            />
+                            <span className="text-xs text-muted-foreground">
+                                הזמנות של לקוחות עם אלרגיה תואמת יסומנו אוטומטית
+                            </span>
+                        </div>
+
                         <div className="flex items-center space-x-2 space-x-reverse">
                             <Switch
                                 id="available"
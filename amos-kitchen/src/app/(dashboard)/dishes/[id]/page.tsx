@@ -199,6 +199,26 @@ export default function DishDetailsPage() {
                                 </div>
                                 <p>{dish.description || 'אין תיאור'}</p>
                             </div>
+                            <div>
+                                <div className="text-sm font-medium text-muted-foreground mb-1">
+                                    רכיבים
+                                </div>
+                                <p>{dish.ingredients?.length ? dish.ingredients.join(', ') : 'לא הוגדרו רכיבים'}</p>
+                            </div>
+                            <div>
+                                <div className="text-sm font-medium text-muted-foreground mb-1">
+                                    אלרגנים
+                                </div>
+                                {dish.allergens?.length ? (
+                                    <div className="flex flex-wrap gap-1">
+                                        {dish.allergens.map(allergen => (
+                                            <Badge key={allergen} variant="destructive">{allergen}</Badge>
+                                        ))}
+                                    </div>
+                                ) : (
+                                    <p>ללא אלרגנים מוצהרים</p>
+                                )}
+                            </div>
                             <div>
                                 <div className="text-sm font-medium text-muted-foreground mb-1">
                                     סטטוס
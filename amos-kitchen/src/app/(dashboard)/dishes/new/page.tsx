@@ -19,6 +19,8 @@ import {
 } from '@/components/ui/select'
 import { Switch } from '@/components/ui/switch'
 import { useToast } from '@/lib/hooks/use-toast'
+import { AllergenSelect } from '@/components/dishes/allergen-select'
+import { parseIngredientList } from '@/lib/utils/allergens'
 import type { Dish } from '@/lib/types/database'
 
 interface FormData {
@@ -27,6 +29,8 @@ interface FormData {
     price: string
     category: string
     isAvailable: boolean
+    allergens: string[]
+    ingredients: string
 }
 
 interface FormErrors {
@@ -53,7 +57,9 @@ export default function NewDishPage() {
         description: '',
         price: '',
         category: '',
-        isAvailable: true
+        isAvailable: true,
+        allergens: [],
+        ingredients: ''
     })
     const [errors, setErrors] = useState<FormErrors>({})
 
@@ -93,7 +99,9 @@ export default function NewDishPage() {
                     description: formData.description.trim() || undefined,
                     price: Number(formData.price),
                     category: formData.category,
-                    isAvailable: formData.isAvailable
+                    isAvailable: formData.isAvailable,
+                    allergens: formData.allergens,
+                    ingredients: parseIngredientList(formData.ingredients)
                 })
             })
 
@@ -211,6 +219,28 @@ export default function NewDishPage() {
                             </div>
                         </div>
 
+                        <div className="grid gap-2">
+                            <Label htmlFor="ingredients">רכיבים</Label>
+                            <Textarea
+                                id="ingredients"
+                                value={formData.ingredients}
+                                onChange={(e) => setFormData({ ...formData, ingredients: e.target.value })}
+                                placeholder="מופרדים בפסיקים, לדוגמה: עוף, פירורי לחם, ביצים"
+                                rows={2}
+                            />
+                        </div>
+
+                        <div className="grid gap-2">
+                            <Label>אלרגנים</Label>
+                            <AllergenSelect
+                                value={formData.allergens}
+                                onChange={(allergens) => setFormData({ ...formData, allergens })}
+                            />
+                            <span className="text-xs text-muted-foreground">
+                                הזמנות של לקוחות עם אלרגיה תואמת יסומנו אוטומטית
+                            </span>
+                        </div>
+
                         <div className="flex items-center space-x-2 space-x-reverse">
                             <Switch
                                 id="available"
@@ -13,7 +13,7 @@ export default function DashboardLayout({
 }: {
     children: React.ReactNode;
 }) {
-    const { user, loading } = useAuth();
+    const { user, loading, role } = useAuth();
     const [sidebarOpen, setSidebarOpen] = useState(false);
 
     useEffect(() => {
@@ -47,7 +47,14 @@ export default function DashboardLayout({
                 />
                 <main className="flex-1 lg:pr-64">
                     <div className="p-4 lg:p-8">
-                        {children}
+                        {role ? children : (
+                            <div className="flex flex-col items-center justify-center gap-2 py-24 text-center">
+                                <h2 className="text-xl font-semibold">החשבון ממתין להרשאה</h2>
+                                <p className="text-muted-foreground">
+                                    בעלי העסק צריכים להקצות לך תפקיד לפני שניתן להשתמש במערכת
+                                </p>
+                            </div>
+                        )}
                     </div>
                 </main>
             </div>
@@ -0,0 +1,385 @@
+// app/(dashboard)/menu/page.tsx
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { addDays, format } from 'date-fns'
+import { he } from 'date-fns/locale'
+import { Copy, Loader2, Save, Trash2 } from 'lucide-react'
+import { fetchWithAuth } from '@/lib/api/fetch-with-auth'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table'
+import { LoadingSpinner } from '@/components/shared/loading-spinner'
+import { useToast } from '@/lib/hooks/use-toast'
+import { DEFAULT_DELIVERY_SCHEDULE, fromDateKey, getDeliveryDaysInRange, toDateKey } from '@/lib/utils/delivery-schedule'
+import type { Dish } from '@/lib/types/database'
+import type { DeliverySchedule, Menu } from '@/lib/types/firestore'
+
+// One dish row of the planner; prices and limits are kept as typed until saving
+interface DraftLine {
+    selected: boolean
+    specialPrice: string
+    maxPortions: string
+}
+
+const EMPTY_LINE: DraftLine = { selected: false, specialPrice: '', maxPortions: '' }
+
+// Delivery days offered in the planner, around today
+const PLAN_DAYS_BACK = 14
+const PLAN_DAYS_AHEAD = 56
+// How far back to look for a menu to copy
+const COPY_DAYS_BACK = 56
+
+const CATEGORY_LABELS: Record<string, string> = {
+    appetizer: 'מנה ראשונה',
+    main: 'מנה עיקרית',
+    side: 'תוספת',
+    dessert: 'קינוח',
+    beverage: 'משקה'
+}
+
+const formatDateKey = (key: string) => format(fromDateKey(key), 'EEEE, dd בMMMM yyyy', { locale: he })
+
+const toDraft = (menu: Pick<Menu, 'items'> | null): Record<string, DraftLine> => Object.fromEntries(
+    (menu?.items || []).map(item => [item.dishId, {
+        selected: true,
+        specialPrice: item.specialPrice === null ? '' : String(item.specialPrice),
+        maxPortions: item.maxPortions === null ? '' : String(item.maxPortions)
+    }])
+)
+
+export default function MenuPlannerPage() {
+    const { toast } = useToast()
+    const [schedule, setSchedule] = useState<DeliverySchedule>(DEFAULT_DELIVERY_SCHEDULE)
+    const [dishes, setDishes] = useState<Dish[]>([])
+    const [menus, setMenus] = useState<Record<string, Menu>>({})
+    const [date, setDate] = useState<string | null>(null)
+    const [draft, setDraft] = useState<Record<string, DraftLine>>({})
+    const [notes, setNotes] = useState('')
+    const [loading, setLoading] = useState(true)
+    const [saving, setSaving] = useState(false)
+    const [copying, setCopying] = useState(false)
+
+    const today = useMemo(() => new Date(), [])
+    const range = useMemo(() => ({
+        from: toDateKey(addDays(today, -PLAN_DAYS_BACK)),
+        to: toDateKey(addDays(today, PLAN_DAYS_AHEAD))
+    }), [today])
+
+    const dateOptions = useMemo(
+        () => getDeliveryDaysInRange(schedule, fromDateKey(range.from), fromDateKey(range.to)).map(toDateKey),
+        [schedule, range]
+    )
+
+    useEffect(() => {
+        const fetchData = async () => {
+            try {
+                const [scheduleResponse, dishesResponse, menusResponse] = await Promise.all([
+                    fetchWithAuth('/api/settings/delivery-schedule'),
+                    fetchWithAuth('/api/dishes'),
+                    fetchWithAuth(`/api/menus?from=${range.from}&to=${range.to}`)
+                ])
+                if (!dishesResponse.ok || !menusResponse.ok) throw new Error('Failed to load menu planner')
+
+                const loadedSchedule: DeliverySchedule = scheduleResponse.ok
+                    ? await scheduleResponse.json()
+                    : DEFAULT_DELIVERY_SCHEDULE
+                const loadedMenus: Menu[] = await menusResponse.json()
+                const menusByDate = Object.fromEntries(loadedMenus.map(menu => [menu.date, menu]))
+                setSchedule(loadedSchedule)
+                setDishes((await dishesResponse.json() as Dish[])
+                    .map(dish => ({ ...dish, price: Number(dish.price) }))
+                    .sort((a, b) => a.category.localeCompare(b.category) || a.name.localeCompare(b.name, 'he')))
+                setMenus(menusByDate)
+
+                // Start from the next delivery day
+                const todayKey = toDateKey(today)
+                const upcoming = getDeliveryDaysInRange(loadedSchedule, today, fromDateKey(range.to))
+                    .map(toDateKey)
+                    .find(key => key >= todayKey)
+                if (upcoming) {
+                    selectDate(upcoming, menusByDate)
+                }
+            } catch (error) {
+                toast({
+                    title: 'שגיאה',
+                    description: 'לא ניתן לטעון את תכנון התפריט',
+                    variant: 'destructive'
+                })
+            } finally {
+                setLoading(false)
+            }
+        }
+
+        fetchData()
+    }, [])
+
+    const selectDate = (key: string, source: Record<string, Menu> = menus) => {
+        setDate(key)
+        setDraft(toDraft(source[key] || null))
+        setNotes(source[key]?.notes || '')
+    }
+
+    const updateLine = (dishId: string, updates: Partial<DraftLine>) => {
+        setDraft(current => ({
+            ...current,
+            [dishId]: { ...(current[dishId] || EMPTY_LINE), ...updates }
+        }))
+    }
+
+    // Copy the most recent menu before the selected day, to adjust from there
+    const handleCopyPrevious = async () => {
+        if (!date) return
+
+        setCopying(true)
+        try {
+            const from = toDateKey(addDays(fromDateKey(date), -COPY_DAYS_BACK))
+            const to = toDateKey(addDays(fromDateKey(date), -1))
+            const response = await fetchWithAuth(`/api/menus?from=${from}&to=${to}`)
+            if (!response.ok) throw new Error('Failed to fetch menus')
+
+            const previous: Menu[] = await response.json()
+            const source = previous[previous.length - 1]
+            if (!source) {
+                toast({
+                    title: 'לא נמצא תפריט קודם',
+                    description: `אין תפריטים ב-${COPY_DAYS_BACK / 7} השבועות שלפני יום זה`
+                })
+                return
+            }
+
+            setDraft(toDraft(source))
+            setNotes(source.notes || '')
+            toast({
+                title: 'התפריט הועתק',
+                description: `מ${formatDateKey(source.date)}. יש לשמור כדי להחיל אותו`
+            })
+        } catch (error) {
+            toast({
+                title: 'שגיאה',
+                description: 'לא ניתן להעתיק את התפריט הקודם',
+                variant: 'destructive'
+            })
+        } finally {
+            setCopying(false)
+        }
+    }
+
+    const selectedIds = dishes.filter(dish => draft[dish.id]?.selected).map(dish => dish.id)
+
+    const handleSave = async () => {
+        if (!date || selectedIds.length === 0) return
+
+        setSaving(true)
+        try {
+            const response = await fetchWithAuth(`/api/menus/${date}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    items: selectedIds.map(dishId => ({
+                        dishId,
+                        specialPrice: draft[dishId].specialPrice === '' ? null : Number(draft[dishId].specialPrice),
+                        maxPortions: draft[dishId].maxPortions === '' ? null : parseInt(draft[dishId].maxPortions)
+                    })),
+                    notes: notes || null
+                })
+            })
+
+            const data = await response.json().catch(() => ({}))
+            if (!response.ok) {
+                throw new Error(data.details?.[0]?.message || data.error || 'שמירת התפריט נכשלה')
+            }
+
+            setMenus(current => ({ ...current, [date]: data }))
+            toast({
+                title: 'התפריט נשמר',
+                description: `${selectedIds.length} מנות ל${formatDateKey(date)}`
+            })
+        } catch (error) {
+            toast({
+                title: 'שגיאה',
+                description: error instanceof Error ? error.message : 'שמירת התפריט נכשלה',
+                variant: 'destructive'
+            })
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    const handleDelete = async () => {
+        if (!date || !menus[date]) return
+        if (!confirm('להסיר את התפריט? ביום זה יוצעו כל המנות הזמינות.')) return
+
+        setSaving(true)
+        try {
+            const response = await fetchWithAuth(`/api/menus/${date}`, { method: 'DELETE' })
+            if (!response.ok) throw new Error('Failed to delete menu')
+
+            setMenus(current => {
+                const next = { ...current }
+                delete next[date]
+                return next
+            })
+            setDraft({})
+            setNotes('')
+        } catch (error) {
+            toast({
+                title: 'שגיאה',
+                description: 'לא ניתן להסיר את התפריט',
+                variant: 'destructive'
+            })
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    if (loading) return <LoadingSpinner />
+
+    return (
+        <div className="p-6 space-y-6" dir="rtl">
+            <div className="flex flex-wrap items-end justify-between gap-4">
+                <div>
+                    <h1 className="text-3xl font-bold">תכנון תפריט</h1>
+                    <p className="text-muted-foreground">
+                        בחר אילו מנות מוצעות בכל יום משלוח, עם מחיר מיוחד ומגבלת מנות לפי הצורך
+                    </p>
+                </div>
+                <div className="space-y-1">
+                    <Label>יום משלוח</Label>
+                    <Select value={date || ''} onValueChange={(value) => selectDate(value)}>
+                        <SelectTrigger className="w-72">
+                            <SelectValue placeholder="אין ימי משלוח בטווח" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {dateOptions.map(option => (
+                                <SelectItem key={option} value={option}>
+                                    {formatDateKey(option)}{menus[option] ? ' ✓' : ''}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+            </div>
+
+            {date && (
+                <Card>
+                    <CardHeader>
+                        <div className="flex flex-wrap items-center justify-between gap-2">
+                            <div>
+                                <CardTitle>{formatDateKey(date)}</CardTitle>
+                                <CardDescription>
+                                    {menus[date]
+                                        ? `${menus[date].items.length} מנות בתפריט`
+                                        : 'אין תפריט ליום זה, ולכן מוצעות בו כל המנות הזמינות'}
+                                </CardDescription>
+                            </div>
+                            <div className="flex gap-2">
+                                <Button variant="outline" onClick={handleCopyPrevious} disabled={copying || saving}>
+                                    {copying ? <Loader2 className="h-4 w-4 ml-2 animate-spin" /> : <Copy className="h-4 w-4 ml-2" />}
+                                    העתק מהתפריט הקודם
+                                </Button>
+                                {menus[date] && (
+                                    <Button variant="outline" onClick={handleDelete} disabled={saving} className="text-red-600">
+                                        <Trash2 className="h-4 w-4 ml-2" />
+                                        הסר תפריט
+                                    </Button>
+                                )}
+                                <Button onClick={handleSave} disabled={saving || selectedIds.length === 0}>
+                                    {saving ? <Loader2 className="h-4 w-4 ml-2 animate-spin" /> : <Save className="h-4 w-4 ml-2" />}
+                                    שמור תפריט
+                                </Button>
+                            </div>
+                        </div>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead className="w-10" />
+                                    <TableHead className="text-right">מנה</TableHead>
+                                    <TableHead className="text-right">קטגוריה</TableHead>
+                                    <TableHead className="text-right">מחיר רגיל</TableHead>
+                                    <TableHead className="text-right">מחיר מיוחד</TableHead>
+                                    <TableHead className="text-right">מגבלת מנות</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {dishes.map(dish => {
+                                    const line = draft[dish.id]
+                                    return (
+                                        <TableRow key={dish.id} className={line?.selected ? undefined : 'text-muted-foreground'}>
+                                            <TableCell>
+                                                <Checkbox
+                                                    checked={!!line?.selected}
+                                                    onCheckedChange={(checked) => updateLine(dish.id, { selected: checked === true })}
+                                                />
+                                            </TableCell>
+                                            <TableCell className="font-medium">
+                                                {dish.name}
+                                                {!dish.isAvailable && (
+                                                    <Badge variant="secondary" className="mr-2 text-xs">לא זמין</Badge>
+                                                )}
+                                            </TableCell>
+                                            <TableCell>{CATEGORY_LABELS[dish.category] || dish.category}</TableCell>
+                                            <TableCell>₪{dish.price}</TableCell>
+                                            <TableCell>
+                                                <Input
+                                                    type="number"
+                                                    min="0"
+                                                    step="0.5"
+                                                    className="w-28"
+                                                    placeholder="רגיל"
+                                                    value={line?.specialPrice || ''}
+                                                    disabled={!line?.selected}
+                                                    onChange={(e) => updateLine(dish.id, { specialPrice: e.target.value })}
+                                                />
+                                            </TableCell>
+                                            <TableCell>
+                                                <Input
+                                                    type="number"
+                                                    min="1"
+                                                    className="w-28"
+                                                    placeholder="ללא"
+                                                    value={line?.maxPortions || ''}
+                                                    disabled={!line?.selected}
+                                                    onChange={(e) => updateLine(dish.id, { maxPortions: e.target.value })}
+                                                />
+                                            </TableCell>
+                                        </TableRow>
+                                    )
+                                })}
+                            </TableBody>
+                        </Table>
+
+                        <div className="space-y-2">
+                            <Label htmlFor="menu-notes">הערות לתפריט</Label>
+                            <Textarea
+                                id="menu-notes"
+                                value={notes}
+                                onChange={(e) => setNotes(e.target.value)}
+                                placeholder="לדוגמה: תפריט חג"
+                            />
+                        </div>
+
+                        <p className="text-sm text-muted-foreground">
+                            {selectedIds.length} מנות נבחרו. מנות שסומנו כלא זמינות לא יוצעו גם אם הן בתפריט.
+                        </p>
+                    </CardContent>
+                </Card>
+            )}
+        </div>
+    )
+}
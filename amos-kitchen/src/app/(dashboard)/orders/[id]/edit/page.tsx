@@ -18,27 +18,34 @@ import {
     SelectValue,
 } from '@/components/ui/select';
 import { LoadingSpinner } from '@/components/shared/loading-spinner';
+import { PriceAdjustmentInput } from '@/components/orders/price-adjustment-input';
 import { useToast } from '@/lib/hooks/use-toast';
-import type { Order, Customer, Dish } from '@/lib/types/database';
-
+import { calculateOrderPricing, getLineTotal } from '@/lib/utils/pricing';
+import { toBusinessDateKey } from '@/lib/utils/delivery-schedule';
+import {
+    getAllowedTransitions,
+    normalizeOrderStatus,
+    requiresStatusReason,
+    ORDER_STATUS_LABELS
+} from '@/lib/utils/order-status';
+import type { Order, OrderStatus, Customer, Dish, PriceAdjustment } from '@/lib/types/database';
+
+// Prices aren't sent: the server keeps the price of dishes already on the order
+// and prices newly added dishes from the menu
 interface UpdateOrderInput {
-    status?: string;
+    status?: OrderStatus;
+    statusReason?: string;
     notes?: string;
     deliveryAddress?: string;
-    items?: {
-        id?: string;
-        dishId: string;
-        quantity: number;
-        price: number;
-        notes?: string;
-    }[];
+    items?: OrderItemInput[];
+    discount?: PriceAdjustment | null;
+    deliveryFee?: number;
 }
 
 type OrderItemInput = {
-    id?: string;
     dishId: string;
     quantity: number;
-    price: number;
+    discount?: PriceAdjustment | null;
     notes?: string;
 }
 
@@ -50,15 +57,20 @@ export default function EditOrderPage() {
     const [order, setOrder] = useState<Order | null>(null);
     const [customer, setCustomer] = useState<Customer | null>(null);
     const [availableDishes, setAvailableDishes] = useState<Dish[]>([]);
-    const [items, setItems] = useState<UpdateOrderInput['items']>([]);
-    const [status, setStatus] = useState<string>('');
+    const [items, setItems] = useState<OrderItemInput[]>([]);
+    // Unit prices the order was placed at, by dish
+    const [snapshotPrices, setSnapshotPrices] = useState<Record<string, { name: string; price: number }>>({});
+    const [discount, setDiscount] = useState<PriceAdjustment | null>(null);
+    const [deliveryFee, setDeliveryFee] = useState(0);
+    const [status, setStatus] = useState<OrderStatus>('NEW');
+    const [statusReason, setStatusReason] = useState<string>('');
     const [notes, setNotes] = useState<string>('');
     const [deliveryAddress, setDeliveryAddress] = useState<string>('');
     const [loading, setLoading] = useState(true);
     const [saving, setSaving] = useState(false);
 
     useEffect(() => {
-        Promise.all([fetchOrder(), fetchDishes()]);
+        fetchOrder();
     }, [params.id]);
 
     const fetchOrder = async () => {
@@ -70,15 +82,21 @@ export default function EditOrderPage() {
             setOrder(data);
             setCustomer(data.customer);
             setItems(data.orderItems.map((item: any) => ({
-                id: item.id,
                 dishId: item.dishId,
                 quantity: item.quantity,
-                price: item.price,
+                discount: item.discount || null,
                 notes: item.notes || undefined,
             })));
-            setStatus(data.status);
+            setSnapshotPrices(Object.fromEntries(data.orderItems.map((item: any) => [
+                item.dishId,
+                { name: item.dishName || item.dish?.name, price: Number(item.price) }
+            ])));
+            setDiscount(data.discount || null);
+            setDeliveryFee(data.deliveryFee || 0);
+            setStatus(normalizeOrderStatus(data.status));
             setNotes(data.notes || '');
             setDeliveryAddress(data.deliveryAddress || data.customer.address || '');
+            await fetchDishes(toBusinessDateKey(new Date(data.deliveryDate)));
         } catch (error) {
             console.error('Error fetching order:', error);
             toast({
@@ -91,9 +109,10 @@ export default function EditOrderPage() {
         }
     };
 
-    const fetchDishes = async () => {
+    // Dishes offered on the order's delivery day, at that day's menu prices
+    const fetchDishes = async (deliveryDate: string) => {
         try {
-            const response = await fetchWithAuth('/api/dishes?available=true');
+            const response = await fetchWithAuth(`/api/dishes?deliveryDate=${deliveryDate}`);
             if (!response.ok) throw new Error('Failed to fetch dishes');
             const data = await response.json();
             setAvailableDishes(data);
@@ -103,14 +122,12 @@ export default function EditOrderPage() {
     };
 
     const handleUpdateItem = (index: number, updates: Partial<OrderItemInput>) => {
-        if (!items) return;
         const newItems = [...items];
         newItems[index] = { ...newItems[index], ...updates };
         setItems(newItems);
     };
 
     const handleRemoveItem = (index: number) => {
-        if (!items) return;
         const newItems = items.filter((_, i) => i !== index);
         setItems(newItems);
     };
@@ -120,18 +137,17 @@ export default function EditOrderPage() {
 
         const dish = availableDishes[0];
         setItems([
-            ...(items || []),
+            ...items,
             {
                 dishId: dish.id,
                 quantity: 1,
-                price: dish.price,
                 notes: '',
             },
         ]);
     };
 
     const handleSave = async () => {
-        if (!items || items.length === 0) {
+        if (items.length === 0) {
             toast({
                 title: 'שגיאה',
                 description: 'ההזמנה חייבת להכיל לפחות פריט אחד',
@@ -140,13 +156,26 @@ export default function EditOrderPage() {
             return;
         }
 
+        const statusChanged = !!order && status !== normalizeOrderStatus(order.status);
+        if (statusChanged && requiresStatusReason(status) && !statusReason.trim()) {
+            toast({
+                title: 'שגיאה',
+                description: 'יש לציין את סיבת הביטול',
+                variant: 'destructive',
+            });
+            return;
+        }
+
         setSaving(true);
         try {
             const requestBody: UpdateOrderInput = {
                 status,
+                statusReason: statusChanged ? statusReason.trim() || undefined : undefined,
                 notes: notes || undefined,
                 deliveryAddress: deliveryAddress || undefined,
-                items: items
+                items,
+                discount,
+                deliveryFee
             };
 
             const response = await fetchWithAuth(`/api/orders/${params.id}`, {
@@ -155,7 +184,10 @@ export default function EditOrderPage() {
                 body: JSON.stringify(requestBody),
             });
 
-            if (!response.ok) throw new Error('Failed to update order');
+            if (!response.ok) {
+                const error = await response.json().catch(() => ({}));
+                throw new Error(error.error || 'נכשל בעדכון ההזמנה');
+            }
 
             const updatedOrder: Order = await response.json();
             setOrder(updatedOrder);
@@ -170,7 +202,7 @@ export default function EditOrderPage() {
             console.error('Error saving order:', error);
             toast({
                 title: 'שגיאה',
-                description: 'נכשל בעדכון ההזמנה',
+                description: error instanceof Error ? error.message : 'נכשל בעדכון ההזמנה',
                 variant: 'destructive',
             });
         } finally {
@@ -178,11 +210,26 @@ export default function EditOrderPage() {
         }
     };
 
-    const calculateTotal = () => {
-        if (!items) return 0;
-        return items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
+    // Same rule as the server: dishes already on the order keep their price
+    const getUnitPrice = (dishId: string) => {
+        return snapshotPrices[dishId]?.price ?? availableDishes.find(d => d.id === dishId)?.price ?? 0;
     };
 
+    const pricedItems = items.map(item => ({ ...item, price: getUnitPrice(item.dishId) }));
+    const pricing = calculateOrderPricing(pricedItems, discount, deliveryFee);
+
+    // Only the statuses the order may move to from its saved status
+    const currentStatus = normalizeOrderStatus(order?.status);
+    const statusOptions = [currentStatus, ...getAllowedTransitions(currentStatus)];
+
+    // Dishes on the order that are no longer on the menu stay selectable
+    const dishOptions = [
+        ...availableDishes.map(dish => ({ id: dish.id, name: dish.name })),
+        ...Object.entries(snapshotPrices)
+            .filter(([dishId]) => !availableDishes.some(d => d.id === dishId))
+            .map(([dishId, snapshot]) => ({ id: dishId, name: snapshot.name }))
+    ];
+
     if (loading) {
         return <LoadingSpinner />;
     }
@@ -238,7 +285,7 @@ export default function EditOrderPage() {
                             </Button>
                         </CardHeader>
                         <CardContent className="space-y-4">
-                            {items && items.length > 0 ? (
+                            {items.length > 0 ? (
                                 items.map((item, index) => (
                                     <div key={index} className="flex gap-4 p-4 border rounded-lg">
                                         <div className="flex-1 space-y-4">
@@ -246,23 +293,15 @@ export default function EditOrderPage() {
                                                 <Label>מנה</Label>
                                                 <Select
                                                     value={item.dishId}
-                                                    onValueChange={(value) => {
-                                                        const dish = availableDishes.find(d => d.id === value);
-                                                        if (dish) {
-                                                            handleUpdateItem(index, {
-                                                                dishId: value,
-                                                                price: dish.price
-                                                            });
-                                                        }
-                                                    }}
+                                                    onValueChange={(value) => handleUpdateItem(index, { dishId: value })}
                                                 >
                                                     <SelectTrigger>
                                                         <SelectValue />
                                                     </SelectTrigger>
                                                     <SelectContent>
-                                                        {availableDishes.map(dish => (
+                                                        {dishOptions.map(dish => (
                                                             <SelectItem key={dish.id} value={dish.id}>
-                                                                {dish.name} - ₪{dish.price}
+                                                                {dish.name} - ₪{getUnitPrice(dish.id)}
                                                             </SelectItem>
                                                         ))}
                                                     </SelectContent>
@@ -282,13 +321,10 @@ export default function EditOrderPage() {
                                                     />
                                                 </div>
                                                 <div>
-                                                    <Label>מחיר ליחידה</Label>
-                                                    <Input
-                                                        type="number"
-                                                        value={item.price}
-                                                        onChange={(e) => handleUpdateItem(index, {
-                                                            price: parseFloat(e.target.value) || 0
-                                                        })}
+                                                    <Label>הנחה</Label>
+                                                    <PriceAdjustmentInput
+                                                        value={item.discount}
+                                                        onChange={(value) => handleUpdateItem(index, { discount: value })}
                                                     />
                                                 </div>
                                             </div>
@@ -303,6 +339,10 @@ export default function EditOrderPage() {
                                                     placeholder="הערות למנה"
                                                 />
                                             </div>
+
+                                            <div className="text-sm text-muted-foreground">
+                                                ₪{pricedItems[index].price} ליחידה · סה&quot;כ למנה ₪{getLineTotal(pricedItems[index]).toFixed(2)}
+                                            </div>
                                         </div>
 
                                         <Button
@@ -372,21 +412,32 @@ export default function EditOrderPage() {
                         <CardContent className="space-y-4">
                             <div>
                                 <Label>סטטוס</Label>
-                                <Select value={status} onValueChange={setStatus}>
+                                <Select value={status} onValueChange={(value) => setStatus(value as OrderStatus)}>
                                     <SelectTrigger>
                                         <SelectValue />
                                     </SelectTrigger>
                                     <SelectContent>
-                                        <SelectItem value="new">חדשה</SelectItem>
-                                        <SelectItem value="confirmed">אושרה</SelectItem>
-                                        <SelectItem value="preparing">בהכנה</SelectItem>
-                                        <SelectItem value="ready">מוכנה</SelectItem>
-                                        <SelectItem value="delivered">נמסרה</SelectItem>
-                                        <SelectItem value="cancelled">בוטלה</SelectItem>
+                                        {statusOptions.map(option => (
+                                            <SelectItem key={option} value={option}>
+                                                {ORDER_STATUS_LABELS[option]}
+                                            </SelectItem>
+                                        ))}
                                     </SelectContent>
                                 </Select>
                             </div>
 
+                            {status === 'CANCELLED' && status !== currentStatus && (
+                                <div>
+                                    <Label>סיבת ביטול *</Label>
+                                    <Textarea
+                                        value={statusReason}
+                                        onChange={(e) => setStatusReason(e.target.value)}
+                                        placeholder="למה ההזמנה מבוטלת?"
+                                        rows={2}
+                                    />
+                                </div>
+                            )}
+
                             <div>
                                 <Label>כתובת משלוח</Label>
                                 <Input
@@ -396,11 +447,56 @@ export default function EditOrderPage() {
                                 />
                             </div>
 
-                            <div className="pt-4 border-t">
+                            <div>
+                                <Label>הנחה להזמנה</Label>
+                                <PriceAdjustmentInput
+                                    value={discount}
+                                    onChange={(value) => setDiscount(value && { ...value, reason: discount?.reason || null })}
+                                />
+                            </div>
+
+                            {discount && (
+                                <div>
+                                    <Label>סיבת ההנחה</Label>
+                                    <Input
+                                        value={discount.reason || ''}
+                                        onChange={(e) => setDiscount({ ...discount, reason: e.target.value })}
+                                        placeholder="למשל: לקוח קבוע"
+                                    />
+                                </div>
+                            )}
+
+                            <div>
+                                <Label>דמי משלוח</Label>
+                                <Input
+                                    type="number"
+                                    min={0}
+                                    step={0.5}
+                                    value={deliveryFee}
+                                    onChange={(e) => setDeliveryFee(Math.max(0, Number(e.target.value) || 0))}
+                                />
+                            </div>
+
+                            <div className="pt-4 border-t space-y-1">
+                                <div className="flex justify-between text-sm">
+                                    <span>סכום המנות</span>
+                                    <span>₪{pricing.subtotal.toFixed(2)}</span>
+                                </div>
+                                {pricing.discountAmount > 0 && (
+                                    <div className="flex justify-between text-sm text-green-700">
+                                        <span>הנחה</span>
+                                        <span>-₪{pricing.discountAmount.toFixed(2)}</span>
+                                    </div>
+                                )}
+                                {pricing.deliveryFee > 0 && (
+                                    <div className="flex justify-between text-sm">
+                                        <span>דמי משלוח</span>
+                                        <span>₪{pricing.deliveryFee.toFixed(2)}</span>
+                                    </div>
+                                )}
                                 <div className="flex justify-between text-lg font-semibold">
-                                    {/* Fixed: Escaped the quote character */}
                                     <span>סה&quot;כ לתשלום</span>
-                                    <span>₪{calculateTotal().toFixed(2)}</span>
+                                    <span>₪{pricing.totalAmount.toFixed(2)}</span>
                                 </div>
                             </div>
                         </CardContent>
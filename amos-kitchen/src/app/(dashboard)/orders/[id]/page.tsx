@@ -19,12 +19,25 @@ import {
     Edit,
     Trash2,
     Printer,
-    Download
+    Download,
+    BookmarkPlus,
+    FileText
 } from 'lucide-react'
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog'
 import {
     Table,
     TableBody,
@@ -34,18 +47,33 @@ import {
     TableRow,
     TableFooter
 } from '@/components/ui/table'
-import {
-    Select,
-    SelectContent,
-    SelectItem,
-    SelectTrigger,
-    SelectValue,
-} from '@/components/ui/select'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
 import { LoadingSpinner } from '@/components/shared/loading-spinner'
+import { OrderStatusActions, type StatusChangeRequest } from '@/components/orders/order-status-actions'
+import { OrderPaymentsCard } from '@/components/orders/order-payments-card'
 import { useToast } from '@/lib/hooks/use-toast'
+import { calculateOrderPricing, getLineTotal } from '@/lib/utils/pricing'
+import { describeOrderItemChange, type OrderItemChange } from '@/lib/utils/order-diff'
+import { normalizeOrderStatus, ORDER_STATUS_LABELS } from '@/lib/utils/order-status'
 import type { Order, OrderItem, Customer, OrderHistory } from '@/lib/types/database'
 
+const HISTORY_ACTION_LABELS: Record<string, string> = {
+    CREATED: 'ההזמנה נוצרה',
+    STATUS_CHANGE: 'שינוי סטטוס',
+    STATUS_CHANGED: 'שינוי סטטוס',
+    ITEMS_CHANGED: 'פריטי ההזמנה עודכנו',
+    PRICING_CHANGED: 'הסכום לתשלום עודכן',
+    STANDING_ORDER: 'נוצרה מהזמנה קבועה',
+    PAYMENT: 'נרשם תשלום',
+    REFUND: 'נרשם החזר'
+}
+
 interface OrderDetails extends Order {
     customer: Customer
     orderItems: (OrderItem & {
@@ -68,6 +96,10 @@ export default function OrderDetailsPage() {
     const [order, setOrder] = useState<OrderDetails | null>(null)
     const [loading, setLoading] = useState(true)
     const [updating, setUpdating] = useState(false)
+    const [templateOpen, setTemplateOpen] = useState(false)
+    const [templateName, setTemplateName] = useState('')
+    const [templateDescription, setTemplateDescription] = useState('')
+    const [savingTemplate, setSavingTemplate] = useState(false)
 
     useEffect(() => {
         fetchOrderDetails()
@@ -91,33 +123,31 @@ export default function OrderDetailsPage() {
         }
     }
 
-    const handleStatusUpdate = async (newStatus: string) => {
-        if (!order) return
+    // Returns whether the change went through, so the reason dialog can stay open on failure
+    const handleStatusUpdate = async (change: StatusChangeRequest): Promise<boolean> => {
+        if (!order) return false
 
         setUpdating(true)
         try {
-            console.log(`Updating order ${orderId} status to ${newStatus}`)
-
             const response = await fetchWithAuth(`/api/orders/${orderId}`, {
                 method: 'PATCH',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ status: newStatus })
+                body: JSON.stringify({ ...change, expectedStatus: normalizeOrderStatus(order.status) })
             })
 
             if (!response.ok) {
-                const errorData = await response.json().catch(() => ({ message: 'Unknown error' }))
-                console.error('API error response:', errorData)
-                throw new Error(errorData.message || `Server error: ${response.status}`)
+                const errorData = await response.json().catch(() => ({}))
+                // Someone else changed the status meanwhile; show the current state
+                if (response.status === 409) await fetchOrderDetails()
+                throw new Error(errorData.error || errorData.message || `Server error: ${response.status}`)
             }
 
-            const responseData = await response.json()
-            console.log('Status update response:', responseData)
-
             await fetchOrderDetails()
             toast({
                 title: 'סטטוס עודכן',
-                description: 'סטטוס ההזמנה עודכן בהצלחה'
+                description: `ההזמנה עברה לסטטוס ${ORDER_STATUS_LABELS[change.status]}`
             })
+            return true
         } catch (error) {
             console.error('Status update error:', error)
             toast({
@@ -125,6 +155,7 @@ export default function OrderDetailsPage() {
                 description: error instanceof Error ? error.message : 'לא ניתן לעדכן את סטטוס ההזמנה',
                 variant: 'destructive'
             })
+            return false
         } finally {
             setUpdating(false)
         }
@@ -155,40 +186,81 @@ export default function OrderDetailsPage() {
         }
     }
 
+    const openTemplateDialog = () => {
+        setTemplateName(order?.customer?.name ? `${order.customer.name} - קבוע` : '')
+        setTemplateDescription('')
+        setTemplateOpen(true)
+    }
+
+    const handleSaveTemplate = async () => {
+        if (!order || !templateName.trim()) return
+
+        setSavingTemplate(true)
+        try {
+            const response = await fetchWithAuth('/api/order-templates', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    name: templateName,
+                    description: templateDescription || null,
+                    items: order.orderItems.map(item => ({
+                        dishId: item.dishId,
+                        quantity: item.quantity,
+                        notes: item.notes || ''
+                    }))
+                })
+            })
+            if (!response.ok) throw new Error('Failed to save template')
+
+            setTemplateOpen(false)
+            toast({
+                title: 'התבנית נשמרה',
+                description: templateName
+            })
+        } catch (error) {
+            toast({
+                title: 'שגיאה',
+                description: 'לא ניתן לשמור את התבנית',
+                variant: 'destructive'
+            })
+        } finally {
+            setSavingTemplate(false)
+        }
+    }
+
     const handlePrint = () => {
         window.print()
     }
 
-    const getStatusColor = (status: string) => {
-        const colors = {
-            'new': 'bg-blue-100 text-blue-800',
-            'confirmed': 'bg-green-100 text-green-800',
-            'preparing': 'bg-yellow-100 text-yellow-800',
-            'ready': 'bg-purple-100 text-purple-800',
-            'delivered': 'bg-gray-100 text-gray-800',
-            'cancelled': 'bg-red-100 text-red-800'
-        }
-        return colors[status as keyof typeof colors] || 'bg-gray-100 text-gray-800'
+    // PDFs are rendered by the server and opened in a new tab for printing
+    const openPdf = (type: 'ticket' | 'labels' | 'packing') => {
+        window.open(`/api/orders/${orderId}/pdf?type=${type}`, '_blank')
     }
 
-    const getStatusLabel = (status: string) => {
-        const labels = {
-            'new': 'חדשה',
-            'confirmed': 'אושרה',
-            'preparing': 'בהכנה',
-            'ready': 'מוכנה',
-            'delivered': 'נמסרה',
-            'cancelled': 'בוטלה'
+    const getStatusColor = (status: string) => {
+        const colors = {
+            'NEW': 'bg-blue-100 text-blue-800',
+            'CONFIRMED': 'bg-green-100 text-green-800',
+            'PREPARING': 'bg-yellow-100 text-yellow-800',
+            'READY': 'bg-purple-100 text-purple-800',
+            'DELIVERED': 'bg-gray-100 text-gray-800',
+            'CANCELLED': 'bg-red-100 text-red-800'
         }
-        return labels[status as keyof typeof labels] || status
+        return colors[normalizeOrderStatus(status)] || 'bg-gray-100 text-gray-800'
     }
 
     if (loading) return <LoadingSpinner />
     if (!order) return <div>הזמנה לא נמצאה</div>
 
-    const total = order.orderItems.reduce((sum, item) =>
-        sum + (Number(item.price) * item.quantity), 0
-    )
+    // Stored totals are authoritative; orders created before pricing snapshots get them recomputed
+    const pricing = order.subtotal !== undefined
+        ? {
+            subtotal: order.subtotal,
+            discountAmount: order.discountAmount || 0,
+            deliveryFee: order.deliveryFee || 0,
+            totalAmount: order.totalAmount
+        }
+        : calculateOrderPricing(order.orderItems.map(item => ({ ...item, price: Number(item.price) })))
 
     return (
         <div className="p-6 space-y-6">
@@ -214,6 +286,29 @@ export default function OrderDetailsPage() {
                         <Printer className="ml-2 h-4 w-4" />
                         הדפס
                     </Button>
+                    <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                            <Button variant="outline">
+                                <FileText className="ml-2 h-4 w-4" />
+                                מסמכים
+                            </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                            <DropdownMenuItem onClick={() => openPdf('ticket')}>
+                                כרטיס מטבח
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => openPdf('labels')}>
+                                מדבקות לקופסאות
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => openPdf('packing')}>
+                                תעודת אריזה
+                            </DropdownMenuItem>
+                        </DropdownMenuContent>
+                    </DropdownMenu>
+                    <Button variant="outline" onClick={openTemplateDialog}>
+                        <BookmarkPlus className="ml-2 h-4 w-4" />
+                        שמור כתבנית
+                    </Button>
                     <Button
                         variant="outline"
                         onClick={() => router.push(`/orders/${orderId}/edit`)}
@@ -261,16 +356,43 @@ export default function OrderDetailsPage() {
                                             <TableCell className="text-center">{item.quantity}</TableCell>
                                             <TableCell className="text-left">₪{Number(item.price).toFixed(2)}</TableCell>
                                             <TableCell className="text-left font-medium">
-                                                ₪{(Number(item.price) * item.quantity).toFixed(2)}
+                                                ₪{(item.lineTotal ?? getLineTotal({ ...item, price: Number(item.price) })).toFixed(2)}
+                                                {item.discount && (
+                                                    <div className="text-xs font-normal text-green-700">
+                                                        הנחה {item.discount.type === 'PERCENT' ? `${item.discount.value}%` : `₪${item.discount.value}`}
+                                                    </div>
+                                                )}
                                             </TableCell>
                                         </TableRow>
                                     ))}
                                 </TableBody>
                                 <TableFooter>
+                                    {(pricing.discountAmount > 0 || pricing.deliveryFee > 0) && (
+                                        <TableRow>
+                                            <TableCell colSpan={4} className="text-left">סכום המנות</TableCell>
+                                            <TableCell className="text-left">₪{pricing.subtotal.toFixed(2)}</TableCell>
+                                        </TableRow>
+                                    )}
+                                    {pricing.discountAmount > 0 && (
+                                        <TableRow>
+                                            <TableCell colSpan={4} className="text-left text-green-700">
+                                                הנחה{order.discount?.reason ? ` (${order.discount.reason})` : ''}
+                                            </TableCell>
+                                            <TableCell className="text-left text-green-700">
+                                                -₪{pricing.discountAmount.toFixed(2)}
+                                            </TableCell>
+                                        </TableRow>
+                                    )}
+                                    {pricing.deliveryFee > 0 && (
+                                        <TableRow>
+                                            <TableCell colSpan={4} className="text-left">דמי משלוח</TableCell>
+                                            <TableCell className="text-left">₪{pricing.deliveryFee.toFixed(2)}</TableCell>
+                                        </TableRow>
+                                    )}
                                     <TableRow>
                                         <TableCell colSpan={4} className="text-left font-bold">סה&quot;כ לתשלום</TableCell>
                                         <TableCell className="text-left font-bold text-lg">
-                                            ₪{total.toFixed(2)}
+                                            ₪{pricing.totalAmount.toFixed(2)}
                                         </TableCell>
                                     </TableRow>
                                 </TableFooter>
@@ -295,7 +417,30 @@ export default function OrderDetailsPage() {
                                                 )}
                                             </div>
                                             <div className="flex-1 pb-4">
-                                                <p className="font-medium">{event.action}</p>
+                                                <p className="font-medium">{HISTORY_ACTION_LABELS[event.action] || event.action}</p>
+                                                {event.action === 'ITEMS_CHANGED' && Array.isArray(event.details?.changes) ? (
+                                                    <ul className="mt-1 space-y-0.5 text-sm">
+                                                        {(event.details.changes as OrderItemChange[]).map((change, changeIndex) => (
+                                                            <li
+                                                                key={changeIndex}
+                                                                className={
+                                                                    change.type === 'ADDED' ? 'text-green-700'
+                                                                        : change.type === 'REMOVED' ? 'text-red-700'
+                                                                            : ''
+                                                                }
+                                                            >
+                                                                {describeOrderItemChange(change)}
+                                                            </li>
+                                                        ))}
+                                                        {event.details.previousTotal !== event.details.newTotal && (
+                                                            <li className="text-muted-foreground">
+                                                                סכום לתשלום: ₪{Number(event.details.previousTotal).toFixed(2)} ← ₪{Number(event.details.newTotal).toFixed(2)}
+                                                            </li>
+                                                        )}
+                                                    </ul>
+                                                ) : event.details?.message && (
+                                                    <p className="text-sm">{event.details.message}</p>
+                                                )}
                                                 <p className="text-sm text-muted-foreground">
                                                     {format(new Date(event.createdAt), 'dd/MM/yyyy בשעה HH:mm', { locale: he })}
                                                 </p>
@@ -349,29 +494,23 @@ export default function OrderDetailsPage() {
                         <CardContent className="space-y-4">
                             <div>
                                 <p className="text-sm text-muted-foreground">סטטוס</p>
-                                <div className="flex items-center gap-2 mt-1">
+                                <div className="flex flex-wrap items-center gap-2 mt-1">
                                     <Badge className={getStatusColor(order.status)}>
-                                        {getStatusLabel(order.status)}
+                                        {ORDER_STATUS_LABELS[normalizeOrderStatus(order.status)] || order.status}
                                     </Badge>
-                                    <Select
-                                        value={order.status}
-                                        onValueChange={handleStatusUpdate}
+                                    <OrderStatusActions
+                                        status={order.status}
                                         disabled={updating}
-                                    >
-                                        <SelectTrigger className="w-[120px] h-8">
-                                            <SelectValue />
-                                        </SelectTrigger>
-                                        <SelectContent>
-                                            <SelectItem value="new">חדשה</SelectItem>
-                                            <SelectItem value="confirmed">אושרה</SelectItem>
-                                            <SelectItem value="preparing">בהכנה</SelectItem>
-                                            <SelectItem value="ready">מוכנה</SelectItem>
-                                            <SelectItem value="delivered">נמסרה</SelectItem>
-                                            <SelectItem value="cancelled">בוטלה</SelectItem>
-                                        </SelectContent>
-                                    </Select>
+                                        onStatusChange={handleStatusUpdate}
+                                    />
                                 </div>
                             </div>
+                            {order.cancellationReason && (
+                                <div>
+                                    <p className="text-sm text-muted-foreground">סיבת ביטול</p>
+                                    <p className="font-medium text-red-700">{order.cancellationReason}</p>
+                                </div>
+                            )}
                             <div>
                                 <p className="text-sm text-muted-foreground">תאריך משלוח</p>
                                 <p className="font-medium flex items-center gap-2">
@@ -396,8 +535,52 @@ export default function OrderDetailsPage() {
                             )}
                         </CardContent>
                     </Card>
+
+                    <OrderPaymentsCard
+                        orderId={orderId}
+                        orderNumber={order.orderNumber}
+                        totalAmount={order.totalAmount}
+                        onRecorded={fetchOrderDetails}
+                    />
                 </div>
             </div>
+
+            <Dialog open={templateOpen} onOpenChange={setTemplateOpen}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>שמירה כתבנית</DialogTitle>
+                        <DialogDescription>
+                            המנות והכמויות של הזמנה זו יישמרו כתבנית. המחירים יחושבו מחדש בכל הזמנה חדשה.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="template-name">שם התבנית</Label>
+                            <Input
+                                id="template-name"
+                                value={templateName}
+                                onChange={(e) => setTemplateName(e.target.value)}
+                            />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="template-description">תיאור</Label>
+                            <Textarea
+                                id="template-description"
+                                value={templateDescription}
+                                onChange={(e) => setTemplateDescription(e.target.value)}
+                            />
+                        </div>
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setTemplateOpen(false)}>
+                            ביטול
+                        </Button>
+                        <Button onClick={handleSaveTemplate} disabled={savingTemplate || !templateName.trim()}>
+                            שמור
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
         </div>
     )
 }
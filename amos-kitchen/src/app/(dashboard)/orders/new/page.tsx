@@ -2,6 +2,7 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import { useSearchParams } from 'next/navigation'
 import { OrderForm } from '@/components/orders/order-form'
 import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
@@ -9,7 +10,10 @@ import { Skeleton } from '@/components/ui/skeleton'
 import Link from 'next/link'
 import { ChevronRight, AlertTriangle, Loader2 } from 'lucide-react'
 import { fetchWithAuth } from '@/lib/api/fetch-with-auth'
+import { DEFAULT_DELIVERY_SCHEDULE } from '@/lib/utils/delivery-schedule'
+import { buildOrderPrefill, type OrderPrefill } from '@/lib/utils/order-templates'
 import type { Customer, Dish } from '@/lib/types/database'
+import type { DeliverySchedule, OrderTemplate } from '@/lib/types/firestore'
 
 function LoadingSkeleton() {
     return (
@@ -35,9 +39,47 @@ function LoadingSkeleton() {
     )
 }
 
+// ?fromOrder=<id> repeats a past order for its customer; ?template=<id> starts from a template.
+// ?customerId=<id> picks the customer.
+async function fetchPrefill(searchParams: URLSearchParams, dishes: Dish[]): Promise<(OrderPrefill & { source: string }) | null> {
+    const fromOrder = searchParams.get('fromOrder')
+    const templateId = searchParams.get('template')
+    const customerId = searchParams.get('customerId') || undefined
+
+    if (fromOrder) {
+        const response = await fetchWithAuth(`/api/orders/${fromOrder}`)
+        if (!response.ok) throw new Error('Failed to fetch the order to repeat')
+
+        const order = await response.json()
+        return {
+            ...buildOrderPrefill(order.items, dishes),
+            customerId: order.customerId,
+            notes: order.notes || '',
+            source: `שכפול הזמנה ${order.orderNumber}`
+        }
+    }
+
+    if (templateId) {
+        const response = await fetchWithAuth(`/api/order-templates/${templateId}`)
+        if (!response.ok) throw new Error('Failed to fetch the template')
+
+        const template: OrderTemplate = await response.json()
+        return {
+            ...buildOrderPrefill(template.items, dishes),
+            customerId,
+            source: `תבנית "${template.name}"`
+        }
+    }
+
+    return customerId ? { customerId, items: [], unavailableDishes: [], source: '' } : null
+}
+
 export default function NewOrderPage() {
+    const searchParams = useSearchParams()
+    const [prefill, setPrefill] = useState<(OrderPrefill & { source: string }) | null>(null)
     const [customers, setCustomers] = useState<Customer[]>([])
     const [dishes, setDishes] = useState<Dish[]>([])
+    const [deliverySchedule, setDeliverySchedule] = useState<DeliverySchedule>(DEFAULT_DELIVERY_SCHEDULE)
     const [isLoading, setIsLoading] = useState(true)
     const [error, setError] = useState<string | null>(null)
 
@@ -47,10 +89,11 @@ export default function NewOrderPage() {
                 setIsLoading(true)
                 setError(null)
 
-                // Fetch customers and dishes in parallel
-                const [customersResponse, dishesResponse] = await Promise.all([
-                    fetchWithAuth('/api/customers?limit=100'),
-                    fetchWithAuth('/api/dishes?available=true')
+                // Fetch customers, dishes and the delivery calendar in parallel
+                const [customersResponse, dishesResponse, scheduleResponse] = await Promise.all([
+                    fetchWithAuth('/api/customers?limit=100&sort=name'),
+                    fetchWithAuth('/api/dishes?available=true'),
+                    fetchWithAuth('/api/settings/delivery-schedule')
                 ])
 
                 if (!customersResponse.ok) {
@@ -61,7 +104,12 @@ export default function NewOrderPage() {
                     throw new Error('Failed to fetch dishes')
                 }
 
-                const customersData = await customersResponse.json()
+                // Fall back to the default schedule rather than blocking order entry
+                if (scheduleResponse.ok) {
+                    setDeliverySchedule(await scheduleResponse.json())
+                }
+
+                const { customers: customersData } = await customersResponse.json()
                 const dishesData = await dishesResponse.json()
 
                 // Process and sort customers
@@ -90,6 +138,8 @@ export default function NewOrderPage() {
                         price: Number(dish.price),
                         category: dish.category?.toLowerCase() || 'main',
                         isAvailable: dish.isAvailable,
+                        allergens: dish.allergens || [],
+                        ingredients: dish.ingredients || [],
                         createdAt: dish.createdAt,
                         updatedAt: dish.updatedAt
                     }))
@@ -97,6 +147,11 @@ export default function NewOrderPage() {
 
                 setCustomers(processedCustomers)
                 setDishes(processedDishes)
+                // A missing source order or template shouldn't block entering a new order
+                setPrefill(await fetchPrefill(searchParams, processedDishes).catch((prefillError) => {
+                    console.error('Error loading order to copy:', prefillError)
+                    return null
+                }))
             } catch (err) {
                 console.error('Error fetching data:', err)
                 setError(err instanceof Error ? err.message : 'Failed to load data')
@@ -106,7 +161,7 @@ export default function NewOrderPage() {
         }
 
         fetchData()
-    }, [])
+    }, [searchParams])
 
     if (isLoading) {
         return (
@@ -128,7 +183,7 @@ export default function NewOrderPage() {
                 <div>
                     <h1 className="text-3xl font-bold tracking-tight">יצירת הזמנה חדשה</h1>
                     <p className="text-muted-foreground">
-                        מלא את הפרטים ליצירת הזמנה חדשה. ניתן להזמין למשלוח בימי שישי בלבד.
+                        מלא את הפרטים ליצירת הזמנה חדשה. מועדי המשלוח נקבעים לפי לוח המשלוחים.
                     </p>
                 </div>
 
@@ -194,7 +249,7 @@ export default function NewOrderPage() {
             <div>
                 <h1 className="text-3xl font-bold tracking-tight">יצירת הזמנה חדשה</h1>
                 <p className="text-muted-foreground">
-                    מלא את הפרטים ליצירת הזמנה חדשה. ניתן להזמין למשלוח בימי שישי בלבד.
+                    מלא את הפרטים ליצירת הזמנה חדשה. מועדי המשלוח נקבעים לפי לוח המשלוחים.
                 </p>
             </div>
 
@@ -224,8 +279,30 @@ export default function NewOrderPage() {
                 </Card>
             )}
 
+            {/* Where the lines came from; prices always follow the current menu */}
+            {prefill?.source && (
+                <Card className={prefill.unavailableDishes.length > 0 ? 'border-orange-200 bg-orange-50' : 'border-blue-200 bg-blue-50'}>
+                    <CardContent className="p-4 space-y-1 text-sm">
+                        <p className="font-medium">
+                            {prefill.source}. המחירים עודכנו לפי המחירון הנוכחי.
+                        </p>
+                        {prefill.unavailableDishes.length > 0 && (
+                            <p className="flex items-center gap-2 text-orange-800">
+                                <AlertTriangle className="h-4 w-4" />
+                                מנות שאינן זמינות כעת ולא נוספו להזמנה: {prefill.unavailableDishes.join(', ')}
+                            </p>
+                        )}
+                    </CardContent>
+                </Card>
+            )}
+
             {/* Order Form */}
-            <OrderForm customers={customers} dishes={dishes} />
+            <OrderForm
+                customers={customers}
+                dishes={dishes}
+                deliverySchedule={deliverySchedule}
+                initialValues={prefill || undefined}
+            />
         </div>
     )
 }
\ No newline at end of file
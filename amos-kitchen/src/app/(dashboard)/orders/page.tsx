@@ -7,9 +7,15 @@ import { OrderList } from '@/components/orders/order-list'
 import { Button } from '@/components/ui/button'
 import { fetchWithAuth } from '@/lib/api/fetch-with-auth'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { Download, Plus } from 'lucide-react'
+import { BookmarkPlus, Download, Plus, Repeat } from 'lucide-react'
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
 import { useOrders } from '@/lib/hooks/use-orders'
-import { exportOrdersToExcel } from '@/lib/utils/export'
+import type { ExportFormat } from '@/lib/utils/export'
 import Link from 'next/link'
 import type { OrderFilters as OrderFiltersType } from '@/lib/types/database'
 
@@ -18,22 +24,42 @@ export default function OrdersPage() {
         search: '',
         status: 'all',
         dateRange: 'all',
-        page: 1,
+        sort: 'newest',
         limit: 10
     })
 
-    const { orders, isLoading, totalCount, refetch } = useOrders(filters)
+    const {
+        orders,
+        isLoading,
+        totalCount,
+        pageNumber,
+        hasNext,
+        hasPrevious,
+        nextPage,
+        previousPage,
+        refetch
+    } = useOrders(filters)
 
-    const handleExport = async () => {
+    const handleExport = async (exportFormat: ExportFormat) => {
         try {
             const response = await fetchWithAuth(`/api/orders/export?${new URLSearchParams({
+                format: exportFormat,
                 search: filters.search,
                 status: filters.status,
                 dateRange: filters.dateRange
             })}`)
 
-            const data = await response.json()
-            exportOrdersToExcel(data.orders)
+            if (!response.ok) throw new Error('Failed to export orders')
+
+            const blob = await response.blob()
+            const url = window.URL.createObjectURL(blob)
+            const a = document.createElement('a')
+            a.href = url
+            a.download = `orders-${new Date().toISOString().split('T')[0]}.${exportFormat}`
+            document.body.appendChild(a)
+            a.click()
+            window.URL.revokeObjectURL(url)
+            document.body.removeChild(a)
         } catch (error) {
             console.error('Export failed:', error)
         }
@@ -57,10 +83,34 @@ export default function OrdersPage() {
             <div className="flex justify-between items-center">
                 <h1 className="text-3xl font-bold">ניהול הזמנות</h1>
                 <div className="flex gap-2">
-                    <Button onClick={handleExport} variant="outline" className="gap-2">
-                        <Download className="h-4 w-4" />
-                        ייצוא לאקסל
-                    </Button>
+                    <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                            <Button variant="outline" className="gap-2">
+                                <Download className="h-4 w-4" />
+                                ייצוא
+                            </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                            <DropdownMenuItem onClick={() => handleExport('xlsx')}>
+                                ייצוא לאקסל (xlsx)
+                            </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => handleExport('csv')}>
+                                ייצוא ל-CSV
+                            </DropdownMenuItem>
+                        </DropdownMenuContent>
+                    </DropdownMenu>
+                    <Link href="/orders/templates">
+                        <Button variant="outline" className="gap-2">
+                            <BookmarkPlus className="h-4 w-4" />
+                            תבניות
+                        </Button>
+                    </Link>
+                    <Link href="/orders/standing">
+                        <Button variant="outline" className="gap-2">
+                            <Repeat className="h-4 w-4" />
+                            הזמנות קבועות
+                        </Button>
+                    </Link>
                     <Link href="/orders/new">
                         <Button className="gap-2">
                             <Plus className="h-4 w-4" />
@@ -124,9 +174,12 @@ export default function OrdersPage() {
             <OrderList
                 orders={orders || []}
                 isLoading={isLoading}
-                currentPage={filters.page}
+                currentPage={pageNumber}
                 totalPages={Math.ceil((totalCount || 0) / filters.limit)}
-                onPageChange={(page) => setFilters({ ...filters, page })}
+                hasNext={hasNext}
+                hasPrevious={hasPrevious}
+                onNextPage={nextPage}
+                onPreviousPage={previousPage}
                 onRefresh={refetch}
             />
         </div>
@@ -0,0 +1,57 @@
+// app/(dashboard)/orders/standing/[id]/page.tsx
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { ChevronRight } from 'lucide-react'
+import { fetchWithAuth } from '@/lib/api/fetch-with-auth'
+import { StandingOrderForm } from '@/components/orders/standing-order-form'
+import { LoadingSpinner } from '@/components/shared/loading-spinner'
+import type { StandingOrder } from '@/lib/types/firestore'
+
+export default function EditStandingOrderPage() {
+    const params = useParams()
+    const [standingOrder, setStandingOrder] = useState<(StandingOrder & { id: string }) | null>(null)
+    const [loading, setLoading] = useState(true)
+
+    useEffect(() => {
+        const fetchStandingOrder = async () => {
+            try {
+                const response = await fetchWithAuth(`/api/standing-orders/${params.id}`)
+                if (response.ok) {
+                    setStandingOrder(await response.json())
+                }
+            } catch (error) {
+                console.error('Error fetching standing order:', error)
+            } finally {
+                setLoading(false)
+            }
+        }
+
+        fetchStandingOrder()
+    }, [params.id])
+
+    if (loading) return <LoadingSpinner />
+    if (!standingOrder) return <div className="p-6">ההזמנה הקבועה לא נמצאה</div>
+
+    return (
+        <div className="p-6 space-y-6" dir="rtl">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Link href="/orders" className="hover:text-foreground">
+                    הזמנות
+                </Link>
+                <ChevronRight className="h-4 w-4" />
+                <Link href="/orders/standing" className="hover:text-foreground">
+                    הזמנות קבועות
+                </Link>
+                <ChevronRight className="h-4 w-4" />
+                <span className="text-foreground">{standingOrder.customerName}</span>
+            </div>
+
+            <h1 className="text-3xl font-bold tracking-tight">עריכת הזמנה קבועה</h1>
+
+            <StandingOrderForm standingOrder={standingOrder} />
+        </div>
+    )
+}
@@ -0,0 +1,276 @@
+// app/(dashboard)/orders/standing/generate/page.tsx
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { he } from 'date-fns/locale'
+import { AlertTriangle, CheckCircle, ChevronRight, Loader2, XCircle } from 'lucide-react'
+import { fetchWithAuth } from '@/lib/api/fetch-with-auth'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { LoadingSpinner } from '@/components/shared/loading-spinner'
+import { useToast } from '@/lib/hooks/use-toast'
+import { useBusinessSettings } from '@/lib/hooks/use-business-settings'
+import { DEFAULT_DELIVERY_SCHEDULE, fromDateKey, getDeliveryDaysInRange, toDateKey } from '@/lib/utils/delivery-schedule'
+import { STANDING_ORDER_OCCURRENCE_LABELS } from '@/lib/utils/standing-orders'
+import type { DeliverySchedule, StandingOrderOccurrence } from '@/lib/types/firestore'
+
+interface GenerateResult {
+    standingOrderId: string
+    orderId?: string
+    orderNumber?: string
+    error?: string
+}
+
+// Delivery days offered for review, from today on
+const REVIEW_DAYS_AHEAD = 28
+
+const formatDateKey = (key: string) => format(fromDateKey(key), 'EEEE, dd בMMMM yyyy', { locale: he })
+
+// Due, with something left to order, and above the zone's minimum
+const canGenerate = (occurrence: StandingOrderOccurrence) =>
+    occurrence.status === 'DUE' && occurrence.items.length > 0 && !occurrence.belowMinimum
+
+export default function GenerateStandingOrdersPage() {
+    const { toast } = useToast()
+    const { settings } = useBusinessSettings()
+    const [schedule, setSchedule] = useState<DeliverySchedule>(DEFAULT_DELIVERY_SCHEDULE)
+    const [date, setDate] = useState<string | null>(null)
+    const [occurrences, setOccurrences] = useState<StandingOrderOccurrence[]>([])
+    const [selected, setSelected] = useState<Set<string>>(new Set())
+    const [results, setResults] = useState<Record<string, GenerateResult>>({})
+    const [loading, setLoading] = useState(true)
+    const [generating, setGenerating] = useState(false)
+
+    const formatCurrency = (amount: number) => {
+        return new Intl.NumberFormat('he-IL', { style: 'currency', currency: settings.currency }).format(amount)
+    }
+
+    const dateOptions = useMemo(() => {
+        const today = new Date()
+        const days = getDeliveryDaysInRange(schedule, today, new Date(today.getTime() + REVIEW_DAYS_AHEAD * 86400000))
+            .map(toDateKey)
+        return date && !days.includes(date) ? [date, ...days] : days
+    }, [schedule, date])
+
+    useEffect(() => {
+        fetchWithAuth('/api/settings/delivery-schedule')
+            .then(response => response.ok ? response.json() : null)
+            .then(data => data && setSchedule(data))
+            .catch(error => console.error('Error fetching delivery schedule:', error))
+    }, [])
+
+    // The server picks the next delivery day when no date is given
+    const fetchOccurrences = async (dateKey: string | null) => {
+        setLoading(true)
+        try {
+            const response = await fetchWithAuth(`/api/standing-orders/generate${dateKey ? `?date=${dateKey}` : ''}`)
+            if (!response.ok) throw new Error('Failed to load standing orders')
+
+            const data: { date: string | null, occurrences: StandingOrderOccurrence[] } = await response.json()
+            setDate(data.date)
+            setOccurrences(data.occurrences)
+            setResults({})
+            setSelected(new Set(data.occurrences
+                .filter(canGenerate)
+                .map(occurrence => occurrence.standingOrder.id!)))
+        } catch (error) {
+            toast({
+                title: 'שגיאה',
+                description: 'לא ניתן לטעון את ההזמנות הקבועות',
+                variant: 'destructive'
+            })
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    useEffect(() => {
+        fetchOccurrences(null)
+    }, [])
+
+    const toggle = (id: string, checked: boolean) => {
+        const next = new Set(selected)
+        if (checked) {
+            next.add(id)
+        } else {
+            next.delete(id)
+        }
+        setSelected(next)
+    }
+
+    const handleGenerate = async () => {
+        if (!date || selected.size === 0) return
+
+        setGenerating(true)
+        try {
+            const response = await fetchWithAuth('/api/standing-orders/generate', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ date, standingOrderIds: Array.from(selected) })
+            })
+
+            const data = await response.json().catch(() => ({}))
+            if (!response.ok) {
+                throw new Error(data.error || 'יצירת ההזמנות נכשלה')
+            }
+
+            const byId: Record<string, GenerateResult> = Object.fromEntries(
+                (data.results as GenerateResult[]).map(result => [result.standingOrderId, result])
+            )
+            setResults(byId)
+            setSelected(new Set())
+            setOccurrences(current => current.map(occurrence => byId[occurrence.standingOrder.id!]?.orderId
+                ? { ...occurrence, status: 'GENERATED' }
+                : occurrence))
+
+            const failed = data.results.length - data.created
+            toast({
+                title: `נוצרו ${data.created} הזמנות`,
+                description: failed > 0 ? `${failed} הזמנות לא נוצרו, הפרטים ברשימה` : undefined,
+                variant: failed > 0 ? 'destructive' : undefined
+            })
+        } catch (error) {
+            toast({
+                title: 'שגיאה',
+                description: error instanceof Error ? error.message : 'יצירת ההזמנות נכשלה',
+                variant: 'destructive'
+            })
+        } finally {
+            setGenerating(false)
+        }
+    }
+
+    const dueCount = occurrences.filter(occurrence => occurrence.status === 'DUE').length
+
+    return (
+        <div className="p-6 space-y-6" dir="rtl">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Link href="/orders" className="hover:text-foreground">
+                    הזמנות
+                </Link>
+                <ChevronRight className="h-4 w-4" />
+                <Link href="/orders/standing" className="hover:text-foreground">
+                    הזמנות קבועות
+                </Link>
+                <ChevronRight className="h-4 w-4" />
+                <span className="text-foreground">סקירה ויצירה</span>
+            </div>
+
+            <div className="flex flex-wrap items-end justify-between gap-4">
+                <div>
+                    <h1 className="text-3xl font-bold">יצירת הזמנות מהזמנות קבועות</h1>
+                    <p className="text-muted-foreground">
+                        בדוק את ההזמנות ליום המשלוח, הסר את מה שלא צריך, וצור את ההזמנות בפועל
+                    </p>
+                </div>
+                <div className="space-y-1">
+                    <Label>יום משלוח</Label>
+                    <Select value={date || ''} onValueChange={fetchOccurrences}>
+                        <SelectTrigger className="w-64">
+                            <SelectValue placeholder="אין ימי משלוח קרובים" />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {dateOptions.map(option => (
+                                <SelectItem key={option} value={option}>
+                                    {formatDateKey(option)}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                </div>
+            </div>
+
+            {loading ? (
+                <LoadingSpinner />
+            ) : occurrences.length === 0 ? (
+                <Card>
+                    <CardContent className="py-10 text-center text-muted-foreground">
+                        אין הזמנות קבועות ליום משלוח זה
+                    </CardContent>
+                </Card>
+            ) : (
+                <>
+                    <div className="space-y-3">
+                        {occurrences.map(occurrence => {
+                            const id = occurrence.standingOrder.id!
+                            const result = results[id]
+                            const selectable = canGenerate(occurrence) && !result?.orderId
+                            return (
+                                <Card key={id} className={selectable ? undefined : 'opacity-75'}>
+                                    <CardHeader className="pb-2">
+                                        <div className="flex items-center justify-between gap-2">
+                                            <label className="flex items-center gap-3">
+                                                <Checkbox
+                                                    checked={selected.has(id)}
+                                                    disabled={!selectable || generating}
+                                                    onCheckedChange={(checked) => toggle(id, checked === true)}
+                                                />
+                                                <CardTitle className="text-lg">{occurrence.standingOrder.customerName}</CardTitle>
+                                            </label>
+                                            <Badge variant={occurrence.status === 'DUE' ? 'default' : 'secondary'}>
+                                                {STANDING_ORDER_OCCURRENCE_LABELS[occurrence.status]}
+                                            </Badge>
+                                        </div>
+                                        {occurrence.standingOrder.notes && (
+                                            <CardDescription>{occurrence.standingOrder.notes}</CardDescription>
+                                        )}
+                                    </CardHeader>
+                                    <CardContent className="space-y-2 text-sm">
+                                        <div className="flex flex-wrap justify-between gap-2">
+                                            <span>
+                                                {occurrence.items.map(item => `${item.dishName} × ${item.quantity}`).join(', ') || '-'}
+                                            </span>
+                                            <span className="font-semibold">{formatCurrency(occurrence.pricing.totalAmount)}</span>
+                                        </div>
+                                        {occurrence.unavailableDishes.length > 0 && (
+                                            <div className="flex items-center gap-2 text-orange-700">
+                                                <AlertTriangle className="h-4 w-4" />
+                                                מנות שאינן זמינות או אינן בתפריט ולא ייכללו: {occurrence.unavailableDishes.join(', ')}
+                                            </div>
+                                        )}
+                                        {occurrence.belowMinimum && (
+                                            <div className="flex items-center gap-2 text-orange-700">
+                                                <AlertTriangle className="h-4 w-4" />
+                                                מתחת להזמנת המינימום לאזור {occurrence.belowMinimum.zoneName} ({formatCurrency(occurrence.belowMinimum.minimumOrder)}), ההזמנה לא תיווצר
+                                            </div>
+                                        )}
+                                        {result?.orderId && (
+                                            <div className="flex items-center gap-2 text-green-700">
+                                                <CheckCircle className="h-4 w-4" />
+                                                <Link href={`/orders/${result.orderId}`} className="underline">
+                                                    נוצרה הזמנה {result.orderNumber}
+                                                </Link>
+                                            </div>
+                                        )}
+                                        {result?.error && (
+                                            <div className="flex items-center gap-2 text-red-700">
+                                                <XCircle className="h-4 w-4" />
+                                                {result.error}
+                                            </div>
+                                        )}
+                                    </CardContent>
+                                </Card>
+                            )
+                        })}
+                    </div>
+
+                    <div className="flex items-center justify-between">
+                        <p className="text-sm text-muted-foreground">
+                            {dueCount} הזמנות ממתינות ליצירה, {selected.size} נבחרו
+                        </p>
+                        <Button onClick={handleGenerate} disabled={generating || selected.size === 0}>
+                            {generating && <Loader2 className="h-4 w-4 ml-2 animate-spin" />}
+                            צור {selected.size} הזמנות
+                        </Button>
+                    </div>
+                </>
+            )}
+        </div>
+    )
+}
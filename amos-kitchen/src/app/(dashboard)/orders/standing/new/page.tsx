@@ -0,0 +1,28 @@
+// app/(dashboard)/orders/standing/new/page.tsx
+'use client'
+
+import Link from 'next/link'
+import { ChevronRight } from 'lucide-react'
+import { StandingOrderForm } from '@/components/orders/standing-order-form'
+
+export default function NewStandingOrderPage() {
+    return (
+        <div className="p-6 space-y-6" dir="rtl">
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                <Link href="/orders" className="hover:text-foreground">
+                    הזמנות
+                </Link>
+                <ChevronRight className="h-4 w-4" />
+                <Link href="/orders/standing" className="hover:text-foreground">
+                    הזמנות קבועות
+                </Link>
+                <ChevronRight className="h-4 w-4" />
+                <span className="text-foreground">הזמנה קבועה חדשה</span>
+            </div>
+
+            <h1 className="text-3xl font-bold tracking-tight">הזמנה קבועה חדשה</h1>
+
+            <StandingOrderForm />
+        </div>
+    )
+}
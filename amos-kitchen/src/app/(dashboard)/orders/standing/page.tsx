@@ -0,0 +1,304 @@
+// app/(dashboard)/orders/standing/page.tsx
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { he } from 'date-fns/locale'
+import { Plus, Pause, Play, Pencil, Trash2, ListChecks } from 'lucide-react'
+import { fetchWithAuth } from '@/lib/api/fetch-with-auth'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent } from '@/components/ui/card'
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog'
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table'
+import { LoadingSpinner } from '@/components/shared/loading-spinner'
+import { useToast } from '@/lib/hooks/use-toast'
+import { DEFAULT_DELIVERY_SCHEDULE, fromDateKey, toDateKey } from '@/lib/utils/delivery-schedule'
+import {
+    getStandingOrderDates,
+    isStandingOrderPaused,
+    STANDING_ORDER_FREQUENCY_LABELS
+} from '@/lib/utils/standing-orders'
+import type { DeliverySchedule, StandingOrder } from '@/lib/types/firestore'
+
+type StandingOrderRow = StandingOrder & { id: string }
+
+const formatDateKey = (key: string) => format(fromDateKey(key), 'EEEE dd/MM', { locale: he })
+
+export default function StandingOrdersPage() {
+    const { toast } = useToast()
+    const [standingOrders, setStandingOrders] = useState<StandingOrderRow[]>([])
+    const [schedule, setSchedule] = useState<DeliverySchedule>(DEFAULT_DELIVERY_SCHEDULE)
+    const [loading, setLoading] = useState(true)
+    const [pausing, setPausing] = useState<StandingOrderRow | null>(null)
+    const [pausedUntil, setPausedUntil] = useState('')
+    const [busyId, setBusyId] = useState<string | null>(null)
+
+    const fetchStandingOrders = async () => {
+        try {
+            const [ordersResponse, scheduleResponse] = await Promise.all([
+                fetchWithAuth('/api/standing-orders'),
+                fetchWithAuth('/api/settings/delivery-schedule')
+            ])
+            if (!ordersResponse.ok) throw new Error('Failed to fetch standing orders')
+
+            setStandingOrders(await ordersResponse.json())
+            if (scheduleResponse.ok) {
+                setSchedule(await scheduleResponse.json())
+            }
+        } catch (error) {
+            toast({
+                title: 'שגיאה',
+                description: 'לא ניתן לטעון את ההזמנות הקבועות',
+                variant: 'destructive'
+            })
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    useEffect(() => {
+        fetchStandingOrders()
+    }, [])
+
+    const setPaused = async (standingOrder: StandingOrderRow, paused: boolean, until?: string) => {
+        setBusyId(standingOrder.id)
+        try {
+            const response = await fetchWithAuth(`/api/standing-orders/${standingOrder.id}`, {
+                method: 'PATCH',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ paused, pausedUntil: until || null })
+            })
+            if (!response.ok) throw new Error('Failed to update standing order')
+
+            const updated: StandingOrderRow = await response.json()
+            setStandingOrders(current => current.map(order => order.id === updated.id ? updated : order))
+            setPausing(null)
+            toast({
+                title: paused ? 'ההזמנה הקבועה הושהתה' : 'ההזמנה הקבועה חודשה',
+                description: standingOrder.customerName
+            })
+        } catch (error) {
+            toast({
+                title: 'שגיאה',
+                description: 'לא ניתן לעדכן את ההזמנה הקבועה',
+                variant: 'destructive'
+            })
+        } finally {
+            setBusyId(null)
+        }
+    }
+
+    const handleDelete = async (standingOrder: StandingOrderRow) => {
+        if (!confirm(`למחוק את ההזמנה הקבועה של ${standingOrder.customerName}? הזמנות שכבר נוצרו יישארו.`)) return
+
+        setBusyId(standingOrder.id)
+        try {
+            const response = await fetchWithAuth(`/api/standing-orders/${standingOrder.id}`, { method: 'DELETE' })
+            if (!response.ok) throw new Error('Failed to delete standing order')
+
+            setStandingOrders(current => current.filter(order => order.id !== standingOrder.id))
+        } catch (error) {
+            toast({
+                title: 'שגיאה',
+                description: 'לא ניתן למחוק את ההזמנה הקבועה',
+                variant: 'destructive'
+            })
+        } finally {
+            setBusyId(null)
+        }
+    }
+
+    const today = toDateKey(new Date())
+
+    // The next delivery that will actually be generated
+    const getNextDelivery = (standingOrder: StandingOrderRow) => {
+        return getStandingOrderDates(standingOrder, schedule, 12).find(date =>
+            !standingOrder.generatedDates.includes(date) &&
+            !standingOrder.skipDates.includes(date) &&
+            !isStandingOrderPaused(standingOrder, date)
+        )
+    }
+
+    const getStatusBadge = (standingOrder: StandingOrderRow) => {
+        if (standingOrder.endDate && standingOrder.endDate < today) {
+            return <Badge variant="secondary">הסתיימה</Badge>
+        }
+        if (isStandingOrderPaused(standingOrder, today)) {
+            return (
+                <Badge variant="outline" className="border-orange-300 text-orange-700">
+                    {standingOrder.pausedUntil ? `מושהית עד ${format(fromDateKey(standingOrder.pausedUntil), 'dd/MM')}` : 'מושהית'}
+                </Badge>
+            )
+        }
+        return <Badge className="bg-green-100 text-green-800 hover:bg-green-100">פעילה</Badge>
+    }
+
+    if (loading) return <LoadingSpinner />
+
+    return (
+        <div className="p-6 space-y-6" dir="rtl">
+            <div className="flex flex-wrap justify-between items-center gap-2">
+                <div>
+                    <h1 className="text-3xl font-bold">הזמנות קבועות</h1>
+                    <p className="text-muted-foreground">
+                        הזמנות שחוזרות כל שבוע או שבועיים. לפני כל יום משלוח יש לעבור עליהן וליצור מהן הזמנות.
+                    </p>
+                </div>
+                <div className="flex gap-2">
+                    <Link href="/orders/standing/generate">
+                        <Button variant="outline" className="gap-2">
+                            <ListChecks className="h-4 w-4" />
+                            סקירה ויצירת הזמנות
+                        </Button>
+                    </Link>
+                    <Link href="/orders/standing/new">
+                        <Button className="gap-2">
+                            <Plus className="h-4 w-4" />
+                            הזמנה קבועה חדשה
+                        </Button>
+                    </Link>
+                </div>
+            </div>
+
+            <Card>
+                <CardContent className="p-0">
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead className="text-right">לקוח</TableHead>
+                                <TableHead className="text-right">מנות</TableHead>
+                                <TableHead className="text-right">תדירות</TableHead>
+                                <TableHead className="text-right">משלוח הבא</TableHead>
+                                <TableHead className="text-right">סטטוס</TableHead>
+                                <TableHead />
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {standingOrders.length === 0 && (
+                                <TableRow>
+                                    <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                                        אין הזמנות קבועות
+                                    </TableCell>
+                                </TableRow>
+                            )}
+                            {standingOrders.map(standingOrder => {
+                                const nextDelivery = getNextDelivery(standingOrder)
+                                const paused = isStandingOrderPaused(standingOrder, today)
+                                return (
+                                    <TableRow key={standingOrder.id}>
+                                        <TableCell className="font-medium">{standingOrder.customerName}</TableCell>
+                                        <TableCell className="text-sm">
+                                            {standingOrder.items.map(item => `${item.dishName} × ${item.quantity}`).join(', ')}
+                                        </TableCell>
+                                        <TableCell>
+                                            {STANDING_ORDER_FREQUENCY_LABELS[standingOrder.frequency]}
+                                            {standingOrder.endDate && (
+                                                <div className="text-xs text-muted-foreground">
+                                                    עד {format(fromDateKey(standingOrder.endDate), 'dd/MM/yyyy')}
+                                                </div>
+                                            )}
+                                        </TableCell>
+                                        <TableCell>{nextDelivery ? formatDateKey(nextDelivery) : '-'}</TableCell>
+                                        <TableCell>{getStatusBadge(standingOrder)}</TableCell>
+                                        <TableCell>
+                                            <div className="flex justify-end gap-1">
+                                                {paused ? (
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="sm"
+                                                        onClick={() => setPaused(standingOrder, false)}
+                                                        disabled={busyId === standingOrder.id}
+                                                    >
+                                                        <Play className="h-4 w-4 ml-1" />
+                                                        חידוש
+                                                    </Button>
+                                                ) : (
+                                                    <Button
+                                                        variant="ghost"
+                                                        size="sm"
+                                                        onClick={() => {
+                                                            setPausedUntil('')
+                                                            setPausing(standingOrder)
+                                                        }}
+                                                        disabled={busyId === standingOrder.id}
+                                                    >
+                                                        <Pause className="h-4 w-4 ml-1" />
+                                                        השהיה
+                                                    </Button>
+                                                )}
+                                                <Link href={`/orders/standing/${standingOrder.id}`}>
+                                                    <Button variant="ghost" size="icon">
+                                                        <Pencil className="h-4 w-4" />
+                                                    </Button>
+                                                </Link>
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    onClick={() => handleDelete(standingOrder)}
+                                                    disabled={busyId === standingOrder.id}
+                                                >
+                                                    <Trash2 className="h-4 w-4 text-red-600" />
+                                                </Button>
+                                            </div>
+                                        </TableCell>
+                                    </TableRow>
+                                )
+                            })}
+                        </TableBody>
+                    </Table>
+                </CardContent>
+            </Card>
+
+            <Dialog open={pausing !== null} onOpenChange={(open) => !open && setPausing(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>השהיית הזמנה קבועה</DialogTitle>
+                        <DialogDescription>
+                            לא ייווצרו הזמנות עבור {pausing?.customerName} בזמן ההשהיה.
+                            בלי תאריך סיום, ההשהיה נמשכת עד לחידוש ידני.
+                        </DialogDescription>
+                    </DialogHeader>
+                    <div className="space-y-2">
+                        <Label htmlFor="paused-until">מושהית עד (כולל)</Label>
+                        <Input
+                            id="paused-until"
+                            type="date"
+                            min={today}
+                            value={pausedUntil}
+                            onChange={(e) => setPausedUntil(e.target.value)}
+                        />
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setPausing(null)}>
+                            סגור
+                        </Button>
+                        <Button
+                            onClick={() => pausing && setPaused(pausing, true, pausedUntil)}
+                            disabled={!pausing || busyId === pausing.id}
+                        >
+                            השהה
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    )
+}
@@ -0,0 +1,222 @@
+// app/(dashboard)/orders/templates/page.tsx
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { Plus, Pencil, Trash2 } from 'lucide-react'
+import { fetchWithAuth } from '@/lib/api/fetch-with-auth'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Card, CardContent } from '@/components/ui/card'
+import {
+    Dialog,
+    DialogContent,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog'
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from '@/components/ui/table'
+import { LoadingSpinner } from '@/components/shared/loading-spinner'
+import { useToast } from '@/lib/hooks/use-toast'
+import type { OrderTemplate } from '@/lib/types/firestore'
+
+type OrderTemplateRow = OrderTemplate & { id: string }
+
+export default function OrderTemplatesPage() {
+    const { toast } = useToast()
+    const [templates, setTemplates] = useState<OrderTemplateRow[]>([])
+    const [loading, setLoading] = useState(true)
+    const [editing, setEditing] = useState<OrderTemplateRow | null>(null)
+    const [name, setName] = useState('')
+    const [description, setDescription] = useState('')
+    const [busyId, setBusyId] = useState<string | null>(null)
+
+    const fetchTemplates = async () => {
+        try {
+            const response = await fetchWithAuth('/api/order-templates')
+            if (!response.ok) throw new Error('Failed to fetch order templates')
+
+            setTemplates(await response.json())
+        } catch (error) {
+            toast({
+                title: 'שגיאה',
+                description: 'לא ניתן לטעון את התבניות',
+                variant: 'destructive'
+            })
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    useEffect(() => {
+        fetchTemplates()
+    }, [])
+
+    const openEdit = (template: OrderTemplateRow) => {
+        setName(template.name)
+        setDescription(template.description || '')
+        setEditing(template)
+    }
+
+    const handleSave = async () => {
+        if (!editing || !name.trim()) return
+
+        setBusyId(editing.id)
+        try {
+            const response = await fetchWithAuth(`/api/order-templates/${editing.id}`, {
+                method: 'PUT',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ name, description: description || null })
+            })
+            if (!response.ok) throw new Error('Failed to update order template')
+
+            const updated: OrderTemplateRow = await response.json()
+            setTemplates(current => current
+                .map(template => template.id === updated.id ? updated : template)
+                .sort((a, b) => a.name.localeCompare(b.name, 'he')))
+            setEditing(null)
+        } catch (error) {
+            toast({
+                title: 'שגיאה',
+                description: 'לא ניתן לעדכן את התבנית',
+                variant: 'destructive'
+            })
+        } finally {
+            setBusyId(null)
+        }
+    }
+
+    const handleDelete = async (template: OrderTemplateRow) => {
+        if (!confirm(`למחוק את התבנית "${template.name}"?`)) return
+
+        setBusyId(template.id)
+        try {
+            const response = await fetchWithAuth(`/api/order-templates/${template.id}`, { method: 'DELETE' })
+            if (!response.ok) throw new Error('Failed to delete order template')
+
+            setTemplates(current => current.filter(t => t.id !== template.id))
+        } catch (error) {
+            toast({
+                title: 'שגיאה',
+                description: 'לא ניתן למחוק את התבנית',
+                variant: 'destructive'
+            })
+        } finally {
+            setBusyId(null)
+        }
+    }
+
+    if (loading) return <LoadingSpinner />
+
+    return (
+        <div className="p-6 space-y-6" dir="rtl">
+            <div>
+                <h1 className="text-3xl font-bold">תבניות הזמנה</h1>
+                <p className="text-muted-foreground">
+                    סלים מוכנים להזמנות חוזרות. לשמירת תבנית חדשה, פתח הזמנה קיימת ובחר &quot;שמור כתבנית&quot;.
+                </p>
+            </div>
+
+            <Card>
+                <CardContent className="p-0">
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead className="text-right">שם</TableHead>
+                                <TableHead className="text-right">מנות</TableHead>
+                                <TableHead />
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {templates.length === 0 && (
+                                <TableRow>
+                                    <TableCell colSpan={3} className="text-center text-muted-foreground py-8">
+                                        אין תבניות שמורות
+                                    </TableCell>
+                                </TableRow>
+                            )}
+                            {templates.map(template => (
+                                <TableRow key={template.id}>
+                                    <TableCell>
+                                        <div className="font-medium">{template.name}</div>
+                                        {template.description && (
+                                            <div className="text-xs text-muted-foreground">{template.description}</div>
+                                        )}
+                                    </TableCell>
+                                    <TableCell className="text-sm">
+                                        {template.items.map(item => `${item.dishName} × ${item.quantity}`).join(', ')}
+                                    </TableCell>
+                                    <TableCell>
+                                        <div className="flex justify-end gap-1">
+                                            <Link href={`/orders/new?template=${template.id}`}>
+                                                <Button variant="ghost" size="sm">
+                                                    <Plus className="h-4 w-4 ml-1" />
+                                                    צור הזמנה
+                                                </Button>
+                                            </Link>
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                onClick={() => openEdit(template)}
+                                                disabled={busyId === template.id}
+                                            >
+                                                <Pencil className="h-4 w-4" />
+                                            </Button>
+                                            <Button
+                                                variant="ghost"
+                                                size="icon"
+                                                onClick={() => handleDelete(template)}
+                                                disabled={busyId === template.id}
+                                            >
+                                                <Trash2 className="h-4 w-4 text-red-600" />
+                                            </Button>
+                                        </div>
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                </CardContent>
+            </Card>
+
+            <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>עריכת תבנית</DialogTitle>
+                    </DialogHeader>
+                    <div className="space-y-4">
+                        <div className="space-y-2">
+                            <Label htmlFor="template-name">שם</Label>
+                            <Input id="template-name" value={name} onChange={(e) => setName(e.target.value)} />
+                        </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="template-description">תיאור</Label>
+                            <Textarea
+                                id="template-description"
+                                value={description}
+                                onChange={(e) => setDescription(e.target.value)}
+                            />
+                        </div>
+                    </div>
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setEditing(null)}>
+                            סגור
+                        </Button>
+                        <Button onClick={handleSave} disabled={!name.trim() || busyId === editing?.id}>
+                            שמור
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    )
+}
@@ -30,11 +30,49 @@ import {
     SelectValue,
 } from '@/components/ui/select'
 import { LoadingSpinner } from '@/components/shared/loading-spinner'
+import { DatePicker } from '@/components/shared/date-picker'
 import { useToast } from '@/lib/hooks/use-toast'
 import { fetchWithAuth } from '@/lib/api/fetch-with-auth'
+import { fromDateKey, toDateKey } from '@/lib/utils/delivery-schedule'
 import Link from 'next/link'
 
+type Grouping = 'daily' | 'weekly' | 'monthly'
+
+const categoryOptions = [
+    { value: 'all', label: 'כל הקטגוריות' },
+    { value: 'appetizer', label: 'מנות ראשונות' },
+    { value: 'main', label: 'מנות עיקריות' },
+    { value: 'side', label: 'תוספות' },
+    { value: 'dessert', label: 'קינוחים' },
+    { value: 'beverage', label: 'משקאות' }
+]
+
+// How a point of each grouping is labelled; delivery weeks are named by their Friday
+const formatPointDate = (date: string, grouping: Grouping) => grouping === 'monthly'
+    ? format(fromDateKey(date), 'MMMM yyyy', { locale: he })
+    : grouping === 'weekly'
+        ? `שבוע עד שישי ${format(fromDateKey(date), 'dd/MM')}`
+        : format(fromDateKey(date), 'EEEE dd/MM', { locale: he })
+
+interface RevenuePoint {
+    date: string // yyyy-MM-dd
+    amount: number
+    orders: number
+}
+
 interface AnalyticsData {
+    range?: {
+        startDate: string
+        endDate: string
+        previousStartDate: string
+        previousEndDate: string
+        comparison: 'previous' | 'lastYear'
+    }
+    previous?: {
+        totalRevenue: number
+        totalOrders: number
+        averageOrderValue: number
+    }
     summary: {
         totalRevenue: number
         totalOrders: number
@@ -46,9 +84,9 @@ interface AnalyticsData {
         ordersGrowth: number
     }
     revenue?: {
-        daily: Array<{ date: string; amount: number }>
-        weekly: Array<{ date: string; amount: number }>
-        monthly: Array<{ date: string; amount: number }>
+        daily: RevenuePoint[]
+        weekly: RevenuePoint[]
+        monthly: RevenuePoint[]
     }
     orders?: {
         byStatus: Record<string, number>
@@ -97,16 +135,47 @@ export default function AnalyticsPage() {
     const [loading, setLoading] = useState(true)
     const [data, setData] = useState<AnalyticsData | null>(null)
     const [period, setPeriod] = useState('month')
+    // Custom range, used when period is 'custom'
+    const [startDate, setStartDate] = useState<Date | undefined>(() => subMonths(new Date(), 1))
+    const [endDate, setEndDate] = useState<Date | undefined>(() => new Date())
+    const [comparison, setComparison] = useState<'previous' | 'lastYear'>('previous')
+    const [category, setCategory] = useState('all')
+    const [customerId, setCustomerId] = useState('all')
+    const [customers, setCustomers] = useState<{ id: string, name: string }[]>([])
+    const [grouping, setGrouping] = useState<Grouping>('weekly')
     const [exporting, setExporting] = useState(false)
 
+    // The report's query string; null while a custom range is incomplete
+    const reportQuery = (() => {
+        const params = new URLSearchParams({ comparison })
+        if (period === 'custom') {
+            if (!startDate || !endDate) return null
+            params.set('startDate', toDateKey(startDate))
+            params.set('endDate', toDateKey(endDate))
+        } else {
+            params.set('period', period)
+        }
+        if (category !== 'all') params.set('category', category)
+        if (customerId !== 'all') params.set('customerId', customerId)
+        return params.toString()
+    })()
+
     useEffect(() => {
-        fetchAnalytics()
-    }, [period])
+        if (reportQuery) fetchAnalytics(reportQuery)
+    }, [reportQuery])
 
-    const fetchAnalytics = async () => {
+    // Customers for the customer filter
+    useEffect(() => {
+        fetchWithAuth('/api/customers?limit=100&sort=name')
+            .then(response => response.ok ? response.json() : { customers: [] })
+            .then(data => setCustomers(data.customers.filter((c: { id: string | null }) => c.id)))
+            .catch(error => console.error('Error fetching customers:', error))
+    }, [])
+
+    const fetchAnalytics = async (queryString: string) => {
         try {
             setLoading(true)
-            const response = await fetchWithAuth(`/api/reports/analytics?period=${period}`)
+            const response = await fetchWithAuth(`/api/reports/analytics?${queryString}`)
 
             if (response.ok) {
                 const analyticsData = await response.json()
@@ -118,7 +187,7 @@ export default function AnalyticsPage() {
                     orderTrends: analyticsData.orderTrends || {
                         daily: analyticsData.revenue?.daily?.map((d: any) => ({
                             date: d.date,
-                            orders: 0,
+                            orders: d.orders || 0,
                             revenue: d.amount
                         })) || [],
                         byDay: analyticsData.orders?.byDay || []
@@ -172,16 +241,19 @@ export default function AnalyticsPage() {
     }
 
     const exportReport = async () => {
+        if (!reportQuery) return
         try {
             setExporting(true)
-            const response = await fetchWithAuth(`/api/reports/analytics/export?period=${period}`)
+            const response = await fetchWithAuth(`/api/reports/analytics/export?${reportQuery}`)
 
             if (response.ok) {
                 const blob = await response.blob()
                 const url = window.URL.createObjectURL(blob)
                 const a = document.createElement('a')
                 a.href = url
-                a.download = `analytics-${period}-${format(new Date(), 'yyyy-MM-dd')}.xlsx`
+                a.download = data?.range
+                    ? `analytics-${data.range.startDate}-${data.range.endDate}.xlsx`
+                    : `analytics-${period}-${format(new Date(), 'yyyy-MM-dd')}.xlsx`
                 document.body.appendChild(a)
                 a.click()
                 window.URL.revokeObjectURL(url)
@@ -219,7 +291,14 @@ export default function AnalyticsPage() {
         )
     }
 
-    const StatCard = ({ title, value, change, icon: Icon, prefix = '' }: any) => (
+    const comparisonLabel = data.range
+        ? data.range.comparison === 'lastYear'
+            ? `לעומת אותה תקופה אשתקד (${format(fromDateKey(data.range.previousStartDate), 'dd/MM/yy')}-${format(fromDateKey(data.range.previousEndDate), 'dd/MM/yy')})`
+            : `לעומת התקופה הקודמת (${format(fromDateKey(data.range.previousStartDate), 'dd/MM/yy')}-${format(fromDateKey(data.range.previousEndDate), 'dd/MM/yy')})`
+        : undefined
+    const trendPoints = data.revenue?.[grouping] || []
+
+    const StatCard = ({ title, value, change, previous, icon: Icon, prefix = '' }: any) => (
         <Card>
             <CardHeader className="pb-2">
                 <div className="flex items-center justify-between">
@@ -234,9 +313,14 @@ export default function AnalyticsPage() {
                 {change !== undefined && (
                     <div className={`flex items-center gap-1 text-sm ${change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
                         {change >= 0 ? <ArrowUpRight className="h-3 w-3" /> : <ArrowDownRight className="h-3 w-3" />}
-                        {Math.abs(change)}%
+                        {Math.abs(change).toFixed(1)}%
                     </div>
                 )}
+                {previous !== undefined && (
+                    <p className="text-xs text-muted-foreground">
+                        {prefix}{previous.toLocaleString()} בתקופת ההשוואה
+                    </p>
+                )}
             </CardContent>
         </Card>
     )
@@ -263,24 +347,70 @@ export default function AnalyticsPage() {
                     <p className="text-muted-foreground">
                         ניתוח מעמיק של נתוני הלקוחות והמכירות
                     </p>
+                    {comparisonLabel && (
+                        <p className="text-sm text-muted-foreground">{comparisonLabel}</p>
+                    )}
                 </div>
-                <div className="flex gap-2">
-                    <Select value={period} onValueChange={setPeriod}>
-                        <SelectTrigger className="w-40">
-                            <SelectValue />
-                        </SelectTrigger>
-                        <SelectContent>
-                            <SelectItem value="week">שבוע אחרון</SelectItem>
-                            <SelectItem value="month">חודש אחרון</SelectItem>
-                            <SelectItem value="quarter">רבעון אחרון</SelectItem>
-                            <SelectItem value="year">שנה אחרונה</SelectItem>
-                        </SelectContent>
-                    </Select>
-                    <Button onClick={exportReport} disabled={exporting}>
-                        <Download className="h-4 w-4 ml-2" />
-                        {exporting ? 'מייצא...' : 'ייצוא'}
-                    </Button>
-                </div>
+                <Button onClick={exportReport} disabled={exporting || !reportQuery}>
+                    <Download className="h-4 w-4 ml-2" />
+                    {exporting ? 'מייצא...' : 'ייצוא'}
+                </Button>
+            </div>
+
+            {/* Filters */}
+            <div className="flex flex-wrap items-center gap-2">
+                <Select value={period} onValueChange={setPeriod}>
+                    <SelectTrigger className="w-40">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="week">שבוע משלוח נוכחי</SelectItem>
+                        <SelectItem value="month">החודש</SelectItem>
+                        <SelectItem value="quarter">הרבעון</SelectItem>
+                        <SelectItem value="year">השנה</SelectItem>
+                        <SelectItem value="custom">טווח מותאם</SelectItem>
+                    </SelectContent>
+                </Select>
+                {period === 'custom' && (
+                    <>
+                        <DatePicker date={startDate} onDateChange={setStartDate} placeholder="מתאריך" />
+                        <DatePicker date={endDate} onDateChange={setEndDate} placeholder="עד תאריך" />
+                    </>
+                )}
+                <Select value={comparison} onValueChange={(value) => setComparison(value as 'previous' | 'lastYear')}>
+                    <SelectTrigger className="w-48">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="previous">השוואה לתקופה הקודמת</SelectItem>
+                        <SelectItem value="lastYear">השוואה לאותה תקופה אשתקד</SelectItem>
+                    </SelectContent>
+                </Select>
+                <Select value={category} onValueChange={setCategory}>
+                    <SelectTrigger className="w-40">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {categoryOptions.map(option => (
+                            <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <Select value={customerId} onValueChange={setCustomerId}>
+                    <SelectTrigger className="w-48">
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        <SelectItem value="all">כל הלקוחות</SelectItem>
+                        {customers.map(customer => (
+                            <SelectItem key={customer.id} value={customer.id}>
+                                {customer.name}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
             </div>
 
             {/* Summary Stats */}
@@ -289,6 +419,7 @@ export default function AnalyticsPage() {
                     title="סך הכנסות"
                     value={data.summary.totalRevenue}
                     change={data.summary.revenueGrowth}
+                    previous={data.previous?.totalRevenue}
                     icon={DollarSign}
                     prefix="₪"
                 />
@@ -296,6 +427,7 @@ export default function AnalyticsPage() {
                     title="סך הזמנות"
                     value={data.summary.totalOrders}
                     change={data.summary.ordersGrowth}
+                    previous={data.previous?.totalOrders}
                     icon={ShoppingCart}
                 />
                 <StatCard
@@ -492,24 +624,38 @@ export default function AnalyticsPage() {
                     <div className="grid gap-4">
                         <Card>
                             <CardHeader>
-                                <CardTitle>מגמות הזמנות</CardTitle>
-                                <CardDescription>
-                                    כמות הזמנות והכנסות לאורך זמן
-                                </CardDescription>
+                                <div className="flex items-center justify-between">
+                                    <div>
+                                        <CardTitle>מגמות הזמנות</CardTitle>
+                                        <CardDescription>
+                                            כמות הזמנות והכנסות לפי תאריך המשלוח
+                                        </CardDescription>
+                                    </div>
+                                    <Select value={grouping} onValueChange={(value) => setGrouping(value as Grouping)}>
+                                        <SelectTrigger className="w-44">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="daily">לפי יום</SelectItem>
+                                            <SelectItem value="weekly">לפי שבוע (עד שישי)</SelectItem>
+                                            <SelectItem value="monthly">לפי חודש</SelectItem>
+                                        </SelectContent>
+                                    </Select>
+                                </div>
                             </CardHeader>
                             <CardContent>
                                 <div className="space-y-4">
-                                    {(data.orderTrends?.daily || []).map((day, index) => (
-                                        <div key={index} className="flex items-center justify-between p-2 hover:bg-muted rounded">
+                                    {trendPoints.map(point => (
+                                        <div key={point.date} className="flex items-center justify-between p-2 hover:bg-muted rounded">
                                             <span className="text-sm">
-                                                {format(new Date(day.date), 'dd/MM', { locale: he })}
+                                                {formatPointDate(point.date, grouping)}
                                             </span>
                                             <div className="flex gap-4">
                                                 <span className="text-sm">
-                                                    {day.orders} הזמנות
+                                                    {point.orders} הזמנות
                                                 </span>
                                                 <span className="text-sm font-medium">
-                                                    ₪{day.revenue.toLocaleString()}
+                                                    ₪{point.amount.toLocaleString()}
                                                 </span>
                                             </div>
                                         </div>
@@ -0,0 +1,113 @@
+// src/app/(dashboard)/reports/outstanding/page.tsx
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { he } from 'date-fns/locale'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { LoadingSpinner } from '@/components/shared/loading-spinner'
+import { fetchWithAuth } from '@/lib/api/fetch-with-auth'
+import { useToast } from '@/lib/hooks/use-toast'
+import type { OutstandingBalance } from '@/lib/utils/payments'
+
+const formatPrice = (amount: number) =>
+    new Intl.NumberFormat('he-IL', { style: 'currency', currency: 'ILS' }).format(amount)
+
+export default function OutstandingBalancesPage() {
+    const { toast } = useToast()
+    const [balances, setBalances] = useState<OutstandingBalance[]>([])
+    const [totalOutstanding, setTotalOutstanding] = useState(0)
+    const [loading, setLoading] = useState(true)
+
+    useEffect(() => {
+        const fetchBalances = async () => {
+            try {
+                const response = await fetchWithAuth('/api/reports/outstanding')
+                if (!response.ok) throw new Error('Failed to fetch outstanding balances')
+
+                const data = await response.json()
+                setBalances(data.balances)
+                setTotalOutstanding(data.totalOutstanding)
+            } catch (error) {
+                console.error('Error fetching outstanding balances:', error)
+                toast({
+                    title: 'שגיאה',
+                    description: 'לא ניתן לטעון את היתרות הפתוחות',
+                    variant: 'destructive'
+                })
+            } finally {
+                setLoading(false)
+            }
+        }
+
+        fetchBalances()
+    }, [toast])
+
+    if (loading) return <LoadingSpinner />
+
+    return (
+        <div className="space-y-6">
+            <div>
+                <h1 className="text-3xl font-bold tracking-tight">יתרות פתוחות</h1>
+                <p className="text-muted-foreground">
+                    לקוחות עם הזמנות שלא שולמו במלואן, או שמגיע להם החזר
+                </p>
+            </div>
+
+            <Card>
+                <CardHeader className="pb-2">
+                    <CardDescription>סה&quot;כ לגבייה</CardDescription>
+                    <CardTitle className="text-2xl text-red-600">{formatPrice(totalOutstanding)}</CardTitle>
+                </CardHeader>
+            </Card>
+
+            <Card>
+                {balances.length === 0 ? (
+                    <CardContent className="p-6 text-center text-muted-foreground">
+                        אין יתרות פתוחות
+                    </CardContent>
+                ) : (
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead>לקוח</TableHead>
+                                <TableHead>טלפון</TableHead>
+                                <TableHead>הזמנות פתוחות</TableHead>
+                                <TableHead>משלוח ותיק ביותר</TableHead>
+                                <TableHead className="text-right">יתרה</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {balances.map(row => (
+                                <TableRow key={row.customerId}>
+                                    <TableCell className="font-medium">
+                                        <Link href={`/customers/${row.customerId}`} className="hover:underline">
+                                            {row.customerName}
+                                        </Link>
+                                    </TableCell>
+                                    <TableCell dir="ltr" className="text-right">{row.phone}</TableCell>
+                                    <TableCell>{row.openOrders}</TableCell>
+                                    <TableCell>
+                                        {row.oldestDeliveryDate
+                                            ? format(new Date(row.oldestDeliveryDate), 'dd/MM/yyyy', { locale: he })
+                                            : '-'}
+                                    </TableCell>
+                                    <TableCell className="text-right">
+                                        {row.balance < 0 ? (
+                                            <Badge variant="outline">זכות {formatPrice(-row.balance)}</Badge>
+                                        ) : (
+                                            <span className="font-semibold text-red-600">{formatPrice(row.balance)}</span>
+                                        )}
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                )}
+            </Card>
+        </div>
+    )
+}
@@ -14,7 +14,8 @@ import {
     Package,
     BarChart3,
     Clock,
-    AlertCircle
+    AlertCircle,
+    Wallet
 } from 'lucide-react'
 import Link from 'next/link'
 import { format } from 'date-fns'
@@ -85,6 +86,16 @@ export default function ReportsPage() {
             stats: `${stats.activeCustomers} לקוחות פעילים`,
             available: true
         },
+        {
+            title: 'יתרות פתוחות',
+            description: 'לקוחות עם הזמנות שלא שולמו במלואן ויתרה לגבייה',
+            icon: Wallet,
+            href: '/reports/outstanding',
+            color: 'text-red-600',
+            bgColor: 'bg-red-50',
+            stats: 'לפי רישום התשלומים',
+            available: true
+        },
         {
             title: 'דוח הכנסות',
             description: 'ניתוח הכנסות לפי תקופות, השוואות ומגמות עסקיות',
@@ -20,7 +20,7 @@ import { fetchWithAuth } from '@/lib/api/fetch-with-auth'
 
 interface WeeklyReport {
     weekOf: string
-    friday: string
+    deliveryDates: string[]
     summary: {
         totalOrders: number
         totalRevenue: number
@@ -124,6 +124,11 @@ export default function WeeklyReportPage() {
                     <p className="text-muted-foreground">
                         שבוע {format(weekStart, 'dd/MM')} - {format(weekEnd, 'dd/MM/yyyy')}
                     </p>
+                    <p className="text-sm text-muted-foreground">
+                        {report.deliveryDates.length > 0
+                            ? `ימי משלוח: ${report.deliveryDates.map(d => format(new Date(d), 'EEEE dd/MM', { locale: he })).join(', ')}`
+                            : 'אין ימי משלוח בשבוע זה'}
+                    </p>
                 </div>
                 <div className="flex gap-2">
                     <DatePicker
@@ -159,7 +164,7 @@ export default function WeeklyReportPage() {
                             <CardTitle>הזמנות לפי יום</CardTitle>
                             <CardDescription>
                                 {/* Fixed: Escaped the quote properly */}
-                                מגמת הזמנות במהלך השבוע - מיום ראשון עד יום שישי
+                                מגמת הזמנות לפי ימי המשלוח בשבוע
                             </CardDescription>
                         </CardHeader>
                         <CardContent>
@@ -0,0 +1,336 @@
+// app/(dashboard)/settings/capacity/page.tsx
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { he } from 'date-fns/locale'
+import { ArrowRight, Loader2, Plus, Save, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { LoadingSpinner } from '@/components/shared/loading-spinner'
+import { fetchWithAuth, putWithAuth } from '@/lib/api/fetch-with-auth'
+import { useToast } from '@/lib/hooks/use-toast'
+import { DEFAULT_CAPACITY_SETTINGS } from '@/lib/utils/capacity'
+import { fromDateKey, toDateKey } from '@/lib/utils/delivery-schedule'
+import type { CapacityLimits, CapacitySettings } from '@/lib/types/firestore'
+
+interface DishOption {
+    id: string
+    name: string
+}
+
+// Empty input = no limit
+const parseLimit = (value: string): number | null => {
+    if (value.trim() === '') return null
+    const parsed = parseInt(value, 10)
+    return isNaN(parsed) ? null : Math.max(0, parsed)
+}
+
+interface LimitInputProps {
+    id: string
+    label: string
+    value?: number | null
+    onChange: (value: number | null) => void
+    placeholder?: string
+}
+
+function LimitInput({ id, label, value, onChange, placeholder = 'ללא הגבלה' }: LimitInputProps) {
+    return (
+        <div className="space-y-1">
+            <Label htmlFor={id}>{label}</Label>
+            <Input
+                id={id}
+                type="number"
+                min={0}
+                placeholder={placeholder}
+                value={value ?? ''}
+                onChange={(e) => onChange(parseLimit(e.target.value))}
+                className="w-36"
+            />
+        </div>
+    )
+}
+
+interface DishLimitsEditorProps {
+    dishes: DishOption[]
+    limits: Record<string, number>
+    onChange: (limits: Record<string, number>) => void
+}
+
+function DishLimitsEditor({ dishes, limits, onChange }: DishLimitsEditorProps) {
+    const [newDishId, setNewDishId] = useState('')
+    const dishName = (dishId: string) => dishes.find(d => d.id === dishId)?.name || 'מנה שנמחקה'
+
+    return (
+        <div className="space-y-2">
+            {Object.entries(limits).map(([dishId, limit]) => (
+                <div key={dishId} className="flex items-center gap-2">
+                    <span className="w-48 text-sm">{dishName(dishId)}</span>
+                    <Input
+                        type="number"
+                        min={0}
+                        value={limit}
+                        onChange={(e) => onChange({ ...limits, [dishId]: parseLimit(e.target.value) ?? 0 })}
+                        className="w-24"
+                    />
+                    <span className="text-sm text-muted-foreground">מנות</span>
+                    <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onChange(
+                            Object.fromEntries(Object.entries(limits).filter(([id]) => id !== dishId))
+                        )}
+                    >
+                        <Trash2 className="h-4 w-4" />
+                    </Button>
+                </div>
+            ))}
+            <div className="flex items-center gap-2">
+                <Select value={newDishId} onValueChange={setNewDishId}>
+                    <SelectTrigger className="w-48 text-right">
+                        <SelectValue placeholder="בחר מנה" />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {dishes.filter(dish => !(dish.id in limits)).map(dish => (
+                            <SelectItem key={dish.id} value={dish.id} className="text-right">
+                                {dish.name}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={!newDishId}
+                    onClick={() => {
+                        onChange({ ...limits, [newDishId]: 0 })
+                        setNewDishId('')
+                    }}
+                >
+                    <Plus className="h-4 w-4 ml-1" />
+                    הוסף מגבלת מנה
+                </Button>
+            </div>
+        </div>
+    )
+}
+
+export default function CapacitySettingsPage() {
+    const { toast } = useToast()
+    const [settings, setSettings] = useState<CapacitySettings>(DEFAULT_CAPACITY_SETTINGS)
+    const [dishes, setDishes] = useState<DishOption[]>([])
+    const [isLoading, setIsLoading] = useState(true)
+    const [isSaving, setIsSaving] = useState(false)
+    const [newDate, setNewDate] = useState('')
+
+    useEffect(() => {
+        const fetchData = async () => {
+            try {
+                const [settingsResponse, dishesResponse] = await Promise.all([
+                    fetchWithAuth('/api/settings/capacity'),
+                    fetchWithAuth('/api/dishes')
+                ])
+                if (!settingsResponse.ok || !dishesResponse.ok) throw new Error('Failed to fetch capacity settings')
+
+                setSettings(await settingsResponse.json())
+                const dishesData = await dishesResponse.json()
+                setDishes(dishesData
+                    .filter((dish: any) => dish.id)
+                    .map((dish: any) => ({ id: dish.id, name: dish.name }))
+                    .sort((a: DishOption, b: DishOption) => a.name.localeCompare(b.name)))
+            } catch (error) {
+                console.error('Error fetching capacity settings:', error)
+                toast({
+                    title: 'שגיאה',
+                    description: 'לא ניתן לטעון את מגבלות הקיבולת',
+                    variant: 'destructive'
+                })
+            } finally {
+                setIsLoading(false)
+            }
+        }
+
+        fetchData()
+    }, [toast])
+
+    const updateDefaults = (changes: Partial<CapacityLimits>) => {
+        setSettings(prev => ({ ...prev, defaults: { ...prev.defaults, ...changes } }))
+    }
+
+    const updateDate = (dateKey: string, changes: Partial<CapacityLimits>) => {
+        setSettings(prev => ({
+            ...prev,
+            dates: { ...prev.dates, [dateKey]: { ...prev.dates[dateKey], ...changes } }
+        }))
+    }
+
+    const addDate = () => {
+        if (!newDate || settings.dates[newDate]) return
+        updateDate(newDate, { maxOrders: null, maxPortions: null, dishLimits: {} })
+        setNewDate('')
+    }
+
+    const removeDate = (dateKey: string) => {
+        setSettings(prev => ({
+            ...prev,
+            dates: Object.fromEntries(Object.entries(prev.dates).filter(([key]) => key !== dateKey))
+        }))
+    }
+
+    const handleSave = async () => {
+        setIsSaving(true)
+        try {
+            const response = await putWithAuth('/api/settings/capacity', {
+                defaults: settings.defaults,
+                dates: settings.dates
+            })
+
+            if (!response.ok) {
+                const error = await response.json()
+                throw new Error(error.details?.[0]?.message || error.error || 'Failed to save')
+            }
+
+            setSettings(await response.json())
+            toast({ title: 'מגבלות הקיבולת נשמרו' })
+        } catch (error) {
+            toast({
+                title: 'שגיאה בשמירה',
+                description: error instanceof Error ? error.message : 'לא ניתן לשמור את מגבלות הקיבולת',
+                variant: 'destructive'
+            })
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    if (isLoading) return <LoadingSpinner />
+
+    const today = toDateKey(new Date())
+    const dateKeys = Object.keys(settings.dates).sort()
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight">מגבלות קיבולת</h1>
+                    <p className="text-muted-foreground">כמה הזמנות ומנות המטבח יכול לקבל לכל יום משלוח</p>
+                </div>
+                <div className="flex gap-2">
+                    <Link href="/settings/delivery">
+                        <Button variant="outline">
+                            <ArrowRight className="h-4 w-4 ml-2" />
+                            לוח משלוחים
+                        </Button>
+                    </Link>
+                    <Button onClick={handleSave} disabled={isSaving}>
+                        {isSaving
+                            ? <Loader2 className="h-4 w-4 ml-2 animate-spin" />
+                            : <Save className="h-4 w-4 ml-2" />}
+                        שמירה
+                    </Button>
+                </div>
+            </div>
+
+            {/* Defaults */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>ברירת מחדל לכל יום משלוח</CardTitle>
+                    <CardDescription>השאר ריק כדי לא להגביל</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-6">
+                    <div className="flex flex-wrap gap-6">
+                        <LimitInput
+                            id="default-orders"
+                            label="מקסימום הזמנות"
+                            value={settings.defaults.maxOrders}
+                            onChange={(maxOrders) => updateDefaults({ maxOrders })}
+                        />
+                        <LimitInput
+                            id="default-portions"
+                            label="מקסימום מנות"
+                            value={settings.defaults.maxPortions}
+                            onChange={(maxPortions) => updateDefaults({ maxPortions })}
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <Label>מגבלה יומית למנות ספציפיות</Label>
+                        <DishLimitsEditor
+                            dishes={dishes}
+                            limits={settings.defaults.dishLimits || {}}
+                            onChange={(dishLimits) => updateDefaults({ dishLimits })}
+                        />
+                    </div>
+                </CardContent>
+            </Card>
+
+            {/* Per-date overrides */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>מגבלות לתאריכים מסוימים</CardTitle>
+                    <CardDescription>גוברות על ברירת המחדל, למשל לפני חג או כשחסר צוות</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="flex gap-2">
+                        <Input
+                            type="date"
+                            min={today}
+                            value={newDate}
+                            onChange={(e) => setNewDate(e.target.value)}
+                            className="w-48"
+                        />
+                        <Button variant="outline" onClick={addDate} disabled={!newDate}>
+                            <Plus className="h-4 w-4 ml-1" />
+                            הוסף תאריך
+                        </Button>
+                    </div>
+
+                    {dateKeys.length === 0 && (
+                        <p className="text-sm text-muted-foreground">אין מגבלות לתאריכים מסוימים</p>
+                    )}
+
+                    {dateKeys.map(dateKey => {
+                        const limits = settings.dates[dateKey]
+                        return (
+                            <div key={dateKey} className="space-y-4 rounded-md border p-4">
+                                <div className="flex items-center justify-between">
+                                    <span className="font-medium">
+                                        {format(fromDateKey(dateKey), 'EEEE, dd בMMMM yyyy', { locale: he })}
+                                    </span>
+                                    <Button variant="ghost" size="icon" onClick={() => removeDate(dateKey)}>
+                                        <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                                <div className="flex flex-wrap gap-6">
+                                    <LimitInput
+                                        id={`${dateKey}-orders`}
+                                        label="מקסימום הזמנות"
+                                        value={limits.maxOrders}
+                                        placeholder="כברירת המחדל"
+                                        onChange={(maxOrders) => updateDate(dateKey, { maxOrders })}
+                                    />
+                                    <LimitInput
+                                        id={`${dateKey}-portions`}
+                                        label="מקסימום מנות"
+                                        value={limits.maxPortions}
+                                        placeholder="כברירת המחדל"
+                                        onChange={(maxPortions) => updateDate(dateKey, { maxPortions })}
+                                    />
+                                </div>
+                                <DishLimitsEditor
+                                    dishes={dishes}
+                                    limits={limits.dishLimits || {}}
+                                    onChange={(dishLimits) => updateDate(dateKey, { dishLimits })}
+                                />
+                            </div>
+                        )
+                    })}
+                </CardContent>
+            </Card>
+        </div>
+    )
+}
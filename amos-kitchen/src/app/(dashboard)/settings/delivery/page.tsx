@@ -0,0 +1,352 @@
+// app/(dashboard)/settings/delivery/page.tsx
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { format } from 'date-fns'
+import { he } from 'date-fns/locale'
+import { CalendarOff, CalendarPlus, Gauge, Loader2, Plus, Save, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { LoadingSpinner } from '@/components/shared/loading-spinner'
+import { fetchWithAuth, putWithAuth } from '@/lib/api/fetch-with-auth'
+import { useToast } from '@/lib/hooks/use-toast'
+import {
+    DEFAULT_DELIVERY_SCHEDULE,
+    WEEKDAY_LABELS,
+    fromDateKey,
+    getUpcomingDeliveryDates,
+    toDateKey
+} from '@/lib/utils/delivery-schedule'
+import type { DeliveryCutoff, DeliverySchedule } from '@/lib/types/firestore'
+
+const DEFAULT_CUTOFF: DeliveryCutoff = { daysBefore: 1, time: '18:00' }
+
+interface CutoffFieldsProps {
+    cutoff: DeliveryCutoff
+    onChange: (cutoff: DeliveryCutoff) => void
+}
+
+function CutoffFields({ cutoff, onChange }: CutoffFieldsProps) {
+    return (
+        <div className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">סגירת הזמנות</span>
+            <Input
+                type="number"
+                min={0}
+                max={14}
+                className="w-16"
+                value={cutoff.daysBefore}
+                onChange={(e) => onChange({ ...cutoff, daysBefore: Math.max(0, Number(e.target.value) || 0) })}
+            />
+            <span className="text-muted-foreground">ימים לפני, בשעה</span>
+            <Input
+                type="time"
+                className="w-28"
+                value={cutoff.time}
+                onChange={(e) => onChange({ ...cutoff, time: e.target.value })}
+            />
+        </div>
+    )
+}
+
+export default function DeliverySettingsPage() {
+    const { toast } = useToast()
+    const [schedule, setSchedule] = useState<DeliverySchedule>(DEFAULT_DELIVERY_SCHEDULE)
+    const [isLoading, setIsLoading] = useState(true)
+    const [isSaving, setIsSaving] = useState(false)
+    const [newClosureDate, setNewClosureDate] = useState('')
+    const [newExtraDate, setNewExtraDate] = useState('')
+
+    useEffect(() => {
+        const fetchSchedule = async () => {
+            try {
+                const response = await fetchWithAuth('/api/settings/delivery-schedule')
+                if (!response.ok) throw new Error('Failed to fetch delivery schedule')
+                setSchedule(await response.json())
+            } catch (error) {
+                console.error('Error fetching delivery schedule:', error)
+                toast({
+                    title: 'שגיאה',
+                    description: 'לא ניתן לטעון את לוח המשלוחים',
+                    variant: 'destructive'
+                })
+            } finally {
+                setIsLoading(false)
+            }
+        }
+
+        fetchSchedule()
+    }, [toast])
+
+    const toggleWeekday = (weekday: number, enabled: boolean) => {
+        setSchedule(prev => ({
+            ...prev,
+            days: enabled
+                ? [...prev.days, { weekday, cutoff: DEFAULT_CUTOFF }].sort((a, b) => a.weekday - b.weekday)
+                : prev.days.filter(day => day.weekday !== weekday)
+        }))
+    }
+
+    const updateWeekdayCutoff = (weekday: number, cutoff: DeliveryCutoff) => {
+        setSchedule(prev => ({
+            ...prev,
+            days: prev.days.map(day => day.weekday === weekday ? { ...day, cutoff } : day)
+        }))
+    }
+
+    const addClosure = () => {
+        if (!newClosureDate || schedule.closures.some(c => c.date === newClosureDate)) return
+        setSchedule(prev => ({
+            ...prev,
+            closures: [...prev.closures, { date: newClosureDate, reason: '' }]
+        }))
+        setNewClosureDate('')
+    }
+
+    const addExtraDay = () => {
+        if (!newExtraDate || schedule.extraDays.some(d => d.date === newExtraDate)) return
+        setSchedule(prev => ({
+            ...prev,
+            extraDays: [...prev.extraDays, { date: newExtraDate, cutoff: DEFAULT_CUTOFF, reason: '' }]
+        }))
+        setNewExtraDate('')
+    }
+
+    const handleSave = async () => {
+        setIsSaving(true)
+        try {
+            const response = await putWithAuth('/api/settings/delivery-schedule', {
+                days: schedule.days,
+                closures: schedule.closures,
+                extraDays: schedule.extraDays
+            })
+
+            if (!response.ok) {
+                const error = await response.json()
+                throw new Error(error.details?.[0]?.message || error.error || 'Failed to save')
+            }
+
+            setSchedule(await response.json())
+            toast({
+                title: 'לוח המשלוחים נשמר',
+                description: 'טופס ההזמנה ודוחות המטבח יתעדכנו בהתאם'
+            })
+        } catch (error) {
+            toast({
+                title: 'שגיאה בשמירה',
+                description: error instanceof Error ? error.message : 'לא ניתן לשמור את לוח המשלוחים',
+                variant: 'destructive'
+            })
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    if (isLoading) return <LoadingSpinner />
+
+    const today = toDateKey(new Date())
+    const upcomingDates = getUpcomingDeliveryDates(schedule, 5)
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight">לוח משלוחים</h1>
+                    <p className="text-muted-foreground">ימי משלוח קבועים, שעות סגירת הזמנות, חגים וימי משלוח מיוחדים</p>
+                </div>
+                <div className="flex gap-2">
+                    <Link href="/settings/capacity">
+                        <Button variant="outline">
+                            <Gauge className="h-4 w-4 ml-2" />
+                            מגבלות קיבולת
+                        </Button>
+                    </Link>
+                    <Button onClick={handleSave} disabled={isSaving}>
+                        {isSaving
+                            ? <Loader2 className="h-4 w-4 ml-2 animate-spin" />
+                            : <Save className="h-4 w-4 ml-2" />}
+                        שמירה
+                    </Button>
+                </div>
+            </div>
+
+            {/* Weekly days */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>ימי משלוח קבועים</CardTitle>
+                    <CardDescription>בחר את ימי השבוע בהם יוצאים משלוחים ומתי נסגרות ההזמנות לכל יום</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                    {WEEKDAY_LABELS.map((label, weekday) => {
+                        const rule = schedule.days.find(day => day.weekday === weekday)
+                        return (
+                            <div key={weekday} className="flex flex-wrap items-center gap-4 min-h-10">
+                                <div className="flex items-center gap-2 w-28">
+                                    <Switch
+                                        id={`weekday-${weekday}`}
+                                        checked={!!rule}
+                                        onCheckedChange={(checked) => toggleWeekday(weekday, checked)}
+                                    />
+                                    <Label htmlFor={`weekday-${weekday}`}>יום {label}</Label>
+                                </div>
+                                {rule && (
+                                    <CutoffFields
+                                        cutoff={rule.cutoff}
+                                        onChange={(cutoff) => updateWeekdayCutoff(weekday, cutoff)}
+                                    />
+                                )}
+                            </div>
+                        )
+                    })}
+                </CardContent>
+            </Card>
+
+            <div className="grid gap-6 md:grid-cols-2">
+                {/* Closures */}
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <CalendarOff className="h-5 w-5" />
+                            ימים סגורים
+                        </CardTitle>
+                        <CardDescription>חגים וחופשות בהם אין משלוח, גם אם זה יום משלוח קבוע</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                        <div className="flex gap-2">
+                            <Input
+                                type="date"
+                                min={today}
+                                value={newClosureDate}
+                                onChange={(e) => setNewClosureDate(e.target.value)}
+                            />
+                            <Button variant="outline" onClick={addClosure} disabled={!newClosureDate}>
+                                <Plus className="h-4 w-4" />
+                            </Button>
+                        </div>
+                        {schedule.closures.length === 0 && (
+                            <p className="text-sm text-muted-foreground">אין ימים סגורים</p>
+                        )}
+                        {schedule.closures.map(closure => (
+                            <div key={closure.date} className="flex items-center gap-2">
+                                <span className="w-36 text-sm font-medium">
+                                    {format(fromDateKey(closure.date), 'EEEE dd/MM/yy', { locale: he })}
+                                </span>
+                                <Input
+                                    placeholder="סיבה (לא חובה)"
+                                    value={closure.reason || ''}
+                                    onChange={(e) => setSchedule(prev => ({
+                                        ...prev,
+                                        closures: prev.closures.map(c =>
+                                            c.date === closure.date ? { ...c, reason: e.target.value } : c
+                                        )
+                                    }))}
+                                />
+                                <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => setSchedule(prev => ({
+                                        ...prev,
+                                        closures: prev.closures.filter(c => c.date !== closure.date)
+                                    }))}
+                                >
+                                    <Trash2 className="h-4 w-4" />
+                                </Button>
+                            </div>
+                        ))}
+                    </CardContent>
+                </Card>
+
+                {/* Extra delivery days */}
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <CalendarPlus className="h-5 w-5" />
+                            ימי משלוח נוספים
+                        </CardTitle>
+                        <CardDescription>משלוח חד-פעמי מחוץ ללוח הקבוע, למשל ערב חג באמצע השבוע</CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                        <div className="flex gap-2">
+                            <Input
+                                type="date"
+                                min={today}
+                                value={newExtraDate}
+                                onChange={(e) => setNewExtraDate(e.target.value)}
+                            />
+                            <Button variant="outline" onClick={addExtraDay} disabled={!newExtraDate}>
+                                <Plus className="h-4 w-4" />
+                            </Button>
+                        </div>
+                        {schedule.extraDays.length === 0 && (
+                            <p className="text-sm text-muted-foreground">אין ימי משלוח נוספים</p>
+                        )}
+                        {schedule.extraDays.map(extra => (
+                            <div key={extra.date} className="space-y-2 rounded-md border p-3">
+                                <div className="flex items-center gap-2">
+                                    <span className="w-36 text-sm font-medium">
+                                        {format(fromDateKey(extra.date), 'EEEE dd/MM/yy', { locale: he })}
+                                    </span>
+                                    <Input
+                                        placeholder="סיבה (לא חובה)"
+                                        value={extra.reason || ''}
+                                        onChange={(e) => setSchedule(prev => ({
+                                            ...prev,
+                                            extraDays: prev.extraDays.map(d =>
+                                                d.date === extra.date ? { ...d, reason: e.target.value } : d
+                                            )
+                                        }))}
+                                    />
+                                    <Button
+                                        variant="ghost"
+                                        size="icon"
+                                        onClick={() => setSchedule(prev => ({
+                                            ...prev,
+                                            extraDays: prev.extraDays.filter(d => d.date !== extra.date)
+                                        }))}
+                                    >
+                                        <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                </div>
+                                <CutoffFields
+                                    cutoff={extra.cutoff}
+                                    onChange={(cutoff) => setSchedule(prev => ({
+                                        ...prev,
+                                        extraDays: prev.extraDays.map(d =>
+                                            d.date === extra.date ? { ...d, cutoff } : d
+                                        )
+                                    }))}
+                                />
+                            </div>
+                        ))}
+                    </CardContent>
+                </Card>
+            </div>
+
+            {/* Preview */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>מועדים פתוחים להזמנה</CardTitle>
+                    <CardDescription>כך יופיעו המועדים בטופס ההזמנה (לפי השינויים שטרם נשמרו)</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {upcomingDates.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">אין מועדי משלוח פתוחים</p>
+                    ) : (
+                        <ul className="space-y-1 text-sm">
+                            {upcomingDates.map(date => (
+                                <li key={date.toISOString()}>
+                                    {format(date, 'EEEE, dd בMMMM yyyy', { locale: he })}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    )
+}
@@ -1,4 +1,414 @@
 // app/(dashboard)/settings/page.tsx
-export default function RegisterPage() {
-    return <div>הגדרות</div>
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { CalendarDays, Loader2, RefreshCw, Save, UserCog } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { LoadingSpinner } from '@/components/shared/loading-spinner'
+import { fetchWithAuth, postWithAuth, putWithAuth } from '@/lib/api/fetch-with-auth'
+import { useToast } from '@/lib/hooks/use-toast'
+import { invalidateBusinessSettings } from '@/lib/hooks/use-business-settings'
+import { CURRENCY_OPTIONS, DEFAULT_BUSINESS_SETTINGS, formatOrderNumber } from '@/lib/utils/business-settings'
+import { WEEKDAY_LABELS } from '@/lib/utils/delivery-schedule'
+import type { BusinessSettings, NotificationSettings, WorkingHours } from '@/lib/types/firestore'
+
+const NOTIFICATION_OPTIONS: { key: keyof Omit<NotificationSettings, 'email'>, label: string }[] = [
+    { key: 'newOrder', label: 'הזמנה חדשה' },
+    { key: 'orderCancelled', label: 'הזמנה בוטלה' },
+    { key: 'dailySummary', label: 'סיכום יומי של ההזמנות ליום המשלוח הקרוב' },
+    { key: 'capacityAlert', label: 'יום משלוח מתקרב למגבלת הקיבולת' }
+]
+
+export default function SettingsPage() {
+    const { toast } = useToast()
+    const [settings, setSettings] = useState<BusinessSettings>(DEFAULT_BUSINESS_SETTINGS)
+    const [isLoading, setIsLoading] = useState(true)
+    const [isSaving, setIsSaving] = useState(false)
+    const [isReindexing, setIsReindexing] = useState(false)
+    const [isRebuildingRollups, setIsRebuildingRollups] = useState(false)
+
+    useEffect(() => {
+        const fetchSettings = async () => {
+            try {
+                const response = await fetchWithAuth('/api/settings/business')
+                if (!response.ok) throw new Error('Failed to fetch business settings')
+                setSettings(await response.json())
+            } catch (error) {
+                console.error('Error fetching business settings:', error)
+                toast({
+                    title: 'שגיאה',
+                    description: 'לא ניתן לטעון את הגדרות העסק',
+                    variant: 'destructive'
+                })
+            } finally {
+                setIsLoading(false)
+            }
+        }
+
+        fetchSettings()
+    }, [toast])
+
+    const update = (changes: Partial<BusinessSettings>) => {
+        setSettings(prev => ({ ...prev, ...changes }))
+    }
+
+    const updateHours = (weekday: number, changes: Partial<WorkingHours>) => {
+        setSettings(prev => ({
+            ...prev,
+            workingHours: prev.workingHours.map(hours =>
+                hours.weekday === weekday ? { ...hours, ...changes } : hours
+            )
+        }))
+    }
+
+    const updateNotifications = (changes: Partial<NotificationSettings>) => {
+        setSettings(prev => ({ ...prev, notifications: { ...prev.notifications, ...changes } }))
+    }
+
+    const handleSave = async () => {
+        setIsSaving(true)
+        try {
+            const response = await putWithAuth('/api/settings/business', settings)
+
+            if (!response.ok) {
+                const error = await response.json()
+                throw new Error(error.details?.[0]?.message || error.error || 'Failed to save')
+            }
+
+            const saved = await response.json()
+            setSettings(saved)
+            invalidateBusinessSettings(saved)
+            toast({ title: 'ההגדרות נשמרו' })
+        } catch (error) {
+            toast({
+                title: 'שגיאה בשמירה',
+                description: error instanceof Error ? error.message : 'לא ניתן לשמור את ההגדרות',
+                variant: 'destructive'
+            })
+        } finally {
+            setIsSaving(false)
+        }
+    }
+
+    const handleReindex = async () => {
+        setIsReindexing(true)
+        try {
+            const response = await postWithAuth('/api/search-index', {})
+            if (!response.ok) throw new Error('Failed to rebuild search index')
+
+            const result = await response.json()
+            toast({
+                title: 'אינדקס החיפוש נבנה מחדש',
+                description: `${result.customers} לקוחות ו-${result.orders} הזמנות`
+            })
+        } catch (error) {
+            toast({
+                title: 'שגיאה',
+                description: 'לא ניתן לבנות את אינדקס החיפוש',
+                variant: 'destructive'
+            })
+        } finally {
+            setIsReindexing(false)
+        }
+    }
+
+    const handleRebuildRollups = async () => {
+        setIsRebuildingRollups(true)
+        try {
+            const response = await postWithAuth('/api/rollups', {})
+            if (!response.ok) throw new Error('Failed to rebuild rollups')
+
+            const result = await response.json()
+            toast({
+                title: 'הסיכומים חושבו מחדש',
+                description: `${result.orders} הזמנות ב-${result.days} ימי משלוח`
+            })
+        } catch (error) {
+            toast({
+                title: 'שגיאה',
+                description: 'לא ניתן לחשב מחדש את הסיכומים',
+                variant: 'destructive'
+            })
+        } finally {
+            setIsRebuildingRollups(false)
+        }
+    }
+
+    if (isLoading) return <LoadingSpinner />
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight">הגדרות עסק</h1>
+                    <p className="text-muted-foreground">פרטי העסק וברירות המחדל של המערכת</p>
+                </div>
+                <div className="flex gap-2">
+                    <Link href="/settings/delivery">
+                        <Button variant="outline">
+                            <CalendarDays className="h-4 w-4 ml-2" />
+                            לוח משלוחים
+                        </Button>
+                    </Link>
+                    <Link href="/settings/users">
+                        <Button variant="outline">
+                            <UserCog className="h-4 w-4 ml-2" />
+                            משתמשים
+                        </Button>
+                    </Link>
+                    <Button onClick={handleSave} disabled={isSaving}>
+                        {isSaving
+                            ? <Loader2 className="h-4 w-4 ml-2 animate-spin" />
+                            : <Save className="h-4 w-4 ml-2" />}
+                        שמירה
+                    </Button>
+                </div>
+            </div>
+
+            {/* Business profile */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>פרטי העסק</CardTitle>
+                    <CardDescription>מופיעים בכותרת המערכת ובמסמכים</CardDescription>
+                </CardHeader>
+                <CardContent className="grid gap-4 md:grid-cols-2">
+                    <div className="space-y-1">
+                        <Label htmlFor="businessName">שם העסק</Label>
+                        <Input
+                            id="businessName"
+                            value={settings.businessName}
+                            onChange={(e) => update({ businessName: e.target.value })}
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <Label htmlFor="vatNumber">מספר עוסק / ח.פ</Label>
+                        <Input
+                            id="vatNumber"
+                            inputMode="numeric"
+                            value={settings.vatNumber || ''}
+                            onChange={(e) => update({ vatNumber: e.target.value })}
+                            dir="ltr"
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <Label htmlFor="phone">טלפון</Label>
+                        <Input
+                            id="phone"
+                            value={settings.phone || ''}
+                            onChange={(e) => update({ phone: e.target.value })}
+                            dir="ltr"
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <Label htmlFor="address">כתובת</Label>
+                        <Input
+                            id="address"
+                            value={settings.address || ''}
+                            onChange={(e) => update({ address: e.target.value })}
+                        />
+                    </div>
+                    <div className="space-y-1 md:col-span-2">
+                        <Label htmlFor="logoUrl">כתובת הלוגו</Label>
+                        <div className="flex items-center gap-3">
+                            <Input
+                                id="logoUrl"
+                                placeholder="https://..."
+                                value={settings.logoUrl || ''}
+                                onChange={(e) => update({ logoUrl: e.target.value })}
+                                dir="ltr"
+                            />
+                            {settings.logoUrl && (
+                                <img src={settings.logoUrl} alt="לוגו" className="h-10 w-10 rounded border object-contain" />
+                            )}
+                        </div>
+                    </div>
+                </CardContent>
+            </Card>
+
+            {/* Money and orders */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>מחירים והזמנות</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="flex flex-wrap gap-6">
+                        <div className="space-y-1">
+                            <Label>מטבע</Label>
+                            <Select value={settings.currency} onValueChange={(currency) => update({ currency })}>
+                                <SelectTrigger className="w-44 text-right">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {CURRENCY_OPTIONS.map(option => (
+                                        <SelectItem key={option.code} value={option.code} className="text-right">
+                                            {option.label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="space-y-1">
+                            <Label htmlFor="vatRate">שיעור מע&quot;מ (%)</Label>
+                            <Input
+                                id="vatRate"
+                                type="number"
+                                min={0}
+                                max={100}
+                                step={0.5}
+                                value={settings.vatRate}
+                                onChange={(e) => update({ vatRate: Number(e.target.value) || 0 })}
+                                className="w-28"
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <Label htmlFor="deliveryFee">דמי משלוח ברירת מחדל</Label>
+                            <Input
+                                id="deliveryFee"
+                                type="number"
+                                min={0}
+                                step={0.5}
+                                value={settings.defaultDeliveryFee}
+                                onChange={(e) => update({ defaultDeliveryFee: Math.max(0, Number(e.target.value) || 0) })}
+                                className="w-28"
+                            />
+                        </div>
+                        <div className="space-y-1">
+                            <Label htmlFor="orderNumberPrefix">קידומת למספר הזמנה</Label>
+                            <Input
+                                id="orderNumberPrefix"
+                                value={settings.orderNumberPrefix}
+                                onChange={(e) => update({ orderNumberPrefix: e.target.value })}
+                                className="w-28"
+                                dir="ltr"
+                            />
+                            <p className="text-xs text-muted-foreground" dir="ltr">
+                                {formatOrderNumber(settings.orderNumberPrefix, new Date().getFullYear(), 42)}
+                            </p>
+                        </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                        <Switch
+                            id="pricesIncludeVat"
+                            checked={settings.pricesIncludeVat}
+                            onCheckedChange={(pricesIncludeVat) => update({ pricesIncludeVat })}
+                        />
+                        <Label htmlFor="pricesIncludeVat">מחירי המנות כוללים מע&quot;מ</Label>
+                    </div>
+                </CardContent>
+            </Card>
+
+            {/* Working hours */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>שעות פעילות</CardTitle>
+                    <CardDescription>ימי המשלוח עצמם מוגדרים בלוח המשלוחים</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                    {settings.workingHours.map(hours => (
+                        <div key={hours.weekday} className="flex flex-wrap items-center gap-4">
+                            <span className="w-16 font-medium">{WEEKDAY_LABELS[hours.weekday]}</span>
+                            <div className="flex items-center gap-2">
+                                <Switch
+                                    checked={!hours.closed}
+                                    onCheckedChange={(open) => updateHours(hours.weekday, { closed: !open })}
+                                />
+                                <span className="w-12 text-sm text-muted-foreground">
+                                    {hours.closed ? 'סגור' : 'פתוח'}
+                                </span>
+                            </div>
+                            <Input
+                                type="time"
+                                className="w-28"
+                                value={hours.open}
+                                disabled={hours.closed}
+                                onChange={(e) => updateHours(hours.weekday, { open: e.target.value })}
+                            />
+                            <span className="text-sm text-muted-foreground">עד</span>
+                            <Input
+                                type="time"
+                                className="w-28"
+                                value={hours.close}
+                                disabled={hours.closed}
+                                onChange={(e) => updateHours(hours.weekday, { close: e.target.value })}
+                            />
+                        </div>
+                    ))}
+                </CardContent>
+            </Card>
+
+            {/* Notifications */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>התראות</CardTitle>
+                    <CardDescription>על מה לעדכן ולאן לשלוח</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="space-y-1">
+                        <Label htmlFor="notificationEmail">אימייל להתראות</Label>
+                        <Input
+                            id="notificationEmail"
+                            type="email"
+                            value={settings.notifications.email || ''}
+                            onChange={(e) => updateNotifications({ email: e.target.value })}
+                            className="w-72"
+                            dir="ltr"
+                        />
+                    </div>
+                    {NOTIFICATION_OPTIONS.map(option => (
+                        <div key={option.key} className="flex items-center gap-2">
+                            <Switch
+                                id={`notify-${option.key}`}
+                                checked={settings.notifications[option.key]}
+                                onCheckedChange={(checked) => updateNotifications({ [option.key]: checked })}
+                            />
+                            <Label htmlFor={`notify-${option.key}`}>{option.label}</Label>
+                        </div>
+                    ))}
+                </CardContent>
+            </Card>
+
+            {/* Search index */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>אינדקס חיפוש</CardTitle>
+                    <CardDescription>
+                        החיפוש בלקוחות ובהזמנות מתעדכן אוטומטית. יש לבנות אותו מחדש רק אם לקוחות או הזמנות ותיקים לא נמצאים בחיפוש
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <Button variant="outline" onClick={handleReindex} disabled={isReindexing}>
+                        {isReindexing
+                            ? <Loader2 className="h-4 w-4 ml-2 animate-spin" />
+                            : <RefreshCw className="h-4 w-4 ml-2" />}
+                        בנייה מחדש
+                    </Button>
+                </CardContent>
+            </Card>
+
+            {/* Analytics rollups */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>סיכומים מחושבים</CardTitle>
+                    <CardDescription>
+                        לוח הבקרה והדוחות נקראים מסיכומים יומיים ושבועיים שמתעדכנים עם כל שינוי בהזמנה. יש לחשב אותם מחדש פעם אחת עבור הזמנות ישנות, או אם המספרים לא תואמים להזמנות
+                    </CardDescription>
+                </CardHeader>
+                <CardContent>
+                    <Button variant="outline" onClick={handleRebuildRollups} disabled={isRebuildingRollups}>
+                        {isRebuildingRollups
+                            ? <Loader2 className="h-4 w-4 ml-2 animate-spin" />
+                            : <RefreshCw className="h-4 w-4 ml-2" />}
+                        חישוב מחדש
+                    </Button>
+                </CardContent>
+            </Card>
+        </div>
+    )
 }
@@ -0,0 +1,177 @@
+// app/(dashboard)/settings/users/page.tsx
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { he } from 'date-fns/locale'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { LoadingSpinner } from '@/components/shared/loading-spinner'
+import { InviteManager } from '@/components/users/invite-manager'
+import { useAuth } from '@/contexts/auth-context'
+import { fetchWithAuth, putWithAuth } from '@/lib/api/fetch-with-auth'
+import { useToast } from '@/lib/hooks/use-toast'
+import { ROLE_DESCRIPTIONS, ROLE_LABELS, USER_ROLES, type UserRole } from '@/lib/utils/roles'
+
+interface ManagedUser {
+    uid: string
+    email: string | null
+    displayName: string | null
+    role: UserRole | null
+    disabled: boolean
+    createdAt: string
+    lastSignInAt: string | null
+}
+
+// Select values can't be empty, so "no role" gets its own value
+const NO_ROLE = 'NONE'
+
+export default function UsersSettingsPage() {
+    const { user: currentUser } = useAuth()
+    const { toast } = useToast()
+    const [users, setUsers] = useState<ManagedUser[]>([])
+    const [isLoading, setIsLoading] = useState(true)
+    const [savingUid, setSavingUid] = useState<string | null>(null)
+
+    useEffect(() => {
+        const fetchUsers = async () => {
+            try {
+                const response = await fetchWithAuth('/api/users')
+                if (!response.ok) throw new Error('Failed to fetch users')
+                setUsers(await response.json())
+            } catch (error) {
+                console.error('Error fetching users:', error)
+                toast({
+                    title: 'שגיאה',
+                    description: 'לא ניתן לטעון את רשימת המשתמשים',
+                    variant: 'destructive'
+                })
+            } finally {
+                setIsLoading(false)
+            }
+        }
+
+        fetchUsers()
+    }, [toast])
+
+    const handleRoleChange = async (uid: string, value: string) => {
+        const role = value === NO_ROLE ? null : value as UserRole
+        setSavingUid(uid)
+        try {
+            const response = await putWithAuth(`/api/users/${uid}`, { role })
+            if (!response.ok) {
+                const error = await response.json()
+                throw new Error(error.error || 'Failed to update role')
+            }
+
+            setUsers(prev => prev.map(user => user.uid === uid ? { ...user, role } : user))
+            toast({
+                title: 'ההרשאה עודכנה',
+                description: 'השינוי ייכנס לתוקף בכניסה הבאה של המשתמש או תוך שעה'
+            })
+        } catch (error) {
+            toast({
+                title: 'שגיאה בעדכון ההרשאה',
+                description: error instanceof Error ? error.message : 'לא ניתן לעדכן את ההרשאה',
+                variant: 'destructive'
+            })
+        } finally {
+            setSavingUid(null)
+        }
+    }
+
+    if (isLoading) return <LoadingSpinner />
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div>
+                <h1 className="text-3xl font-bold tracking-tight">משתמשים והרשאות</h1>
+                <p className="text-muted-foreground">קבעו מה כל אחד מהצוות יכול לראות ולעשות במערכת</p>
+            </div>
+
+            {/* Roles legend */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>תפקידים</CardTitle>
+                    <CardDescription>משתמש ללא תפקיד אינו יכול לגשת לנתונים</CardDescription>
+                </CardHeader>
+                <CardContent className="grid gap-2 md:grid-cols-2">
+                    {USER_ROLES.map(role => (
+                        <div key={role} className="text-sm">
+                            <span className="font-medium">{ROLE_LABELS[role]}: </span>
+                            <span className="text-muted-foreground">{ROLE_DESCRIPTIONS[role]}</span>
+                        </div>
+                    ))}
+                </CardContent>
+            </Card>
+
+            {/* Users */}
+            <Card>
+                <CardContent className="p-0">
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead className="text-right">משתמש</TableHead>
+                                <TableHead className="text-right">כניסה אחרונה</TableHead>
+                                <TableHead className="text-right">תפקיד</TableHead>
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {users.map(user => {
+                                const isCurrentUser = user.uid === currentUser?.uid
+                                return (
+                                    <TableRow key={user.uid}>
+                                        <TableCell>
+                                            <div className="font-medium">{user.displayName || user.email}</div>
+                                            {user.displayName && (
+                                                <div className="text-sm text-muted-foreground">{user.email}</div>
+                                            )}
+                                            {user.disabled && <Badge variant="secondary">מושבת</Badge>}
+                                        </TableCell>
+                                        <TableCell>
+                                            {user.lastSignInAt
+                                                ? format(new Date(user.lastSignInAt), 'dd/MM/yyyy HH:mm', { locale: he })
+                                                : 'לא נכנס עדיין'}
+                                        </TableCell>
+                                        <TableCell>
+                                            <Select
+                                                value={user.role || NO_ROLE}
+                                                onValueChange={(value) => handleRoleChange(user.uid, value)}
+                                                disabled={isCurrentUser || savingUid === user.uid}
+                                            >
+                                                <SelectTrigger className="w-56 text-right">
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    {USER_ROLES.map(role => (
+                                                        <SelectItem key={role} value={role} className="text-right">
+                                                            {ROLE_LABELS[role]}
+                                                        </SelectItem>
+                                                    ))}
+                                                    <SelectItem value={NO_ROLE} className="text-right">
+                                                        ללא גישה
+                                                    </SelectItem>
+                                                </SelectContent>
+                                            </Select>
+                                            {isCurrentUser && (
+                                                <p className="mt-1 text-xs text-muted-foreground">
+                                                    לא ניתן לשנות את התפקיד שלך
+                                                </p>
+                                            )}
+                                        </TableCell>
+                                    </TableRow>
+                                )
+                            })}
+                        </TableBody>
+                    </Table>
+                </CardContent>
+            </Card>
+
+            {/* Invites */}
+            <InviteManager />
+        </div>
+    )
+}
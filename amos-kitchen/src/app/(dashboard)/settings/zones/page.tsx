@@ -0,0 +1,237 @@
+// app/(dashboard)/settings/zones/page.tsx
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Loader2, Plus, Save, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { LoadingSpinner } from '@/components/shared/loading-spinner'
+import { deleteWithAuth, fetchWithAuth, postWithAuth, putWithAuth } from '@/lib/api/fetch-with-auth'
+import { useToast } from '@/lib/hooks/use-toast'
+import type { DeliveryZone } from '@/lib/types/firestore'
+
+// A zone as edited: place names as comma-separated text, amounts as typed
+interface ZoneDraft {
+    key: string
+    id?: string
+    name: string
+    cities: string
+    streets: string
+    deliveryFee: string
+    minimumOrder: string
+}
+
+const splitNames = (value: string) => value.split(',').map(name => name.trim()).filter(Boolean)
+
+const toDraft = (zone: DeliveryZone & { id: string }): ZoneDraft => ({
+    key: zone.id,
+    id: zone.id,
+    name: zone.name,
+    cities: zone.cities.join(', '),
+    streets: zone.streets.join(', '),
+    deliveryFee: String(zone.deliveryFee),
+    minimumOrder: zone.minimumOrder !== null ? String(zone.minimumOrder) : ''
+})
+
+let newZoneCount = 0
+
+export default function DeliveryZonesPage() {
+    const { toast } = useToast()
+    const [zones, setZones] = useState<ZoneDraft[]>([])
+    const [isLoading, setIsLoading] = useState(true)
+    const [savingKey, setSavingKey] = useState<string | null>(null)
+
+    useEffect(() => {
+        const fetchZones = async () => {
+            try {
+                const response = await fetchWithAuth('/api/delivery-zones')
+                if (!response.ok) throw new Error('Failed to fetch delivery zones')
+
+                const data: (DeliveryZone & { id: string })[] = await response.json()
+                setZones(data.map(toDraft))
+            } catch (error) {
+                console.error('Error fetching delivery zones:', error)
+                toast({
+                    title: 'שגיאה',
+                    description: 'לא ניתן לטעון את אזורי המשלוח',
+                    variant: 'destructive'
+                })
+            } finally {
+                setIsLoading(false)
+            }
+        }
+
+        fetchZones()
+    }, [toast])
+
+    const updateZone = (key: string, changes: Partial<ZoneDraft>) => {
+        setZones(prev => prev.map(zone => zone.key === key ? { ...zone, ...changes } : zone))
+    }
+
+    const addZone = () => {
+        setZones(prev => [...prev, {
+            key: `new-${++newZoneCount}`,
+            name: '',
+            cities: '',
+            streets: '',
+            deliveryFee: '0',
+            minimumOrder: ''
+        }])
+    }
+
+    const saveZone = async (zone: ZoneDraft) => {
+        setSavingKey(zone.key)
+        try {
+            const body = {
+                name: zone.name,
+                cities: splitNames(zone.cities),
+                streets: splitNames(zone.streets),
+                deliveryFee: Math.max(0, Number(zone.deliveryFee) || 0),
+                minimumOrder: zone.minimumOrder.trim() === '' ? null : Number(zone.minimumOrder)
+            }
+            const response = zone.id
+                ? await putWithAuth(`/api/delivery-zones/${zone.id}`, body)
+                : await postWithAuth('/api/delivery-zones', body)
+
+            if (!response.ok) {
+                const error = await response.json()
+                throw new Error(error.details?.[0]?.message || error.error || 'Failed to save')
+            }
+
+            const saved = toDraft(await response.json())
+            setZones(prev => prev.map(z => z.key === zone.key ? saved : z))
+            toast({ title: `האזור ${saved.name} נשמר` })
+        } catch (error) {
+            toast({
+                title: 'שגיאה בשמירה',
+                description: error instanceof Error ? error.message : 'לא ניתן לשמור את האזור',
+                variant: 'destructive'
+            })
+        } finally {
+            setSavingKey(null)
+        }
+    }
+
+    const removeZone = async (zone: ZoneDraft) => {
+        if (zone.id) {
+            if (!confirm(`למחוק את האזור ${zone.name}?`)) return
+
+            const response = await deleteWithAuth(`/api/delivery-zones/${zone.id}`)
+            if (!response.ok) {
+                toast({
+                    title: 'שגיאה',
+                    description: 'לא ניתן למחוק את האזור',
+                    variant: 'destructive'
+                })
+                return
+            }
+        }
+        setZones(prev => prev.filter(z => z.key !== zone.key))
+    }
+
+    if (isLoading) return <LoadingSpinner />
+
+    return (
+        <div className="space-y-6">
+            {/* Header */}
+            <div className="flex items-center justify-between">
+                <div>
+                    <h1 className="text-3xl font-bold tracking-tight">אזורי משלוח</h1>
+                    <p className="text-muted-foreground">
+                        דמי המשלוח והזמנת המינימום נקבעים לפי האזור של כתובת המשלוח
+                    </p>
+                </div>
+                <Button onClick={addZone}>
+                    <Plus className="h-4 w-4 ml-2" />
+                    אזור חדש
+                </Button>
+            </div>
+
+            {zones.length === 0 && (
+                <Card>
+                    <CardContent className="p-6 text-center text-muted-foreground">
+                        אין אזורי משלוח. כל ההזמנות מחויבות בדמי המשלוח של הגדרות העסק
+                    </CardContent>
+                </Card>
+            )}
+
+            {zones.map(zone => (
+                <Card key={zone.key}>
+                    <CardHeader>
+                        <CardTitle>{zone.name || 'אזור חדש'}</CardTitle>
+                        <CardDescription>
+                            אזור עם רחובות חל רק עליהם וגובר על אזור שחל על כל העיר
+                        </CardDescription>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <div className="grid gap-4 md:grid-cols-2">
+                            <div className="space-y-1">
+                                <Label htmlFor={`${zone.key}-name`}>שם האזור</Label>
+                                <Input
+                                    id={`${zone.key}-name`}
+                                    value={zone.name}
+                                    onChange={(e) => updateZone(zone.key, { name: e.target.value })}
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <Label htmlFor={`${zone.key}-cities`}>ערים (מופרדות בפסיק)</Label>
+                                <Input
+                                    id={`${zone.key}-cities`}
+                                    value={zone.cities}
+                                    onChange={(e) => updateZone(zone.key, { cities: e.target.value })}
+                                    placeholder="תל אביב, רמת גן"
+                                />
+                            </div>
+                            <div className="space-y-1 md:col-span-2">
+                                <Label htmlFor={`${zone.key}-streets`}>רחובות (ריק = כל העיר)</Label>
+                                <Input
+                                    id={`${zone.key}-streets`}
+                                    value={zone.streets}
+                                    onChange={(e) => updateZone(zone.key, { streets: e.target.value })}
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <Label htmlFor={`${zone.key}-fee`}>דמי משלוח</Label>
+                                <Input
+                                    id={`${zone.key}-fee`}
+                                    type="number"
+                                    min={0}
+                                    step={0.5}
+                                    value={zone.deliveryFee}
+                                    onChange={(e) => updateZone(zone.key, { deliveryFee: e.target.value })}
+                                    className="w-36"
+                                />
+                            </div>
+                            <div className="space-y-1">
+                                <Label htmlFor={`${zone.key}-minimum`}>הזמנת מינימום</Label>
+                                <Input
+                                    id={`${zone.key}-minimum`}
+                                    type="number"
+                                    min={0}
+                                    placeholder="ללא מינימום"
+                                    value={zone.minimumOrder}
+                                    onChange={(e) => updateZone(zone.key, { minimumOrder: e.target.value })}
+                                    className="w-36"
+                                />
+                            </div>
+                        </div>
+                        <div className="flex justify-end gap-2">
+                            <Button variant="outline" onClick={() => removeZone(zone)}>
+                                <Trash2 className="h-4 w-4 ml-2" />
+                                מחיקה
+                            </Button>
+                            <Button onClick={() => saveZone(zone)} disabled={savingKey === zone.key}>
+                                {savingKey === zone.key
+                                    ? <Loader2 className="h-4 w-4 ml-2 animate-spin" />
+                                    : <Save className="h-4 w-4 ml-2" />}
+                                שמירה
+                            </Button>
+                        </div>
+                    </CardContent>
+                </Card>
+            ))}
+        </div>
+    )
+}
@@ -1,6 +1,7 @@
 // app/api/auth/refresh/route.ts
 import { NextRequest, NextResponse } from 'next/server'
-import { verifyIdToken } from '@/lib/firebase/admin'
+import { setUserRole, verifyIdToken } from '@/lib/firebase/admin'
+import { isBootstrapOwner, isUserRole } from '@/lib/utils/roles'
 import { auth } from '@/lib/firebase/config'
 
 export async function POST(request: NextRequest) {
@@ -27,6 +28,11 @@ export async function POST(request: NextRequest) {
             )
         }
 
+        // Persist the owner claim for OWNER_EMAILS so Firestore rules see it too
+        if (!isUserRole(decodedToken.role) && isBootstrapOwner(decodedToken)) {
+            await setUserRole(decodedToken.uid, 'OWNER')
+        }
+
         // Create response with new token in cookie
         const response = NextResponse.json({
             success: true,
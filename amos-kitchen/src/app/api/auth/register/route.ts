@@ -2,19 +2,71 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { signUp } from '@/lib/firebase/auth'
+import { adminAuth, setUserRole } from '@/lib/firebase/admin'
+import { getInviteByToken, redeemInvite } from '@/lib/firebase/dao/invites'
+import { getInviteProblem, InviteError } from '@/lib/utils/invites'
 
+export const dynamic = 'force-dynamic'
+
+// Registration is invite-only: the invite decides the new user's role
 const registerSchema = z.object({
+    inviteToken: z.string().min(1, 'נדרש קישור הזמנה כדי להירשם'),
     email: z.string().email('אימייל לא תקין'),
     password: z.string().min(6, 'סיסמה חייבת להכיל לפחות 6 תווים'),
     name: z.string().min(2, 'שם חייב להכיל לפחות 2 תווים').optional()
 })
 
+// GET /api/auth/register?invite= - Check an invite link before showing the form
+export async function GET(request: NextRequest) {
+    const token = request.nextUrl.searchParams.get('invite')
+    if (!token) {
+        return NextResponse.json(
+            { valid: false, error: 'נדרש קישור הזמנה כדי להירשם' },
+            { status: 400 }
+        )
+    }
+
+    try {
+        const invite = await getInviteByToken(token)
+        const problem = invite ? getInviteProblem(invite) : 'קישור ההזמנה אינו תקין'
+        if (!invite || problem) {
+            return NextResponse.json(
+                { valid: false, error: problem },
+                { status: 400 }
+            )
+        }
+
+        return NextResponse.json({
+            valid: true,
+            role: invite.role,
+            email: invite.email,
+            expiresAt: invite.expiresAt
+        })
+    } catch (error) {
+        console.error('Invite check error:', error)
+        return NextResponse.json(
+            { valid: false, error: 'שגיאה בבדיקת ההזמנה' },
+            { status: 500 }
+        )
+    }
+}
+
 export async function POST(request: NextRequest) {
     try {
         const body = await request.json()
 
         // Validate input
-        const { email, password, name } = registerSchema.parse(body)
+        const { inviteToken, email, password, name } = registerSchema.parse(body)
+
+        // Check the invite before creating anything
+        const invite = await getInviteByToken(inviteToken)
+        const problem = invite ? getInviteProblem(invite, email) : 'קישור ההזמנה אינו תקין'
+        if (!invite || problem) {
+            return NextResponse.json(
+                { error: problem },
+                { status: 400 }
+            )
+        }
 
         // Sign up with Firebase
         const { user, error } = await signUp(email, password, name)
@@ -34,8 +86,18 @@ export async function POST(request: NextRequest) {
             )
         }
 
-        // Get the ID token for the user
-        const idToken = await user.getIdToken()
+        // Give the account the invite's role, then claim the invite. If either fails (another
+        // registration got there first), undo the account; the invite stays usable unless claimed.
+        try {
+            await setUserRole(user.uid, invite.role)
+            await redeemInvite(inviteToken, user.uid, email)
+        } catch (inviteError) {
+            await adminAuth.deleteUser(user.uid)
+            throw inviteError
+        }
+
+        // Get the ID token for the user, forcing a refresh so it carries the role claim
+        const idToken = await user.getIdToken(true)
 
         // Create response with token in cookie
         const response = NextResponse.json({
@@ -66,6 +128,13 @@ export async function POST(request: NextRequest) {
             )
         }
 
+        if (error instanceof InviteError) {
+            return NextResponse.json(
+                { error: error.message },
+                { status: 400 }
+            )
+        }
+
         console.error('Register error:', error)
         return NextResponse.json(
             { error: 'שגיאה ביצירת החשבון' },
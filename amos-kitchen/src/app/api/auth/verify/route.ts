@@ -1,6 +1,7 @@
 // app/api/auth/verify/route.ts
 import { NextRequest, NextResponse } from 'next/server'
 import { verifyIdToken } from '@/lib/firebase/admin'
+import { getRoleFromClaims } from '@/lib/utils/roles'
 
 export const dynamic = 'force-dynamic'
 
@@ -32,6 +33,7 @@ export async function POST(request: NextRequest) {
             user: {
                 uid: decodedToken.uid,
                 email: decodedToken.email,
+                role: getRoleFromClaims(decodedToken)
             }
         })
 
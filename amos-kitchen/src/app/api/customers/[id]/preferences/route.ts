@@ -8,8 +8,10 @@ import {
     addCustomerPreference,
     deleteCustomerPreference
 } from '@/lib/firebase/dao/customers'
+import { recheckCustomerAllergenConflicts } from '@/lib/firebase/dao/orders'
 import { doc, updateDoc } from 'firebase/firestore'
 import { customerPreferencesCollection, getServerTimestamp } from '@/lib/firebase/firestore'
+import { requirePermission } from '@/lib/api/auth-middleware'
 
 // Get all preferences for a customer
 export async function GET(
@@ -17,6 +19,12 @@ export async function GET(
     { params }: { params: { id: string } }
 ) {
     try {
+        // Verify authentication
+        const auth = await requirePermission(request, 'customers:read')
+        if (!auth.authenticated) {
+            return auth.response
+        }
+
         const preferences = await getCustomerPreferences(params.id)
 
         // Sort preferences by type and value
@@ -43,6 +51,12 @@ export async function POST(
     { params }: { params: { id: string } }
 ) {
     try {
+        // Verify authentication
+        const auth = await requirePermission(request, 'customers:write')
+        if (!auth.authenticated) {
+            return auth.response
+        }
+
         const body = await request.json()
         const validatedData = customerPreferenceSchema.parse(body)
 
@@ -75,6 +89,7 @@ export async function POST(
             value: validatedData.value.trim(),
             notes: validatedData.notes?.trim() || null
         })
+        await recheckCustomerAllergenConflicts(params.id, auth.user?.uid)
 
         const preference = {
             id: preferenceId,
@@ -108,6 +123,12 @@ export async function PUT(
     { params }: { params: { id: string } }
 ) {
     try {
+        // Verify authentication
+        const auth = await requirePermission(request, 'customers:write')
+        if (!auth.authenticated) {
+            return auth.response
+        }
+
         const body = await request.json()
         const { preferenceId, ...updateData } = body
 
@@ -142,6 +163,7 @@ export async function PUT(
         if (validatedData.notes !== undefined) updatePayload.notes = validatedData.notes?.trim() || null
 
         await updateDoc(prefDocRef, updatePayload)
+        await recheckCustomerAllergenConflicts(params.id, auth.user?.uid)
 
         const updatedPreference = {
             ...existingPreference,
@@ -173,6 +195,12 @@ export async function DELETE(
     { params }: { params: { id: string } }
 ) {
     try {
+        // Verify authentication
+        const auth = await requirePermission(request, 'customers:write')
+        if (!auth.authenticated) {
+            return auth.response
+        }
+
         const { searchParams } = new URL(request.url)
         const preferenceId = searchParams.get('preferenceId')
 
@@ -196,6 +224,7 @@ export async function DELETE(
 
         // Delete preference
         await deleteCustomerPreference(params.id, preferenceId)
+        await recheckCustomerAllergenConflicts(params.id, auth.user?.uid)
 
         return NextResponse.json({ message: 'Preference deleted successfully' })
     } catch (error) {
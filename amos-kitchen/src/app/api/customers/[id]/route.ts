@@ -12,10 +12,12 @@ import {
     addCustomerPreference,
     deleteCustomerPreference
 } from '@/lib/firebase/dao/customers'
-import { getOrdersByCustomer } from '@/lib/firebase/dao/orders'
+import { getOrdersByCustomer, recheckCustomerAllergenConflicts } from '@/lib/firebase/dao/orders'
 import { getDishesByIds } from '@/lib/firebase/dao/dishes'
-import { verifyIdToken } from '@/lib/firebase/admin'
+import { getCustomerPayments } from '@/lib/firebase/dao/payments'
+import { getAmountDue, getCustomerBalance, getPaymentStatus } from '@/lib/utils/payments'
 import type { Order } from '@/lib/types/firestore'
+import { requirePermission } from '@/lib/api/auth-middleware'
 
 // Force this route to be dynamically rendered
 export const dynamic = 'force-dynamic'
@@ -26,20 +28,9 @@ export async function GET(
 ) {
     try {
         // Verify authentication
-        const token = request.cookies.get('firebase-auth-token')?.value
-        if (!token) {
-            return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401 }
-            )
-        }
-
-        const decodedToken = await verifyIdToken(token)
-        if (!decodedToken) {
-            return NextResponse.json(
-                { error: 'Invalid token' },
-                { status: 401 }
-            )
+        const auth = await requirePermission(request, 'customers:read')
+        if (!auth.authenticated) {
+            return auth.response
         }
         const customer = await getCustomerById(params.id)
 
@@ -50,8 +41,11 @@ export async function GET(
             )
         }
 
-        // Get customer preferences
-        const preferences = await getCustomerPreferences(params.id)
+        // Get customer preferences and payments
+        const [preferences, payments] = await Promise.all([
+            getCustomerPreferences(params.id),
+            getCustomerPayments(params.id)
+        ])
 
         // Get customer orders with error handling
         let orders: Order[] = []
@@ -77,6 +71,8 @@ export async function GET(
         // Transform orders with dish details
         const ordersWithDishes = orders.map(order => ({
             ...order,
+            amountDue: getAmountDue(order),
+            paymentStatus: getPaymentStatus(order),
             orderItems: order.items.map(item => ({
                 ...item,
                 dish: dishMap.get(item.dishId) || { name: 'Unknown Dish' }
@@ -121,7 +117,9 @@ export async function GET(
             orders: ordersWithDishes,
             orderCount,
             totalSpent,
-            favoriteDishes
+            favoriteDishes,
+            payments,
+            balance: getCustomerBalance(orders)
         }
 
         return NextResponse.json(customerWithStats)
@@ -140,20 +138,9 @@ export async function PUT(
 ) {
     try {
         // Verify authentication
-        const token = request.cookies.get('firebase-auth-token')?.value
-        if (!token) {
-            return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401 }
-            )
-        }
-
-        const decodedToken = await verifyIdToken(token)
-        if (!decodedToken) {
-            return NextResponse.json(
-                { error: 'Invalid token' },
-                { status: 401 }
-            )
+        const auth = await requirePermission(request, 'customers:write')
+        if (!auth.authenticated) {
+            return auth.response
         }
         const body = await request.json()
 
@@ -175,6 +162,7 @@ export async function PUT(
             ...(validatedData.name && { name: validatedData.name.trim() }),
             ...(validatedData.email !== undefined && { email: validatedData.email?.trim() || null }),
             ...(validatedData.address !== undefined && { address: validatedData.address?.trim() || null }),
+            ...(validatedData.structuredAddress !== undefined && { structuredAddress: validatedData.structuredAddress }),
             ...(validatedData.notes !== undefined && { notes: validatedData.notes?.trim() || null })
         }
 
@@ -228,6 +216,11 @@ export async function PUT(
             }
         }
 
+        // New allergies can conflict with orders already placed
+        if (validatedData.preferences !== undefined || validatedData.notes !== undefined) {
+            await recheckCustomerAllergenConflicts(params.id, auth.user?.uid)
+        }
+
         // Get updated customer with all details
         const updatedCustomer = await getCustomerById(params.id)
         const preferences = await getCustomerPreferences(params.id)
@@ -284,20 +277,9 @@ export async function DELETE(
 ) {
     try {
         // Verify authentication
-        const token = request.cookies.get('firebase-auth-token')?.value
-        if (!token) {
-            return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401 }
-            )
-        }
-
-        const decodedToken = await verifyIdToken(token)
-        if (!decodedToken) {
-            return NextResponse.json(
-                { error: 'Invalid token' },
-                { status: 401 }
-            )
+        const auth = await requirePermission(request, 'customers:delete')
+        if (!auth.authenticated) {
+            return auth.response
         }
         // Check if customer exists
         const existingCustomer = await getCustomerById(params.id)
@@ -0,0 +1,49 @@
+// app/api/customers/addresses/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import { getCustomersWithAddressReview, migrateCustomerAddresses } from '@/lib/firebase/dao/customers'
+
+export const dynamic = 'force-dynamic'
+
+// Customers whose free-text address couldn't be split into parts
+export async function GET(request: NextRequest) {
+    const auth = await requirePermission(request, 'customers:read')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        const customers = await getCustomersWithAddressReview()
+        return NextResponse.json(customers.map(customer => ({
+            id: customer.id,
+            name: customer.name,
+            phone: customer.phone,
+            address: customer.address
+        })))
+    } catch (error) {
+        console.error('Error fetching addresses for review:', error)
+        return NextResponse.json(
+            { error: 'Failed to fetch addresses for review' },
+            { status: 500 }
+        )
+    }
+}
+
+// Split the free-text addresses of customers that don't have parts yet
+export async function POST(request: NextRequest) {
+    const auth = await requirePermission(request, 'customers:write')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        const result = await migrateCustomerAddresses()
+        return NextResponse.json(result)
+    } catch (error) {
+        console.error('Error migrating customer addresses:', error)
+        return NextResponse.json(
+            { error: 'Failed to migrate customer addresses' },
+            { status: 500 }
+        )
+    }
+}
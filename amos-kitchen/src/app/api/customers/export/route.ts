@@ -1,10 +1,81 @@
 // app/api/customers/export/route.ts
 import { NextRequest, NextResponse } from 'next/server'
+import { format } from 'date-fns'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import { getAllCustomers, getCustomerPreferences } from '@/lib/firebase/dao/customers'
+import { getAllOrders } from '@/lib/firebase/dao/orders'
+import {
+  buildCustomersWorkbook,
+  getExportContentType,
+  workbookToBuffer,
+  type ExportCustomer,
+  type ExportFormat
+} from '@/lib/utils/export'
+
+export const dynamic = 'force-dynamic'
 
 export async function GET(request: NextRequest) {
-  // TODO: Re-implement export functionality with Firestore
-  return NextResponse.json(
-    { error: 'Export functionality is being updated. Please try again later.' },
-    { status: 503 }
-  )
-}
\ No newline at end of file
+  // Verify authentication
+  const auth = await requirePermission(request, 'data:export')
+  if (!auth.authenticated) {
+    return auth.response
+  }
+
+  const formatParam = request.nextUrl.searchParams.get('format') || 'xlsx'
+  if (formatParam !== 'xlsx' && formatParam !== 'csv') {
+    return NextResponse.json(
+      { error: 'Invalid format. Must be one of: xlsx, csv' },
+      { status: 400 }
+    )
+  }
+  const exportFormat: ExportFormat = formatParam
+
+  try {
+    // One pass over orders instead of a query per customer
+    const [customers, orders] = await Promise.all([getAllCustomers(), getAllOrders()])
+
+    const statsByCustomer = new Map<string, { orderCount: number, totalSpent: number, lastOrderDate: Date | null }>()
+    orders
+      .filter(order => order.status !== 'CANCELLED')
+      .forEach(order => {
+        const stats = statsByCustomer.get(order.customerId) || { orderCount: 0, totalSpent: 0, lastOrderDate: null }
+        stats.orderCount += 1
+        stats.totalSpent += order.totalAmount || 0
+        if (!stats.lastOrderDate || order.deliveryDate > stats.lastOrderDate) {
+          stats.lastOrderDate = order.deliveryDate
+        }
+        statsByCustomer.set(order.customerId, stats)
+      })
+
+    const exportCustomers: ExportCustomer[] = await Promise.all(
+      customers.map(async (customer) => {
+        const preferences = customer.id ? await getCustomerPreferences(customer.id) : []
+        const stats = (customer.id && statsByCustomer.get(customer.id)) || {
+          orderCount: 0,
+          totalSpent: 0,
+          lastOrderDate: null
+        }
+        return { ...customer, preferences, ...stats }
+      })
+    )
+
+    const workbook = buildCustomersWorkbook(exportCustomers)
+    const body = workbookToBuffer(workbook, exportFormat)
+    const filename = `customers_${format(new Date(), 'yyyy-MM-dd_HH-mm')}.${exportFormat}`
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        'Content-Type': getExportContentType(exportFormat),
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    console.error('Error exporting customers:', error)
+    return NextResponse.json(
+      { error: 'Failed to export customers' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,238 @@
+// app/api/customers/import/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import { createCustomerSchema, normalizePhoneNumber } from '@/lib/validators/customer'
+import {
+    getCustomerByPhone,
+    getCustomerPreferences,
+    createCustomer,
+    updateCustomer,
+    addCustomerPreference
+} from '@/lib/firebase/dao/customers'
+import { recheckCustomerAllergenConflicts } from '@/lib/firebase/dao/orders'
+import {
+    parseCustomerImportFile,
+    restoreLeadingZero,
+    summarizeImport,
+    type ImportPreference,
+    type ImportRowResult,
+    type RawImportRow
+} from '@/lib/utils/customer-import'
+import type { Customer } from '@/lib/types/firestore'
+
+export const dynamic = 'force-dynamic'
+
+// Large enough for a few thousand contacts, small enough to parse in one request
+const MAX_FILE_SIZE = 5 * 1024 * 1024
+const MAX_ROWS = 5000
+
+interface PlannedRow extends ImportRowResult {
+    fields?: Pick<Customer, 'name' | 'phone' | 'email' | 'address' | 'notes'>
+    fieldUpdates?: Partial<Customer>
+    newPreferences: ImportPreference[]
+}
+
+const FIELD_LABELS: Record<'name' | 'email' | 'address' | 'notes', string> = {
+    name: 'שם',
+    email: 'אימייל',
+    address: 'כתובת',
+    notes: 'הערות'
+}
+
+// Decide what to do with one row without writing anything
+async function planRow(row: RawImportRow, seenPhones: Set<string>, updateExisting: boolean): Promise<PlannedRow> {
+    const phone = normalizePhoneNumber(restoreLeadingZero(row.phone))
+    const result: PlannedRow = {
+        rowNumber: row.rowNumber,
+        action: 'create',
+        name: row.name,
+        phone,
+        changes: [],
+        errors: [],
+        preferences: row.preferences,
+        newPreferences: []
+    }
+
+    const validation = createCustomerSchema.safeParse({
+        name: row.name,
+        phone,
+        email: row.email || null,
+        address: row.address || null,
+        notes: row.notes || null,
+        preferences: row.preferences
+    })
+
+    if (!validation.success) {
+        result.action = 'error'
+        result.errors = validation.error.errors.map(e => `${e.path.join('.')}: ${e.message}`)
+        return result
+    }
+
+    if (seenPhones.has(phone)) {
+        result.action = 'skip'
+        result.changes = ['מספר הטלפון מופיע שוב בקובץ']
+        return result
+    }
+    seenPhones.add(phone)
+
+    const data = validation.data
+    result.fields = {
+        name: data.name.trim(),
+        phone,
+        email: data.email?.trim() || null,
+        address: data.address?.trim() || null,
+        notes: data.notes?.trim() || null
+    }
+
+    const existing = await getCustomerByPhone(phone)
+    if (!existing) {
+        result.newPreferences = dedupePreferences(row.preferences, [])
+        return result
+    }
+
+    result.existingCustomerId = existing.id
+    if (!updateExisting) {
+        result.action = 'skip'
+        result.changes = ['לקוח קיים במערכת']
+        return result
+    }
+
+    // Only fill in values the spreadsheet actually provides
+    const fieldUpdates: Partial<Customer> = {}
+    ;(Object.keys(FIELD_LABELS) as (keyof typeof FIELD_LABELS)[]).forEach(field => {
+        const value = result.fields![field]
+        if (value && value !== (existing[field] || '')) {
+            fieldUpdates[field] = value
+            result.changes.push(`${FIELD_LABELS[field]}: ${existing[field] || '—'} ← ${value}`)
+        }
+    })
+
+    const existingPreferences = await getCustomerPreferences(existing.id!)
+    result.newPreferences = dedupePreferences(row.preferences, existingPreferences)
+    result.newPreferences.forEach(pref => result.changes.push(`העדפה חדשה: ${pref.value}`))
+
+    result.fieldUpdates = fieldUpdates
+    if (result.changes.length === 0) {
+        result.action = 'skip'
+        result.changes = ['אין שינויים']
+    } else {
+        result.action = 'update'
+    }
+
+    return result
+}
+
+// Drop preferences the customer already has (same type and value) or that repeat within the row
+function dedupePreferences(
+    incoming: ImportPreference[],
+    existing: Pick<ImportPreference, 'type' | 'value'>[]
+): ImportPreference[] {
+    const seen = new Set(existing.map(p => `${p.type}-${p.value.trim().toLowerCase()}`))
+    return incoming.filter(pref => {
+        const key = `${pref.type}-${pref.value.trim().toLowerCase()}`
+        if (seen.has(key)) return false
+        seen.add(key)
+        return true
+    })
+}
+
+async function applyRow(row: PlannedRow): Promise<void> {
+    let customerId = row.existingCustomerId
+
+    if (row.action === 'create' && row.fields) {
+        customerId = await createCustomer(row.fields)
+    } else if (row.action === 'update' && customerId && row.fieldUpdates && Object.keys(row.fieldUpdates).length > 0) {
+        await updateCustomer(customerId, row.fieldUpdates)
+    }
+
+    if (!customerId) return
+
+    for (const pref of row.newPreferences) {
+        await addCustomerPreference(customerId, {
+            type: pref.type,
+            value: pref.value.trim(),
+            notes: null
+        })
+    }
+
+    // An existing customer's new allergies can conflict with orders already placed
+    if (row.action === 'update' && row.newPreferences.length > 0) {
+        await recheckCustomerAllergenConflicts(customerId)
+    }
+}
+
+// POST /api/customers/import - Preview (dryRun=true, default) or apply a CSV/XLSX import
+export async function POST(request: NextRequest) {
+    const auth = await requirePermission(request, 'customers:write')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        const formData = await request.formData()
+        const file = formData.get('file')
+        const dryRun = formData.get('dryRun') !== 'false'
+        const updateExisting = formData.get('updateExisting') !== 'false'
+
+        if (!file || typeof file === 'string') {
+            return NextResponse.json({ error: 'לא צורף קובץ' }, { status: 400 })
+        }
+
+        if (file.size > MAX_FILE_SIZE) {
+            return NextResponse.json({ error: 'הקובץ גדול מדי (עד 5MB)' }, { status: 400 })
+        }
+
+        const rows = parseCustomerImportFile(await file.arrayBuffer())
+            .filter(row => row.name || row.phone)
+
+        if (rows.length === 0) {
+            return NextResponse.json({ error: 'לא נמצאו שורות בקובץ' }, { status: 400 })
+        }
+
+        if (rows.length > MAX_ROWS) {
+            return NextResponse.json({ error: `ניתן לייבא עד ${MAX_ROWS} שורות בכל פעם` }, { status: 400 })
+        }
+
+        const seenPhones = new Set<string>()
+        const planned: PlannedRow[] = []
+        for (const row of rows) {
+            planned.push(await planRow(row, seenPhones, updateExisting))
+        }
+
+        if (!dryRun) {
+            for (const row of planned) {
+                if (row.action !== 'create' && row.action !== 'update') continue
+                try {
+                    await applyRow(row)
+                } catch (error) {
+                    console.error(`Failed to import row ${row.rowNumber}:`, error)
+                    row.action = 'error'
+                    row.errors.push('שגיאה בשמירת השורה')
+                }
+            }
+        }
+
+        const results: ImportRowResult[] = planned.map(row => ({
+            rowNumber: row.rowNumber,
+            action: row.action,
+            name: row.name,
+            phone: row.phone,
+            existingCustomerId: row.existingCustomerId,
+            changes: row.changes,
+            errors: row.errors,
+            preferences: row.preferences
+        }))
+
+        return NextResponse.json({
+            dryRun,
+            rows: results,
+            summary: summarizeImport(results)
+        })
+    } catch (error) {
+        console.error('Error importing customers:', error)
+        return NextResponse.json(
+            { error: 'Failed to import customers' },
+            { status: 500 }
+        )
+    }
+}
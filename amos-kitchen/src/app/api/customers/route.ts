@@ -8,37 +8,34 @@ import {
     createCustomer,
     isPhoneNumberTaken,
     addCustomerPreference,
-    getCustomerPreferences
+    getCustomerPreferences,
+    CUSTOMER_SORTS,
+    DEFAULT_CUSTOMER_SORT
 } from '@/lib/firebase/dao/customers'
 import { getOrdersByCustomer } from '@/lib/firebase/dao/orders'
-import { verifyIdToken } from '@/lib/firebase/admin'
 import type { Order, CustomerPreference } from '@/lib/types/firestore'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import { PaginationError, parsePageRequest } from '@/lib/utils/pagination'
 
 export async function GET(request: NextRequest) {
     try {
         // Verify authentication
-        const token = request.cookies.get('firebase-auth-token')?.value
-        if (!token) {
-            return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401 }
-            )
-        }
-
-        const decodedToken = await verifyIdToken(token)
-        if (!decodedToken) {
-            return NextResponse.json(
-                { error: 'Invalid token' },
-                { status: 401 }
-            )
+        const auth = await requirePermission(request, 'customers:read')
+        if (!auth.authenticated) {
+            return auth.response
         }
 
-        console.log('Fetching customers for user:', decodedToken.uid)
+        console.log('Fetching customers for user:', auth.user?.uid)
         const searchParams = request.nextUrl.searchParams
         const search = searchParams.get('search') || undefined
 
-        // Fetch customers - Firestore search is limited, filtering done client-side in DAO
-        const { customers } = await getCustomers(search, 100) // Get more customers for better search
+        // limit, sort and cursor; a search is ranked by relevance
+        const page = parsePageRequest(searchParams, {
+            sorts: Object.keys(CUSTOMER_SORTS),
+            defaultSort: DEFAULT_CUSTOMER_SORT,
+            ranked: !!search
+        })
+        const { customers, pagination } = await getCustomers(search, page)
         console.log(`Found ${customers.length} customers`)
 
         // Fetch order statistics and preferences for each customer
@@ -54,6 +51,7 @@ export async function GET(request: NextRequest) {
                             phone: customer.phone,
                             email: customer.email,
                             address: customer.address,
+                            structuredAddress: customer.structuredAddress || null,
                             notes: customer.notes,
                             preferences: [],
                             createdAt: customer.createdAt.toISOString(),
@@ -109,6 +107,7 @@ export async function GET(request: NextRequest) {
                         phone: customer.phone,
                         email: customer.email,
                         address: customer.address,
+                        structuredAddress: customer.structuredAddress || null,
                         notes: customer.notes,
                         preferences,
                         // Convert Firestore Timestamps to ISO strings for JSON serialization
@@ -131,6 +130,7 @@ export async function GET(request: NextRequest) {
                         phone: customer.phone,
                         email: customer.email,
                         address: customer.address,
+                        structuredAddress: customer.structuredAddress || null,
                         notes: customer.notes,
                         preferences: [],
                         createdAt: customer.createdAt instanceof Date
@@ -149,8 +149,11 @@ export async function GET(request: NextRequest) {
 
         console.log(`Successfully processed ${customersWithStats.length} customers`)
 
-        return NextResponse.json(customersWithStats)
+        return NextResponse.json({ customers: customersWithStats, pagination })
     } catch (error) {
+        if (error instanceof PaginationError) {
+            return NextResponse.json({ error: error.message }, { status: 400 })
+        }
         console.error('Error fetching customers:', error)
         const errorMessage = error instanceof Error ? error.message : 'Unknown error'
         const errorStack = error instanceof Error ? error.stack : undefined
@@ -167,6 +170,12 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
     try {
+        // Verify authentication
+        const auth = await requirePermission(request, 'customers:write')
+        if (!auth.authenticated) {
+            return auth.response
+        }
+
         console.log('POST /api/customers - Starting customer creation')
         const body = await request.json()
         console.log('Request body:', body)
@@ -195,6 +204,7 @@ export async function POST(request: NextRequest) {
             phone: normalizedPhone,
             email: validatedData.email?.trim() || null,
             address: validatedData.address?.trim() || null,
+            structuredAddress: validatedData.structuredAddress || null,
             notes: validatedData.notes?.trim() || null
         })
         console.log('Customer created with ID:', customerId)
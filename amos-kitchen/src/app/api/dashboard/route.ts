@@ -1,35 +1,34 @@
 // src/app/api/dashboard/route.ts
 import { NextRequest, NextResponse } from 'next/server'
-import { startOfWeek, endOfWeek, startOfDay, endOfDay, subDays, addDays } from 'date-fns'
-import { getOrders, getOrderStats, getTodayOrders } from '@/lib/firebase/dao/orders'
-import { getCustomers } from '@/lib/firebase/dao/customers'
-import { getDishes } from '@/lib/firebase/dao/dishes'
-import { query, where, getDocs, orderBy, limit } from 'firebase/firestore'
+import { subDays, subWeeks, eachDayOfInterval } from 'date-fns'
+import { getDailyRollups, getWeeklyRollup } from '@/lib/firebase/dao/rollups'
+import { query, where, getDocs, orderBy, limit, getCountFromServer } from 'firebase/firestore'
 import { customersCollection, ordersCollection, dateToTimestamp } from '@/lib/firebase/firestore'
-import { verifyAuth } from '@/lib/api/auth-middleware'
+import { fromDateKey, getBusinessDayBounds, getBusinessToday, toDateKey } from '@/lib/utils/delivery-schedule'
+import { createEmptyRollup, getDeliveryWeekDays, getDeliveryWeekKey } from '@/lib/utils/rollups'
+import { requirePermission } from '@/lib/api/auth-middleware'
 
 export const dynamic = 'force-dynamic'
 
 export async function GET(request: NextRequest) {
   try {
     // Verify authentication
-    const auth = await verifyAuth(request)
+    const auth = await requirePermission(request, 'orders:read')
     if (!auth.authenticated) {
       return auth.response
     }
-    const today = new Date()
-    const todayStart = startOfDay(today)
-    const todayEnd = endOfDay(today)
-    const weekStart = startOfWeek(today, { weekStartsOn: 0 })
-    const weekEnd = endOfWeek(today, { weekStartsOn: 0 })
-    const nextFriday = addDays(weekStart, 5)
-    const lastWeekStart = subDays(weekStart, 7)
+    // Today, the delivery week (Saturday to Friday) and its Friday, all as days in Israel
+    const businessToday = getBusinessToday(new Date())
+    const { start: todayStart, end: todayEnd } = getBusinessDayBounds(toDateKey(businessToday))
+    const fridayKey = getDeliveryWeekKey(businessToday)
+    const lastFridayKey = getDeliveryWeekKey(subWeeks(businessToday, 1))
+    const { start: weekStartKey } = getDeliveryWeekDays(fridayKey)
 
     // Today's statistics
     const todayOrdersQuery = query(
       ordersCollection,
       where('createdAt', '>=', dateToTimestamp(todayStart)),
-      where('createdAt', '<=', dateToTimestamp(todayEnd))
+      where('createdAt', '<', dateToTimestamp(todayEnd))
     )
     const todayOrdersSnapshot = await getDocs(todayOrdersQuery)
     const todayOrders: any[] = []
@@ -41,7 +40,7 @@ export async function GET(request: NextRequest) {
     const newCustomersQuery = query(
       customersCollection,
       where('createdAt', '>=', dateToTimestamp(todayStart)),
-      where('createdAt', '<=', dateToTimestamp(todayEnd))
+      where('createdAt', '<', dateToTimestamp(todayEnd))
     )
     const newCustomersSnapshot = await getDocs(newCustomersQuery)
 
@@ -51,51 +50,31 @@ export async function GET(request: NextRequest) {
       newCustomers: newCustomersSnapshot.size
     }
 
-    // Week statistics
-    const weekOrdersQuery = query(
-      ordersCollection,
-      where('deliveryDate', '>=', dateToTimestamp(weekStart)),
-      where('deliveryDate', '<=', dateToTimestamp(weekEnd))
-    )
-    const weekOrdersSnapshot = await getDocs(weekOrdersQuery)
-    const weekOrders: any[] = []
-    weekOrdersSnapshot.forEach(doc => {
-      weekOrders.push({ id: doc.id, ...doc.data() })
-    })
+    // Week statistics, from the delivery day and week rollups
+    const [weekRollup, lastWeekRollup, weekDays, recentDays] = await Promise.all([
+      getWeeklyRollup(fridayKey),
+      getWeeklyRollup(lastFridayKey),
+      getDailyRollups(weekStartKey, fridayKey),
+      getDailyRollups(toDateKey(subDays(businessToday, 30)), toDateKey(businessToday))
+    ])
+    const week = weekRollup || createEmptyRollup(fridayKey)
+    const lastWeek = lastWeekRollup || createEmptyRollup(lastFridayKey)
+    const weekDayMap = new Map(weekDays.map(day => [day.date, day]))
 
     const weekStats = {
-      orders: weekOrders.length,
-      revenue: weekOrders.reduce((sum, order) => sum + order.totalAmount, 0),
-      pendingOrders: weekOrders.filter(o =>
-        ['NEW', 'CONFIRMED', 'PREPARING'].includes(o.status)
-      ).length,
-      completedOrders: weekOrders.filter(o => o.status === 'DELIVERED').length
+      orders: week.orders,
+      revenue: week.revenue,
+      pendingOrders: ['NEW', 'CONFIRMED', 'PREPARING']
+        .reduce((sum, status) => sum + (week.statusCounts[status] || 0), 0),
+      completedOrders: week.statusCounts.DELIVERED || 0
     }
 
     // Friday orders (upcoming)
-    const fridayOrdersQuery = query(
-      ordersCollection,
-      where('deliveryDate', '>=', dateToTimestamp(startOfDay(nextFriday))),
-      where('deliveryDate', '<=', dateToTimestamp(endOfDay(nextFriday)))
-    )
-    const fridayOrders: any[] = []
-    try {
-      const fridayOrdersSnapshot = await getDocs(fridayOrdersQuery)
-      fridayOrdersSnapshot.forEach(doc => {
-        fridayOrders.push({ id: doc.id, ...doc.data() })
-      })
-    } catch (error: any) {
-      if (error?.code !== 'permission-denied') {
-        console.error('Failed to fetch Friday orders:', error)
-      }
-    }
-
+    const friday = weekDayMap.get(fridayKey) || createEmptyRollup(fridayKey)
     const fridayStats = {
-      orders: fridayOrders.length,
-      revenue: fridayOrders.reduce((sum, order) => sum + order.totalAmount, 0),
-      dishes: fridayOrders.reduce((sum, order) =>
-        sum + (order.items ? order.items.reduce((itemSum: number, item: any) => itemSum + item.quantity, 0) : 0), 0
-      )
+      orders: friday.orders,
+      revenue: friday.revenue,
+      dishes: friday.itemsSold
     }
 
     // Recent orders
@@ -129,115 +108,49 @@ export async function GET(request: NextRequest) {
       }
     }))
 
-    // Top dishes this week - manual aggregation with revenue
-    const dishCounts = new Map<string, { dish: any, quantity: number, orderCount: number, revenue: number }>()
-
-    weekOrders.forEach(order => {
-      if (order.items) {
-        order.items.forEach((item: any) => {
-          const existing = dishCounts.get(item.dishId) || {
-            dish: { id: item.dishId, name: item.dishName || 'Unknown' },
-            quantity: 0,
-            orderCount: 0,
-            revenue: 0
-          }
-          existing.quantity += item.quantity
-          existing.orderCount += 1
-          existing.revenue += (item.price || 0) * item.quantity
-          dishCounts.set(item.dishId, existing)
-        })
-      }
-    })
-
-    // Get dish details for top dishes
-    const topDishEntries = Array.from(dishCounts.entries())
-      .sort((a, b) => b[1].revenue - a[1].revenue) // Sort by revenue instead of quantity
+    // Top dishes this week
+    const topDishes = Object.entries(week.dishes)
+      .sort((a, b) => b[1].revenue - a[1].revenue)
       .slice(0, 5)
-
-    const dishIds = topDishEntries.map(([id]) => id)
-    const allDishes = await getDishes()
-    const dishMap = new Map(allDishes.map(d => [d.id, d]))
-
-    const topDishes = topDishEntries.map(([dishId, stats]) => ({
-      dish: dishMap.get(dishId) || stats.dish,
-      quantity: stats.quantity,
-      orderCount: stats.orderCount,
-      revenue: stats.revenue,
-      name: (dishMap.get(dishId) || stats.dish).name // Add name for easier display
-    }))
-
+      .map(([dishId, stats]) => ({
+        dish: { id: dishId, name: stats.name, category: stats.category },
+        quantity: stats.quantity,
+        orderCount: stats.orders,
+        revenue: stats.revenue,
+        name: stats.name // Add name for easier display
+      }))
 
     // Customer insights
-    const allCustomersSnapshot = await getDocs(customersCollection)
-    const totalCustomers = allCustomersSnapshot.size
+    const totalCustomers = (await getCountFromServer(customersCollection)).data().count
 
-    // Active customers (with orders in last 30 days)
-    const thirtyDaysAgo = subDays(today, 30)
+    // Active customers (with deliveries in the last 30 days)
     const activeCustomerIds = new Set<string>()
-
-    const activeOrdersQuery = query(
-      ordersCollection,
-      where('createdAt', '>=', dateToTimestamp(thirtyDaysAgo))
-    )
-    const activeOrdersSnapshot = await getDocs(activeOrdersQuery)
-    activeOrdersSnapshot.forEach(doc => {
-      const order = doc.data()
-      if (order.customerId) {
-        activeCustomerIds.add(order.customerId)
-      }
+    recentDays.forEach(day => {
+      Object.keys(day.customers).forEach(customerId => activeCustomerIds.add(customerId))
     })
 
     const activeCustomers = activeCustomerIds.size
 
-    // Chart data - last 7 days
-    const chartData = []
-    for (let i = 6; i >= 0; i--) {
-      const date = subDays(today, i)
-      const dayStart = startOfDay(date)
-      const dayEnd = endOfDay(date)
-
-      const dayOrdersQuery = query(
-        ordersCollection,
-        where('createdAt', '>=', dateToTimestamp(dayStart)),
-        where('createdAt', '<=', dateToTimestamp(dayEnd))
-      )
-      const dayOrdersSnapshot = await getDocs(dayOrdersQuery)
-      const dayOrders: any[] = []
-      dayOrdersSnapshot.forEach(doc => {
-        dayOrders.push(doc.data())
+    // Chart data - the days of the delivery week
+    const chartData = eachDayOfInterval({ start: fromDateKey(weekStartKey), end: fromDateKey(fridayKey) })
+      .map(date => {
+        const day = weekDayMap.get(toDateKey(date))
+        return {
+          date: date.toISOString(),
+          orders: day?.orders || 0,
+          revenue: day?.revenue || 0
+        }
       })
 
-      chartData.push({
-        date: date.toISOString(),
-        orders: dayOrders.length,
-        revenue: dayOrders.reduce((sum, order) => sum + order.totalAmount, 0)
-      })
-    }
-
     // Comparison with last week
-    const lastWeekOrdersQuery = query(
-      ordersCollection,
-      where('deliveryDate', '>=', dateToTimestamp(lastWeekStart)),
-      where('deliveryDate', '<', dateToTimestamp(weekStart))
-    )
-    const lastWeekOrdersSnapshot = await getDocs(lastWeekOrdersQuery)
-    const lastWeekOrders: any[] = []
-    lastWeekOrdersSnapshot.forEach(doc => {
-      lastWeekOrders.push(doc.data())
-    })
-
-    const lastWeekRevenue = lastWeekOrders.reduce((sum, order) =>
-      sum + order.totalAmount, 0
-    )
-
     const comparison = {
-      revenueChange: weekStats.revenue - lastWeekRevenue,
-      revenueChangePercent: lastWeekRevenue > 0
-        ? ((weekStats.revenue - lastWeekRevenue) / lastWeekRevenue * 100).toFixed(1)
+      revenueChange: weekStats.revenue - lastWeek.revenue,
+      revenueChangePercent: lastWeek.revenue > 0
+        ? ((weekStats.revenue - lastWeek.revenue) / lastWeek.revenue * 100).toFixed(1)
         : 0,
-      ordersChange: weekStats.orders - lastWeekOrders.length,
-      ordersChangePercent: lastWeekOrders.length > 0
-        ? ((weekStats.orders - lastWeekOrders.length) / lastWeekOrders.length * 100).toFixed(1)
+      ordersChange: weekStats.orders - lastWeek.orders,
+      ordersChangePercent: lastWeek.orders > 0
+        ? ((weekStats.orders - lastWeek.orders) / lastWeek.orders * 100).toFixed(1)
         : 0
     }
 
@@ -246,39 +159,30 @@ export async function GET(request: NextRequest) {
       ? weekStats.revenue / weekStats.orders
       : 0
 
-    // Order fulfillment rate (delivered vs cancelled)
-    const deliveredOrders = weekOrders.filter(o => o.status === 'DELIVERED').length
-    const cancelledOrders = weekOrders.filter(o => o.status === 'CANCELLED').length
-    const fulfillmentRate = weekOrders.length > 0
-      ? (deliveredOrders / weekOrders.length) * 100
+    // Order fulfillment rate (delivered out of all orders, cancelled included)
+    const cancelledOrders = week.cancelledOrders
+    const fulfillmentRate = week.orders + cancelledOrders > 0
+      ? (weekStats.completedOrders / (week.orders + cancelledOrders)) * 100
       : 0
 
     // Category breakdown
     const categoryBreakdown = new Map<string, { quantity: number, revenue: number }>()
 
-    dishCounts.forEach((stats, dishId) => {
-      const dish = dishMap.get(dishId)
-      const category = dish?.category || 'uncategorized'
-      const existing = categoryBreakdown.get(category) || { quantity: 0, revenue: 0 }
+    Object.values(week.dishes).forEach(stats => {
+      const existing = categoryBreakdown.get(stats.category) || { quantity: 0, revenue: 0 }
       existing.quantity += stats.quantity
       existing.revenue += stats.revenue
-      categoryBreakdown.set(category, existing)
+      categoryBreakdown.set(stats.category, existing)
     })
 
     // Peak ordering days
-    const ordersByDayOfWeek = new Map<string, number>()
-    weekOrders.forEach(order => {
-      if (order.deliveryDate) {
-        const date = order.deliveryDate.toDate ? order.deliveryDate.toDate() : new Date(order.deliveryDate)
-        const dayName = date.toLocaleDateString('he-IL', { weekday: 'long' })
-        ordersByDayOfWeek.set(dayName, (ordersByDayOfWeek.get(dayName) || 0) + 1)
-      }
-    })
-
-    // Sort peak days
-    const peakDays = Array.from(ordersByDayOfWeek.entries())
-      .sort((a, b) => b[1] - a[1])
-      .map(([day, count]) => ({ day, count }))
+    const peakDays = weekDays
+      .filter(day => day.orders > 0)
+      .map(day => ({
+        day: fromDateKey(day.date).toLocaleDateString('he-IL', { weekday: 'long' }),
+        count: day.orders
+      }))
+      .sort((a, b) => b.count - a.count)
 
     return NextResponse.json({
       today: todayStats,
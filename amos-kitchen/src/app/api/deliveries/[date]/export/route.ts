@@ -0,0 +1,61 @@
+// app/api/deliveries/[date]/export/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import { getDeliveryOrders, getDeliveryPlan } from '@/lib/firebase/dao/deliveries'
+import { getOrdersForDeliveryDate } from '@/lib/firebase/dao/orders'
+import { buildRouteManifest } from '@/lib/utils/delivery-routes'
+import { fromDateKey } from '@/lib/utils/delivery-schedule'
+import { buildDeliveryManifestWorkbook, getExportContentType, workbookToBuffer } from '@/lib/utils/export'
+
+export const dynamic = 'force-dynamic'
+
+type RouteContext = { params: { date: string } }
+
+// GET /api/deliveries/2025-04-11/export?route=<id>&format=xlsx|csv - The driver manifest
+// of one route, or of every route when none is given
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    const auth = await requirePermission(request, 'orders:read')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(params.date)) {
+        return NextResponse.json({ error: 'date must be yyyy-MM-dd' }, { status: 400 })
+    }
+
+    const exportFormat = request.nextUrl.searchParams.get('format') === 'csv' ? 'csv' : 'xlsx'
+    const routeId = request.nextUrl.searchParams.get('route')
+
+    try {
+        const plan = await getDeliveryPlan(params.date)
+        const routes = routeId ? plan.routes.filter(route => route.id === routeId) : plan.routes
+        if (routes.length === 0) {
+            return NextResponse.json({ error: 'Route not found' }, { status: 404 })
+        }
+
+        const orders = await getOrdersForDeliveryDate(fromDateKey(params.date))
+        const deliveryOrders = await getDeliveryOrders(orders.filter(order => order.status !== 'CANCELLED'))
+
+        const workbook = buildDeliveryManifestWorkbook(routes.map(route => ({
+            route,
+            stops: buildRouteManifest(route, deliveryOrders)
+        })))
+        const body = workbookToBuffer(workbook, exportFormat)
+        const filename = `deliveries_${params.date}.${exportFormat}`
+
+        return new NextResponse(body, {
+            status: 200,
+            headers: {
+                'Content-Type': getExportContentType(exportFormat),
+                'Content-Disposition': `attachment; filename="${filename}"`,
+                'Cache-Control': 'no-store'
+            }
+        })
+    } catch (error) {
+        console.error('Error exporting delivery manifest:', error)
+        return NextResponse.json(
+            { error: 'Failed to export delivery manifest' },
+            { status: 500 }
+        )
+    }
+}
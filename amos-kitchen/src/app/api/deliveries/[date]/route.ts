@@ -0,0 +1,58 @@
+// app/api/deliveries/[date]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import { getDeliveryPlan, saveDeliveryPlan } from '@/lib/firebase/dao/deliveries'
+import { getOrdersForDeliveryDate } from '@/lib/firebase/dao/orders'
+import { fromDateKey } from '@/lib/utils/delivery-schedule'
+import { deliveryPlanSchema } from '@/lib/validators/delivery-route'
+
+export const dynamic = 'force-dynamic'
+
+type RouteContext = { params: { date: string } }
+
+// PUT /api/deliveries/2025-04-11 - Replace the routes of a delivery date
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+    const auth = await requirePermission(request, 'orders:write')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(params.date)) {
+        return NextResponse.json({ error: 'date must be yyyy-MM-dd' }, { status: 400 })
+    }
+
+    try {
+        const body = await request.json()
+        const validatedData = deliveryPlanSchema.parse(body)
+
+        // Every stop must be a live order of this delivery date
+        const orders = await getOrdersForDeliveryDate(fromDateKey(params.date))
+        const deliverable = new Set(orders.filter(order => order.status !== 'CANCELLED').map(order => order.id))
+        const unknownOrderIds = validatedData.routes
+            .flatMap(route => route.stops.map(stop => stop.orderId))
+            .filter(orderId => !deliverable.has(orderId))
+        if (unknownOrderIds.length > 0) {
+            return NextResponse.json(
+                { error: 'חלק מההזמנות במסלולים בוטלו או אינן שייכות לתאריך המשלוח', orderIds: unknownOrderIds },
+                { status: 400 }
+            )
+        }
+
+        await saveDeliveryPlan(params.date, validatedData, auth.user?.uid)
+        return NextResponse.json(await getDeliveryPlan(params.date))
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: 'Invalid data', details: error.errors },
+                { status: 400 }
+            )
+        }
+
+        console.error('Error saving delivery routes:', error)
+        return NextResponse.json(
+            { error: 'Failed to save delivery routes' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,51 @@
+// app/api/deliveries/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import { getDeliveryOrders, getDeliveryPlan } from '@/lib/firebase/dao/deliveries'
+import { getOrdersForDeliveryDate } from '@/lib/firebase/dao/orders'
+import { getDeliverySchedule } from '@/lib/firebase/dao/settings'
+import { fromDateKey, getNextDeliveryDate, toDateKey } from '@/lib/utils/delivery-schedule'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/deliveries?date=2025-04-11 - The routes and orders of a delivery date
+// (the next delivery day when no date is given). Cancelled orders are left out.
+export async function GET(request: NextRequest) {
+    const auth = await requirePermission(request, 'orders:read')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    const dateParam = request.nextUrl.searchParams.get('date')
+    if (dateParam && !/^\d{4}-\d{2}-\d{2}$/.test(dateParam)) {
+        return NextResponse.json({ error: 'date must be yyyy-MM-dd' }, { status: 400 })
+    }
+
+    try {
+        const deliveryDate = dateParam
+            ? fromDateKey(dateParam)
+            : getNextDeliveryDate(await getDeliverySchedule())
+        if (!deliveryDate) {
+            return NextResponse.json({ date: null, routes: [], orders: [] })
+        }
+
+        const dateKey = toDateKey(deliveryDate)
+        const [plan, orders] = await Promise.all([
+            getDeliveryPlan(dateKey),
+            getOrdersForDeliveryDate(deliveryDate)
+        ])
+        const activeOrders = orders.filter(order => order.status !== 'CANCELLED')
+
+        return NextResponse.json({
+            date: dateKey,
+            routes: plan.routes,
+            orders: await getDeliveryOrders(activeOrders)
+        })
+    } catch (error) {
+        console.error('Error fetching deliveries:', error)
+        return NextResponse.json(
+            { error: 'Failed to fetch deliveries' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,71 @@
+// app/api/delivery-zones/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import {
+    deleteDeliveryZone,
+    getDeliveryZoneById,
+    updateDeliveryZone
+} from '@/lib/firebase/dao/delivery-zones'
+import { deliveryZoneSchema } from '@/lib/validators/delivery-zone'
+
+export const dynamic = 'force-dynamic'
+
+type RouteContext = { params: { id: string } }
+
+const notFoundResponse = () =>
+    NextResponse.json({ error: 'Delivery zone not found' }, { status: 404 })
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+    const auth = await requirePermission(request, 'settings:write')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        const body = await request.json()
+        const validatedData = deliveryZoneSchema.parse(body)
+
+        if (!await getDeliveryZoneById(params.id)) {
+            return notFoundResponse()
+        }
+
+        await updateDeliveryZone(params.id, validatedData)
+        return NextResponse.json(await getDeliveryZoneById(params.id))
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: 'Invalid data', details: error.errors },
+                { status: 400 }
+            )
+        }
+
+        console.error('Error updating delivery zone:', error)
+        return NextResponse.json(
+            { error: 'Failed to update delivery zone' },
+            { status: 500 }
+        )
+    }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    const auth = await requirePermission(request, 'settings:write')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        if (!await getDeliveryZoneById(params.id)) {
+            return notFoundResponse()
+        }
+
+        await deleteDeliveryZone(params.id)
+        return NextResponse.json({ success: true })
+    } catch (error) {
+        console.error('Error deleting delivery zone:', error)
+        return NextResponse.json(
+            { error: 'Failed to delete delivery zone' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,56 @@
+// app/api/delivery-zones/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import { createDeliveryZone, getDeliveryZoneById, getDeliveryZones } from '@/lib/firebase/dao/delivery-zones'
+import { deliveryZoneSchema } from '@/lib/validators/delivery-zone'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+    const auth = await requirePermission(request, 'settings:read')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        const zones = await getDeliveryZones()
+        return NextResponse.json(zones)
+    } catch (error) {
+        console.error('Error fetching delivery zones:', error)
+        return NextResponse.json(
+            { error: 'Failed to fetch delivery zones' },
+            { status: 500 }
+        )
+    }
+}
+
+export async function POST(request: NextRequest) {
+    const auth = await requirePermission(request, 'settings:write')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        const body = await request.json()
+        const validatedData = deliveryZoneSchema.parse(body)
+
+        const id = await createDeliveryZone(validatedData)
+        const zone = await getDeliveryZoneById(id)
+
+        return NextResponse.json(zone, { status: 201 })
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: 'Invalid data', details: error.errors },
+                { status: 400 }
+            )
+        }
+
+        console.error('Error creating delivery zone:', error)
+        return NextResponse.json(
+            { error: 'Failed to create delivery zone' },
+            { status: 500 }
+        )
+    }
+}
@@ -7,8 +7,9 @@ import {
     deleteDish,
     isDishExists
 } from '@/lib/firebase/dao/dishes'
-import { getOrders } from '@/lib/firebase/dao/orders'
-import { verifyIdToken } from '@/lib/firebase/admin'
+import { getOrders, DEFAULT_ORDER_SORT } from '@/lib/firebase/dao/orders'
+import { dishAllergensSchema, dishIngredientsSchema } from '@/lib/validators/dish'
+import { requirePermission } from '@/lib/api/auth-middleware'
 
 // Validation schema for dish update
 const updateDishSchema = z.object({
@@ -16,7 +17,9 @@ const updateDishSchema = z.object({
     description: z.string().optional(),
     price: z.number().positive('מחיר חייב להיות חיובי').optional(),
     category: z.string().min(1, 'קטגוריה היא שדה חובה').optional(),
-    isAvailable: z.boolean().optional()
+    isAvailable: z.boolean().optional(),
+    allergens: dishAllergensSchema.optional(),
+    ingredients: dishIngredientsSchema.optional()
 })
 
 // GET /api/dishes/[id] - Get a single dish
@@ -26,20 +29,9 @@ export async function GET(
 ) {
     try {
         // Verify authentication
-        const token = request.cookies.get('firebase-auth-token')?.value
-        if (!token) {
-            return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401 }
-            )
-        }
-
-        const decodedToken = await verifyIdToken(token)
-        if (!decodedToken) {
-            return NextResponse.json(
-                { error: 'Invalid token' },
-                { status: 401 }
-            )
+        const auth = await requirePermission(request, 'dishes:read')
+        if (!auth.authenticated) {
+            return auth.response
         }
 
         console.log('GET /api/dishes/[id] - Fetching dish with ID:', params.id)
@@ -56,7 +48,7 @@ export async function GET(
 
         // Get order statistics for this dish
         // This is a simplified version - in production you might want to use aggregation
-        const { orders } = await getOrders({}, 100) // Get recent orders
+        const { orders } = await getOrders({}, { limit: 100, sort: DEFAULT_ORDER_SORT, cursor: null }) // Get recent orders
         let totalOrders = 0
         let totalQuantity = 0
         let totalRevenue = 0
@@ -103,6 +95,12 @@ export async function PUT(
     { params }: { params: { id: string } }
 ) {
     try {
+        // Verify authentication
+        const auth = await requirePermission(request, 'dishes:write')
+        if (!auth.authenticated) {
+            return auth.response
+        }
+
         const body = await request.json()
         const validatedData = updateDishSchema.parse(body)
 
@@ -121,7 +119,9 @@ export async function PUT(
             ...(validatedData.description !== undefined && { description: validatedData.description }),
             ...(validatedData.price && { price: validatedData.price }),
             ...(validatedData.category && { category: validatedData.category.toUpperCase() }),
-            ...(validatedData.isAvailable !== undefined && { isAvailable: validatedData.isAvailable })
+            ...(validatedData.isAvailable !== undefined && { isAvailable: validatedData.isAvailable }),
+            ...(validatedData.allergens !== undefined && { allergens: validatedData.allergens }),
+            ...(validatedData.ingredients !== undefined && { ingredients: validatedData.ingredients })
         })
 
         // Get updated dish
@@ -164,8 +164,14 @@ export async function DELETE(
     { params }: { params: { id: string } }
 ) {
     try {
+        // Verify authentication
+        const auth = await requirePermission(request, 'dishes:delete')
+        if (!auth.authenticated) {
+            return auth.response
+        }
+
         // Check if dish is used in any orders
-        const { orders } = await getOrders({}, 100)
+        const { orders } = await getOrders({}, { limit: 100, sort: DEFAULT_ORDER_SORT, cursor: null })
         let isUsedInOrders = false
 
         for (const order of orders) {
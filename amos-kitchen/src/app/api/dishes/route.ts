@@ -1,8 +1,18 @@
 // src/app/api/dishes/route.ts
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
-import { createDish, getDishes } from '@/lib/firebase/dao/dishes'
-import { verifyIdToken } from '@/lib/firebase/admin'
+import {
+    createDish,
+    getAvailableDishes,
+    getDishes,
+    getDishesPage,
+    DEFAULT_DISH_SORT,
+    DISH_SORTS
+} from '@/lib/firebase/dao/dishes'
+import { dishAllergensSchema, dishIngredientsSchema } from '@/lib/validators/dish'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import { PaginationError, parsePageRequest } from '@/lib/utils/pagination'
+import type { Dish } from '@/lib/types/firestore'
 
 // Validation schema for dish creation
 const dishSchema = z.object({
@@ -10,53 +20,70 @@ const dishSchema = z.object({
     description: z.string().optional(),
     price: z.number().positive('המחיר חייב להיות חיובי'),
     category: z.enum(['appetizer', 'main', 'side', 'dessert', 'beverage']),
-    isAvailable: z.boolean().default(true)
+    isAvailable: z.boolean().default(true),
+    allergens: dishAllergensSchema.default([]),
+    ingredients: dishIngredientsSchema.default([])
 })
 
-// GET /api/dishes - Get all dishes with filters
+// Dates as ISO strings for JSON, lowercase categories for the frontend
+const toDishResponse = (dish: Dish) => ({
+    ...dish,
+    category: dish.category?.toLowerCase() || 'main',
+    price: Number(dish.price), // Ensure price is a number
+    orderCount: 0, // We'll implement this later with aggregation
+    createdAt: dish.createdAt instanceof Date ? dish.createdAt.toISOString() : new Date().toISOString(),
+    updatedAt: dish.updatedAt instanceof Date ? dish.updatedAt.toISOString() : new Date().toISOString()
+})
+
+// GET /api/dishes - Get all dishes with filters, or with ?deliveryDate=yyyy-MM-dd the dishes
+// offered on that day's menu. With `limit` or `cursor` it returns one page instead:
+// { dishes, pagination }, sorted by `sort` (name, priceAsc, priceDesc or newest).
 export async function GET(request: NextRequest) {
     try {
         // Verify authentication
-        const token = request.cookies.get('firebase-auth-token')?.value
-        if (!token) {
-            return NextResponse.json(
-                { error: 'Unauthorized' },
-                { status: 401 }
-            )
-        }
-
-        const decodedToken = await verifyIdToken(token)
-        if (!decodedToken) {
-            return NextResponse.json(
-                { error: 'Invalid token' },
-                { status: 401 }
-            )
+        const auth = await requirePermission(request, 'dishes:read')
+        if (!auth.authenticated) {
+            return auth.response
         }
 
         const searchParams = request.nextUrl.searchParams
         const search = searchParams.get('search') || ''
         const category = searchParams.get('category')
         const available = searchParams.get('available')
+        const deliveryDate = searchParams.get('deliveryDate')
+
+        if (deliveryDate && !/^\d{4}-\d{2}-\d{2}$/.test(deliveryDate)) {
+            return NextResponse.json(
+                { error: 'deliveryDate must be yyyy-MM-dd' },
+                { status: 400 }
+            )
+        }
 
-        const dishes = await getDishes({
+        const filters = {
             search: search || undefined,
             category: category || undefined,
             available: available ? available === 'true' : undefined
-        })
+        }
+
+        if (!deliveryDate && (searchParams.has('limit') || searchParams.has('cursor'))) {
+            const page = parsePageRequest(searchParams, {
+                sorts: Object.keys(DISH_SORTS),
+                defaultSort: DEFAULT_DISH_SORT,
+                ranked: !!search
+            })
+            const { dishes, pagination } = await getDishesPage(filters, page)
+            return NextResponse.json({ dishes: dishes.map(toDishResponse), pagination })
+        }
 
-        // Transform data for frontend
-        const dishesWithStats = dishes.map(dish => ({
-            ...dish,
-            category: dish.category?.toLowerCase() || 'main',
-            price: Number(dish.price), // Ensure price is a number
-            orderCount: 0, // We'll implement this later with aggregation
-            // Convert timestamps to ISO strings for JSON serialization
-            createdAt: dish.createdAt instanceof Date ? dish.createdAt.toISOString() : new Date().toISOString(),
-            updatedAt: dish.updatedAt instanceof Date ? dish.updatedAt.toISOString() : new Date().toISOString()
-        }))
-
-        return NextResponse.json(dishesWithStats)
+        const dishes = deliveryDate
+            ? await getAvailableDishes(deliveryDate)
+            : await getDishes(filters)
+
+        return NextResponse.json(dishes.map(toDishResponse))
     } catch (error) {
+        if (error instanceof PaginationError) {
+            return NextResponse.json({ error: error.message }, { status: 400 })
+        }
         console.error('Error fetching dishes:', error)
         return NextResponse.json(
             { error: 'Failed to fetch dishes' },
@@ -68,6 +95,12 @@ export async function GET(request: NextRequest) {
 // POST /api/dishes - Create a new dish
 export async function POST(request: NextRequest) {
     try {
+        // Verify authentication
+        const auth = await requirePermission(request, 'dishes:write')
+        if (!auth.authenticated) {
+            return auth.response
+        }
+
         const body = await request.json()
         const validatedData = dishSchema.parse(body)
 
@@ -90,7 +123,9 @@ export async function POST(request: NextRequest) {
             description: validatedData.description || null,
             price: validatedData.price,
             category: validatedData.category.toUpperCase(),
-            isAvailable: validatedData.isAvailable
+            isAvailable: validatedData.isAvailable,
+            allergens: validatedData.allergens,
+            ingredients: validatedData.ingredients
         })
 
         // Get the created dish
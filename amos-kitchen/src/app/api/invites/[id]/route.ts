@@ -0,0 +1,35 @@
+// app/api/invites/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import { revokeInvite } from '@/lib/firebase/dao/invites'
+
+export const dynamic = 'force-dynamic'
+
+// DELETE /api/invites/[id] - Revoke an unused invite (kept for the audit trail)
+export async function DELETE(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    const auth = await requirePermission(request, 'users:manage')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        const revoked = await revokeInvite(params.id)
+        if (!revoked) {
+            return NextResponse.json(
+                { error: 'Invite not found or already used' },
+                { status: 404 }
+            )
+        }
+
+        return NextResponse.json({ success: true })
+    } catch (error) {
+        console.error('Error revoking invite:', error)
+        return NextResponse.json(
+            { error: 'Failed to revoke invite' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,70 @@
+// app/api/invites/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import { createInvite, getInvites } from '@/lib/firebase/dao/invites'
+import { getInviteStatus } from '@/lib/utils/invites'
+import { createInviteSchema } from '@/lib/validators/user'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+    const auth = await requirePermission(request, 'users:manage')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        const invites = await getInvites()
+        return NextResponse.json(invites.map(invite => ({
+            ...invite,
+            status: getInviteStatus(invite)
+        })))
+    } catch (error) {
+        console.error('Error fetching invites:', error)
+        return NextResponse.json(
+            { error: 'Failed to fetch invites' },
+            { status: 500 }
+        )
+    }
+}
+
+// POST /api/invites - Create an invite link; the link is only returned here
+export async function POST(request: NextRequest) {
+    const auth = await requirePermission(request, 'users:manage')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        const body = await request.json()
+        const validatedData = createInviteSchema.parse(body)
+
+        const { invite, token } = await createInvite({
+            role: validatedData.role,
+            email: validatedData.email || null,
+            expiresInDays: validatedData.expiresInDays
+        }, auth.user?.uid)
+
+        const url = new URL('/register', request.nextUrl.origin)
+        url.searchParams.set('invite', token)
+
+        return NextResponse.json({
+            invite: { ...invite, status: getInviteStatus(invite) },
+            url: url.toString()
+        }, { status: 201 })
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: 'Invalid data', details: error.errors },
+                { status: 400 }
+            )
+        }
+
+        console.error('Error creating invite:', error)
+        return NextResponse.json(
+            { error: 'Failed to create invite' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,108 @@
+// app/api/menus/[date]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import { deleteMenu, getMenu, saveMenu } from '@/lib/firebase/dao/menus'
+import { getDeliverySchedule } from '@/lib/firebase/dao/settings'
+import { fromDateKey, isDeliveryDay } from '@/lib/utils/delivery-schedule'
+import { menuSchema } from '@/lib/validators/menu'
+
+export const dynamic = 'force-dynamic'
+
+type RouteContext = { params: { date: string } }
+
+const invalidDateResponse = () =>
+    NextResponse.json({ error: 'date must be yyyy-MM-dd' }, { status: 400 })
+
+const isDateKey = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value)
+
+// GET /api/menus/2025-04-11 - The menu of one delivery date
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    const auth = await requirePermission(request, 'dishes:read')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    if (!isDateKey(params.date)) {
+        return invalidDateResponse()
+    }
+
+    try {
+        const menu = await getMenu(params.date)
+        if (!menu) {
+            return NextResponse.json({ error: 'Menu not found' }, { status: 404 })
+        }
+
+        return NextResponse.json(menu)
+    } catch (error) {
+        console.error('Error fetching menu:', error)
+        return NextResponse.json(
+            { error: 'Failed to fetch menu' },
+            { status: 500 }
+        )
+    }
+}
+
+// PUT /api/menus/2025-04-11 - Create or replace the menu of a delivery date
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+    const auth = await requirePermission(request, 'dishes:write')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    if (!isDateKey(params.date)) {
+        return invalidDateResponse()
+    }
+
+    try {
+        const body = await request.json()
+        const validatedData = menuSchema.parse(body)
+
+        const schedule = await getDeliverySchedule()
+        if (!isDeliveryDay(schedule, fromDateKey(params.date))) {
+            return NextResponse.json(
+                { error: 'אין משלוחים בתאריך שנבחר' },
+                { status: 400 }
+            )
+        }
+
+        await saveMenu(params.date, validatedData, auth.user?.uid)
+        return NextResponse.json(await getMenu(params.date))
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: 'Invalid data', details: error.errors },
+                { status: 400 }
+            )
+        }
+
+        console.error('Error saving menu:', error)
+        return NextResponse.json(
+            { error: 'Failed to save menu' },
+            { status: 500 }
+        )
+    }
+}
+
+// DELETE /api/menus/2025-04-11 - Back to every available dish for that date
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    const auth = await requirePermission(request, 'dishes:write')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    if (!isDateKey(params.date)) {
+        return invalidDateResponse()
+    }
+
+    try {
+        await deleteMenu(params.date)
+        return NextResponse.json({ success: true })
+    } catch (error) {
+        console.error('Error deleting menu:', error)
+        return NextResponse.json(
+            { error: 'Failed to delete menu' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,36 @@
+// app/api/menus/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import { getMenus } from '@/lib/firebase/dao/menus'
+
+export const dynamic = 'force-dynamic'
+
+const DATE_KEY = /^\d{4}-\d{2}-\d{2}$/
+
+// GET /api/menus?from=2025-04-01&to=2025-04-30 - Menus planned in a date range
+export async function GET(request: NextRequest) {
+    const auth = await requirePermission(request, 'dishes:read')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    const from = request.nextUrl.searchParams.get('from') || ''
+    const to = request.nextUrl.searchParams.get('to') || ''
+    if (!DATE_KEY.test(from) || !DATE_KEY.test(to) || from > to) {
+        return NextResponse.json(
+            { error: 'from and to must be yyyy-MM-dd dates, from before to' },
+            { status: 400 }
+        )
+    }
+
+    try {
+        const menus = await getMenus(from, to)
+        return NextResponse.json(menus)
+    } catch (error) {
+        console.error('Error fetching menus:', error)
+        return NextResponse.json(
+            { error: 'Failed to fetch menus' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,93 @@
+// app/api/order-templates/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import {
+    deleteOrderTemplate,
+    getOrderTemplateById,
+    updateOrderTemplate
+} from '@/lib/firebase/dao/order-templates'
+import { updateOrderTemplateSchema } from '@/lib/validators/order-template'
+
+export const dynamic = 'force-dynamic'
+
+type RouteContext = { params: { id: string } }
+
+const notFoundResponse = () =>
+    NextResponse.json({ error: 'Template not found' }, { status: 404 })
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    const auth = await requirePermission(request, 'orders:read')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        const template = await getOrderTemplateById(params.id)
+        if (!template) {
+            return notFoundResponse()
+        }
+
+        return NextResponse.json(template)
+    } catch (error) {
+        console.error('Error fetching order template:', error)
+        return NextResponse.json(
+            { error: 'Failed to fetch order template' },
+            { status: 500 }
+        )
+    }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+    const auth = await requirePermission(request, 'orders:write')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        const body = await request.json()
+        const validatedData = updateOrderTemplateSchema.parse(body)
+
+        if (!await getOrderTemplateById(params.id)) {
+            return notFoundResponse()
+        }
+
+        await updateOrderTemplate(params.id, validatedData)
+        return NextResponse.json(await getOrderTemplateById(params.id))
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: 'Invalid data', details: error.errors },
+                { status: 400 }
+            )
+        }
+
+        console.error('Error updating order template:', error)
+        return NextResponse.json(
+            { error: 'Failed to update order template' },
+            { status: 500 }
+        )
+    }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    const auth = await requirePermission(request, 'orders:write')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        if (!await getOrderTemplateById(params.id)) {
+            return notFoundResponse()
+        }
+
+        await deleteOrderTemplate(params.id)
+        return NextResponse.json({ success: true })
+    } catch (error) {
+        console.error('Error deleting order template:', error)
+        return NextResponse.json(
+            { error: 'Failed to delete order template' },
+            { status: 500 }
+        )
+    }
+}
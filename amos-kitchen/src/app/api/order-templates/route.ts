@@ -0,0 +1,56 @@
+// app/api/order-templates/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import { createOrderTemplate, getOrderTemplateById, getOrderTemplates } from '@/lib/firebase/dao/order-templates'
+import { orderTemplateSchema } from '@/lib/validators/order-template'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+    const auth = await requirePermission(request, 'orders:read')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        const templates = await getOrderTemplates()
+        return NextResponse.json(templates)
+    } catch (error) {
+        console.error('Error fetching order templates:', error)
+        return NextResponse.json(
+            { error: 'Failed to fetch order templates' },
+            { status: 500 }
+        )
+    }
+}
+
+export async function POST(request: NextRequest) {
+    const auth = await requirePermission(request, 'orders:write')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        const body = await request.json()
+        const validatedData = orderTemplateSchema.parse(body)
+
+        const id = await createOrderTemplate(validatedData, auth.user?.uid)
+        const template = await getOrderTemplateById(id)
+
+        return NextResponse.json(template, { status: 201 })
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: 'Invalid data', details: error.errors },
+                { status: 400 }
+            )
+        }
+
+        console.error('Error creating order template:', error)
+        return NextResponse.json(
+            { error: 'Failed to create order template' },
+            { status: 500 }
+        )
+    }
+}
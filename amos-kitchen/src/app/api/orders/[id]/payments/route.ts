@@ -0,0 +1,80 @@
+// src/app/api/orders/[id]/payments/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getOrderById } from '@/lib/firebase/dao/orders'
+import { getOrderPayments, recordPayment } from '@/lib/firebase/dao/payments'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import { getAmountDue, getPaymentStatus, PaymentError } from '@/lib/utils/payments'
+import { paymentSchema } from '@/lib/validators/payment'
+
+export const dynamic = 'force-dynamic'
+
+type RouteContext = { params: { id: string } }
+
+// The order's ledger with what was paid and what is left
+async function getPaymentSummary(orderId: string) {
+    const [order, payments] = await Promise.all([getOrderById(orderId), getOrderPayments(orderId)])
+    if (!order) return null
+
+    return {
+        payments,
+        totalAmount: order.totalAmount,
+        amountPaid: order.amountPaid || 0,
+        amountDue: getAmountDue(order),
+        paymentStatus: getPaymentStatus(order)
+    }
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    const auth = await requirePermission(request, 'orders:read')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        const summary = await getPaymentSummary(params.id)
+        if (!summary) {
+            return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+        }
+
+        return NextResponse.json(summary)
+    } catch (error) {
+        console.error('Error fetching order payments:', error)
+        return NextResponse.json(
+            { error: 'Failed to fetch payments' },
+            { status: 500 }
+        )
+    }
+}
+
+export async function POST(request: NextRequest, { params }: RouteContext) {
+    const auth = await requirePermission(request, 'payments:write')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        const body = await request.json()
+        const validatedData = paymentSchema.parse(body)
+
+        await recordPayment(params.id, validatedData, auth.user?.uid)
+        return NextResponse.json(await getPaymentSummary(params.id), { status: 201 })
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: 'Invalid data', details: error.errors },
+                { status: 400 }
+            )
+        }
+
+        if (error instanceof PaymentError) {
+            return NextResponse.json({ error: error.message }, { status: 400 })
+        }
+
+        console.error('Error recording payment:', error)
+        return NextResponse.json(
+            { error: 'Failed to record payment' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,45 @@
+// src/app/api/orders/[id]/pdf/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getOrderById } from '@/lib/firebase/dao/orders'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import { isPrintDocumentType, pdfHeaders, renderPrintDocument } from '@/lib/pdf/documents'
+import { loadPrintBatch } from '@/lib/pdf/print-data'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/orders/[id]/pdf?type=ticket|labels|packing
+export async function GET(
+    request: NextRequest,
+    { params }: { params: { id: string } }
+) {
+    try {
+        const auth = await requirePermission(request, 'orders:read')
+        if (!auth.authenticated) {
+            return auth.response
+        }
+
+        const type = request.nextUrl.searchParams.get('type')
+        if (!isPrintDocumentType(type)) {
+            return NextResponse.json({ error: 'Invalid document type' }, { status: 400 })
+        }
+
+        const order = await getOrderById(params.id)
+        if (!order) {
+            return NextResponse.json({ error: 'Order not found' }, { status: 404 })
+        }
+
+        const batch = await loadPrintBatch([order])
+        const pdf = await renderPrintDocument(type, batch)
+
+        return new NextResponse(pdf, {
+            status: 200,
+            headers: pdfHeaders(`order-${order.orderNumber}-${type}.pdf`)
+        })
+    } catch (error) {
+        console.error('Error generating order PDF:', error)
+        return NextResponse.json(
+            { error: 'Failed to generate PDF' },
+            { status: 500 }
+        )
+    }
+}
@@ -10,7 +10,33 @@ import {
     addOrderHistory
 } from '@/lib/firebase/dao/orders'
 import { getDishesByIds } from '@/lib/firebase/dao/dishes'
-import { verifyAuth } from '@/lib/api/auth-middleware'
+import { getMenu } from '@/lib/firebase/dao/menus'
+import { getCustomerById } from '@/lib/firebase/dao/customers'
+import { getDeliverySchedule } from '@/lib/firebase/dao/settings'
+import { getDeliveryZones } from '@/lib/firebase/dao/delivery-zones'
+import { findDeliveryZone, resolveOrderAddress } from '@/lib/utils/address'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import { hasPermission } from '@/lib/utils/roles'
+import { CapacityExceededError } from '@/lib/utils/capacity'
+import {
+    fromDateKey,
+    getBusinessTime,
+    isDeliveryDay,
+    parseDeliveryDateKey,
+    toBusinessDateKey
+} from '@/lib/utils/delivery-schedule'
+import { applyMenu, describeDishesNotOnMenu, findDishesNotOnMenu } from '@/lib/utils/menu'
+import {
+    isFinalOrderStatus,
+    isOrderStatus,
+    normalizeOrderStatus,
+    ORDER_STATUS_LABELS,
+    OrderStatusConflictError,
+    OrderStatusTransitionError
+} from '@/lib/utils/order-status'
+import { calculateOrderPricing, priceOrderItems, PricingError } from '@/lib/utils/pricing'
+import { describeOrderItemChange, diffOrderItems, type OrderItemChange } from '@/lib/utils/order-diff'
+import { deliveryFeeSchema, priceAdjustmentSchema } from '@/lib/validators/order'
 
 // Validation schema for updating order
 const updateOrderSchema = z.object({
@@ -18,15 +44,43 @@ const updateOrderSchema = z.object({
     deliveryDate: z.string().optional(),
     notes: z.string().optional(),
     deliveryAddress: z.string().optional(),
+    // The full list of lines after the edit; prices are set by the server
+    items: z.array(z.object({
+        dishId: z.string().min(1),
+        quantity: z.number().int().positive(),
+        discount: priceAdjustmentSchema.nullable().optional(),
+        notes: z.string().optional()
+    })).min(1).optional(),
+    discount: priceAdjustmentSchema.nullable().optional(),
+    deliveryFee: deliveryFeeSchema.optional(),
+    // Required when cancelling or overriding the status rules
+    statusReason: z.string().max(500).optional(),
+    overrideTransition: z.boolean().optional(),
 })
 
+// Shared response for status changes the transition rules reject. 422, not 409: clients treat
+// 409 as someone else having changed the order (OrderStatusConflictError) and reload.
+function statusTransitionErrorResponse(error: OrderStatusTransitionError) {
+    return NextResponse.json(
+        { error: error.message, from: error.from, to: error.to, reasonRequired: error.reasonRequired },
+        { status: error.reasonRequired ? 400 : 422 }
+    )
+}
+
+function forbiddenOverrideResponse() {
+    return NextResponse.json(
+        { error: 'רק בעלי העסק יכולים לעקוף את כללי הסטטוס' },
+        { status: 403 }
+    )
+}
+
 export async function GET(
     request: NextRequest,
     { params }: { params: { id: string } }
 ) {
     try {
         // Verify authentication
-        const auth = await verifyAuth(request)
+        const auth = await requirePermission(request, 'orders:read')
         if (!auth.authenticated) {
             return auth.response
         }
@@ -78,7 +132,7 @@ export async function PUT(
 ) {
     try {
         // Verify authentication
-        const auth = await verifyAuth(request)
+        const auth = await requirePermission(request, 'orders:write')
         if (!auth.authenticated) {
             return auth.response
         }
@@ -98,38 +152,147 @@ export async function PUT(
             return NextResponse.json({ error: 'Order not found' }, { status: 404 })
         }
 
+        if (validatedData.overrideTransition && !hasPermission(auth.role, 'orders:override')) {
+            return forbiddenOverrideResponse()
+        }
+
         // Prepare update data
         const updateData: any = {}
 
-        if (validatedData.status) {
+        // The edit form always sends the status; only a different one is a status change
+        if (validatedData.status && validatedData.status !== normalizeOrderStatus(existingOrder.status)) {
             updateData.status = validatedData.status
         }
 
+        // The edit form always sends the date; moving the order needs an open delivery day, as
+        // when it was placed
+        const previousDateKey = toBusinessDateKey(new Date(existingOrder.deliveryDate))
+        let dateKey = previousDateKey
         if (validatedData.deliveryDate) {
-            updateData.deliveryDate = new Date(validatedData.deliveryDate)
+            const deliveryDateKey = parseDeliveryDateKey(validatedData.deliveryDate)
+            if (!deliveryDateKey) {
+                return NextResponse.json({ error: 'תאריך משלוח לא תקין' }, { status: 400 })
+            }
+            dateKey = deliveryDateKey
+            updateData.deliveryDate = getBusinessTime(deliveryDateKey)
+        }
+        const dateChanged = dateKey !== previousDateKey
+        if (dateChanged && !isDeliveryDay(await getDeliverySchedule(), fromDateKey(dateKey))) {
+            return NextResponse.json({ error: 'אין משלוחים בתאריך שנבחר' }, { status: 400 })
         }
 
         if (validatedData.notes !== undefined) {
             updateData.notes = validatedData.notes
         }
 
-        if (validatedData.deliveryAddress !== undefined) {
-            updateData.deliveryAddress = validatedData.deliveryAddress
+        // A new address gets its parts and zone again; the delivery fee stays as sent
+        if (validatedData.deliveryAddress !== undefined && validatedData.deliveryAddress !== existingOrder.deliveryAddress) {
+            const [customer, zones] = await Promise.all([
+                getCustomerById(existingOrder.customerId),
+                getDeliveryZones()
+            ])
+            const address = resolveOrderAddress({ deliveryAddress: validatedData.deliveryAddress }, customer)
+            const zone = findDeliveryZone(zones, address.deliveryAddressDetails)
+
+            Object.assign(updateData, address)
+            updateData.deliveryZoneId = zone?.id || null
+            updateData.deliveryZoneName = zone?.name || null
+        }
+
+        // Lines already on the order keep their price snapshot; new dishes must be on the
+        // delivery day's menu and are priced from it now. On a new day every dish must be on its menu.
+        let items = existingOrder.items
+        let itemChanges: OrderItemChange[] = []
+        const orderedDishIds = (validatedData.items || existingOrder.items).map(item => item.dishId)
+        const checkedDishIds = Array.from(new Set(dateChanged
+            ? orderedDishIds
+            : orderedDishIds.filter(dishId => !existingOrder.items.some(item => item.dishId === dishId))))
+        if (checkedDishIds.length > 0 || validatedData.items) {
+            const [dishes, menu] = await Promise.all([
+                getDishesByIds(checkedDishIds),
+                checkedDishIds.length > 0 ? getMenu(dateKey) : Promise.resolve(null)
+            ])
+
+            const notOnMenu = findDishesNotOnMenu(dishes.map(d => d.id!), menu)
+            if (notOnMenu.length > 0) {
+                const names = dishes.filter(d => notOnMenu.includes(d.id!)).map(d => d.name)
+                return NextResponse.json(
+                    { error: describeDishesNotOnMenu(names, dateKey), dishIds: notOnMenu },
+                    { status: 400 }
+                )
+            }
+
+            if (validatedData.items) {
+                const editedItems = priceOrderItems(validatedData.items, applyMenu(dishes, menu), existingOrder.items)
+
+                itemChanges = diffOrderItems(existingOrder.items, editedItems)
+                if (itemChanges.length > 0) {
+                    items = editedItems
+                    updateData.items = items
+                }
+            }
+        }
+
+        // Delivered and cancelled orders were invoiced as they are: their lines and prices stay.
+        // The edit form always sends the discount and fee, so only different values count.
+        const finalStatus = isFinalOrderStatus(normalizeOrderStatus(existingOrder.status))
+        if (finalStatus) {
+            const discountChanged = validatedData.discount !== undefined && (
+                (validatedData.discount?.type ?? null) !== (existingOrder.discount?.type ?? null) ||
+                (validatedData.discount?.value ?? 0) !== (existingOrder.discount?.value ?? 0)
+            )
+            const feeChanged = validatedData.deliveryFee !== undefined &&
+                validatedData.deliveryFee !== (existingOrder.deliveryFee ?? 0)
+            if (itemChanges.length > 0 || discountChanged || feeChanged) {
+                return NextResponse.json(
+                    { error: `לא ניתן לשנות פריטים או מחירים בהזמנה במצב ${ORDER_STATUS_LABELS[normalizeOrderStatus(existingOrder.status)]}` },
+                    { status: 400 }
+                )
+            }
+        }
+
+        // Lines and adjustments change the derived totals
+        const pricingChanged = !finalStatus && (itemChanges.length > 0 ||
+            validatedData.discount !== undefined ||
+            validatedData.deliveryFee !== undefined)
+        if (pricingChanged) {
+            const discount = validatedData.discount !== undefined
+                ? validatedData.discount
+                : existingOrder.discount || null
+            const deliveryFee = validatedData.deliveryFee ?? existingOrder.deliveryFee ?? 0
+
+            updateData.discount = discount
+            Object.assign(updateData, calculateOrderPricing(items, discount, deliveryFee))
         }
 
         // Update order
-        await updateOrder(params.id, updateData)
+        await updateOrder(params.id, updateData, auth.user?.uid, {
+            statusReason: validatedData.statusReason,
+            overrideTransition: validatedData.overrideTransition
+        })
 
-        // Create history entry for status changes (normalize existing status for comparison)
-        const normalizedExistingStatus = existingOrder.status?.toUpperCase() || existingOrder.status
-        if (validatedData.status && validatedData.status !== normalizedExistingStatus) {
+        if (itemChanges.length > 0) {
             await addOrderHistory(params.id, {
-                action: 'STATUS_CHANGED',
+                action: 'ITEMS_CHANGED',
                 details: {
-                    message: `סטטוס שונה מ-${existingOrder.status} ל-${validatedData.status}`,
-                    previousStatus: existingOrder.status,
-                    newStatus: validatedData.status
-                }
+                    message: itemChanges.map(describeOrderItemChange).join('; '),
+                    changes: itemChanges,
+                    previousTotal: existingOrder.totalAmount,
+                    newTotal: updateData.totalAmount
+                },
+                userId: auth.user?.uid
+            })
+        } else if (pricingChanged && updateData.totalAmount !== existingOrder.totalAmount) {
+            await addOrderHistory(params.id, {
+                action: 'PRICING_CHANGED',
+                details: {
+                    message: `הסכום לתשלום שונה מ-${existingOrder.totalAmount} ל-${updateData.totalAmount}`,
+                    previousTotal: existingOrder.totalAmount,
+                    newTotal: updateData.totalAmount,
+                    discount: updateData.discount,
+                    deliveryFee: updateData.deliveryFee
+                },
+                userId: auth.user?.uid
             })
         }
 
@@ -170,6 +333,24 @@ export async function PUT(
             )
         }
 
+        if (error instanceof OrderStatusTransitionError) {
+            return statusTransitionErrorResponse(error)
+        }
+
+        if (error instanceof CapacityExceededError) {
+            return NextResponse.json(
+                { error: error.message, violations: error.violations },
+                { status: 409 }
+            )
+        }
+
+        if (error instanceof PricingError) {
+            return NextResponse.json(
+                { error: 'חלק מהמנות בהזמנה אינן קיימות', dishIds: error.dishIds },
+                { status: 400 }
+            )
+        }
+
         console.error('Error updating order:', error)
         return NextResponse.json(
             { error: 'Failed to update order' },
@@ -184,7 +365,7 @@ export async function DELETE(
 ) {
     try {
         // Verify authentication
-        const auth = await verifyAuth(request)
+        const auth = await requirePermission(request, 'orders:delete')
         if (!auth.authenticated) {
             return auth.response
         }
@@ -222,14 +403,12 @@ export async function PATCH(
 ) {
     try {
         // Verify authentication
-        const auth = await verifyAuth(request)
+        const auth = await requirePermission(request, 'orders:status')
         if (!auth.authenticated) {
             return auth.response
         }
 
         const body = await request.json()
-        console.log('PATCH request body:', body)
-        console.log('Order ID from params:', params.id)
 
         // Validate that status is provided
         if (!body.status) {
@@ -247,66 +426,55 @@ export async function PATCH(
         const { status } = body
 
         // Validate status is a valid enum value
-        const validStatuses = ['NEW', 'CONFIRMED', 'PREPARING', 'READY', 'DELIVERED', 'CANCELLED']
-        if (!validStatuses.includes(status)) {
+        if (!isOrderStatus(status)) {
             return NextResponse.json(
-                { error: `Invalid status. Must be one of: ${validStatuses.join(', ')}` },
+                { error: 'Invalid status' },
                 { status: 400 }
             )
         }
 
-        console.log('Validated status:', status)
+        const overrideTransition = body.override === true
+        if (overrideTransition && !hasPermission(auth.role, 'orders:override')) {
+            return forbiddenOverrideResponse()
+        }
 
         // Get existing order first
         const existingOrder = await getOrderById(params.id)
         if (!existingOrder) {
-            console.error('Order not found:', params.id)
             return NextResponse.json({ error: 'Order not found' }, { status: 404 })
         }
 
-        console.log('Existing order status:', existingOrder.status)
-
-        // Update status
-        await updateOrderStatus(params.id, status)
-        console.log('Status updated successfully')
+        // The status the client saw; if it changed since, reject instead of overwriting
+        const expectedStatus = typeof body.expectedStatus === 'string'
+            ? normalizeOrderStatus(body.expectedStatus)
+            : undefined
 
-        // Add to order history (normalize existing status for proper comparison)
-        const normalizedExistingStatus = existingOrder.status?.toUpperCase() || existingOrder.status
-        await addOrderHistory(params.id, {
-            action: 'STATUS_CHANGED',
-            details: {
-                message: `סטטוס שונה מ-${normalizedExistingStatus} ל-${status}`,
-                previousStatus: normalizedExistingStatus,
-                newStatus: status
-            }
+        // Update status; the DAO checks the transition rules and records the history
+        await updateOrderStatus(params.id, status, auth.user?.uid, {
+            expectedStatus,
+            statusReason: typeof body.reason === 'string' ? body.reason : null,
+            overrideTransition
         })
-        console.log('Order history added successfully')
 
         return NextResponse.json({ success: true })
     } catch (error) {
-        console.error('Error in PATCH /api/orders/[id]:', error)
+        if (error instanceof OrderStatusConflictError) {
+            return NextResponse.json(
+                { error: 'ההזמנה עודכנה בינתיים ממקום אחר', currentStatus: error.currentStatus },
+                { status: 409 }
+            )
+        }
 
-        // Safely extract error details
-        const errorDetails = error instanceof Error ? {
-            name: error.name,
-            message: error.message,
-            stack: error.stack
-        } : {
-            name: 'Unknown',
-            message: String(error),
-            stack: 'No stack trace available'
-        }
-
-        console.error('Error details:', {
-            ...errorDetails,
-            params: params,
-            body: await request.json().catch(() => 'Failed to parse body')
-        })
+        if (error instanceof OrderStatusTransitionError) {
+            return statusTransitionErrorResponse(error)
+        }
+
+        console.error('Error in PATCH /api/orders/[id]:', error)
 
         return NextResponse.json(
             {
                 error: 'Failed to update order',
-                details: errorDetails.message,
+                details: error instanceof Error ? error.message : String(error),
                 orderId: params.id
             },
             { status: 500 }
@@ -0,0 +1,39 @@
+// app/api/orders/availability/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import { getDeliveryAvailabilityForDates } from '@/lib/firebase/dao/orders'
+
+export const dynamic = 'force-dynamic'
+
+const MAX_DATES = 31
+
+// GET /api/orders/availability?dates=2025-04-11,2025-04-18
+export async function GET(request: NextRequest) {
+    const auth = await requirePermission(request, 'orders:read')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    const dates = (request.nextUrl.searchParams.get('dates') || '')
+        .split(',')
+        .map(date => date.trim())
+        .filter(Boolean)
+
+    if (dates.length === 0 || dates.length > MAX_DATES || dates.some(date => !/^\d{4}-\d{2}-\d{2}$/.test(date))) {
+        return NextResponse.json(
+            { error: `dates must be 1-${MAX_DATES} comma-separated yyyy-MM-dd values` },
+            { status: 400 }
+        )
+    }
+
+    try {
+        const availability = await getDeliveryAvailabilityForDates(Array.from(new Set(dates)))
+        return NextResponse.json(availability)
+    } catch (error) {
+        console.error('Error fetching delivery availability:', error)
+        return NextResponse.json(
+            { error: 'Failed to fetch delivery availability' },
+            { status: 500 }
+        )
+    }
+}
@@ -1,17 +1,107 @@
 // app/api/orders/export/route.ts
 import { NextRequest, NextResponse } from 'next/server'
-import { verifyAuth } from '@/lib/api/auth-middleware'
+import { z } from 'zod'
+import { format, subDays } from 'date-fns'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import { getAllOrders } from '@/lib/firebase/dao/orders'
+import {
+  buildOrdersWorkbook,
+  getExportContentType,
+  toExportOrder,
+  workbookToBuffer
+} from '@/lib/utils/export'
+import { getBusinessDayBounds, getBusinessTime, getBusinessToday, toDateKey } from '@/lib/utils/delivery-schedule'
+import type { OrderFilters } from '@/lib/types/firestore'
+
+export const dynamic = 'force-dynamic'
+
+const exportQuerySchema = z.object({
+  format: z.enum(['xlsx', 'csv']).default('xlsx'),
+  search: z.string().optional(),
+  status: z.enum(['all', 'NEW', 'CONFIRMED', 'PREPARING', 'READY', 'DELIVERED', 'CANCELLED']).default('all'),
+  dateRange: z.enum(['all', 'today', 'week', 'month']).default('all'),
+  startDate: z.string().optional(),
+  endDate: z.string().optional(),
+  customerId: z.string().optional()
+})
+
+const isDateKey = (value: string) => /^\d{4}-\d{2}-\d{2}$/.test(value)
+
+// The last moment of a day in Israel, as an inclusive end bound
+const endOfBusinessDay = (dateKey: string) => new Date(getBusinessDayBounds(dateKey).end.getTime() - 1)
+
+// Translate the list page's relative date ranges into explicit bounds. Days are days in Israel,
+// where delivery dates are stored at midnight; a bare yyyy-MM-dd bound covers that whole day.
+function resolveDateBounds(dateRange: OrderFilters['dateRange'], startDate?: string, endDate?: string) {
+  const now = new Date()
+  const today = getBusinessToday(now)
+
+  switch (dateRange) {
+    case 'today':
+      return { startDate: getBusinessTime(toDateKey(today)), endDate: endOfBusinessDay(toDateKey(today)) }
+    case 'week':
+      return { startDate: getBusinessTime(toDateKey(subDays(today, 7))), endDate: now }
+    case 'month':
+      return { startDate: getBusinessTime(toDateKey(subDays(today, 30))), endDate: now }
+  }
+
+  return {
+    startDate: !startDate ? undefined : isDateKey(startDate) ? getBusinessTime(startDate) : new Date(startDate),
+    endDate: !endDate ? undefined : isDateKey(endDate) ? endOfBusinessDay(endDate) : new Date(endDate)
+  }
+}
 
 export async function GET(request: NextRequest) {
   // Verify authentication
-  const auth = await verifyAuth(request)
+  const auth = await requirePermission(request, 'data:export')
   if (!auth.authenticated) {
     return auth.response
   }
 
-  // TODO: Re-implement export functionality with Firestore
-  return NextResponse.json(
-    { error: 'Export functionality is being updated. Please try again later.' },
-    { status: 503 }
-  )
-}
\ No newline at end of file
+  try {
+    const params = Object.fromEntries(request.nextUrl.searchParams.entries())
+    if (params.status) {
+      params.status = params.status === 'all' ? 'all' : params.status.toUpperCase()
+    }
+    const query = exportQuerySchema.parse(params)
+
+    const { startDate, endDate } = resolveDateBounds(query.dateRange, query.startDate, query.endDate)
+    if ((startDate && isNaN(startDate.getTime())) || (endDate && isNaN(endDate.getTime()))) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 })
+    }
+
+    const orders = await getAllOrders({
+      search: query.search || undefined,
+      status: query.status,
+      customerId: query.customerId || undefined,
+      startDate,
+      endDate
+    })
+
+    const workbook = buildOrdersWorkbook(orders.map(toExportOrder))
+    const body = workbookToBuffer(workbook, query.format)
+    const filename = `orders_${format(new Date(), 'yyyy-MM-dd_HH-mm')}.${query.format}`
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        'Content-Type': getExportContentType(query.format),
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-store'
+      }
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid export parameters', details: error.errors },
+        { status: 400 }
+      )
+    }
+
+    console.error('Error exporting orders:', error)
+    return NextResponse.json(
+      { error: 'Failed to export orders' },
+      { status: 500 }
+    )
+  }
+}
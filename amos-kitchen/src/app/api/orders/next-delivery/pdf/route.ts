@@ -0,0 +1,48 @@
+// src/app/api/orders/next-delivery/pdf/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { format } from 'date-fns'
+import { getOrdersForNextDeliveryDay } from '@/lib/firebase/dao/orders'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import { isPrintDocumentType, pdfHeaders, renderPrintDocument } from '@/lib/pdf/documents'
+import { loadPrintBatch } from '@/lib/pdf/print-data'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/orders/next-delivery/pdf?type=ticket|labels|packing
+// One PDF with the chosen document for every active order of the next delivery day
+export async function GET(request: NextRequest) {
+    try {
+        const auth = await requirePermission(request, 'orders:read')
+        if (!auth.authenticated) {
+            return auth.response
+        }
+
+        const type = request.nextUrl.searchParams.get('type')
+        if (!isPrintDocumentType(type)) {
+            return NextResponse.json({ error: 'Invalid document type' }, { status: 400 })
+        }
+
+        const { orders, deliveryDate } = await getOrdersForNextDeliveryDay()
+        const activeOrders = orders
+            .filter(order => order.status !== 'CANCELLED')
+            .sort((a, b) => a.orderNumber.localeCompare(b.orderNumber, undefined, { numeric: true }))
+
+        if (!deliveryDate || activeOrders.length === 0) {
+            return NextResponse.json({ error: 'No orders for the next delivery day' }, { status: 404 })
+        }
+
+        const batch = await loadPrintBatch(activeOrders)
+        const pdf = await renderPrintDocument(type, batch)
+
+        return new NextResponse(pdf, {
+            status: 200,
+            headers: pdfHeaders(`${type}-${format(deliveryDate, 'yyyy-MM-dd')}.pdf`)
+        })
+    } catch (error) {
+        console.error('Error generating delivery day PDF:', error)
+        return NextResponse.json(
+            { error: 'Failed to generate PDF' },
+            { status: 500 }
+        )
+    }
+}
@@ -3,14 +3,14 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getOrdersForNextDeliveryDay } from '@/lib/firebase/dao/orders'
 import { getDishesByIds } from '@/lib/firebase/dao/dishes'
 import { getCustomerById, getCustomerPreferences } from '@/lib/firebase/dao/customers'
-import { verifyAuth } from '@/lib/api/auth-middleware'
+import { requirePermission } from '@/lib/api/auth-middleware'
 
 export const dynamic = 'force-dynamic'
 
 export async function GET(request: NextRequest) {
   try {
     // Verify authentication
-    const auth = await verifyAuth(request)
+    const auth = await requirePermission(request, 'orders:read')
     if (!auth.authenticated) {
       return auth.response
     }
@@ -3,49 +3,67 @@ import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import {
     createOrder,
+    getOrderById,
     getOrders,
-    addOrderHistory
+    addOrderHistory,
+    DEFAULT_ORDER_SORT,
+    ORDER_SORTS
 } from '@/lib/firebase/dao/orders'
 import { getCustomerById } from '@/lib/firebase/dao/customers'
 import { getDishesByIds } from '@/lib/firebase/dao/dishes'
-import { verifyAuth } from '@/lib/api/auth-middleware'
+import { getMenu } from '@/lib/firebase/dao/menus'
+import { getBusinessSettings, getDeliverySchedule } from '@/lib/firebase/dao/settings'
+import { getDeliveryZones } from '@/lib/firebase/dao/delivery-zones'
+import { findDeliveryZone, isBelowZoneMinimum, resolveOrderAddress } from '@/lib/utils/address'
+import { fromDateKey, getBusinessTime, isDeliveryDay, parseDeliveryDateKey } from '@/lib/utils/delivery-schedule'
+import { applyMenu, describeDishesNotOnMenu, findDishesNotOnMenu } from '@/lib/utils/menu'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import { CapacityExceededError } from '@/lib/utils/capacity'
+import { PaginationError, parsePageRequest } from '@/lib/utils/pagination'
+import { calculateOrderPricing, priceOrderItems, PricingError } from '@/lib/utils/pricing'
+import { deliveryFeeSchema, priceAdjustmentSchema } from '@/lib/validators/order'
+import { structuredAddressSchema } from '@/lib/validators/address'
 
-// Validation schema for order creation
+// Validation schema for order creation. Prices are not accepted: the server
+// takes them from the dishes, and the total is derived from the lines.
 const createOrderSchema = z.object({
     customerId: z.string().min(1),
     deliveryDate: z.string(),
     deliveryAddress: z.string().optional(),
+    // When given, the delivery address is formatted from it
+    deliveryAddressDetails: structuredAddressSchema.nullable().optional(),
     notes: z.string().optional(),
     items: z.array(z.object({
         dishId: z.string().min(1),
         quantity: z.number().int().positive(),
-        price: z.number().positive(),
+        discount: priceAdjustmentSchema.nullable().optional(),
         notes: z.string().optional()
-    })).min(1)
+    })).min(1),
+    discount: priceAdjustmentSchema.nullable().optional(),
+    // Falls back to the fee of the address's delivery zone, then to the business default
+    deliveryFee: deliveryFeeSchema.optional()
 })
 
-
-
 export async function GET(request: NextRequest) {
     // Verify authentication first, outside try-catch to ensure proper 401 responses
-    const auth = await verifyAuth(request)
+    const auth = await requirePermission(request, 'orders:read')
     if (!auth.authenticated) {
-        console.log('Authentication failed - no valid token')
         return auth.response
     }
 
     try {
-        console.log('Orders API called for user:', auth.user?.uid)
-
         // Get query parameters
         const searchParams = request.nextUrl.searchParams
         const search = searchParams.get('search') || ''
         const status = searchParams.get('status') || 'all'
         const dateRange = searchParams.get('dateRange') || 'all'
-        const page = parseInt(searchParams.get('page') || '1')
-        const limit = parseInt(searchParams.get('limit') || '10')
-
-        console.log('Query parameters:', { search, status, dateRange, page, limit })
+        // limit, sort and cursor; a search is ranked by relevance
+        const page = parsePageRequest(searchParams, {
+            sorts: Object.keys(ORDER_SORTS),
+            defaultSort: DEFAULT_ORDER_SORT,
+            defaultLimit: 10,
+            ranked: !!search
+        })
 
         // Build filters for Firestore
         const filters: any = {
@@ -55,9 +73,7 @@ export async function GET(request: NextRequest) {
         }
 
         // Fetch orders from Firestore
-        console.log('Fetching orders with filters:', filters)
-        const { orders, total } = await getOrders(filters, limit)
-        console.log(`Fetched ${orders.length} orders`)
+        const { orders, pagination } = await getOrders(filters, page)
 
         // Get dish details for all orders
         const allDishIds = new Set<string>()
@@ -65,7 +81,6 @@ export async function GET(request: NextRequest) {
             order.items.forEach(item => allDishIds.add(item.dishId))
         })
 
-        console.log(`Fetching details for ${allDishIds.size} dishes`)
         const dishes = await getDishesByIds(Array.from(allDishIds))
         const dishMap = new Map(dishes.map(d => [d.id, d]))
 
@@ -77,7 +92,6 @@ export async function GET(request: NextRequest) {
             }
         })
 
-        console.log(`Fetching details for ${customersToFetch.size} customers`)
         const customerMap = new Map()
         for (const customerId of Array.from(customersToFetch)) {
             const customer = await getCustomerById(customerId)
@@ -105,22 +119,16 @@ export async function GET(request: NextRequest) {
             }))
         }))
 
-        console.log('Successfully transformed orders, returning response')
         return NextResponse.json({
             orders: transformedOrders,
-            pagination: {
-                total,
-                page,
-                limit,
-                totalPages: Math.ceil(total / limit)
-            }
+            pagination
         })
     } catch (error: any) {
+        if (error instanceof PaginationError) {
+            return NextResponse.json({ error: error.message }, { status: 400 })
+        }
+
         console.error('Error fetching orders:', error)
-        console.error('Error name:', error?.name)
-        console.error('Error code:', error?.code)
-        console.error('Error message:', error?.message)
-        console.error('Error stack:', error?.stack)
 
         // Return more specific error messages
         const errorMessage = error?.message || 'Failed to fetch orders'
@@ -137,14 +145,13 @@ export async function GET(request: NextRequest) {
 
 export async function POST(request: NextRequest) {
     // Verify authentication first, outside try-catch to ensure proper 401 responses
-    const auth = await verifyAuth(request)
+    const auth = await requirePermission(request, 'orders:write')
     if (!auth.authenticated) {
         return auth.response
     }
 
     try {
         const body = await request.json()
-        console.log('Create order request by user:', auth.user?.uid, body)
 
         // Validate request body
         const validatedData = createOrderSchema.parse(body)
@@ -158,37 +165,84 @@ export async function POST(request: NextRequest) {
             )
         }
 
-        // Get dish details BEFORE creating order
+        // Only accept dates the delivery calendar has open (cutoffs are enforced by the order form,
+        // so late phone orders can still be entered)
+        const dateKey = parseDeliveryDateKey(validatedData.deliveryDate)
+        if (!dateKey) {
+            return NextResponse.json(
+                { error: 'תאריך משלוח לא תקין' },
+                { status: 400 }
+            )
+        }
+        const schedule = await getDeliverySchedule()
+        if (!isDeliveryDay(schedule, fromDateKey(dateKey))) {
+            return NextResponse.json(
+                { error: 'אין משלוחים בתאריך שנבחר' },
+                { status: 400 }
+            )
+        }
+
+        // Price the lines from the delivery day's menu, or the current dish prices without one
         const dishIds = validatedData.items.map(item => item.dishId)
-        const dishes = await getDishesByIds(dishIds)
+        const [dishes, business, menu, zones] = await Promise.all([
+            getDishesByIds(dishIds),
+            getBusinessSettings(),
+            getMenu(dateKey),
+            getDeliveryZones()
+        ])
         const dishMap = new Map(dishes.map(d => [d.id, d]))
 
-        // Calculate total amount
-        const totalAmount = validatedData.items.reduce((sum, item) => {
-            return sum + (item.price * item.quantity)
-        }, 0)
+        const notOnMenu = findDishesNotOnMenu(dishes.map(d => d.id!), menu)
+        if (notOnMenu.length > 0) {
+            return NextResponse.json(
+                { error: describeDishesNotOnMenu(notOnMenu.map(id => dishMap.get(id)!.name), dateKey), dishIds: notOnMenu },
+                { status: 400 }
+            )
+        }
+
+        const items = priceOrderItems(validatedData.items, applyMenu(dishes, menu))
 
-        // Create order with Firestore - now with dish names
+        const address = resolveOrderAddress(validatedData, customer)
+        const zone = findDeliveryZone(zones, address.deliveryAddressDetails)
+
+        const discount = validatedData.discount || null
+        const pricing = calculateOrderPricing(
+            items,
+            discount,
+            validatedData.deliveryFee ?? zone?.deliveryFee ?? business.defaultDeliveryFee
+        )
+
+        if (zone && isBelowZoneMinimum(zone, pricing)) {
+            return NextResponse.json(
+                { error: `הזמנת המינימום לאזור ${zone.name} היא ₪${zone.minimumOrder}` },
+                { status: 400 }
+            )
+        }
+
+        // Create order with Firestore
         const orderId = await createOrder({
             customerId: validatedData.customerId,
             orderDate: new Date(),
-            deliveryDate: new Date(validatedData.deliveryDate),
-            deliveryAddress: validatedData.deliveryAddress || customer.address || '',
-            items: validatedData.items.map(item => ({
-                dishId: item.dishId,
-                dishName: dishMap.get(item.dishId)?.name || 'Unknown Dish',
-                quantity: item.quantity,
-                price: item.price,
-                notes: item.notes || ''
-            })),
-            totalAmount,
+            // Stored as the moment the delivery day starts in Israel
+            deliveryDate: getBusinessTime(dateKey),
+            ...address,
+            deliveryZoneId: zone?.id || null,
+            deliveryZoneName: zone?.name || null,
+            items,
+            discount,
+            ...pricing,
             status: 'NEW',
             notes: validatedData.notes || ''
         })
 
+        // Read back the stored order for its number and detected allergen conflicts
+        const createdOrder = await getOrderById(orderId)
+
         // Transform response
         const transformedOrder = {
             id: orderId,
+            orderNumber: createdOrder?.orderNumber,
+            allergenConflicts: createdOrder?.allergenConflicts || [],
             customerId: validatedData.customerId,
             customer,
             customerData: {
@@ -197,22 +251,22 @@ export async function POST(request: NextRequest) {
                 ...(customer.email && { email: customer.email })
             },
             deliveryDate: validatedData.deliveryDate,
-            deliveryAddress: validatedData.deliveryAddress || customer.address || '',
+            ...address,
+            deliveryZoneName: zone?.name || null,
             status: 'NEW',
-            totalAmount,
+            discount,
+            ...pricing,
             notes: validatedData.notes || '',
-            orderItems: validatedData.items.map(item => ({
+            orderItems: items.map(item => ({
                 ...item,
-                dish: dishMap.get(item.dishId) || { name: 'Unknown Dish' }
+                dish: dishMap.get(item.dishId)
             })),
-            items: validatedData.items.map(item => ({
+            items: items.map(item => ({
                 ...item,
-                dishName: dishMap.get(item.dishId)?.name || 'Unknown Dish',
-                dish: dishMap.get(item.dishId) || { name: 'Unknown Dish' }
+                dish: dishMap.get(item.dishId)
             }))
         }
 
-        console.log('Order created successfully')
         return NextResponse.json(transformedOrder, { status: 201 })
     } catch (error) {
         if (error instanceof z.ZodError) {
@@ -223,6 +277,20 @@ export async function POST(request: NextRequest) {
             )
         }
 
+        if (error instanceof CapacityExceededError) {
+            return NextResponse.json(
+                { error: error.message, violations: error.violations },
+                { status: 409 }
+            )
+        }
+
+        if (error instanceof PricingError) {
+            return NextResponse.json(
+                { error: 'חלק מהמנות בהזמנה אינן קיימות', dishIds: error.dishIds },
+                { status: 400 }
+            )
+        }
+
         console.error('Error creating order:', error)
         return NextResponse.json(
             { error: 'Failed to create order' },
@@ -2,14 +2,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getTodayOrders } from '@/lib/firebase/dao/orders'
 import { getDishesByIds } from '@/lib/firebase/dao/dishes'
-import { verifyAuth } from '@/lib/api/auth-middleware'
+import { requirePermission } from '@/lib/api/auth-middleware'
 
 export const dynamic = 'force-dynamic'
 
 export async function GET(request: NextRequest) {
   try {
     // Verify authentication
-    const auth = await verifyAuth(request)
+    const auth = await requirePermission(request, 'orders:read')
     if (!auth.authenticated) {
       return auth.response
     }
@@ -1,105 +1,51 @@
 // src/app/api/reports/analytics/export/route.ts
 import { NextRequest, NextResponse } from 'next/server'
-import * as XLSX from 'xlsx'
-import { format } from 'date-fns'
-import { he } from 'date-fns/locale'
+import { getAnalyticsReport } from '@/lib/firebase/dao/reports'
+import { AnalyticsRangeError, resolveAnalyticsRange } from '@/lib/utils/analytics'
+import { buildAnalyticsWorkbook, getExportContentType, workbookToBuffer } from '@/lib/utils/export'
+import { requirePermission } from '@/lib/api/auth-middleware'
 
 export const dynamic = 'force-dynamic'
 
+// GET /api/reports/analytics/export - the analytics report as xlsx, for the same range,
+// comparison and filter parameters as /api/reports/analytics
 export async function GET(request: NextRequest) {
     try {
+        // Verify authentication
+        const auth = await requirePermission(request, 'reports:read')
+        if (!auth.authenticated) {
+            return auth.response
+        }
+
         const searchParams = request.nextUrl.searchParams
-        const period = searchParams.get('period') || 'month'
-        
-        // Fetch analytics data from the main analytics endpoint
-        const baseUrl = request.nextUrl.origin
-        const analyticsResponse = await fetch(`${baseUrl}/api/reports/analytics?period=${period}`)
-        
-        if (!analyticsResponse.ok) {
-            throw new Error('Failed to fetch analytics data')
+        const range = resolveAnalyticsRange({
+            period: searchParams.get('period'),
+            startDate: searchParams.get('startDate'),
+            endDate: searchParams.get('endDate'),
+            comparison: searchParams.get('comparison')
+        })
+        const filters = {
+            category: searchParams.get('category'),
+            customerId: searchParams.get('customerId')
         }
-        
-        const data = await analyticsResponse.json()
-        
-        // Create workbook
-        const wb = XLSX.utils.book_new()
-        
-        // Summary sheet
-        const summaryData = [
-            ['סיכום כללי'],
-            [''],
-            ['מדד', 'ערך'],
-            ['סה״כ הכנסות', data.summary.totalRevenue],
-            ['מספר הזמנות', data.summary.totalOrders],
-            ['ערך הזמנה ממוצע', data.summary.averageOrderValue],
-            ['לקוחות פעילים', data.summary.totalCustomers],
-            ['לקוחות חדשים', data.summary.newCustomers],
-            ['לקוחות חוזרים', data.summary.returningCustomers],
-            ['גידול בהכנסות %', data.summary.revenueGrowth],
-            ['גידול בהזמנות %', data.summary.ordersGrowth]
-        ]
-        const summarySheet = XLSX.utils.aoa_to_sheet(summaryData)
-        XLSX.utils.book_append_sheet(wb, summarySheet, 'סיכום')
-        
-        // Revenue sheet
-        const revenueData = [
-            ['הכנסות יומיות'],
-            ['תאריך', 'סכום'],
-            ...data.revenue.daily.map((item: any) => [item.date, item.amount])
-        ]
-        const revenueSheet = XLSX.utils.aoa_to_sheet(revenueData)
-        XLSX.utils.book_append_sheet(wb, revenueSheet, 'הכנסות')
-        
-        // Top dishes sheet
-        const dishesData = [
-            ['מנות פופולריות'],
-            ['מנה', 'כמות', 'הכנסות'],
-            ...data.dishes.topSelling.map((dish: any) => [
-                dish.name,
-                dish.quantity,
-                dish.revenue
-            ])
-        ]
-        const dishesSheet = XLSX.utils.aoa_to_sheet(dishesData)
-        XLSX.utils.book_append_sheet(wb, dishesSheet, 'מנות')
-        
-        // Customers sheet
-        const customersData = [
-            ['לקוחות מובילים'],
-            ['שם', 'סה״כ הוצאות', 'מספר הזמנות'],
-            ...data.customers.topSpenders.map((customer: any) => [
-                customer.name,
-                customer.totalSpent,
-                customer.orderCount
-            ])
-        ]
-        const customersSheet = XLSX.utils.aoa_to_sheet(customersData)
-        XLSX.utils.book_append_sheet(wb, customersSheet, 'לקוחות')
-        
-        // Category breakdown sheet
-        const categoryData = [
-            ['פילוח לפי קטגוריה'],
-            ['קטגוריה', 'כמות', 'הכנסות'],
-            ...Object.entries(data.dishes.byCategory).map(([category, stats]: [string, any]) => [
-                translateCategory(category),
-                stats.quantity,
-                stats.revenue
-            ])
-        ]
-        const categorySheet = XLSX.utils.aoa_to_sheet(categoryData)
-        XLSX.utils.book_append_sheet(wb, categorySheet, 'קטגוריות')
-        
-        // Generate buffer
-        const buffer = XLSX.write(wb, { bookType: 'xlsx', type: 'buffer' })
-        
+
+        const report = await getAnalyticsReport(range, filters)
+        const body = workbookToBuffer(buildAnalyticsWorkbook(report), 'xlsx')
+        const filename = `analytics-${report.range.startDate}-${report.range.endDate}.xlsx`
+
         // Return as downloadable file
-        return new NextResponse(buffer, {
+        return new NextResponse(body, {
+            status: 200,
             headers: {
-                'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-                'Content-Disposition': `attachment; filename=analytics-${period}-${format(new Date(), 'yyyy-MM-dd')}.xlsx`
+                'Content-Type': getExportContentType('xlsx'),
+                'Content-Disposition': `attachment; filename="${filename}"`,
+                'Cache-Control': 'no-store'
             }
         })
     } catch (error) {
+        if (error instanceof AnalyticsRangeError) {
+            return NextResponse.json({ error: error.message }, { status: 400 })
+        }
         console.error('Error exporting analytics:', error)
         return NextResponse.json(
             { error: 'Failed to export analytics' },
@@ -107,20 +53,3 @@ export async function GET(request: NextRequest) {
         )
     }
 }
-
-function translateCategory(category: string): string {
-    const categories: Record<string, string> = {
-        'appetizer': 'מנה ראשונה',
-        'main': 'מנה עיקרית',
-        'side': 'תוספת',
-        'dessert': 'קינוח',
-        'beverage': 'משקה',
-        'vegetables': 'ירקות',
-        'meat': 'בשר',
-        'dairy': 'חלב',
-        'grains': 'דגנים',
-        'spices': 'תבלינים',
-        'other': 'אחר'
-    }
-    return categories[category.toLowerCase()] || category
-}
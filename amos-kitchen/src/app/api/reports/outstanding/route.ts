@@ -0,0 +1,35 @@
+// src/app/api/reports/outstanding/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { getAllCustomers } from '@/lib/firebase/dao/customers'
+import { getAllOrders } from '@/lib/firebase/dao/orders'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import { buildOutstandingBalances } from '@/lib/utils/payments'
+
+export const dynamic = 'force-dynamic'
+
+// Customers with unpaid orders (or credit owed back), from the paid amounts on the orders
+export async function GET(request: NextRequest) {
+    const auth = await requirePermission(request, 'reports:read')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        const [orders, customers] = await Promise.all([getAllOrders(), getAllCustomers()])
+        const customerMap = new Map(customers.map(customer => [customer.id!, customer]))
+        const balances = buildOutstandingBalances(orders, customerMap)
+
+        return NextResponse.json({
+            balances,
+            totalOutstanding: balances
+                .filter(row => row.balance > 0)
+                .reduce((sum, row) => sum + row.balance, 0)
+        })
+    } catch (error) {
+        console.error('Error building outstanding balances:', error)
+        return NextResponse.json(
+            { error: 'Failed to build outstanding balances' },
+            { status: 500 }
+        )
+    }
+}
@@ -1,29 +1,47 @@
 // src/app/api/reports/weekly-summary/route.ts
 import { NextRequest, NextResponse } from 'next/server'
-import { startOfWeek, endOfWeek, addDays } from 'date-fns'
+import { startOfWeek, endOfWeek } from 'date-fns'
 import { query, where, getDocs, orderBy } from 'firebase/firestore'
 import { ordersCollection, dateToTimestamp } from '@/lib/firebase/firestore'
 import { getDishesByIds } from '@/lib/firebase/dao/dishes'
 import { getCustomerById } from '@/lib/firebase/dao/customers'
+import { getDeliverySchedule } from '@/lib/firebase/dao/settings'
+import {
+    fromDateKey,
+    getBusinessDayBounds,
+    getBusinessTime,
+    getDeliveryDaysInRange,
+    parseDeliveryDateKey,
+    toBusinessDateKey,
+    toDateKey
+} from '@/lib/utils/delivery-schedule'
+import { requirePermission } from '@/lib/api/auth-middleware'
 
 export const dynamic = 'force-dynamic'
 
 export async function GET(request: NextRequest) {
     try {
+        // Verify authentication
+        const auth = await requirePermission(request, 'reports:read')
+        if (!auth.authenticated) {
+            return auth.response
+        }
+
         const searchParams = request.nextUrl.searchParams
-        const date = searchParams.get('date') || new Date().toISOString()
+        const date = searchParams.get('date')
 
-        // Get the Friday of the selected week
-        const selectedDate = new Date(date)
+        // Get the delivery days of the selected week from the delivery calendar. Weeks are
+        // weeks in Israel, whatever the server's timezone.
+        const selectedDate = fromDateKey((date && parseDeliveryDateKey(date)) || toBusinessDateKey(new Date()))
         const weekStart = startOfWeek(selectedDate, { weekStartsOn: 0 }) // Sunday
-        const friday = addDays(weekStart, 5)
         const weekEnd = endOfWeek(selectedDate, { weekStartsOn: 0 })
+        const deliveryDates = getDeliveryDaysInRange(await getDeliverySchedule(), weekStart, weekEnd)
 
         // Fetch all orders for the week from Firestore
         const ordersQuery = query(
             ordersCollection,
-            where('deliveryDate', '>=', dateToTimestamp(weekStart)),
-            where('deliveryDate', '<=', dateToTimestamp(weekEnd)),
+            where('deliveryDate', '>=', dateToTimestamp(getBusinessTime(toDateKey(weekStart)))),
+            where('deliveryDate', '<', dateToTimestamp(getBusinessDayBounds(toDateKey(weekEnd)).end)),
             orderBy('deliveryDate', 'asc')
         )
 
@@ -87,7 +105,7 @@ export async function GET(request: NextRequest) {
         // Orders by day
         const ordersByDay = orders.reduce((acc, order) => {
             const deliveryDate = order.deliveryDate?.toDate ? order.deliveryDate.toDate() : new Date(order.deliveryDate)
-            const day = deliveryDate.toISOString().split('T')[0]
+            const day = toBusinessDateKey(deliveryDate)
             if (!acc[day]) {
                 acc[day] = {
                     date: day,
@@ -177,8 +195,8 @@ export async function GET(request: NextRequest) {
             }))
 
         return NextResponse.json({
-            weekOf: weekStart.toISOString(),
-            friday: friday.toISOString(),
+            weekOf: getBusinessTime(toDateKey(weekStart)).toISOString(),
+            deliveryDates: deliveryDates.map(d => getBusinessTime(toDateKey(d)).toISOString()),
             summary: {
                 totalOrders,
                 totalRevenue,
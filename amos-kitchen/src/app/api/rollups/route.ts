@@ -0,0 +1,25 @@
+// app/api/rollups/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import { rebuildRollups } from '@/lib/firebase/dao/rollups'
+
+export const dynamic = 'force-dynamic'
+
+// Recompute the day and week rollups from all orders, e.g. for orders from before they existed
+export async function POST(request: NextRequest) {
+    const auth = await requirePermission(request, 'settings:write')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        const result = await rebuildRollups()
+        return NextResponse.json(result)
+    } catch (error) {
+        console.error('Error rebuilding rollups:', error)
+        return NextResponse.json(
+            { error: 'Failed to rebuild rollups' },
+            { status: 500 }
+        )
+    }
+}
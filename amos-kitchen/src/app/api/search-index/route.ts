@@ -0,0 +1,25 @@
+// app/api/search-index/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import { rebuildSearchIndex } from '@/lib/firebase/dao/search-index'
+
+export const dynamic = 'force-dynamic'
+
+// Rebuild the customer and order search index, e.g. for records from before it existed
+export async function POST(request: NextRequest) {
+    const auth = await requirePermission(request, 'settings:write')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        const result = await rebuildSearchIndex()
+        return NextResponse.json(result)
+    } catch (error) {
+        console.error('Error rebuilding search index:', error)
+        return NextResponse.json(
+            { error: 'Failed to rebuild search index' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,56 @@
+// app/api/settings/business/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import { getBusinessSettings, updateBusinessSettings } from '@/lib/firebase/dao/settings'
+import { businessSettingsSchema } from '@/lib/validators/business-settings'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+    const auth = await requirePermission(request, 'settings:read')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        const settings = await getBusinessSettings()
+        return NextResponse.json(settings)
+    } catch (error) {
+        console.error('Error fetching business settings:', error)
+        return NextResponse.json(
+            { error: 'Failed to fetch business settings' },
+            { status: 500 }
+        )
+    }
+}
+
+export async function PUT(request: NextRequest) {
+    const auth = await requirePermission(request, 'settings:write')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        const body = await request.json()
+        const validatedData = businessSettingsSchema.parse(body)
+
+        await updateBusinessSettings(validatedData, auth.user?.uid)
+
+        const settings = await getBusinessSettings()
+        return NextResponse.json(settings)
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: 'Invalid data', details: error.errors },
+                { status: 400 }
+            )
+        }
+
+        console.error('Error updating business settings:', error)
+        return NextResponse.json(
+            { error: 'Failed to update business settings' },
+            { status: 500 }
+        )
+    }
+}
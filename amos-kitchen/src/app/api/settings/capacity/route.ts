@@ -0,0 +1,56 @@
+// app/api/settings/capacity/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import { getCapacitySettings, updateCapacitySettings } from '@/lib/firebase/dao/settings'
+import { capacitySettingsSchema } from '@/lib/validators/capacity'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+    const auth = await requirePermission(request, 'settings:read')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        const settings = await getCapacitySettings()
+        return NextResponse.json(settings)
+    } catch (error) {
+        console.error('Error fetching capacity settings:', error)
+        return NextResponse.json(
+            { error: 'Failed to fetch capacity settings' },
+            { status: 500 }
+        )
+    }
+}
+
+export async function PUT(request: NextRequest) {
+    const auth = await requirePermission(request, 'settings:write')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        const body = await request.json()
+        const validatedData = capacitySettingsSchema.parse(body)
+
+        await updateCapacitySettings(validatedData, auth.user?.uid)
+
+        const settings = await getCapacitySettings()
+        return NextResponse.json(settings)
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: 'Invalid data', details: error.errors },
+                { status: 400 }
+            )
+        }
+
+        console.error('Error updating capacity settings:', error)
+        return NextResponse.json(
+            { error: 'Failed to update capacity settings' },
+            { status: 500 }
+        )
+    }
+}
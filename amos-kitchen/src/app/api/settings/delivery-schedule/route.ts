@@ -0,0 +1,56 @@
+// app/api/settings/delivery-schedule/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import { getDeliverySchedule, updateDeliverySchedule } from '@/lib/firebase/dao/settings'
+import { deliveryScheduleSchema } from '@/lib/validators/delivery-schedule'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+    const auth = await requirePermission(request, 'settings:read')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        const schedule = await getDeliverySchedule()
+        return NextResponse.json(schedule)
+    } catch (error) {
+        console.error('Error fetching delivery schedule:', error)
+        return NextResponse.json(
+            { error: 'Failed to fetch delivery schedule' },
+            { status: 500 }
+        )
+    }
+}
+
+export async function PUT(request: NextRequest) {
+    const auth = await requirePermission(request, 'settings:write')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        const body = await request.json()
+        const validatedData = deliveryScheduleSchema.parse(body)
+
+        await updateDeliverySchedule(validatedData, auth.user?.uid)
+
+        const schedule = await getDeliverySchedule()
+        return NextResponse.json(schedule)
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: 'Invalid data', details: error.errors },
+                { status: 400 }
+            )
+        }
+
+        console.error('Error updating delivery schedule:', error)
+        return NextResponse.json(
+            { error: 'Failed to update delivery schedule' },
+            { status: 500 }
+        )
+    }
+}
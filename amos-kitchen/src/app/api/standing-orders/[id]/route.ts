@@ -0,0 +1,154 @@
+// app/api/standing-orders/[id]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import {
+    deleteStandingOrder,
+    getStandingOrderById,
+    setStandingOrderPaused,
+    updateStandingOrder
+} from '@/lib/firebase/dao/standing-orders'
+import { getDeliverySchedule } from '@/lib/firebase/dao/settings'
+import { fromDateKey, isDeliveryDay } from '@/lib/utils/delivery-schedule'
+import { pauseStandingOrderSchema, updateStandingOrderSchema } from '@/lib/validators/standing-order'
+
+export const dynamic = 'force-dynamic'
+
+type RouteContext = { params: { id: string } }
+
+const notFoundResponse = () =>
+    NextResponse.json({ error: 'Standing order not found' }, { status: 404 })
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    const auth = await requirePermission(request, 'orders:read')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        const standingOrder = await getStandingOrderById(params.id)
+        if (!standingOrder) {
+            return notFoundResponse()
+        }
+
+        return NextResponse.json(standingOrder)
+    } catch (error) {
+        console.error('Error fetching standing order:', error)
+        return NextResponse.json(
+            { error: 'Failed to fetch standing order' },
+            { status: 500 }
+        )
+    }
+}
+
+// PUT /api/standing-orders/[id] - Change the lines or the schedule
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+    const auth = await requirePermission(request, 'orders:write')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        const body = await request.json()
+        const validatedData = updateStandingOrderSchema.parse(body)
+
+        const existing = await getStandingOrderById(params.id)
+        if (!existing) {
+            return notFoundResponse()
+        }
+
+        const startDate = validatedData.startDate || existing.startDate
+        const endDate = validatedData.endDate !== undefined ? validatedData.endDate : existing.endDate
+        if (endDate && endDate < startDate) {
+            return NextResponse.json(
+                { error: 'תאריך הסיום חייב להיות אחרי תאריך ההתחלה' },
+                { status: 400 }
+            )
+        }
+
+        if (validatedData.startDate) {
+            const schedule = await getDeliverySchedule()
+            if (!isDeliveryDay(schedule, fromDateKey(validatedData.startDate))) {
+                return NextResponse.json(
+                    { error: 'אין משלוחים בתאריך ההתחלה שנבחר' },
+                    { status: 400 }
+                )
+            }
+        }
+
+        await updateStandingOrder(params.id, validatedData)
+
+        return NextResponse.json(await getStandingOrderById(params.id))
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: 'Invalid data', details: error.errors },
+                { status: 400 }
+            )
+        }
+
+        console.error('Error updating standing order:', error)
+        return NextResponse.json(
+            { error: 'Failed to update standing order' },
+            { status: 500 }
+        )
+    }
+}
+
+// PATCH /api/standing-orders/[id] - Pause (optionally until a date) or resume
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+    const auth = await requirePermission(request, 'orders:write')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        const body = await request.json()
+        const { paused, pausedUntil } = pauseStandingOrderSchema.parse(body)
+
+        const existing = await getStandingOrderById(params.id)
+        if (!existing) {
+            return notFoundResponse()
+        }
+
+        await setStandingOrderPaused(params.id, paused, pausedUntil)
+
+        return NextResponse.json(await getStandingOrderById(params.id))
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: 'Invalid data', details: error.errors },
+                { status: 400 }
+            )
+        }
+
+        console.error('Error pausing standing order:', error)
+        return NextResponse.json(
+            { error: 'Failed to update standing order' },
+            { status: 500 }
+        )
+    }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    const auth = await requirePermission(request, 'orders:write')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        const existing = await getStandingOrderById(params.id)
+        if (!existing) {
+            return notFoundResponse()
+        }
+
+        await deleteStandingOrder(params.id)
+        return NextResponse.json({ success: true })
+    } catch (error) {
+        console.error('Error deleting standing order:', error)
+        return NextResponse.json(
+            { error: 'Failed to delete standing order' },
+            { status: 500 }
+        )
+    }
+}
@@ -0,0 +1,100 @@
+// app/api/standing-orders/generate/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import { generateOrderFromStandingOrder, getStandingOrderOccurrences } from '@/lib/firebase/dao/standing-orders'
+import { getOrderById } from '@/lib/firebase/dao/orders'
+import { getDeliverySchedule } from '@/lib/firebase/dao/settings'
+import { fromDateKey, getNextDeliveryDate, isDeliveryDay, toDateKey } from '@/lib/utils/delivery-schedule'
+import { CapacityExceededError } from '@/lib/utils/capacity'
+import { StandingOrderError } from '@/lib/utils/standing-orders'
+import { generateStandingOrdersSchema } from '@/lib/validators/standing-order'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/standing-orders/generate?date=yyyy-MM-dd - Review what would be generated for a
+// delivery day (defaults to the next one)
+export async function GET(request: NextRequest) {
+    const auth = await requirePermission(request, 'orders:write')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        let date = request.nextUrl.searchParams.get('date')
+        if (!date) {
+            const nextDeliveryDate = getNextDeliveryDate(await getDeliverySchedule())
+            if (!nextDeliveryDate) {
+                return NextResponse.json({ date: null, occurrences: [] })
+            }
+            date = toDateKey(nextDeliveryDate)
+        }
+
+        const occurrences = await getStandingOrderOccurrences(date)
+        return NextResponse.json({ date, occurrences })
+    } catch (error) {
+        console.error('Error previewing standing orders:', error)
+        return NextResponse.json(
+            { error: 'Failed to load standing orders' },
+            { status: 500 }
+        )
+    }
+}
+
+// POST /api/standing-orders/generate - Create the real orders for the reviewed standing orders.
+// Each one succeeds or fails on its own; the response lists the outcome per standing order.
+export async function POST(request: NextRequest) {
+    const auth = await requirePermission(request, 'orders:write')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        const body = await request.json()
+        const { date, standingOrderIds } = generateStandingOrdersSchema.parse(body)
+
+        const schedule = await getDeliverySchedule()
+        if (!isDeliveryDay(schedule, fromDateKey(date))) {
+            return NextResponse.json(
+                { error: 'אין משלוחים בתאריך שנבחר' },
+                { status: 400 }
+            )
+        }
+
+        // One at a time, so capacity is checked against the orders generated before
+        const results: { standingOrderId: string, orderId?: string, orderNumber?: string, error?: string }[] = []
+        for (const standingOrderId of standingOrderIds) {
+            try {
+                const orderId = await generateOrderFromStandingOrder(standingOrderId, date, auth.user?.uid)
+                const order = await getOrderById(orderId)
+                results.push({ standingOrderId, orderId, orderNumber: order?.orderNumber })
+            } catch (error) {
+                if (error instanceof StandingOrderError || error instanceof CapacityExceededError) {
+                    results.push({ standingOrderId, error: error.message })
+                    continue
+                }
+                console.error(`Error generating order from standing order ${standingOrderId}:`, error)
+                results.push({ standingOrderId, error: 'יצירת ההזמנה נכשלה' })
+            }
+        }
+
+        return NextResponse.json({
+            date,
+            created: results.filter(result => result.orderId).length,
+            results
+        })
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: 'Invalid data', details: error.errors },
+                { status: 400 }
+            )
+        }
+
+        console.error('Error generating standing orders:', error)
+        return NextResponse.json(
+            { error: 'Failed to generate orders' },
+            { status: 500 }
+        )
+    }
+}
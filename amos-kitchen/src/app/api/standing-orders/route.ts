@@ -0,0 +1,83 @@
+// app/api/standing-orders/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import { createStandingOrder, getStandingOrderById, getStandingOrders } from '@/lib/firebase/dao/standing-orders'
+import { getOrderById } from '@/lib/firebase/dao/orders'
+import { getDeliverySchedule } from '@/lib/firebase/dao/settings'
+import { fromDateKey, isDeliveryDay, toBusinessDateKey } from '@/lib/utils/delivery-schedule'
+import { standingOrderSchema } from '@/lib/validators/standing-order'
+
+export const dynamic = 'force-dynamic'
+
+// GET /api/standing-orders?customerId= - All standing orders, or one customer's
+export async function GET(request: NextRequest) {
+    const auth = await requirePermission(request, 'orders:read')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        const customerId = request.nextUrl.searchParams.get('customerId') || undefined
+        const standingOrders = await getStandingOrders(customerId)
+        return NextResponse.json(standingOrders)
+    } catch (error) {
+        console.error('Error fetching standing orders:', error)
+        return NextResponse.json(
+            { error: 'Failed to fetch standing orders' },
+            { status: 500 }
+        )
+    }
+}
+
+export async function POST(request: NextRequest) {
+    const auth = await requirePermission(request, 'orders:write')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        const body = await request.json()
+        const { firstOrderId, ...validatedData } = standingOrderSchema.parse(body)
+
+        // The first delivery sets the weekday, so it has to be a delivery day
+        const schedule = await getDeliverySchedule()
+        if (!isDeliveryDay(schedule, fromDateKey(validatedData.startDate))) {
+            return NextResponse.json(
+                { error: 'אין משלוחים בתאריך ההתחלה שנבחר' },
+                { status: 400 }
+            )
+        }
+
+        // The order it was created from covers the first delivery
+        const generatedDates: string[] = []
+        if (firstOrderId) {
+            const firstOrder = await getOrderById(firstOrderId)
+            if (firstOrder?.customerId === validatedData.customerId) {
+                generatedDates.push(toBusinessDateKey(firstOrder.deliveryDate))
+            }
+        }
+
+        const id = await createStandingOrder(validatedData, auth.user?.uid, generatedDates)
+        const standingOrder = await getStandingOrderById(id)
+
+        return NextResponse.json(standingOrder, { status: 201 })
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: 'Invalid data', details: error.errors },
+                { status: 400 }
+            )
+        }
+
+        if (error instanceof Error && error.message === 'Customer not found') {
+            return NextResponse.json({ error: 'Customer not found' }, { status: 404 })
+        }
+
+        console.error('Error creating standing order:', error)
+        return NextResponse.json(
+            { error: 'Failed to create standing order' },
+            { status: 500 }
+        )
+    }
+}
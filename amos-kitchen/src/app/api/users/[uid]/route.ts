@@ -0,0 +1,49 @@
+// app/api/users/[uid]/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import { setUserRole } from '@/lib/firebase/admin'
+import { updateUserRoleSchema } from '@/lib/validators/user'
+
+export const dynamic = 'force-dynamic'
+
+// PUT /api/users/[uid] - Assign a role (takes effect on the user's next token refresh)
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: { uid: string } }
+) {
+    const auth = await requirePermission(request, 'users:manage')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    // Owners can't lock themselves out
+    if (params.uid === auth.user?.uid) {
+        return NextResponse.json(
+            { error: 'לא ניתן לשנות את ההרשאה של המשתמש המחובר' },
+            { status: 400 }
+        )
+    }
+
+    try {
+        const body = await request.json()
+        const { role } = updateUserRoleSchema.parse(body)
+
+        await setUserRole(params.uid, role)
+
+        return NextResponse.json({ uid: params.uid, role })
+    } catch (error) {
+        if (error instanceof z.ZodError) {
+            return NextResponse.json(
+                { error: 'Invalid data', details: error.errors },
+                { status: 400 }
+            )
+        }
+
+        console.error('Error updating user role:', error)
+        return NextResponse.json(
+            { error: 'Failed to update user role' },
+            { status: 500 }
+        )
+    }
+}
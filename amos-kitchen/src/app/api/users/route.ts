@@ -0,0 +1,25 @@
+// app/api/users/route.ts
+import { NextRequest, NextResponse } from 'next/server'
+import { requirePermission } from '@/lib/api/auth-middleware'
+import { listUsersWithRoles } from '@/lib/firebase/admin'
+
+export const dynamic = 'force-dynamic'
+
+export async function GET(request: NextRequest) {
+    const auth = await requirePermission(request, 'users:manage')
+    if (!auth.authenticated) {
+        return auth.response
+    }
+
+    try {
+        const users = await listUsersWithRoles()
+        users.sort((a, b) => (a.email || '').localeCompare(b.email || ''))
+        return NextResponse.json(users)
+    } catch (error) {
+        console.error('Error listing users:', error)
+        return NextResponse.json(
+            { error: 'Failed to fetch users' },
+            { status: 500 }
+        )
+    }
+}
@@ -19,6 +19,15 @@ import { Textarea } from '@/components/ui/textarea'
 import { Separator } from '@/components/ui/separator'
 import { useToast } from '@/lib/hooks/use-toast'
 import { PreferenceInput } from './preference-input'
+import { AddressFields } from '@/components/shared/address-fields'
+import {
+    EMPTY_ADDRESS_DRAFT,
+    fromAddressDraft,
+    getAddressDraftError,
+    parseAddress,
+    toAddressDraft,
+    type AddressDraft
+} from '@/lib/utils/address'
 import { normalizePhoneNumber } from '@/lib/validators/customer'
 import type { Customer, CustomerPreference } from '@/lib/types/database'
 
@@ -33,7 +42,9 @@ interface FormData {
     name: string
     phone: string
     email: string
+    // Free-text address that couldn't be split into parts; kept until the parts are filled in
     address: string
+    addressParts: AddressDraft
     notes: string
     preferences: Partial<CustomerPreference>[]
 }
@@ -42,6 +53,7 @@ interface FormErrors {
     name?: string
     phone?: string
     email?: string
+    address?: string
     preferences?: string
 }
 
@@ -60,6 +72,7 @@ export function CustomerDialog({
         phone: '',
         email: '',
         address: '',
+        addressParts: EMPTY_ADDRESS_DRAFT,
         notes: '',
         preferences: []
     })
@@ -67,11 +80,13 @@ export function CustomerDialog({
 
     useEffect(() => {
         if (customer) {
+            const structuredAddress = customer.structuredAddress || parseAddress(customer.address)
             setFormData({
                 name: customer.name || '',
                 phone: customer.phone || '',
                 email: customer.email || '',
-                address: customer.address || '',
+                address: structuredAddress ? '' : customer.address || '',
+                addressParts: toAddressDraft(structuredAddress),
                 notes: customer.notes || '',
                 preferences: customer.preferences || []
             })
@@ -81,6 +96,7 @@ export function CustomerDialog({
                 phone: '',
                 email: '',
                 address: '',
+                addressParts: EMPTY_ADDRESS_DRAFT,
                 notes: '',
                 preferences: []
             })
@@ -106,6 +122,11 @@ export function CustomerDialog({
             newErrors.email = 'כתובת אימייל לא תקינה'
         }
 
+        const addressError = getAddressDraftError(formData.addressParts)
+        if (addressError) {
+            newErrors.address = addressError
+        }
+
         // Validate preferences
         const seenPreferences = new Set<string>()
         for (const pref of formData.preferences) {
@@ -131,11 +152,13 @@ export function CustomerDialog({
         try {
             setSaving(true)
 
+            const structuredAddress = fromAddressDraft(formData.addressParts)
             const dataToSubmit = {
                 name: formData.name.trim(),
                 phone: normalizePhoneNumber(formData.phone.trim()),
                 email: formData.email.trim() || null,
-                address: formData.address.trim() || null,
+                address: structuredAddress ? null : formData.address.trim() || null,
+                structuredAddress,
                 notes: formData.notes.trim() || null,
                 preferences: formData.preferences.map(pref => ({
                     type: pref.type,
@@ -253,13 +276,23 @@ export function CustomerDialog({
                             </div>
 
                             <div className="grid gap-2">
-                                <Label htmlFor="address">כתובת</Label>
-                                <Input
-                                    id="address"
-                                    value={formData.address}
-                                    onChange={(e) => handleInputChange('address', e.target.value)}
+                                <Label>כתובת</Label>
+                                {formData.address && (
+                                    <p className="text-sm text-muted-foreground">
+                                        כתובת קודמת: {formData.address}
+                                    </p>
+                                )}
+                                <AddressFields
+                                    value={formData.addressParts}
+                                    onChange={(value) => {
+                                        handleInputChange('addressParts', value)
+                                        setErrors(prev => ({ ...prev, address: undefined }))
+                                    }}
                                     disabled={saving}
                                 />
+                                {errors.address && (
+                                    <p className="text-sm text-destructive">{errors.address}</p>
+                                )}
                             </div>
 
                             <div className="grid gap-2">
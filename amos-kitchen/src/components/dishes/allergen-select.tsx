@@ -0,0 +1,46 @@
+// components/dishes/allergen-select.tsx
+'use client'
+
+import { AlertTriangle } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { DISH_ALLERGENS } from '@/lib/utils/allergens'
+import { cn } from '@/lib/utils'
+
+interface AllergenSelectProps {
+    value: string[]
+    onChange: (allergens: string[]) => void
+    disabled?: boolean
+}
+
+export function AllergenSelect({ value, onChange, disabled }: AllergenSelectProps) {
+    const toggleAllergen = (allergen: string) => {
+        if (disabled) return
+        onChange(
+            value.includes(allergen)
+                ? value.filter(a => a !== allergen)
+                : [...value, allergen]
+        )
+    }
+
+    return (
+        <div className="flex flex-wrap gap-2">
+            {DISH_ALLERGENS.map(allergen => {
+                const isSelected = value.includes(allergen)
+                return (
+                    <Badge
+                        key={allergen}
+                        variant={isSelected ? 'destructive' : 'outline'}
+                        className={cn(
+                            'gap-1 cursor-pointer select-none',
+                            disabled && 'cursor-not-allowed opacity-60'
+                        )}
+                        onClick={() => toggleAllergen(allergen)}
+                    >
+                        {isSelected && <AlertTriangle className="h-3 w-3" />}
+                        {allergen}
+                    </Badge>
+                )
+            })}
+        </div>
+    )
+}
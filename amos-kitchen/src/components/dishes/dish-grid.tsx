@@ -7,14 +7,10 @@ import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import Link from 'next/link'
 import type { Dish } from '@/lib/types/database'
+import { useBusinessSettings } from '@/lib/hooks/use-business-settings'
 
 interface DishWithStats extends Dish {
     orderCount: number
-    ingredients: {
-        ingredient: {
-            name: string
-        }
-    }[]
 }
 
 interface DishGridProps {
@@ -24,10 +20,12 @@ interface DishGridProps {
 }
 
 export function DishGrid({ dishes, onEdit, onDelete }: DishGridProps) {
+    const { settings } = useBusinessSettings()
+
     const formatPrice = (price: number) => {
         return new Intl.NumberFormat('he-IL', {
             style: 'currency',
-            currency: 'ILS'
+            currency: settings.currency
         }).format(price)
     }
 
@@ -82,12 +80,10 @@ export function DishGrid({ dishes, onEdit, onDelete }: DishGridProps) {
                                 </Badge>
                             </div>
 
-                            {dish.ingredients.length > 0 && (
+                            {dish.ingredients && dish.ingredients.length > 0 && (
                                 <div className="text-xs text-muted-foreground">
                                     <span className="font-medium">רכיבים: </span>
-                                    {dish.ingredients.slice(0, 3).map(ing =>
-                                        ing.ingredient.name
-                                    ).join(', ')}
+                                    {dish.ingredients.slice(0, 3).join(', ')}
                                     {dish.ingredients.length > 3 && ' ...'}
                                 </div>
                             )}
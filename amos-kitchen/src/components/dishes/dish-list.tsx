@@ -23,14 +23,10 @@ import {
 import { Card } from '@/components/ui/card'
 import Link from 'next/link'
 import type { Dish } from '@/lib/types/database'
+import { useBusinessSettings } from '@/lib/hooks/use-business-settings'
 
 interface DishWithStats extends Dish {
     orderCount: number
-    ingredients: {
-        ingredient: {
-            name: string
-        }
-    }[]
 }
 
 interface DishListProps {
@@ -40,10 +36,12 @@ interface DishListProps {
 }
 
 export function DishList({ dishes, onEdit, onDelete }: DishListProps) {
+    const { settings } = useBusinessSettings()
+
     const formatPrice = (price: number) => {
         return new Intl.NumberFormat('he-IL', {
             style: 'currency',
-            currency: 'ILS'
+            currency: settings.currency
         }).format(price)
     }
 
@@ -114,11 +112,9 @@ export function DishList({ dishes, onEdit, onDelete }: DishListProps) {
                             </TableCell>
                             <TableCell className="text-right">
                                 <div className="text-sm">
-                                    {dish.ingredients.length > 0 ? (
+                                    {dish.ingredients && dish.ingredients.length > 0 ? (
                                         <span className="text-muted-foreground">
-                                            {dish.ingredients.slice(0, 3).map(ing =>
-                                                ing.ingredient.name
-                                            ).join(', ')}
+                                            {dish.ingredients.slice(0, 3).join(', ')}
                                             {dish.ingredients.length > 3 && ' ...'}
                                         </span>
                                     ) : (
@@ -1 +1,101 @@
 // components/dishes/dish-select.tsx
+'use client'
+
+import { AlertTriangle } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { applyMenu } from '@/lib/utils/menu'
+import type { Dish } from '@/lib/types/database'
+import type { Menu, RemainingCapacity } from '@/lib/types/firestore'
+
+interface DishSelectProps {
+    dishes: Dish[]
+    value: string
+    onValueChange: (dishId: string) => void
+    // Per-dish capacity for the chosen delivery day
+    availability?: Record<string, RemainingCapacity>
+    // Portions already taken by the other lines of the same order
+    reserved?: Record<string, number>
+    // The delivery day's menu; when set, only its dishes are offered, at its prices
+    menu?: Pick<Menu, 'items'> | null
+    isFlagged?: (dish: Dish) => boolean
+    placeholder?: string
+}
+
+export function DishSelect({
+    dishes,
+    value,
+    onValueChange,
+    availability = {},
+    reserved = {},
+    menu = null,
+    isFlagged,
+    placeholder = 'בחר מנה'
+}: DishSelectProps) {
+    // null = no cap on this dish
+    const getRemaining = (dishId: string): number | null => {
+        const remaining = availability[dishId]?.remaining
+        if (remaining === null || remaining === undefined) return null
+        return Math.max(0, remaining - (reserved[dishId] || 0))
+    }
+
+    const offered = applyMenu(dishes, menu)
+    // Keep an already chosen dish visible even when it is off the menu
+    const current = dishes.find(dish => dish.id === value)
+    const notOnMenu = current && !offered.some(dish => dish.id === value) ? current : null
+    const regularPrices = new Map(dishes.map(dish => [dish.id, dish.price]))
+
+    return (
+        <Select value={value} onValueChange={onValueChange}>
+            <SelectTrigger className="text-right">
+                <SelectValue placeholder={placeholder} />
+            </SelectTrigger>
+            <SelectContent>
+                {offered.map((dish) => {
+                    const remaining = getRemaining(dish.id)
+                    const soldOut = remaining === 0 && dish.id !== value
+
+                    return (
+                        <SelectItem
+                            key={dish.id}
+                            value={dish.id}
+                            disabled={soldOut}
+                            className="text-right"
+                        >
+                            <div className="flex items-center justify-between w-full gap-2">
+                                <span className="flex items-center gap-1">
+                                    {isFlagged?.(dish) && (
+                                        <AlertTriangle className="h-3 w-3 text-red-600" />
+                                    )}
+                                    {dish.name}
+                                </span>
+                                <span className="flex items-center gap-2">
+                                    {remaining !== null && (
+                                        <Badge
+                                            variant={remaining === 0 ? 'destructive' : 'outline'}
+                                            className="text-xs"
+                                        >
+                                            {remaining === 0 ? 'אזל' : `נותרו ${remaining}`}
+                                        </Badge>
+                                    )}
+                                    {dish.price !== regularPrices.get(dish.id) && (
+                                        <span className="text-muted-foreground line-through">₪{regularPrices.get(dish.id)}</span>
+                                    )}
+                                    <span className="text-muted-foreground">₪{dish.price}</span>
+                                </span>
+                            </div>
+                        </SelectItem>
+                    )
+                })}
+                {notOnMenu && (
+                    <SelectItem value={notOnMenu.id} className="text-right">
+                        <div className="flex items-center justify-between w-full gap-2">
+                            <span>{notOnMenu.name}</span>
+                            <Badge variant="secondary" className="text-xs">לא בתפריט</Badge>
+                        </div>
+                    </SelectItem>
+                )}
+            </SelectContent>
+        </Select>
+    )
+}
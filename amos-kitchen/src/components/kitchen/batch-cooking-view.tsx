@@ -45,6 +45,10 @@ export function BatchCookingView({ dishes, orders }: BatchCookingViewProps) {
     );
   };
 
+  const openBatchPdf = (type: 'ticket' | 'labels' | 'packing') => {
+    window.open(`/api/orders/next-delivery/pdf?type=${type}`, '_blank');
+  };
+
   const categoryConfig = {
     APPETIZER: {
       label: 'מנות ראשונות',
@@ -268,15 +272,24 @@ export function BatchCookingView({ dishes, orders }: BatchCookingViewProps) {
         );
       })}
 
-      {/* Print Button */}
-      <div className="flex justify-center">
+      {/* Print Buttons */}
+      <div className="flex flex-wrap justify-center gap-2 no-print">
         <Button
           variant="outline"
           onClick={() => window.print()}
-          className="no-print"
         >
           הדפס רשימת בישול
         </Button>
+        {/* PDFs for every active order of the next delivery day */}
+        <Button variant="outline" onClick={() => openBatchPdf('ticket')}>
+          כרטיסי מטבח (PDF)
+        </Button>
+        <Button variant="outline" onClick={() => openBatchPdf('labels')}>
+          מדבקות לקופסאות (PDF)
+        </Button>
+        <Button variant="outline" onClick={() => openBatchPdf('packing')}>
+          תעודות אריזה (PDF)
+        </Button>
       </div>
     </div>
   );
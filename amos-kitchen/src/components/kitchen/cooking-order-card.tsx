@@ -20,6 +20,15 @@ type Order = {
 };
 import { Phone, MapPin, AlertCircle, CheckCircle2, Clock, Package } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { getNextStatus } from '@/lib/utils/order-status';
+
+// Label of the button that moves the order into the status
+const nextStatusLabels: Partial<Record<OrderStatus, string>> = {
+  CONFIRMED: 'Confirm Order',
+  PREPARING: 'Start Preparing',
+  READY: 'Mark as Ready',
+  DELIVERED: 'Mark Delivered',
+};
 
 interface CookingOrderCardProps {
   order: Order & {
@@ -104,6 +113,7 @@ export function CookingOrderCard({
   };
 
   const config = statusConfig[order.status as keyof typeof statusConfig];
+  const nextStatus = getNextStatus(order.status);
 
   return (
     <Card className={cn(
@@ -190,51 +200,32 @@ export function CookingOrderCard({
           </div>
         )}
 
-        {/* Action Buttons */}
-        <div className="flex gap-2 pt-2">
-          {order.status === 'NEW' && (
-            <Button
-              onClick={() => handleStatusChange('PREPARING')}
-              disabled={isUpdating}
-              className="flex-1"
-              size="sm"
-            >
-              Start Preparing
-            </Button>
-          )}
-          {order.status === 'CONFIRMED' && (
-            <Button
-              onClick={() => handleStatusChange('PREPARING')}
-              disabled={isUpdating}
-              className="flex-1"
-              size="sm"
-            >
-              Start Preparing
-            </Button>
-          )}
-          {order.status === 'PREPARING' && (
-            <Button
-              onClick={() => handleStatusChange('READY')}
-              disabled={isUpdating || !allItemsChecked}
-              variant={allItemsChecked ? "default" : "outline"}
-              className="flex-1"
-              size="sm"
-            >
-              {allItemsChecked ? 'Mark as Ready' : `Check all items (${checkedItems.length}/${order.orderItems.length})`}
-            </Button>
-          )}
-          {order.status === 'READY' && (
-            <Button
-              onClick={() => handleStatusChange('DELIVERED')}
-              disabled={isUpdating}
-              variant="outline"
-              className="flex-1"
-              size="sm"
-            >
-              Mark Delivered
-            </Button>
-          )}
-        </div>
+        {/* Action Buttons: only the next step the transition rules allow */}
+        {nextStatus && (
+          <div className="flex gap-2 pt-2">
+            {nextStatus === 'READY' ? (
+              <Button
+                onClick={() => handleStatusChange('READY')}
+                disabled={isUpdating || !allItemsChecked}
+                variant={allItemsChecked ? "default" : "outline"}
+                className="flex-1"
+                size="sm"
+              >
+                {allItemsChecked ? nextStatusLabels.READY : `Check all items (${checkedItems.length}/${order.orderItems.length})`}
+              </Button>
+            ) : (
+              <Button
+                onClick={() => handleStatusChange(nextStatus)}
+                disabled={isUpdating}
+                variant={nextStatus === 'DELIVERED' ? "outline" : "default"}
+                className="flex-1"
+                size="sm"
+              >
+                {nextStatusLabels[nextStatus]}
+              </Button>
+            )}
+          </div>
+        )}
 
         {/* Total */}
         <div className="pt-2 border-t text-right">
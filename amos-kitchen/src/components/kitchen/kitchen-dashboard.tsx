@@ -1,9 +1,9 @@
 // src/components/kitchen/kitchen-dashboard.tsx
 'use client'
 
-import { useState, useEffect, useCallback, useMemo } from 'react'
+import { useState, useMemo } from 'react'
 import { fetchWithAuth } from '@/lib/api/fetch-with-auth'
-import { Check, Clock, Package, AlertTriangle, RefreshCw, Info, CheckSquare, Square, ClipboardList, ChefHat, Calendar } from 'lucide-react'
+import { Check, Clock, Package, AlertTriangle, Info, CheckSquare, Square, ClipboardList, ChefHat, Calendar, Volume2, VolumeX, Wallet } from 'lucide-react'
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -12,21 +12,16 @@ import { ScrollArea } from '@/components/ui/scroll-area'
 import { Separator } from '@/components/ui/separator'
 import { Checkbox } from '@/components/ui/checkbox'
 import { useToast } from '@/lib/hooks/use-toast'
+import { useKitchenOrders, type KitchenOrder } from '@/lib/hooks/use-kitchen-orders'
+import { getNextStatus, ORDER_STATUS_ACTION_LABELS } from '@/lib/utils/order-status'
 import { CriticalPreferenceAlert, PreferenceBadgeGroup } from '@/components/customers/preference-badge'
 import { BatchCookingView } from '@/components/kitchen/batch-cooking-view'
+import { detectAllergenConflicts, formatAllergenConflict } from '@/lib/utils/allergens'
+import { getAmountDue } from '@/lib/utils/payments'
 import { cn } from '@/lib/utils'
 import { format } from 'date-fns'
 import { he } from 'date-fns/locale'
-import type { Order, OrderStatus, Customer, CustomerPreference, OrderItem, Dish } from '@/lib/types/database'
-
-interface KitchenOrder extends Order {
-  customer: Customer & {
-    preferences?: CustomerPreference[]
-  }
-  orderItems: (OrderItem & {
-    dish: Dish
-  })[]
-}
+import type { OrderStatus, CustomerPreference, AllergenConflict } from '@/lib/types/database'
 
 interface KitchenDashboardProps {
   initialOrders?: KitchenOrder[]
@@ -40,98 +35,68 @@ interface PreparationProgress {
   }
 }
 
-export function KitchenDashboard({ initialOrders = [], deliveryDate }: KitchenDashboardProps) {
-  // Normalize initial orders to ensure uppercase status
-  const normalizedInitialOrders = initialOrders.map(order => ({
-    ...order,
-    status: (order.status?.toUpperCase() || 'NEW') as OrderStatus
-  }))
-
-  const [orders, setOrders] = useState<KitchenOrder[]>(normalizedInitialOrders)
+export function KitchenDashboard({ initialOrders = [], deliveryDate: initialDeliveryDate }: KitchenDashboardProps) {
+  const {
+    orders,
+    deliveryDate,
+    isLive,
+    highlightedIds,
+    muted,
+    setMuted,
+    expectStatusChange,
+    clearExpectedStatusChange
+  } = useKitchenOrders(initialOrders, initialDeliveryDate || null)
   const [view, setView] = useState<'all' | 'preparing' | 'ready'>('all')
   const [viewMode, setViewMode] = useState<'orders' | 'dishes'>('orders')
-  const [isRefreshing, setIsRefreshing] = useState(false)
   const [selectedOrderId, setSelectedOrderId] = useState<string | null>(null)
   const [preparationProgress, setPreparationProgress] = useState<PreparationProgress>({})
   const { toast } = useToast()
 
-  // Auto-refresh every 30 seconds
-  useEffect(() => {
-    const interval = setInterval(() => {
-      handleRefresh()
-    }, 30000)
-    return () => clearInterval(interval)
-  }, [])
-
-  const handleRefresh = useCallback(async () => {
-    setIsRefreshing(true)
-    try {
-      const response = await fetchWithAuth('/api/orders/next-delivery')
-      if (!response.ok) {
-        const error = await response.json()
-        throw new Error(error.message || 'Failed to fetch orders')
-      }
-      const data = await response.json()
-
-      // Ensure status format consistency
-      const normalizedOrders = data.orders.map((order: any) => ({
-        ...order,
-        status: order.status.toUpperCase() // Ensure uppercase for display
-      }))
-
-      setOrders(normalizedOrders)
-      toast({
-        title: "רוענן",
-        description: "ההזמנות עודכנו בהצלחה",
-      })
-    } catch (error) {
-      console.error('Refresh error:', error)
-      toast({
-        title: "שגיאה",
-        description: error instanceof Error ? error.message : "נכשל רענון ההזמנות",
-        variant: "destructive",
-      })
-    } finally {
-      setIsRefreshing(false)
-    }
-  }, [toast])
+  // Get Hebrew status text for the toasts
+  const statusTextMap: Record<OrderStatus, string> = {
+    'NEW': 'חדש',
+    'CONFIRMED': 'מאושר',
+    'PREPARING': 'בהכנה',
+    'READY': 'מוכן',
+    'DELIVERED': 'נמסר',
+    'CANCELLED': 'בוטל'
+  }
 
   const handleStatusChange = async (orderId: string, newStatus: OrderStatus) => {
-    try {
-      // Map the status to lowercase as expected by the API
-      const statusMap: Record<string, string> = {
-        'NEW': 'new',
-        'CONFIRMED': 'confirmed',
-        'PREPARING': 'preparing',
-        'READY': 'ready',
-        'DELIVERED': 'delivered',
-        'CANCELLED': 'cancelled'
-      }
+    // The status this board shows; the server rejects the change if it's no longer current
+    const currentStatus = orders.find(order => order.id === orderId)?.status
 
-      const mappedStatus = statusMap[newStatus] || newStatus.toLowerCase()
-
-      console.log(`Updating order ${orderId} status to ${mappedStatus}`)
+    // The listener will report this change; don't announce it as someone else's
+    expectStatusChange(orderId, newStatus)
 
+    try {
       const response = await fetchWithAuth(`/api/orders/${orderId}`, {
-        method: 'PATCH',  // Changed from PUT to PATCH
+        method: 'PATCH',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ status: mappedStatus })  // Send lowercase status
+        body: JSON.stringify({ status: newStatus.toLowerCase(), expectedStatus: currentStatus })
       })
 
+      if (response.status === 409) {
+        // Someone else moved the order first; the listener brings the board up to date
+        clearExpectedStatusChange(orderId)
+        const conflict = await response.json().catch(() => ({}))
+        const actualStatus = conflict.currentStatus as OrderStatus | undefined
+        toast({
+          title: "ההזמנה כבר עודכנה",
+          description: actualStatus
+            ? `מישהו אחר שינה את הסטטוס ל-${statusTextMap[actualStatus] || actualStatus}`
+            : "מישהו אחר שינה את ההזמנה בינתיים",
+          variant: "destructive",
+        })
+        return
+      }
+
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({ message: 'Unknown error' }))
         console.error('API error response:', errorData)
-        throw new Error(errorData.message || `Server error: ${response.status}`)
+        throw new Error(errorData.error || errorData.message || `Server error: ${response.status}`)
       }
 
-      const responseData = await response.json()
-      console.log('Status update response:', responseData)
-
-      // Update local state
-      setOrders(orders.map(order =>
-        order.id === orderId ? { ...order, status: newStatus } : order
-      ))
-
       // Clear preparation progress when moving to READY
       if (newStatus === 'READY') {
         setPreparationProgress(prev => {
@@ -141,21 +106,12 @@ export function KitchenDashboard({ initialOrders = [], deliveryDate }: KitchenDa
         })
       }
 
-      // Get Hebrew status text for the toast
-      const statusTextMap: Record<OrderStatus, string> = {
-        'NEW': 'חדש',
-        'CONFIRMED': 'מאושר',
-        'PREPARING': 'בהכנה',
-        'READY': 'מוכן',
-        'DELIVERED': 'נמסר',
-        'CANCELLED': 'בוטל'
-      }
-
       toast({
         title: "הסטטוס עודכן",
         description: `סטטוס ההזמנה שונה ל-${statusTextMap[newStatus] || newStatus}`,
       })
     } catch (error) {
+      clearExpectedStatusChange(orderId)
       console.error('Status update error:', error)
       toast({
         title: "שגיאה",
@@ -208,24 +164,9 @@ export function KitchenDashboard({ initialOrders = [], deliveryDate }: KitchenDa
     }
   }
 
-  const getNextStatus = (currentStatus: OrderStatus): OrderStatus | null => {
-    switch (currentStatus) {
-      case 'NEW': return 'CONFIRMED'
-      case 'CONFIRMED': return 'PREPARING'
-      case 'PREPARING': return 'READY'
-      case 'READY': return 'DELIVERED'
-      default: return null
-    }
-  }
-
   const getStatusActionLabel = (status: OrderStatus) => {
-    switch (status) {
-      case 'NEW': return 'אשר הזמנה'
-      case 'CONFIRMED': return 'התחל הכנה'
-      case 'PREPARING': return 'סמן כמוכן'
-      case 'READY': return 'סמן כנמסר'
-      default: return 'עדכן סטטוס'
-    }
+    const nextStatus = getNextStatus(status)
+    return nextStatus ? ORDER_STATUS_ACTION_LABELS[nextStatus] : 'עדכן סטטוס'
   }
 
   const hasCriticalPreferences = (preferences?: CustomerPreference[]) => {
@@ -241,6 +182,17 @@ export function KitchenDashboard({ initialOrders = [], deliveryDate }: KitchenDa
     return critical.map(p => `${p.type === 'ALLERGY' ? '🚨 אלרגיה' : '⚕️ רפואי'}: ${p.value}`).join(' | ')
   }
 
+  // Prefer a live check against current dish data; fall back to what was stored on the order
+  const getAllergenConflicts = (order: KitchenOrder): AllergenConflict[] => {
+    if (order.customer.preferences && order.customer.preferences.length > 0) {
+      return detectAllergenConflicts(
+        order.orderItems.map(item => ({ ...item.dish, id: item.dish.id || item.dishId })),
+        order.customer.preferences
+      )
+    }
+    return order.allergenConflicts || []
+  }
+
   // Prepare data for dish view
   const dishAggregation = useMemo(() => {
     const dishMap = new Map<string, any>()
@@ -300,13 +252,20 @@ export function KitchenDashboard({ initialOrders = [], deliveryDate }: KitchenDa
             <Badge variant="outline" className="text-lg px-3 py-1">
               {filteredOrders.length} הזמנות פעילות
             </Badge>
+            <Badge
+              variant="outline"
+              className={cn("gap-1.5 px-3 py-1", isLive ? "text-green-700 border-green-300" : "text-muted-foreground")}
+            >
+              <span className={cn("h-2 w-2 rounded-full", isLive ? "bg-green-500 animate-pulse" : "bg-gray-400")} />
+              {isLive ? 'מתעדכן בזמן אמת' : 'מתחבר...'}
+            </Badge>
             <Button
               variant="outline"
               size="icon"
-              onClick={handleRefresh}
-              disabled={isRefreshing}
+              onClick={() => setMuted(!muted)}
+              title={muted ? 'הפעלת צליל התראה' : 'השתקת צליל התראה'}
             >
-              <RefreshCw className={cn("h-4 w-4", isRefreshing && "animate-spin")} />
+              {muted ? <VolumeX className="h-4 w-4" /> : <Volume2 className="h-4 w-4" />}
             </Button>
           </div>
         </div>
@@ -335,7 +294,7 @@ export function KitchenDashboard({ initialOrders = [], deliveryDate }: KitchenDa
       </div>
 
       {/* Critical Preferences Summary */}
-      {orders.some(o => hasCriticalPreferences(o.customer.preferences)) && (
+      {orders.some(o => hasCriticalPreferences(o.customer.preferences) || getAllergenConflicts(o).length > 0) && (
         <Card className="border-2 border-red-500 bg-red-50">
           <CardHeader className="pb-3">
             <CardTitle className="text-red-700 flex items-center gap-2">
@@ -346,13 +305,18 @@ export function KitchenDashboard({ initialOrders = [], deliveryDate }: KitchenDa
           <CardContent>
             <div className="space-y-2">
               {orders
-                .filter(o => hasCriticalPreferences(o.customer.preferences))
+                .filter(o => hasCriticalPreferences(o.customer.preferences) || getAllergenConflicts(o).length > 0)
                 .map(order => (
                   <div key={order.id} className="text-sm">
                     <span className="font-semibold">{order.orderNumber} - {order.customer.name}:</span>
                     <span className="text-red-600 mr-2">
                       {getPreferenceSummary(order.customer.preferences)}
                     </span>
+                    {getAllergenConflicts(order).length > 0 && (
+                      <div className="text-red-800 font-semibold mr-4">
+                        ⛔ {getAllergenConflicts(order).map(formatAllergenConflict).join(' | ')}
+                      </div>
+                    )}
                   </div>
                 ))
               }
@@ -410,7 +374,9 @@ export function KitchenDashboard({ initialOrders = [], deliveryDate }: KitchenDa
                         className={cn(
                           "cursor-pointer transition-all",
                           selectedOrderId === order.id && "ring-2 ring-primary",
-                          hasCriticalPreferences(order.customer.preferences) && "border-2 border-red-400"
+                          highlightedIds.has(order.id) && "ring-2 ring-amber-400 bg-amber-50 animate-pulse",
+                          hasCriticalPreferences(order.customer.preferences) && "border-2 border-red-400",
+                          getAllergenConflicts(order).length > 0 && "border-4 border-red-600"
                         )}
                         onClick={() => setSelectedOrderId(order.id)}
                       >
@@ -434,6 +400,19 @@ export function KitchenDashboard({ initialOrders = [], deliveryDate }: KitchenDa
                         </CardHeader>
 
                         <CardContent className="space-y-3">
+                          {/* Allergen conflicts in this order */}
+                          {getAllergenConflicts(order).length > 0 && (
+                            <div className="p-2 rounded-md bg-red-600 text-white text-xs space-y-1">
+                              <p className="font-bold flex items-center gap-1">
+                                <AlertTriangle className="h-3 w-3" />
+                                מנה מכילה אלרגן של הלקוח!
+                              </p>
+                              {getAllergenConflicts(order).map((conflict, idx) => (
+                                <p key={idx}>{formatAllergenConflict(conflict)}</p>
+                              ))}
+                            </div>
+                          )}
+
                           {/* Critical Preferences Alert */}
                           {order.customer.preferences && order.customer.preferences.length > 0 && (
                             <div className="space-y-2">
@@ -493,7 +472,12 @@ export function KitchenDashboard({ initialOrders = [], deliveryDate }: KitchenDa
                                           isChecked && "line-through text-muted-foreground"
                                         )}
                                       >
-                                        <span className="font-medium">{item.dish.name}</span>
+                                        <span className={cn(
+                                          "font-medium",
+                                          getAllergenConflicts(order).some(c => c.dishId === (item.dish.id || item.dishId)) && "text-red-600"
+                                        )}>
+                                          {item.dish.name}
+                                        </span>
                                         <Badge variant="secondary" className="h-5">
                                           x{item.quantity}
                                         </Badge>
@@ -510,7 +494,12 @@ export function KitchenDashboard({ initialOrders = [], deliveryDate }: KitchenDa
                               // Regular view for other statuses
                               order.orderItems.map((item, idx) => (
                                 <div key={idx} className="flex justify-between items-center text-sm">
-                                  <span className="font-medium">{item.dish.name}</span>
+                                  <span className={cn(
+                                    "font-medium",
+                                    getAllergenConflicts(order).some(c => c.dishId === (item.dish.id || item.dishId)) && "text-red-600"
+                                  )}>
+                                    {item.dish.name}
+                                  </span>
                                   <Badge variant="secondary" className="h-6">
                                     x{item.quantity}
                                   </Badge>
@@ -532,6 +521,14 @@ export function KitchenDashboard({ initialOrders = [], deliveryDate }: KitchenDa
                             </>
                           )}
 
+                          {/* Money to collect on delivery, when the order isn't fully paid */}
+                          {getAmountDue(order) > 0 && (
+                            <div className="flex items-center text-xs font-semibold text-amber-700">
+                              <Wallet className="h-3 w-3 ml-1" />
+                              <span>לגבייה: ₪{getAmountDue(order).toFixed(2)}</span>
+                            </div>
+                          )}
+
                           {/* Time Info - Only show order time, not delivery */}
                           <div className="flex items-center text-xs text-muted-foreground">
                             <Clock className="h-3 w-3 ml-1" />
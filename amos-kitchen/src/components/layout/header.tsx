@@ -12,7 +12,10 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Menu, LogOut, User, Settings } from "lucide-react";
+import Link from "next/link";
 import { useAuth } from "@/contexts/auth-context";
+import { useBusinessSettings } from "@/lib/hooks/use-business-settings";
+import { hasPermission } from "@/lib/utils/roles";
 
 interface HeaderProps {
     user: any;
@@ -20,7 +23,8 @@ interface HeaderProps {
 }
 
 export function Header({ user, onMenuClick }: HeaderProps) {
-    const { signOut } = useAuth();
+    const { signOut, role } = useAuth();
+    const { settings } = useBusinessSettings();
 
     const getUserInitials = (email: string) => {
         return email.substring(0, 2).toUpperCase();
@@ -39,7 +43,10 @@ export function Header({ user, onMenuClick }: HeaderProps) {
                         >
                             <Menu className="h-5 w-5" />
                         </Button>
-                        <h1 className="mr-4 text-xl font-semibold">מערכת הזמנות</h1>
+                        {settings.logoUrl && (
+                            <img src={settings.logoUrl} alt="" className="mr-4 h-9 w-9 rounded object-contain" />
+                        )}
+                        <h1 className="mr-4 text-xl font-semibold">{settings.businessName}</h1>
                     </div>
 
                     <div className="flex items-center gap-4">
@@ -67,10 +74,14 @@ export function Header({ user, onMenuClick }: HeaderProps) {
                                     <User className="ml-2 h-4 w-4" />
                                     <span>פרופיל</span>
                                 </DropdownMenuItem>
-                                <DropdownMenuItem>
-                                    <Settings className="ml-2 h-4 w-4" />
-                                    <span>הגדרות</span>
-                                </DropdownMenuItem>
+                                {hasPermission(role, "settings:write") && (
+                                    <DropdownMenuItem asChild>
+                                        <Link href="/settings">
+                                            <Settings className="ml-2 h-4 w-4" />
+                                            <span>הגדרות</span>
+                                        </Link>
+                                    </DropdownMenuItem>
+                                )}
                                 <DropdownMenuSeparator />
                                 <DropdownMenuItem onClick={signOut} className="text-red-600">
                                     <LogOut className="ml-2 h-4 w-4" />
@@ -15,56 +15,139 @@ import {
     BarChart3,
     X,
     ChefHat,
+    CalendarDays,
+    UserCog,
+    Settings,
+    Repeat,
+    ClipboardList,
+    Truck,
+    MapPin,
+    MapIcon,
+    Wallet,
+    type LucideIcon,
 } from "lucide-react";
 import Link from "next/link";
 import { usePathname } from "next/navigation";
+import { useAuth } from "@/contexts/auth-context";
+import { hasPermission, type Permission } from "@/lib/utils/roles";
 
 interface SidebarProps {
     isOpen: boolean;
     onClose: () => void;
 }
 
-const navigation = [
+// Items with a permission are hidden from roles that lack it
+const navigation: {
+    name: string;
+    href: string;
+    icon: LucideIcon;
+    className?: string;
+    permission?: Permission;
+}[] = [
     {
         name: "לוח בקרה",
         href: "/dashboard",
         icon: Home,
     },
     {
-        name: "מטבח - יום שישי",
+        name: "מטבח - יום המשלוח הקרוב",
         href: "/kitchen",
+        permission: "orders:read",
         icon: ChefHat,
         className: "bg-orange-50 hover:bg-orange-100 text-orange-700 font-bold",
     },
     {
         name: "הזמנות",
         href: "/orders",
+        permission: "orders:read",
         icon: ShoppingCart,
     },
+    {
+        name: "מסלולי משלוח",
+        href: "/deliveries",
+        permission: "orders:write",
+        icon: Truck,
+    },
+    {
+        name: "רשימת משלוחים",
+        href: "/deliveries/manifest",
+        permission: "orders:status",
+        icon: MapPin,
+    },
+    {
+        name: "הזמנות קבועות",
+        href: "/orders/standing",
+        permission: "orders:write",
+        icon: Repeat,
+    },
     {
         name: "לקוחות",
         href: "/customers",
+        permission: "customers:read",
         icon: Users,
     },
     {
         name: "מנות",
         href: "/dishes",
+        permission: "dishes:read",
         icon: UtensilsCrossed,
     },
+    {
+        name: "תכנון תפריט",
+        href: "/menu",
+        permission: "dishes:write",
+        icon: ClipboardList,
+    },
     {
         name: "דוחות",
         href: "/reports",
+        permission: "reports:read",
         icon: FileText,
     },
     {
         name: "ניתוחים",
         href: "/reports/analytics",
+        permission: "reports:read",
         icon: BarChart3,
     },
+    {
+        name: "יתרות פתוחות",
+        href: "/reports/outstanding",
+        permission: "reports:read",
+        icon: Wallet,
+    },
+    {
+        name: "לוח משלוחים",
+        href: "/settings/delivery",
+        permission: "settings:write",
+        icon: CalendarDays,
+    },
+    {
+        name: "אזורי משלוח",
+        href: "/settings/zones",
+        permission: "settings:write",
+        icon: MapIcon,
+    },
+    {
+        name: "הגדרות עסק",
+        href: "/settings",
+        permission: "settings:write",
+        icon: Settings,
+    },
+    {
+        name: "משתמשים והרשאות",
+        href: "/settings/users",
+        permission: "users:manage",
+        icon: UserCog,
+    },
 ];
 
 export function Sidebar({ isOpen, onClose }: SidebarProps) {
     const pathname = usePathname();
+    const { role } = useAuth();
+    const visibleNavigation = navigation.filter(
+        (item) => !item.permission || hasPermission(role, item.permission)
+    );
 
     const SidebarContent = () => (
         <div className="flex h-full flex-col">
@@ -76,7 +159,7 @@ export function Sidebar({ isOpen, onClose }: SidebarProps) {
             </div>
             <ScrollArea className="flex-1 px-3">
                 <div className="space-y-1 py-4">
-                    {navigation.map((item) => {
+                    {visibleNavigation.map((item) => {
                         const isActive = pathname === item.href;
                         return (
                             <Link key={item.name} href={item.href}>
@@ -27,6 +27,13 @@ const statusOptions: { value: OrderStatus | 'all'; label: string }[] = [
     { value: 'CANCELLED', label: 'בוטל' },
 ]
 
+const sortOptions: { value: OrderFiltersType['sort']; label: string }[] = [
+    { value: 'newest', label: 'החדשות ביותר' },
+    { value: 'oldest', label: 'הישנות ביותר' },
+    { value: 'deliveryDate', label: 'תאריך משלוח (מאוחר קודם)' },
+    { value: 'deliveryDateAsc', label: 'תאריך משלוח (מוקדם קודם)' },
+]
+
 const dateRangeOptions = [
     { value: 'all', label: 'כל התאריכים' },
     { value: 'today', label: 'היום' },
@@ -36,15 +43,20 @@ const dateRangeOptions = [
 
 export function OrderFilters({ filters, onFiltersChange }: OrderFiltersProps) {
     const handleSearchChange = (value: string) => {
-        onFiltersChange({ ...filters, search: value, page: 1 })
+        onFiltersChange({ ...filters, search: value })
     }
 
     const handleStatusChange = (value: string) => {
-        onFiltersChange({ ...filters, status: value as 'all' | OrderStatus, page: 1 })
+        onFiltersChange({ ...filters, status: value as 'all' | OrderStatus })
     }
 
     const handleDateRangeChange = (value: string) => {
-        onFiltersChange({ ...filters, dateRange: value as 'all' | 'today' | 'week' | 'month', page: 1 })
+        onFiltersChange({ ...filters, dateRange: value as 'all' | 'today' | 'week' | 'month' })
+    }
+
+    // A search is ranked by relevance and a date range by delivery date, whatever is chosen here
+    const handleSortChange = (value: string) => {
+        onFiltersChange({ ...filters, sort: value as OrderFiltersType['sort'] })
     }
 
     return (
@@ -82,6 +94,18 @@ export function OrderFilters({ filters, onFiltersChange }: OrderFiltersProps) {
                     ))}
                 </SelectContent>
             </Select>
+            <Select value={filters.sort} onValueChange={handleSortChange}>
+                <SelectTrigger className="w-[200px]">
+                    <SelectValue placeholder="מיון" />
+                </SelectTrigger>
+                <SelectContent>
+                    {sortOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
         </div>
     )
 }
@@ -1,7 +1,7 @@
-// src/components/orders/order-form.tsx - Updated version with Friday-only selection and RTL fixes
+// src/components/orders/order-form.tsx
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { fetchWithAuth } from '@/lib/api/fetch-with-auth'
 import { useRouter } from 'next/navigation'
 import { useForm } from 'react-hook-form'
@@ -31,88 +31,70 @@ import { Separator } from '@/components/ui/separator'
 import { useToast } from '@/lib/hooks/use-toast'
 import { CriticalPreferenceAlert, PreferenceBadgeGroup } from '@/components/customers/preference-badge'
 import { CustomerPreferenceCard } from '@/components/customers/customer-preference-card'
+import { DishSelect } from '@/components/dishes/dish-select'
+import { PriceAdjustmentInput } from '@/components/orders/price-adjustment-input'
+import { AddressFields } from '@/components/shared/address-fields'
+import { useBusinessSettings } from '@/lib/hooks/use-business-settings'
+import { calculateOrderPricing, getLineTotal } from '@/lib/utils/pricing'
+import { detectAllergenConflicts, formatAllergenConflict } from '@/lib/utils/allergens'
+import { STANDING_ORDER_FREQUENCY_LABELS } from '@/lib/utils/standing-orders'
+import { applyMenu } from '@/lib/utils/menu'
+import {
+    EMPTY_ADDRESS_DRAFT,
+    findDeliveryZone,
+    formatAddress,
+    fromAddressDraft,
+    getAddressDraftError,
+    isBelowZoneMinimum,
+    parseAddress,
+    toAddressDraft
+} from '@/lib/utils/address'
+import type { OrderPrefill } from '@/lib/utils/order-templates'
+import {
+    DEFAULT_DELIVERY_SCHEDULE,
+    formatCutoff,
+    getDeliveryCutoff,
+    getUpcomingDeliveryDates,
+    isOrderingOpen,
+    toDateKey
+} from '@/lib/utils/delivery-schedule'
 import type { Customer, Dish, CustomerPreference } from '@/lib/types/database'
-
-// Helper functions for Friday-only delivery
-const getNextAvailableFriday = (): Date => {
-    const today = new Date()
-    today.setHours(0, 0, 0, 0)
-
-    const currentDay = today.getDay()
-    let daysUntilFriday = (5 - currentDay + 7) % 7
-
-    // If today is Thursday after cutoff (6 PM), skip to next Friday
-    if (currentDay === 4) { // Thursday
-        const now = new Date()
-        const cutoffTime = new Date(today)
-        cutoffTime.setHours(18, 0, 0, 0) // 6 PM cutoff
-
-        if (now >= cutoffTime) {
-            daysUntilFriday = 8 // Next Friday (skip this week)
-        } else {
-            daysUntilFriday = 1 // Tomorrow (Friday)
-        }
-    }
-
-    // If today is Friday, check if before delivery cutoff
-    if (currentDay === 5) { // Friday
-        const now = new Date()
-        const cutoffTime = new Date(today)
-        cutoffTime.setHours(12, 0, 0, 0) // Noon cutoff on Friday
-
-        if (now >= cutoffTime) {
-            daysUntilFriday = 7 // Next Friday
-        } else {
-            daysUntilFriday = 0 // Today
-        }
-    }
-
-    // If it's Saturday or Sunday, calculate days to next Friday
-    if (currentDay === 6 || currentDay === 0) {
-        daysUntilFriday = currentDay === 6 ? 6 : 5
-    }
-
-    const nextFriday = new Date(today)
-    nextFriday.setDate(today.getDate() + daysUntilFriday)
-    return nextFriday
-}
-
-// Get all available Fridays for the next 4 weeks
-const getAvailableFridays = (): Date[] => {
-    const fridays: Date[] = []
-    const firstFriday = getNextAvailableFriday()
-
-    for (let i = 0; i < 4; i++) {
-        const friday = new Date(firstFriday)
-        friday.setDate(firstFriday.getDate() + (i * 7))
-        fridays.push(friday)
-    }
-
-    return fridays
-}
+import type {
+    DeliveryAvailability,
+    DeliverySchedule,
+    DeliveryZone,
+    Menu,
+    PriceAdjustment,
+    StandingOrderFrequency
+} from '@/lib/types/firestore'
 
 // Format date for Hebrew display
 const formatDeliveryDate = (date: Date): string => {
     return format(date, 'EEEE, dd בMMMM yyyy', { locale: he })
 }
 
-// Form validation schema with Friday validation
+const adjustmentSchema = z.object({
+    type: z.enum(['PERCENT', 'FIXED']),
+    value: z.number().min(0),
+    reason: z.string().nullable().optional()
+}).nullable().optional()
+
+// Form validation schema (delivery days are checked against the schedule on submit).
+// Prices aren't part of the form: the server prices the lines from the dishes.
 const orderFormSchema = z.object({
     customerId: z.string().min(1, 'יש לבחור לקוח'),
     deliveryDate: z.date({
         required_error: "יש לבחור תאריך משלוח",
-    }).refine((date) => {
-        return date.getDay() === 5 // Must be Friday
-    }, {
-        message: "ניתן לבחור רק ימי שישי למשלוח"
     }),
-    deliveryAddress: z.string().optional(),
     notes: z.string().optional(),
     items: z.array(z.object({
         dishId: z.string().min(1, 'יש לבחור מנה'),
         quantity: z.number().int().positive('כמות חייבת להיות גדולה מ-0'),
+        discount: adjustmentSchema,
         notes: z.string().optional(),
-    })).min(1, 'יש להוסיף לפחות מנה אחת להזמנה')
+    })).min(1, 'יש להוסיף לפחות מנה אחת להזמנה'),
+    discount: adjustmentSchema,
+    deliveryFee: z.number().min(0, 'דמי המשלוח לא יכולים להיות שליליים')
 })
 
 type OrderFormValues = z.infer<typeof orderFormSchema>
@@ -124,30 +106,144 @@ interface CustomerWithPreferences extends Customer {
 interface OrderFormProps {
     customers?: CustomerWithPreferences[]
     dishes?: Dish[]
+    deliverySchedule?: DeliverySchedule
+    // Lines (and customer) copied from a past order or a template
+    initialValues?: Omit<OrderPrefill, 'unavailableDishes'>
 }
 
-export function OrderForm({ customers = [], dishes = [] }: OrderFormProps) {
+// How many upcoming delivery days to offer in the date picker
+const DELIVERY_DATE_OPTIONS = 6
+
+export function OrderForm({
+    customers = [],
+    dishes = [],
+    deliverySchedule = DEFAULT_DELIVERY_SCHEDULE,
+    initialValues
+}: OrderFormProps) {
     const router = useRouter()
     const { toast } = useToast()
     const [isLoading, setIsLoading] = useState(false)
     const [selectedCustomer, setSelectedCustomer] = useState<CustomerWithPreferences | null>(null)
     const [customerSearch, setCustomerSearch] = useState('')
-    const [orderTotal, setOrderTotal] = useState(0)
     const [showPreferenceDetails, setShowPreferenceDetails] = useState(false)
+    // Also save the order as a standing order repeating from its delivery date
+    const [repeat, setRepeat] = useState<StandingOrderFrequency | 'NONE'>('NONE')
+
+    const availableDeliveryDates = useMemo(
+        () => getUpcomingDeliveryDates(deliverySchedule, DELIVERY_DATE_OPTIONS),
+        [deliverySchedule]
+    )
+
+    const [availability, setAvailability] = useState<Record<string, DeliveryAvailability>>({})
 
     const form = useForm<OrderFormValues>({
         resolver: zodResolver(orderFormSchema),
         defaultValues: {
-            customerId: '',
-            deliveryDate: getNextAvailableFriday(),
-            deliveryAddress: '',
-            notes: '',
-            items: [{ dishId: '', quantity: 1, notes: '' }]
+            customerId: initialValues?.customerId || '',
+            deliveryDate: availableDeliveryDates[0],
+            notes: initialValues?.notes || '',
+            items: initialValues?.items.length ? initialValues.items : [{ dishId: '', quantity: 1, notes: '' }],
+            discount: null,
+            deliveryFee: 0
         }
     })
 
+    const { settings: businessSettings, isLoading: isLoadingSettings } = useBusinessSettings()
+
+    const formatCurrency = (amount: number) => {
+        return new Intl.NumberFormat('he-IL', {
+            style: 'currency',
+            currency: businessSettings.currency
+        }).format(amount)
+    }
+
+    // The delivery address in parts; starts from the customer's address
+    const [addressParts, setAddressParts] = useState(EMPTY_ADDRESS_DRAFT)
+    const [zones, setZones] = useState<(DeliveryZone & { id: string })[]>([])
+
+    useEffect(() => {
+        fetchWithAuth('/api/delivery-zones')
+            .then(response => response.ok ? response.json() : [])
+            .then(setZones)
+            .catch(error => console.error('Error fetching delivery zones:', error))
+    }, [])
+
+    const deliveryAddressDetails = fromAddressDraft(addressParts)
+    const zone = findDeliveryZone(zones, deliveryAddressDetails)
+
+    // Start from the zone's delivery fee, or the business default, unless it was already changed
+    useEffect(() => {
+        if (!isLoadingSettings && !form.getFieldState('deliveryFee').isDirty) {
+            form.setValue('deliveryFee', zone?.deliveryFee ?? businessSettings.defaultDeliveryFee)
+        }
+    }, [isLoadingSettings, businessSettings.defaultDeliveryFee, zone?.deliveryFee, form])
+
     const watchCustomerId = form.watch('customerId')
     const watchItems = form.watch('items')
+    const watchDeliveryDate = form.watch('deliveryDate')
+    const watchDiscount = form.watch('discount')
+    const watchDeliveryFee = form.watch('deliveryFee')
+
+    // Load remaining capacity for the offered delivery days
+    useEffect(() => {
+        if (availableDeliveryDates.length === 0) return
+
+        const fetchAvailability = async () => {
+            try {
+                const dates = availableDeliveryDates.map(toDateKey).join(',')
+                const response = await fetchWithAuth(`/api/orders/availability?dates=${dates}`)
+                if (!response.ok) return
+
+                const data: DeliveryAvailability[] = await response.json()
+                const byDate = Object.fromEntries(data.map(day => [day.date, day]))
+                setAvailability(byDate)
+
+                // Move off the default date if it is already fully booked
+                const current = form.getValues('deliveryDate')
+                if (current && byDate[toDateKey(current)]?.isFull) {
+                    const firstOpen = availableDeliveryDates.find(date => !byDate[toDateKey(date)]?.isFull)
+                    if (firstOpen) form.setValue('deliveryDate', firstOpen)
+                }
+            } catch (error) {
+                console.error('Error fetching delivery availability:', error)
+            }
+        }
+
+        fetchAvailability()
+    }, [availableDeliveryDates, form])
+
+    const selectedDayAvailability = watchDeliveryDate ? availability[toDateKey(watchDeliveryDate)] : undefined
+
+    // The selected delivery day's menu; null when the day has none and every dish is offered
+    const [menu, setMenu] = useState<Menu | null>(null)
+    const selectedDateKey = watchDeliveryDate ? toDateKey(watchDeliveryDate) : null
+
+    useEffect(() => {
+        setMenu(null)
+        if (!selectedDateKey) return
+
+        let cancelled = false
+        fetchWithAuth(`/api/menus/${selectedDateKey}`)
+            .then(response => response.ok ? response.json() : null)
+            .then(data => !cancelled && setMenu(data))
+            .catch(error => console.error('Error fetching menu:', error))
+        return () => {
+            cancelled = true
+        }
+    }, [selectedDateKey])
+
+    const menuDishes = useMemo(() => applyMenu(dishes, menu), [dishes, menu])
+    const isOffMenu = (dishId: string) => !!menu && !menuDishes.some(dish => dish.id === dishId)
+
+    // Portions of each dish taken by every line except the given one
+    const getReservedQuantities = (excludeIndex: number) => {
+        const reserved: Record<string, number> = {}
+        watchItems.forEach((item, index) => {
+            if (index === excludeIndex || !item.dishId) return
+            reserved[item.dishId] = (reserved[item.dishId] || 0) + item.quantity
+        })
+        return reserved
+    }
 
     // Update selected customer when customerId changes
     useEffect(() => {
@@ -155,8 +251,8 @@ export function OrderForm({ customers = [], dishes = [] }: OrderFormProps) {
         setSelectedCustomer(customer || null)
 
         // Auto-fill delivery address if available
-        if (customer?.address) {
-            form.setValue('deliveryAddress', customer.address)
+        if (customer) {
+            setAddressParts(toAddressDraft(customer.structuredAddress || parseAddress(customer.address)))
         }
 
         // If customer has critical preferences, show details by default
@@ -165,14 +261,23 @@ export function OrderForm({ customers = [], dishes = [] }: OrderFormProps) {
         }
     }, [watchCustomerId, customers, form])
 
-    // Calculate order total
-    useEffect(() => {
-        const total = watchItems.reduce((sum, item) => {
-            const dish = dishes.find(d => d.id === item.dishId)
-            return sum + (dish ? dish.price * item.quantity : 0)
-        }, 0)
-        setOrderTotal(total)
-    }, [watchItems, dishes])
+    // Preview of what the server will charge, priced from the day's menu or the current dish prices
+    const pricedItems = watchItems.map(item => ({
+        price: menuDishes.find(d => d.id === item.dishId)?.price || 0,
+        quantity: item.quantity,
+        discount: item.discount as PriceAdjustment | null | undefined
+    }))
+    const pricing = calculateOrderPricing(pricedItems, watchDiscount as PriceAdjustment | null, watchDeliveryFee)
+    const belowZoneMinimum = isBelowZoneMinimum(zone, pricing)
+
+    // Detect dishes that clash with the selected customer's allergies
+    const allergenConflicts = useMemo(() => {
+        if (!selectedCustomer?.preferences?.length) return []
+        const selectedDishes = dishes.filter(d => watchItems.some(item => item.dishId === d.id))
+        return detectAllergenConflicts(selectedDishes, selectedCustomer.preferences)
+    }, [selectedCustomer, dishes, watchItems])
+
+    const conflictingDishIds = new Set(allergenConflicts.map(c => c.dishId))
 
     // Filter customers based on search
     const filteredCustomers = customers.filter(customer => {
@@ -214,6 +319,25 @@ export function OrderForm({ customers = [], dishes = [] }: OrderFormProps) {
         }
     }, [selectedCustomer, form])
 
+    // Tell the user until when the selected delivery date takes orders
+    const describeDeliveryCutoff = (deliveryDate?: Date) => {
+        if (availableDeliveryDates.length === 0) {
+            return 'אין מועדי משלוח פתוחים להזמנה. יש לעדכן את לוח המשלוחים'
+        }
+        const cutoff = deliveryDate && getDeliveryCutoff(deliverySchedule, deliveryDate)
+        if (!deliveryDate || !cutoff) {
+            return 'יש לבחור מועד משלוח מהרשימה'
+        }
+        return `ההזמנות למועד זה נסגרות ${formatCutoff(deliveryDate, cutoff)}`
+    }
+
+    const describeRemainingCapacity = (day: DeliveryAvailability) => {
+        const parts: string[] = []
+        if (day.orders.remaining !== null) parts.push(`${day.orders.remaining} הזמנות`)
+        if (day.portions.remaining !== null) parts.push(`${day.portions.remaining} מנות`)
+        return parts.length > 0 ? `. נותרו ${parts.join(' / ')}` : ''
+    }
+
     // Add new item to order
     const addItem = () => {
         const currentItems = form.getValues('items')
@@ -228,19 +352,54 @@ export function OrderForm({ customers = [], dishes = [] }: OrderFormProps) {
         }
     }
 
+    // The order itself is already saved, so a failure here only warns
+    const createStandingOrder = async (data: OrderFormValues, frequency: StandingOrderFrequency, orderId: string) => {
+        try {
+            const response = await fetchWithAuth('/api/standing-orders', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    customerId: data.customerId,
+                    items: data.items,
+                    discount: data.discount || null,
+                    deliveryFee: data.deliveryFee,
+                    deliveryAddress: deliveryAddressDetails ? formatAddress(deliveryAddressDetails) : null,
+                    notes: data.notes || null,
+                    frequency,
+                    startDate: toDateKey(data.deliveryDate),
+                    firstOrderId: orderId
+                }),
+            })
+            if (!response.ok) throw new Error('Failed to create standing order')
+
+            toast({
+                title: "נשמרה הזמנה קבועה",
+                description: `ההזמנה תחזור ${STANDING_ORDER_FREQUENCY_LABELS[frequency]}`,
+            })
+        } catch (error) {
+            toast({
+                title: "ההזמנה הקבועה לא נשמרה",
+                description: "ניתן ליצור אותה ממסך ההזמנות הקבועות",
+                variant: "destructive",
+            })
+        }
+    }
+
     // Handle form submission
     const onSubmit = async (data: OrderFormValues) => {
+        if (!isOrderingOpen(deliverySchedule, data.deliveryDate)) {
+            form.setError('deliveryDate', { message: 'ההזמנות למועד זה נסגרו, יש לבחור מועד אחר' })
+            return
+        }
+
+        const addressError = getAddressDraftError(addressParts)
+        if (addressError) {
+            toast({ title: "כתובת חסרה", description: addressError, variant: "destructive" })
+            return
+        }
+
         setIsLoading(true)
         try {
-            // Prepare items with prices
-            const itemsWithPrices = data.items.map(item => {
-                const dish = dishes.find(d => d.id === item.dishId)
-                return {
-                    ...item,
-                    price: dish?.price || 0
-                }
-            })
-
             const response = await fetchWithAuth('/api/orders', {
                 method: 'POST',
                 headers: {
@@ -248,14 +407,16 @@ export function OrderForm({ customers = [], dishes = [] }: OrderFormProps) {
                 },
                 body: JSON.stringify({
                     ...data,
-                    items: itemsWithPrices,
-                    deliveryDate: data.deliveryDate.toISOString(),
+                    // The day itself, so the server doesn't depend on this browser's timezone
+                    deliveryDate: toDateKey(data.deliveryDate),
+                    // Without parts the server uses the customer's address
+                    deliveryAddressDetails,
                 }),
             })
 
             if (!response.ok) {
                 const error = await response.json()
-                throw new Error(error.message || 'שגיאה ביצירת ההזמנה')
+                throw new Error(error.error || error.message || 'שגיאה ביצירת ההזמנה')
             }
 
             const order = await response.json()
@@ -265,6 +426,18 @@ export function OrderForm({ customers = [], dishes = [] }: OrderFormProps) {
                 description: `הזמנה מספר ${order.orderNumber} נוצרה עבור ${selectedCustomer?.name}`,
             })
 
+            if (repeat !== 'NONE') {
+                await createStandingOrder(data, repeat, order.id)
+            }
+
+            if (order.allergenConflicts?.length > 0) {
+                toast({
+                    title: "ההזמנה סומנה להתנגשות אלרגנים",
+                    description: "המטבח יקבל התראה על המנות הבעייתיות",
+                    variant: "destructive",
+                })
+            }
+
             router.push('/orders')
         } catch (error) {
             toast({
@@ -429,7 +602,7 @@ export function OrderForm({ customers = [], dishes = [] }: OrderFormProps) {
                                         >
                                             <FormControl>
                                                 <SelectTrigger className="text-right">
-                                                    <SelectValue placeholder="בחר יום שישי למשלוח">
+                                                    <SelectValue placeholder="בחר מועד משלוח">
                                                         {field.value && (
                                                             <div className="flex items-center gap-2">
                                                                 <CalendarIcon className="h-4 w-4 opacity-50" />
@@ -440,45 +613,78 @@ export function OrderForm({ customers = [], dishes = [] }: OrderFormProps) {
                                                 </SelectTrigger>
                                             </FormControl>
                                             <SelectContent>
-                                                {getAvailableFridays().map((friday, index) => (
-                                                    <SelectItem
-                                                        key={friday.toISOString()}
-                                                        value={friday.toISOString()}
-                                                        className="text-right"
-                                                    >
-                                                        <div className="flex flex-col items-start">
-                                                            <span>{formatDeliveryDate(friday)}</span>
-                                                            {index === 0 && (
-                                                                <span className="text-xs text-muted-foreground">
-                                                                    (הקרוב ביותר)
-                                                                </span>
-                                                            )}
-                                                        </div>
-                                                    </SelectItem>
-                                                ))}
+                                                {availableDeliveryDates.map((deliveryDate, index) => {
+                                                    const isFull = availability[toDateKey(deliveryDate)]?.isFull
+                                                    return (
+                                                        <SelectItem
+                                                            key={deliveryDate.toISOString()}
+                                                            value={deliveryDate.toISOString()}
+                                                            disabled={isFull}
+                                                            className={cn('text-right', isFull && 'opacity-50')}
+                                                        >
+                                                            <div className="flex flex-col items-start">
+                                                                <span>{formatDeliveryDate(deliveryDate)}</span>
+                                                                {isFull ? (
+                                                                    <span className="text-xs text-muted-foreground">
+                                                                        (מלא)
+                                                                    </span>
+                                                                ) : index === 0 && (
+                                                                    <span className="text-xs text-muted-foreground">
+                                                                        (הקרוב ביותר)
+                                                                    </span>
+                                                                )}
+                                                            </div>
+                                                        </SelectItem>
+                                                    )
+                                                })}
                                             </SelectContent>
                                         </Select>
                                         <FormDescription>
-                                            משלוחים בימי שישי בלבד. הזמנות נסגרות ביום חמישי ב-18:00
+                                            {describeDeliveryCutoff(field.value)}
+                                            {selectedDayAvailability && describeRemainingCapacity(selectedDayAvailability)}
                                         </FormDescription>
                                         <FormMessage />
                                     </FormItem>
                                 )}
                             />
+                        </div>
 
-                            <FormField
-                                control={form.control}
-                                name="deliveryAddress"
-                                render={({ field }) => (
-                                    <FormItem>
-                                        <FormLabel>כתובת למשלוח</FormLabel>
-                                        <FormControl>
-                                            <Input {...field} placeholder="אם שונה מכתובת הלקוח" className="text-right" />
-                                        </FormControl>
-                                        <FormMessage />
-                                    </FormItem>
-                                )}
-                            />
+                        <div className="space-y-2">
+                            <Label>כתובת למשלוח</Label>
+                            {selectedCustomer?.address && !deliveryAddressDetails && (
+                                <p className="text-sm text-muted-foreground">
+                                    תישלח לכתובת הלקוח: {selectedCustomer.address}
+                                </p>
+                            )}
+                            <AddressFields value={addressParts} onChange={setAddressParts} idPrefix="delivery-address" />
+                            {zone && (
+                                <p className="text-sm text-muted-foreground">
+                                    אזור משלוח: {zone.name} · דמי משלוח {formatCurrency(zone.deliveryFee)}
+                                    {zone.minimumOrder ? ` · מינימום הזמנה ${formatCurrency(zone.minimumOrder)}` : ''}
+                                </p>
+                            )}
+                        </div>
+
+                        <div className="space-y-2">
+                            <Label>חזרה על ההזמנה</Label>
+                            <Select value={repeat} onValueChange={(value) => setRepeat(value as StandingOrderFrequency | 'NONE')}>
+                                <SelectTrigger className="text-right md:w-1/2">
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    <SelectItem value="NONE">הזמנה חד-פעמית</SelectItem>
+                                    {Object.entries(STANDING_ORDER_FREQUENCY_LABELS).map(([value, label]) => (
+                                        <SelectItem key={value} value={value}>
+                                            הזמנה קבועה, {label}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                            {repeat !== 'NONE' && (
+                                <p className="text-sm text-muted-foreground">
+                                    ההזמנה תישמר גם כהזמנה קבועה. את ההזמנות הבאות יוצרים אחרי סקירה במסך ההזמנות הקבועות.
+                                </p>
+                            )}
                         </div>
                     </CardContent>
                 </Card>
@@ -494,30 +700,20 @@ export function OrderForm({ customers = [], dishes = [] }: OrderFormProps) {
                                 <div className="grid gap-4 md:grid-cols-12">
                                     <div className="md:col-span-6">
                                         <Label>מנה</Label>
-                                        <Select
+                                        <DishSelect
+                                            dishes={dishes}
                                             value={item.dishId}
                                             onValueChange={(value) => {
                                                 const newItems = [...form.getValues('items')]
                                                 newItems[index].dishId = value
                                                 form.setValue('items', newItems)
                                             }}
-                                        >
-                                            <SelectTrigger className="text-right">
-                                                <SelectValue placeholder="בחר מנה" />
-                                            </SelectTrigger>
-                                            <SelectContent>
-                                                {dishes.map((dish) => (
-                                                    <SelectItem key={dish.id} value={dish.id} className="text-right">
-                                                        <div className="flex items-center justify-between w-full">
-                                                            <span>{dish.name}</span>
-                                                            <span className="text-muted-foreground ml-2">
-                                                                ₪{dish.price}
-                                                            </span>
-                                                        </div>
-                                                    </SelectItem>
-                                                ))}
-                                            </SelectContent>
-                                        </Select>
+                                            availability={selectedDayAvailability?.dishes}
+                                            reserved={getReservedQuantities(index)}
+                                            menu={menu}
+                                            isFlagged={(dish) => !!selectedCustomer?.preferences &&
+                                                detectAllergenConflicts([dish], selectedCustomer.preferences).length > 0}
+                                        />
                                     </div>
 
                                     <div className="md:col-span-2">
@@ -562,15 +758,60 @@ export function OrderForm({ customers = [], dishes = [] }: OrderFormProps) {
                                     </div>
                                 </div>
 
-                                {/* Dish subtotal */}
+                                {item.dishId && isOffMenu(item.dishId) && (
+                                    <div className="flex items-center gap-2 text-sm text-orange-700">
+                                        <AlertTriangle className="h-4 w-4" />
+                                        המנה אינה בתפריט של יום המשלוח שנבחר. יש להחליף אותה או לבחור יום אחר
+                                    </div>
+                                )}
+
+                                {/* Allergen conflict for this dish */}
+                                {item.dishId && conflictingDishIds.has(item.dishId) && (
+                                    <div className="flex items-center gap-2 text-sm text-red-700">
+                                        <AlertTriangle className="h-4 w-4" />
+                                        {allergenConflicts
+                                            .filter(c => c.dishId === item.dishId)
+                                            .map(formatAllergenConflict)
+                                            .join(' | ')}
+                                    </div>
+                                )}
+
+                                {/* Line discount and subtotal */}
                                 {item.dishId && (
-                                    <div className="text-sm text-muted-foreground text-right">
-                                        סה״כ למנה: ₪{(dishes.find(d => d.id === item.dishId)?.price || 0) * item.quantity}
+                                    <div className="flex flex-wrap items-center justify-between gap-2">
+                                        <div className="flex items-center gap-2">
+                                            <Label className="text-sm text-muted-foreground">הנחה למנה</Label>
+                                            <PriceAdjustmentInput
+                                                value={item.discount as PriceAdjustment | null | undefined}
+                                                onChange={(discount) => {
+                                                    const newItems = [...form.getValues('items')]
+                                                    newItems[index].discount = discount
+                                                    form.setValue('items', newItems)
+                                                }}
+                                            />
+                                        </div>
+                                        <div className="text-sm text-muted-foreground text-right">
+                                            סה״כ למנה: {formatCurrency(getLineTotal(pricedItems[index]))}
+                                        </div>
                                     </div>
                                 )}
                             </div>
                         ))}
 
+                        {allergenConflicts.length > 0 && (
+                            <div className="flex items-start gap-2 p-3 rounded-md bg-red-50 border border-red-200">
+                                <AlertTriangle className="h-4 w-4 text-red-600 mt-0.5" />
+                                <div>
+                                    <p className="text-sm font-medium text-red-800">
+                                        ההזמנה כוללת מנות המתנגשות עם אלרגיות הלקוח
+                                    </p>
+                                    <p className="text-xs text-red-700 mt-1">
+                                        ניתן לשמור את ההזמנה, אך היא תסומן במטבח
+                                    </p>
+                                </div>
+                            </div>
+                        )}
+
                         <Button
                             type="button"
                             variant="outline"
@@ -616,11 +857,87 @@ export function OrderForm({ customers = [], dishes = [] }: OrderFormProps) {
 
                 {/* Order Summary */}
                 <Card>
-                    <CardContent className="pt-6">
+                    <CardHeader>
+                        <CardTitle>סיכום תשלום</CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                        <div className="flex flex-wrap gap-6">
+                            <div className="space-y-1">
+                                <Label>הנחה להזמנה</Label>
+                                <PriceAdjustmentInput
+                                    value={watchDiscount as PriceAdjustment | null | undefined}
+                                    onChange={(discount) => form.setValue('discount', discount && {
+                                        ...discount,
+                                        reason: watchDiscount?.reason || null
+                                    })}
+                                />
+                            </div>
+                            {watchDiscount && (
+                                <div className="space-y-1 flex-1 min-w-[200px]">
+                                    <Label>סיבת ההנחה</Label>
+                                    <Input
+                                        value={watchDiscount.reason || ''}
+                                        onChange={(e) => form.setValue('discount', { ...watchDiscount, reason: e.target.value })}
+                                        placeholder="למשל: לקוח קבוע, פיצוי על איחור"
+                                        className="text-right"
+                                    />
+                                </div>
+                            )}
+                            <FormField
+                                control={form.control}
+                                name="deliveryFee"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>דמי משלוח</FormLabel>
+                                        <FormControl>
+                                            <Input
+                                                type="number"
+                                                min={0}
+                                                step={0.5}
+                                                value={field.value}
+                                                onChange={(e) => field.onChange(Math.max(0, Number(e.target.value) || 0))}
+                                                className="w-28 text-center"
+                                            />
+                                        </FormControl>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+                        </div>
+
+                        <Separator />
+
+                        <div className="space-y-1 text-sm">
+                            <div className="flex items-center justify-between">
+                                <span>סכום המנות:</span>
+                                <span>{formatCurrency(pricing.subtotal)}</span>
+                            </div>
+                            {pricing.discountAmount > 0 && (
+                                <div className="flex items-center justify-between text-green-700">
+                                    <span>הנחה:</span>
+                                    <span>-{formatCurrency(pricing.discountAmount)}</span>
+                                </div>
+                            )}
+                            {pricing.deliveryFee > 0 && (
+                                <div className="flex items-center justify-between">
+                                    <span>משלוח:</span>
+                                    <span>{formatCurrency(pricing.deliveryFee)}</span>
+                                </div>
+                            )}
+                        </div>
                         <div className="flex items-center justify-between text-lg font-semibold">
                             <span>סה״כ להזמנה:</span>
-                            <span>₪{orderTotal.toFixed(2)}</span>
+                            <span>{formatCurrency(pricing.totalAmount)}</span>
                         </div>
+                        {belowZoneMinimum && zone && (
+                            <p className="flex items-center gap-1 text-sm text-red-600">
+                                <AlertTriangle className="h-4 w-4" />
+                                הזמנת המינימום לאזור {zone.name} היא {formatCurrency(zone.minimumOrder!)}
+                            </p>
+                        )}
+                        <p className="text-xs text-muted-foreground">
+                            המחירים נקבעים לפי מחירון המנות בעת שמירת ההזמנה
+                        </p>
                     </CardContent>
                     <CardFooter className="flex gap-2">
                         <Button
@@ -631,7 +948,7 @@ export function OrderForm({ customers = [], dishes = [] }: OrderFormProps) {
                         >
                             ביטול
                         </Button>
-                        <Button type="submit" disabled={isLoading} className="flex-1">
+                        <Button type="submit" disabled={isLoading || belowZoneMinimum} className="flex-1">
                             {isLoading ? 'יוצר הזמנה...' : 'צור הזמנה'}
                         </Button>
                     </CardFooter>
@@ -39,13 +39,17 @@ import { PreferenceBadgeGroup } from '@/components/customers/preference-badge'
 import { useRouter } from 'next/navigation'
 import { cn } from '@/lib/utils'
 import type { Order, OrderStatus, Customer, CustomerPreference } from '@/lib/types/database'
+import { useBusinessSettings } from '@/lib/hooks/use-business-settings'
 
 interface OrderListProps {
     orders: Order[]
     isLoading: boolean
     currentPage: number
     totalPages: number
-    onPageChange: (page: number) => void
+    hasNext: boolean
+    hasPrevious: boolean
+    onNextPage: () => void
+    onPreviousPage: () => void
     onRefresh: () => void
 }
 
@@ -63,7 +67,10 @@ export function OrderList({
     isLoading,
     currentPage,
     totalPages,
-    onPageChange,
+    hasNext,
+    hasPrevious,
+    onNextPage,
+    onPreviousPage,
     onRefresh
 }: OrderListProps) {
     const router = useRouter()
@@ -155,10 +162,12 @@ export function OrderList({
         return sortDirection === 'asc' ? aValue - bValue : bValue - aValue
     })
 
+    const { settings } = useBusinessSettings()
+
     const formatCurrency = (amount: number) => {
         return new Intl.NumberFormat('he-IL', {
             style: 'currency',
-            currency: 'ILS'
+            currency: settings.currency
         }).format(amount)
     }
 
@@ -342,14 +351,14 @@ export function OrderList({
             {/* Pagination */}
             <div className="flex items-center justify-between">
                 <p className="text-sm text-muted-foreground">
-                    עמוד {currentPage} מתוך {totalPages}
+                    עמוד {currentPage} מתוך {Math.max(totalPages, 1)}
                 </p>
                 <div className="flex gap-2">
                     <Button
                         variant="outline"
                         size="sm"
-                        onClick={() => onPageChange(currentPage - 1)}
-                        disabled={currentPage === 1}
+                        onClick={onPreviousPage}
+                        disabled={!hasPrevious || isLoading}
                     >
                         <ChevronRight className="h-4 w-4" />
                         הקודם
@@ -357,8 +366,8 @@ export function OrderList({
                     <Button
                         variant="outline"
                         size="sm"
-                        onClick={() => onPageChange(currentPage + 1)}
-                        disabled={currentPage === totalPages}
+                        onClick={onNextPage}
+                        disabled={!hasNext || isLoading}
                     >
                         הבא
                         <ChevronLeft className="h-4 w-4" />
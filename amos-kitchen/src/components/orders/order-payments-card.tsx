@@ -0,0 +1,110 @@
+// components/orders/order-payments-card.tsx
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { he } from 'date-fns/locale'
+import { Wallet } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { useAuth } from '@/contexts/auth-context'
+import { fetchWithAuth } from '@/lib/api/fetch-with-auth'
+import { hasPermission } from '@/lib/utils/roles'
+import { PAYMENT_METHOD_LABELS, PAYMENT_STATUS_LABELS } from '@/lib/utils/payments'
+import { PaymentDialog, type OrderPaymentSummary } from './payment-dialog'
+import type { PaymentStatus } from '@/lib/types/firestore'
+
+const PAYMENT_STATUS_COLORS: Record<PaymentStatus, string> = {
+    UNPAID: 'bg-red-100 text-red-800',
+    PARTIAL: 'bg-yellow-100 text-yellow-800',
+    PAID: 'bg-green-100 text-green-800',
+    OVERPAID: 'bg-blue-100 text-blue-800'
+}
+
+interface OrderPaymentsCardProps {
+    orderId: string
+    orderNumber: string
+    // Changes when the order is edited, so its total is read again
+    totalAmount: number
+    onRecorded?: () => void
+}
+
+export function OrderPaymentsCard({ orderId, orderNumber, totalAmount, onRecorded }: OrderPaymentsCardProps) {
+    const { role } = useAuth()
+    const [summary, setSummary] = useState<OrderPaymentSummary | null>(null)
+    const [dialogOpen, setDialogOpen] = useState(false)
+
+    useEffect(() => {
+        fetchWithAuth(`/api/orders/${orderId}/payments`)
+            .then(response => response.ok ? response.json() : null)
+            .then(setSummary)
+            .catch(error => console.error('Error fetching payments:', error))
+    }, [orderId, totalAmount])
+
+    if (!summary) return null
+
+    return (
+        <Card>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0">
+                <CardTitle>תשלומים</CardTitle>
+                <Badge className={PAYMENT_STATUS_COLORS[summary.paymentStatus]}>
+                    {PAYMENT_STATUS_LABELS[summary.paymentStatus]}
+                </Badge>
+            </CardHeader>
+            <CardContent className="space-y-4">
+                <div className="space-y-1 text-sm">
+                    <div className="flex justify-between">
+                        <span className="text-muted-foreground">שולם</span>
+                        <span>₪{summary.amountPaid.toFixed(2)}</span>
+                    </div>
+                    <div className="flex justify-between font-semibold">
+                        <span>{summary.amountDue >= 0 ? 'לגבייה' : 'להחזיר ללקוח'}</span>
+                        <span>₪{Math.abs(summary.amountDue).toFixed(2)}</span>
+                    </div>
+                </div>
+
+                {summary.payments.length > 0 && (
+                    <ul className="space-y-2 text-sm">
+                        {summary.payments.map(payment => (
+                            <li key={payment.id} className="flex justify-between gap-2 border-t pt-2">
+                                <div>
+                                    <p className="font-medium">
+                                        {payment.type === 'REFUND' ? 'החזר' : 'תשלום'} ב{PAYMENT_METHOD_LABELS[payment.method]}
+                                    </p>
+                                    <p className="text-xs text-muted-foreground">
+                                        {format(new Date(payment.paidAt), 'dd/MM/yyyy HH:mm', { locale: he })}
+                                        {payment.reference && ` · ${payment.reference}`}
+                                    </p>
+                                </div>
+                                <span className={payment.type === 'REFUND' ? 'text-red-700' : 'text-green-700'}>
+                                    {payment.type === 'REFUND' ? '-' : ''}₪{payment.amount.toFixed(2)}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+
+                {hasPermission(role, 'payments:write') && (
+                    <Button variant="outline" className="w-full" onClick={() => setDialogOpen(true)}>
+                        <Wallet className="ml-2 h-4 w-4" />
+                        רישום תשלום
+                    </Button>
+                )}
+            </CardContent>
+
+            <PaymentDialog
+                open={dialogOpen}
+                onOpenChange={setDialogOpen}
+                orderId={orderId}
+                orderNumber={orderNumber}
+                amountDue={summary.amountDue}
+                amountPaid={summary.amountPaid}
+                onRecorded={(updated) => {
+                    setSummary(updated)
+                    onRecorded?.()
+                }}
+            />
+        </Card>
+    )
+}
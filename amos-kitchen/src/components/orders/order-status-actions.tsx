@@ -0,0 +1,172 @@
+// components/orders/order-status-actions.tsx
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog'
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select'
+import { useAuth } from '@/contexts/auth-context'
+import { hasPermission } from '@/lib/utils/roles'
+import {
+    getNextStatus,
+    getAllowedTransitions,
+    normalizeOrderStatus,
+    ORDER_STATUSES,
+    ORDER_STATUS_ACTION_LABELS,
+    ORDER_STATUS_LABELS
+} from '@/lib/utils/order-status'
+import type { OrderStatus } from '@/lib/types/database'
+
+export interface StatusChangeRequest {
+    status: OrderStatus
+    reason?: string
+    override?: boolean
+}
+
+interface OrderStatusActionsProps {
+    status: string
+    disabled?: boolean
+    onStatusChange: (change: StatusChangeRequest) => Promise<boolean>
+}
+
+// Offers only the changes the transition rules allow. Cancelling asks for a reason;
+// owners can also force any status, with a reason.
+export function OrderStatusActions({ status, disabled, onStatusChange }: OrderStatusActionsProps) {
+    const { role } = useAuth()
+    const current = normalizeOrderStatus(status)
+    const nextStatus = getNextStatus(current)
+    const canCancel = getAllowedTransitions(current).includes('CANCELLED')
+    const canOverride = hasPermission(role, 'orders:override')
+
+    const [dialog, setDialog] = useState<'cancel' | 'override' | null>(null)
+    const [overrideStatus, setOverrideStatus] = useState<OrderStatus | ''>('')
+    const [reason, setReason] = useState('')
+
+    const openDialog = (type: 'cancel' | 'override') => {
+        setReason('')
+        setOverrideStatus('')
+        setDialog(type)
+    }
+
+    const handleConfirm = async () => {
+        const change: StatusChangeRequest = dialog === 'cancel'
+            ? { status: 'CANCELLED', reason: reason.trim() }
+            : { status: overrideStatus as OrderStatus, reason: reason.trim(), override: true }
+
+        if (await onStatusChange(change)) {
+            setDialog(null)
+        }
+    }
+
+    const canConfirm = reason.trim().length > 0 && (dialog === 'cancel' || overrideStatus !== '')
+
+    return (
+        <div className="flex flex-wrap items-center gap-2">
+            {nextStatus && (
+                <Button
+                    size="sm"
+                    onClick={() => onStatusChange({ status: nextStatus })}
+                    disabled={disabled}
+                >
+                    {ORDER_STATUS_ACTION_LABELS[nextStatus]}
+                </Button>
+            )}
+            {canCancel && (
+                <Button
+                    size="sm"
+                    variant="outline"
+                    className="text-red-600 hover:text-red-700"
+                    onClick={() => openDialog('cancel')}
+                    disabled={disabled}
+                >
+                    {ORDER_STATUS_ACTION_LABELS.CANCELLED}
+                </Button>
+            )}
+            {canOverride && (
+                <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => openDialog('override')}
+                    disabled={disabled}
+                >
+                    שינוי סטטוס ידני
+                </Button>
+            )}
+
+            <Dialog open={dialog !== null} onOpenChange={(open) => !open && setDialog(null)}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>
+                            {dialog === 'cancel' ? 'ביטול הזמנה' : 'שינוי סטטוס ידני'}
+                        </DialogTitle>
+                        <DialogDescription>
+                            {dialog === 'cancel'
+                                ? 'יש לציין את סיבת הביטול. לא ניתן להחזיר הזמנה שבוטלה.'
+                                : 'שינוי ידני עוקף את סדר הסטטוסים הרגיל ונרשם בהיסטוריית ההזמנה.'}
+                        </DialogDescription>
+                    </DialogHeader>
+
+                    <div className="space-y-4">
+                        {dialog === 'override' && (
+                            <div className="space-y-2">
+                                <Label>סטטוס חדש</Label>
+                                <Select
+                                    value={overrideStatus}
+                                    onValueChange={(value) => setOverrideStatus(value as OrderStatus)}
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue placeholder="בחר סטטוס" />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {ORDER_STATUSES.filter(option => option !== current).map(option => (
+                                            <SelectItem key={option} value={option}>
+                                                {ORDER_STATUS_LABELS[option]}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        )}
+                        <div className="space-y-2">
+                            <Label htmlFor="status-reason">סיבה *</Label>
+                            <Textarea
+                                id="status-reason"
+                                value={reason}
+                                onChange={(e) => setReason(e.target.value)}
+                                rows={3}
+                            />
+                        </div>
+                    </div>
+
+                    <DialogFooter>
+                        <Button variant="outline" onClick={() => setDialog(null)}>
+                            סגור
+                        </Button>
+                        <Button
+                            variant={dialog === 'cancel' ? 'destructive' : 'default'}
+                            onClick={handleConfirm}
+                            disabled={disabled || !canConfirm}
+                        >
+                            {dialog === 'cancel' ? ORDER_STATUS_ACTION_LABELS.CANCELLED : 'עדכן סטטוס'}
+                        </Button>
+                    </DialogFooter>
+                </DialogContent>
+            </Dialog>
+        </div>
+    )
+}
@@ -0,0 +1,182 @@
+// components/orders/payment-dialog.tsx
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+    Dialog,
+    DialogContent,
+    DialogDescription,
+    DialogFooter,
+    DialogHeader,
+    DialogTitle,
+} from '@/components/ui/dialog'
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from '@/components/ui/select'
+import { fetchWithAuth } from '@/lib/api/fetch-with-auth'
+import { useToast } from '@/lib/hooks/use-toast'
+import { PAYMENT_METHODS, PAYMENT_METHOD_LABELS, PAYMENT_TYPE_LABELS } from '@/lib/utils/payments'
+import type { Payment, PaymentMethod, PaymentStatus, PaymentType } from '@/lib/types/firestore'
+
+// What the payments API returns for an order
+export interface OrderPaymentSummary {
+    payments: Payment[]
+    totalAmount: number
+    amountPaid: number
+    amountDue: number
+    paymentStatus: PaymentStatus
+}
+
+interface PaymentDialogProps {
+    open: boolean
+    onOpenChange: (open: boolean) => void
+    orderId: string
+    orderNumber: string
+    amountDue: number
+    // Refunds are offered only when something was paid
+    amountPaid?: number
+    onRecorded: (summary: OrderPaymentSummary) => void
+}
+
+export function PaymentDialog({
+    open,
+    onOpenChange,
+    orderId,
+    orderNumber,
+    amountDue,
+    amountPaid = 0,
+    onRecorded
+}: PaymentDialogProps) {
+    const { toast } = useToast()
+    const [type, setType] = useState<PaymentType>('PAYMENT')
+    const [method, setMethod] = useState<PaymentMethod>('CASH')
+    const [amount, setAmount] = useState('')
+    const [reference, setReference] = useState('')
+    const [saving, setSaving] = useState(false)
+
+    // Start from what is left to collect, or from the overpayment when money is owed back
+    useEffect(() => {
+        if (!open) return
+        const refund = amountDue < 0
+        setType(refund ? 'REFUND' : 'PAYMENT')
+        setMethod('CASH')
+        setAmount(String(Math.abs(amountDue) || ''))
+        setReference('')
+    }, [open, amountDue])
+
+    const handleSave = async () => {
+        setSaving(true)
+        try {
+            const response = await fetchWithAuth(`/api/orders/${orderId}/payments`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    type,
+                    method,
+                    amount: Number(amount),
+                    reference: reference.trim() || null
+                })
+            })
+
+            if (!response.ok) {
+                const error = await response.json().catch(() => ({}))
+                throw new Error(error.details?.[0]?.message || error.error || 'Failed to record payment')
+            }
+
+            onRecorded(await response.json())
+            toast({
+                title: type === 'REFUND' ? 'ההחזר נרשם' : 'התשלום נרשם',
+                description: `הזמנה ${orderNumber}: ₪${Number(amount).toFixed(2)} ב${PAYMENT_METHOD_LABELS[method]}`
+            })
+            onOpenChange(false)
+        } catch (error) {
+            toast({
+                title: 'שגיאה',
+                description: error instanceof Error ? error.message : 'לא ניתן לרשום את התשלום',
+                variant: 'destructive'
+            })
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    return (
+        <Dialog open={open} onOpenChange={onOpenChange}>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>רישום תשלום</DialogTitle>
+                    <DialogDescription>
+                        הזמנה {orderNumber} · {amountDue >= 0 ? `לגבייה ₪${amountDue.toFixed(2)}` : `להחזיר ₪${(-amountDue).toFixed(2)}`}
+                    </DialogDescription>
+                </DialogHeader>
+                <div className="grid gap-4 sm:grid-cols-2">
+                    {amountPaid > 0 && (
+                        <div className="space-y-2">
+                            <Label>סוג</Label>
+                            <Select value={type} onValueChange={(value) => setType(value as PaymentType)}>
+                                <SelectTrigger>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {Object.entries(PAYMENT_TYPE_LABELS).map(([value, label]) => (
+                                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )}
+                    <div className="space-y-2">
+                        <Label>אמצעי תשלום</Label>
+                        <Select value={method} onValueChange={(value) => setMethod(value as PaymentMethod)}>
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {PAYMENT_METHODS.map(value => (
+                                    <SelectItem key={value} value={value}>{PAYMENT_METHOD_LABELS[value]}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="payment-amount">סכום</Label>
+                        <Input
+                            id="payment-amount"
+                            type="number"
+                            min={0}
+                            step={0.5}
+                            value={amount}
+                            onChange={(e) => setAmount(e.target.value)}
+                        />
+                    </div>
+                    <div className="space-y-2">
+                        <Label htmlFor="payment-reference">אסמכתא</Label>
+                        <Input
+                            id="payment-reference"
+                            value={reference}
+                            onChange={(e) => setReference(e.target.value)}
+                            placeholder="מספר העברה או קבלה"
+                        />
+                    </div>
+                </div>
+                <DialogFooter>
+                    <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+                        ביטול
+                    </Button>
+                    <Button onClick={handleSave} disabled={saving || !(Number(amount) > 0)}>
+                        {saving && <Loader2 className="ml-2 h-4 w-4 animate-spin" />}
+                        שמירה
+                    </Button>
+                </DialogFooter>
+            </DialogContent>
+        </Dialog>
+    )
+}
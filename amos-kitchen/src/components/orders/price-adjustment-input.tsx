@@ -0,0 +1,58 @@
+// components/orders/price-adjustment-input.tsx
+'use client'
+
+import { useState } from 'react'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { DISCOUNT_TYPE_LABELS } from '@/lib/utils/pricing'
+import type { PriceAdjustment } from '@/lib/types/firestore'
+
+interface PriceAdjustmentInputProps {
+    value?: PriceAdjustment | null
+    onChange: (value: PriceAdjustment | null) => void
+    currencySymbol?: string
+}
+
+// Discount editor: a type (percent / fixed amount) and a value. An empty or zero value clears it.
+export function PriceAdjustmentInput({ value, onChange, currencySymbol = '₪' }: PriceAdjustmentInputProps) {
+    // Kept locally so picking a type before typing a value isn't lost
+    const [selectedType, setSelectedType] = useState<PriceAdjustment['type']>(value?.type || 'PERCENT')
+    const type = value?.type || selectedType
+
+    const update = (changes: Partial<PriceAdjustment>) => {
+        const next = { type, value: value?.value || 0, reason: value?.reason || null, ...changes }
+        setSelectedType(next.type)
+        onChange(next.value > 0 ? next : null)
+    }
+
+    return (
+        <div className="flex gap-2">
+            <Input
+                type="number"
+                min={0}
+                max={type === 'PERCENT' ? 100 : undefined}
+                step={type === 'PERCENT' ? 1 : 0.5}
+                value={value?.value || ''}
+                placeholder="0"
+                onChange={(e) => update({ value: Math.max(0, Number(e.target.value) || 0) })}
+                className="w-24 text-center"
+            />
+            <Select
+                value={type}
+                onValueChange={(newType) => update({ type: newType as PriceAdjustment['type'] })}
+            >
+                <SelectTrigger className="w-32 text-right">
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                    <SelectItem value="PERCENT" className="text-right">
+                        % {DISCOUNT_TYPE_LABELS.PERCENT}
+                    </SelectItem>
+                    <SelectItem value="FIXED" className="text-right">
+                        {currencySymbol} {DISCOUNT_TYPE_LABELS.FIXED}
+                    </SelectItem>
+                </SelectContent>
+            </Select>
+        </div>
+    )
+}
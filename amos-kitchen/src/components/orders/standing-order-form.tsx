@@ -0,0 +1,418 @@
+// components/orders/standing-order-form.tsx
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { useRouter } from 'next/navigation'
+import { format } from 'date-fns'
+import { he } from 'date-fns/locale'
+import { Plus, Trash2, Loader2, Save } from 'lucide-react'
+import { fetchWithAuth } from '@/lib/api/fetch-with-auth'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardFooter, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { LoadingSpinner } from '@/components/shared/loading-spinner'
+import { DishSelect } from '@/components/dishes/dish-select'
+import { PriceAdjustmentInput } from '@/components/orders/price-adjustment-input'
+import { useToast } from '@/lib/hooks/use-toast'
+import {
+    DEFAULT_DELIVERY_SCHEDULE,
+    fromDateKey,
+    getUpcomingDeliveryDates,
+    toDateKey
+} from '@/lib/utils/delivery-schedule'
+import { getStandingOrderDates, STANDING_ORDER_FREQUENCY_LABELS } from '@/lib/utils/standing-orders'
+import type { Customer, Dish } from '@/lib/types/database'
+import type {
+    DeliverySchedule,
+    PriceAdjustment,
+    StandingOrder,
+    StandingOrderFrequency
+} from '@/lib/types/firestore'
+
+type LineInput = {
+    dishId: string
+    dishName?: string
+    quantity: number
+    discount?: PriceAdjustment | null
+    notes?: string | null
+}
+
+interface StandingOrderFormProps {
+    // Edit mode when given; the customer of an existing standing order can't change
+    standingOrder?: StandingOrder & { id: string }
+}
+
+// How many upcoming deliveries to offer for skipping
+const SKIP_DATE_OPTIONS = 8
+
+const formatDateKey = (key: string) => format(fromDateKey(key), 'EEEE, dd/MM/yyyy', { locale: he })
+
+export function StandingOrderForm({ standingOrder }: StandingOrderFormProps) {
+    const router = useRouter()
+    const { toast } = useToast()
+    const isEdit = !!standingOrder
+
+    const [customers, setCustomers] = useState<Customer[]>([])
+    const [dishes, setDishes] = useState<Dish[]>([])
+    const [schedule, setSchedule] = useState<DeliverySchedule>(DEFAULT_DELIVERY_SCHEDULE)
+    const [loading, setLoading] = useState(true)
+    const [saving, setSaving] = useState(false)
+
+    const [customerId, setCustomerId] = useState(standingOrder?.customerId || '')
+    const [items, setItems] = useState<LineInput[]>(standingOrder?.items || [{ dishId: '', quantity: 1, notes: '' }])
+    const [frequency, setFrequency] = useState<StandingOrderFrequency>(standingOrder?.frequency || 'WEEKLY')
+    const [startDate, setStartDate] = useState(standingOrder?.startDate || '')
+    const [endDate, setEndDate] = useState(standingOrder?.endDate || '')
+    const [skipDates, setSkipDates] = useState<string[]>(standingOrder?.skipDates || [])
+    const [discount, setDiscount] = useState<PriceAdjustment | null>(standingOrder?.discount || null)
+    const [deliveryFee, setDeliveryFee] = useState<string>(
+        standingOrder?.deliveryFee !== null && standingOrder?.deliveryFee !== undefined ? String(standingOrder.deliveryFee) : ''
+    )
+    const [deliveryAddress, setDeliveryAddress] = useState(standingOrder?.deliveryAddress || '')
+    const [notes, setNotes] = useState(standingOrder?.notes || '')
+
+    useEffect(() => {
+        const fetchData = async () => {
+            try {
+                const [customersResponse, dishesResponse, scheduleResponse] = await Promise.all([
+                    isEdit ? null : fetchWithAuth('/api/customers?limit=100&sort=name'),
+                    fetchWithAuth('/api/dishes?available=true'),
+                    fetchWithAuth('/api/settings/delivery-schedule')
+                ])
+
+                if (customersResponse?.ok) {
+                    const data: { customers: Customer[] } = await customersResponse.json()
+                    setCustomers(data.customers.filter(c => c.id).sort((a, b) => a.name.localeCompare(b.name)))
+                }
+                if (dishesResponse.ok) {
+                    const data: Dish[] = await dishesResponse.json()
+                    setDishes(data.filter(d => d.id && d.isAvailable).map(d => ({ ...d, price: Number(d.price) })))
+                }
+                if (scheduleResponse.ok) {
+                    setSchedule(await scheduleResponse.json())
+                }
+            } catch (error) {
+                console.error('Error loading standing order form data:', error)
+                toast({
+                    title: 'שגיאה',
+                    description: 'לא ניתן לטעון את נתוני הטופס',
+                    variant: 'destructive'
+                })
+            } finally {
+                setLoading(false)
+            }
+        }
+
+        fetchData()
+    }, [isEdit, toast])
+
+    // The first delivery sets the weekday, so only delivery days are offered
+    const startDateOptions = useMemo(() => {
+        const options = getUpcomingDeliveryDates(schedule, 8).map(toDateKey)
+        return startDate && !options.includes(startDate) ? [startDate, ...options] : options
+    }, [schedule, startDate])
+
+    useEffect(() => {
+        if (!startDate && startDateOptions.length > 0) {
+            setStartDate(startDateOptions[0])
+        }
+    }, [startDate, startDateOptions])
+
+    const upcomingDates = useMemo(() => {
+        if (!startDate) return []
+        return getStandingOrderDates({ frequency, startDate, endDate: endDate || null }, schedule, SKIP_DATE_OPTIONS)
+    }, [frequency, startDate, endDate, schedule])
+
+    // Dishes that left the menu stay selectable on lines that already have them
+    const dishOptions = [
+        ...dishes,
+        ...items
+            .filter(item => item.dishId && !dishes.some(d => d.id === item.dishId))
+            .map(item => ({ id: item.dishId, name: item.dishName || item.dishId, price: 0, isAvailable: false } as Dish))
+    ]
+
+    const updateItem = (index: number, changes: Partial<LineInput>) => {
+        setItems(items.map((item, i) => i === index ? { ...item, ...changes } : item))
+    }
+
+    const toggleSkipDate = (dateKey: string, skip: boolean) => {
+        setSkipDates(skip ? [...skipDates, dateKey] : skipDates.filter(date => date !== dateKey))
+    }
+
+    const handleCustomerChange = (id: string) => {
+        setCustomerId(id)
+        const customer = customers.find(c => c.id === id)
+        if (customer?.address && !deliveryAddress) {
+            setDeliveryAddress(customer.address)
+        }
+    }
+
+    const handleSave = async () => {
+        if (!customerId || items.some(item => !item.dishId) || !startDate) {
+            toast({
+                title: 'שגיאה',
+                description: 'יש לבחור לקוח, תאריך התחלה ומנה בכל שורה',
+                variant: 'destructive'
+            })
+            return
+        }
+
+        setSaving(true)
+        try {
+            const body = {
+                ...(!isEdit && { customerId }),
+                items: items.map(item => ({
+                    dishId: item.dishId,
+                    quantity: item.quantity,
+                    discount: item.discount || null,
+                    notes: item.notes || ''
+                })),
+                frequency,
+                startDate,
+                endDate: endDate || null,
+                // Past skip dates no longer matter
+                skipDates: skipDates.filter(date => date >= toDateKey(new Date())),
+                discount,
+                deliveryFee: deliveryFee === '' ? null : Math.max(0, Number(deliveryFee) || 0),
+                deliveryAddress: deliveryAddress || null,
+                notes: notes || null
+            }
+
+            const response = await fetchWithAuth(
+                isEdit ? `/api/standing-orders/${standingOrder.id}` : '/api/standing-orders',
+                {
+                    method: isEdit ? 'PUT' : 'POST',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify(body)
+                }
+            )
+
+            if (!response.ok) {
+                const error = await response.json().catch(() => ({}))
+                throw new Error(error.error || 'שמירת ההזמנה הקבועה נכשלה')
+            }
+
+            toast({
+                title: 'נשמר',
+                description: isEdit ? 'ההזמנה הקבועה עודכנה' : 'ההזמנה הקבועה נוצרה'
+            })
+            router.push('/orders/standing')
+        } catch (error) {
+            toast({
+                title: 'שגיאה',
+                description: error instanceof Error ? error.message : 'שמירת ההזמנה הקבועה נכשלה',
+                variant: 'destructive'
+            })
+        } finally {
+            setSaving(false)
+        }
+    }
+
+    if (loading) return <LoadingSpinner />
+
+    return (
+        <div className="space-y-6" dir="rtl">
+            <Card>
+                <CardHeader>
+                    <CardTitle>לקוח ומועדים</CardTitle>
+                    <CardDescription>
+                        המשלוחים יוצאים ביום השבוע של תאריך ההתחלה, לפי התדירות שנבחרה
+                    </CardDescription>
+                </CardHeader>
+                <CardContent className="grid gap-4 md:grid-cols-2">
+                    <div className="space-y-2">
+                        <Label>לקוח *</Label>
+                        {isEdit ? (
+                            <Input value={standingOrder.customerName} disabled />
+                        ) : (
+                            <Select value={customerId} onValueChange={handleCustomerChange}>
+                                <SelectTrigger>
+                                    <SelectValue placeholder="בחר לקוח" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {customers.map(customer => (
+                                        <SelectItem key={customer.id} value={customer.id}>
+                                            {customer.name}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        )}
+                    </div>
+                    <div className="space-y-2">
+                        <Label>תדירות</Label>
+                        <Select value={frequency} onValueChange={(value) => setFrequency(value as StandingOrderFrequency)}>
+                            <SelectTrigger>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {Object.entries(STANDING_ORDER_FREQUENCY_LABELS).map(([value, label]) => (
+                                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-2">
+                        <Label>משלוח ראשון *</Label>
+                        <Select value={startDate} onValueChange={setStartDate}>
+                            <SelectTrigger>
+                                <SelectValue placeholder="בחר יום משלוח" />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {startDateOptions.map(dateKey => (
+                                    <SelectItem key={dateKey} value={dateKey}>
+                                        {formatDateKey(dateKey)}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-2">
+                        <Label>עד תאריך (לא חובה)</Label>
+                        <Input
+                            type="date"
+                            value={endDate}
+                            min={startDate}
+                            onChange={(e) => setEndDate(e.target.value)}
+                        />
+                    </div>
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>מנות</CardTitle>
+                    <CardDescription>המחירים נקבעים לפי המחירון ביום יצירת כל הזמנה</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                    {items.map((item, index) => (
+                        <div key={index} className="grid gap-3 md:grid-cols-12 items-end p-3 border rounded-lg">
+                            <div className="md:col-span-5 space-y-1">
+                                <Label>מנה</Label>
+                                <DishSelect
+                                    dishes={dishOptions}
+                                    value={item.dishId}
+                                    onValueChange={(dishId) => updateItem(index, { dishId })}
+                                />
+                            </div>
+                            <div className="md:col-span-2 space-y-1">
+                                <Label>כמות</Label>
+                                <Input
+                                    type="number"
+                                    min="1"
+                                    value={item.quantity}
+                                    onChange={(e) => updateItem(index, { quantity: parseInt(e.target.value) || 1 })}
+                                    className="text-center"
+                                />
+                            </div>
+                            <div className="md:col-span-4 space-y-1">
+                                <Label>הערות</Label>
+                                <Input
+                                    value={item.notes || ''}
+                                    onChange={(e) => updateItem(index, { notes: e.target.value })}
+                                    placeholder="הערות למנה"
+                                />
+                            </div>
+                            <div className="md:col-span-1">
+                                <Button
+                                    type="button"
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => setItems(items.filter((_, i) => i !== index))}
+                                    disabled={items.length === 1}
+                                >
+                                    <Trash2 className="h-4 w-4" />
+                                </Button>
+                            </div>
+                        </div>
+                    ))}
+                    <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        className="w-full"
+                        onClick={() => setItems([...items, { dishId: '', quantity: 1, notes: '' }])}
+                    >
+                        <Plus className="h-4 w-4 ml-2" />
+                        הוסף מנה
+                    </Button>
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>דילוג על משלוחים</CardTitle>
+                    <CardDescription>סמן משלוחים שהלקוח לא צריך</CardDescription>
+                </CardHeader>
+                <CardContent>
+                    {upcomingDates.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">אין משלוחים קרובים</p>
+                    ) : (
+                        <div className="grid gap-2 md:grid-cols-2">
+                            {upcomingDates.map(dateKey => (
+                                <label key={dateKey} className="flex items-center gap-2 text-sm">
+                                    <Checkbox
+                                        checked={skipDates.includes(dateKey)}
+                                        onCheckedChange={(checked) => toggleSkipDate(dateKey, checked === true)}
+                                    />
+                                    {formatDateKey(dateKey)}
+                                </label>
+                            ))}
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle>משלוח ותשלום</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="space-y-2">
+                        <Label>כתובת משלוח</Label>
+                        <Input
+                            value={deliveryAddress}
+                            onChange={(e) => setDeliveryAddress(e.target.value)}
+                            placeholder="ברירת מחדל: כתובת הלקוח"
+                        />
+                    </div>
+                    <div className="flex flex-wrap gap-6">
+                        <div className="space-y-2">
+                            <Label>הנחה להזמנה</Label>
+                            <PriceAdjustmentInput value={discount} onChange={setDiscount} />
+                        </div>
+                        <div className="space-y-2">
+                            <Label>דמי משלוח</Label>
+                            <Input
+                                type="number"
+                                min={0}
+                                step={0.5}
+                                value={deliveryFee}
+                                onChange={(e) => setDeliveryFee(e.target.value)}
+                                placeholder="ברירת מחדל"
+                                className="w-28 text-center"
+                            />
+                        </div>
+                    </div>
+                    <div className="space-y-2">
+                        <Label>הערות</Label>
+                        <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} />
+                    </div>
+                </CardContent>
+                <CardFooter className="flex gap-2">
+                    <Button variant="outline" onClick={() => router.push('/orders/standing')} disabled={saving}>
+                        ביטול
+                    </Button>
+                    <Button onClick={handleSave} disabled={saving} className="flex-1">
+                        {saving ? <Loader2 className="h-4 w-4 ml-2 animate-spin" /> : <Save className="h-4 w-4 ml-2" />}
+                        {isEdit ? 'שמור שינויים' : 'צור הזמנה קבועה'}
+                    </Button>
+                </CardFooter>
+            </Card>
+        </div>
+    )
+}
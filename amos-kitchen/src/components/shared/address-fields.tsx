@@ -0,0 +1,45 @@
+// src/components/shared/address-fields.tsx
+'use client'
+
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import type { AddressDraft } from '@/lib/utils/address'
+
+interface AddressFieldsProps {
+    value: AddressDraft
+    onChange: (value: AddressDraft) => void
+    disabled?: boolean
+    // Prefix for the input ids, when the form has more than one address
+    idPrefix?: string
+}
+
+const FIELDS: { key: keyof AddressDraft, label: string, placeholder?: string, className: string }[] = [
+    { key: 'city', label: 'עיר', className: 'col-span-6 sm:col-span-3' },
+    { key: 'street', label: 'רחוב', className: 'col-span-6 sm:col-span-3' },
+    { key: 'number', label: 'מספר', className: 'col-span-2' },
+    { key: 'floor', label: 'קומה', className: 'col-span-2' },
+    { key: 'apartment', label: 'דירה', className: 'col-span-2' },
+    { key: 'entryCode', label: 'קוד כניסה', className: 'col-span-6 sm:col-span-2' },
+    { key: 'notes', label: 'הערות להגעה', placeholder: 'למשל: כניסה מהחצר', className: 'col-span-6 sm:col-span-4' }
+]
+
+export function AddressFields({ value, onChange, disabled, idPrefix = 'address' }: AddressFieldsProps) {
+    return (
+        <div className="grid grid-cols-6 gap-2">
+            {FIELDS.map(field => (
+                <div key={field.key} className={`space-y-1 ${field.className}`}>
+                    <Label htmlFor={`${idPrefix}-${field.key}`} className="text-xs">
+                        {field.label}
+                    </Label>
+                    <Input
+                        id={`${idPrefix}-${field.key}`}
+                        value={value[field.key]}
+                        onChange={(e) => onChange({ ...value, [field.key]: e.target.value })}
+                        placeholder={field.placeholder}
+                        disabled={disabled}
+                    />
+                </div>
+            ))}
+        </div>
+    )
+}
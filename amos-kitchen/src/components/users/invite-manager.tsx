@@ -0,0 +1,248 @@
+// components/users/invite-manager.tsx
+'use client'
+
+import { useEffect, useState } from 'react'
+import { format } from 'date-fns'
+import { Copy, Loader2, Plus, XCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { deleteWithAuth, fetchWithAuth, postWithAuth } from '@/lib/api/fetch-with-auth'
+import { useToast } from '@/lib/hooks/use-toast'
+import { DEFAULT_INVITE_EXPIRY_DAYS, INVITE_EXPIRY_OPTIONS, INVITE_STATUS_LABELS } from '@/lib/utils/invites'
+import { ROLE_LABELS, USER_ROLES, type UserRole } from '@/lib/utils/roles'
+import type { Invite, InviteStatus } from '@/lib/types/firestore'
+
+type InviteRow = Omit<Invite, 'createdAt' | 'expiresAt'> & {
+    createdAt: string
+    expiresAt: string
+    status: InviteStatus
+}
+
+const statusVariants: Record<InviteStatus, 'default' | 'secondary' | 'outline' | 'destructive'> = {
+    PENDING: 'default',
+    USED: 'secondary',
+    REVOKED: 'outline',
+    EXPIRED: 'outline'
+}
+
+export function InviteManager() {
+    const { toast } = useToast()
+    const [invites, setInvites] = useState<InviteRow[]>([])
+    const [isLoading, setIsLoading] = useState(true)
+    const [role, setRole] = useState<UserRole>('KITCHEN')
+    const [email, setEmail] = useState('')
+    const [expiresInDays, setExpiresInDays] = useState(DEFAULT_INVITE_EXPIRY_DAYS)
+    const [isCreating, setIsCreating] = useState(false)
+    const [createdLink, setCreatedLink] = useState<string | null>(null)
+
+    useEffect(() => {
+        const fetchInvites = async () => {
+            try {
+                const response = await fetchWithAuth('/api/invites')
+                if (!response.ok) throw new Error('Failed to fetch invites')
+                setInvites(await response.json())
+            } catch (error) {
+                console.error('Error fetching invites:', error)
+                toast({
+                    title: 'שגיאה',
+                    description: 'לא ניתן לטעון את ההזמנות',
+                    variant: 'destructive'
+                })
+            } finally {
+                setIsLoading(false)
+            }
+        }
+
+        fetchInvites()
+    }, [toast])
+
+    const copyLink = async (link: string) => {
+        try {
+            await navigator.clipboard.writeText(link)
+            toast({ title: 'הקישור הועתק' })
+        } catch {
+            toast({ title: 'לא ניתן להעתיק, העתיקו את הקישור ידנית', variant: 'destructive' })
+        }
+    }
+
+    const handleCreate = async () => {
+        setIsCreating(true)
+        try {
+            const response = await postWithAuth('/api/invites', {
+                role,
+                email: email.trim() || null,
+                expiresInDays
+            })
+
+            if (!response.ok) {
+                const error = await response.json()
+                throw new Error(error.details?.[0]?.message || error.error || 'Failed to create invite')
+            }
+
+            const { invite, url } = await response.json()
+            setInvites(prev => [invite, ...prev])
+            setCreatedLink(url)
+            setEmail('')
+            await copyLink(url)
+        } catch (error) {
+            toast({
+                title: 'שגיאה ביצירת ההזמנה',
+                description: error instanceof Error ? error.message : 'לא ניתן ליצור הזמנה',
+                variant: 'destructive'
+            })
+        } finally {
+            setIsCreating(false)
+        }
+    }
+
+    const handleRevoke = async (id: string) => {
+        try {
+            const response = await deleteWithAuth(`/api/invites/${id}`)
+            if (!response.ok) throw new Error('Failed to revoke invite')
+
+            setInvites(prev => prev.map(invite =>
+                invite.id === id ? { ...invite, status: 'REVOKED' } : invite
+            ))
+            toast({ title: 'ההזמנה בוטלה' })
+        } catch {
+            toast({
+                title: 'שגיאה',
+                description: 'לא ניתן לבטל את ההזמנה',
+                variant: 'destructive'
+            })
+        }
+    }
+
+    return (
+        <Card>
+            <CardHeader>
+                <CardTitle>הזמנות לצוות</CardTitle>
+                <CardDescription>
+                    ההרשמה למערכת אפשרית רק דרך קישור הזמנה. כל קישור מיועד לשימוש אחד ופג לאחר הזמן שנבחר
+                </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+                {/* New invite */}
+                <div className="flex flex-wrap items-end gap-4">
+                    <div className="space-y-1">
+                        <Label>תפקיד</Label>
+                        <Select value={role} onValueChange={(value) => setRole(value as UserRole)}>
+                            <SelectTrigger className="w-56 text-right">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {USER_ROLES.map(option => (
+                                    <SelectItem key={option} value={option} className="text-right">
+                                        {ROLE_LABELS[option]}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <div className="space-y-1">
+                        <Label htmlFor="invite-email">אימייל (רשות)</Label>
+                        <Input
+                            id="invite-email"
+                            type="email"
+                            placeholder="מוגבל לכתובת זו"
+                            value={email}
+                            onChange={(e) => setEmail(e.target.value)}
+                            className="w-64"
+                            dir="ltr"
+                        />
+                    </div>
+                    <div className="space-y-1">
+                        <Label>תוקף</Label>
+                        <Select
+                            value={String(expiresInDays)}
+                            onValueChange={(value) => setExpiresInDays(parseInt(value, 10))}
+                        >
+                            <SelectTrigger className="w-32 text-right">
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {INVITE_EXPIRY_OPTIONS.map(days => (
+                                    <SelectItem key={days} value={String(days)} className="text-right">
+                                        {days === 1 ? 'יום אחד' : `${days} ימים`}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    </div>
+                    <Button onClick={handleCreate} disabled={isCreating}>
+                        {isCreating
+                            ? <Loader2 className="h-4 w-4 ml-2 animate-spin" />
+                            : <Plus className="h-4 w-4 ml-2" />}
+                        יצירת קישור
+                    </Button>
+                </div>
+
+                {createdLink && (
+                    <div className="space-y-2 rounded-md border bg-muted/40 p-4">
+                        <p className="text-sm font-medium">
+                            הקישור מוצג פעם אחת בלבד. שלחו אותו לחבר הצוות:
+                        </p>
+                        <div className="flex gap-2">
+                            <Input value={createdLink} readOnly dir="ltr" />
+                            <Button variant="outline" size="icon" onClick={() => copyLink(createdLink)}>
+                                <Copy className="h-4 w-4" />
+                            </Button>
+                        </div>
+                    </div>
+                )}
+
+                {/* Existing invites */}
+                {isLoading ? (
+                    <div className="flex justify-center py-4">
+                        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+                    </div>
+                ) : invites.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">עדיין לא נוצרו הזמנות</p>
+                ) : (
+                    <Table>
+                        <TableHeader>
+                            <TableRow>
+                                <TableHead className="text-right">תפקיד</TableHead>
+                                <TableHead className="text-right">אימייל</TableHead>
+                                <TableHead className="text-right">נוצרה</TableHead>
+                                <TableHead className="text-right">בתוקף עד</TableHead>
+                                <TableHead className="text-right">סטטוס</TableHead>
+                                <TableHead />
+                            </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                            {invites.map(invite => (
+                                <TableRow key={invite.id}>
+                                    <TableCell>{ROLE_LABELS[invite.role]}</TableCell>
+                                    <TableCell dir="ltr" className="text-right">
+                                        {invite.usedEmail || invite.email || '-'}
+                                    </TableCell>
+                                    <TableCell>{format(new Date(invite.createdAt), 'dd/MM/yyyy HH:mm')}</TableCell>
+                                    <TableCell>{format(new Date(invite.expiresAt), 'dd/MM/yyyy HH:mm')}</TableCell>
+                                    <TableCell>
+                                        <Badge variant={statusVariants[invite.status]}>
+                                            {INVITE_STATUS_LABELS[invite.status]}
+                                        </Badge>
+                                    </TableCell>
+                                    <TableCell>
+                                        {invite.status === 'PENDING' && (
+                                            <Button variant="ghost" size="sm" onClick={() => handleRevoke(invite.id)}>
+                                                <XCircle className="h-4 w-4 ml-1" />
+                                                ביטול
+                                            </Button>
+                                        )}
+                                    </TableCell>
+                                </TableRow>
+                            ))}
+                        </TableBody>
+                    </Table>
+                )}
+            </CardContent>
+        </Card>
+    )
+}
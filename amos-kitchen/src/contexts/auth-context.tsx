@@ -4,10 +4,12 @@ import { createContext, useContext, useEffect, useState, useRef } from "react";
 import { User } from "firebase/auth";
 import { onAuthStateChange, logOut as firebaseLogOut } from "@/lib/firebase/auth";
 import { useRouter } from "next/navigation";
+import { isUserRole, type UserRole } from "@/lib/utils/roles";
 
 interface AuthContextType {
   user: User | null;
   loading: boolean;
+  role: UserRole | null;
   signOut: () => Promise<void>;
   refreshToken: () => Promise<void>;
 }
@@ -15,6 +17,7 @@ interface AuthContextType {
 const AuthContext = createContext<AuthContextType>({
   user: null,
   loading: true,
+  role: null,
   signOut: async () => {},
   refreshToken: async () => {},
 });
@@ -30,9 +33,24 @@ export const useAuth = () => {
 export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const [role, setRole] = useState<UserRole | null>(null);
   const router = useRouter();
   const refreshIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
+  // The server resolves the role from the token cookie (including OWNER_EMAILS)
+  const loadRole = async () => {
+    try {
+      const response = await fetch('/api/auth/verify', {
+        method: 'POST',
+        credentials: 'include',
+      });
+      const data = await response.json();
+      setRole(isUserRole(data.user?.role) ? data.user.role : null);
+    } catch (error) {
+      console.error('Error loading user role:', error);
+    }
+  };
+
   const refreshToken = async () => {
     try {
       if (!user) {
@@ -64,6 +82,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
         }
       } else {
         console.log('Token refreshed successfully');
+        await loadRole();
       }
     } catch (error) {
       console.error('Error refreshing token:', error);
@@ -74,7 +93,12 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   useEffect(() => {
     const unsubscribe = onAuthStateChange(async (firebaseUser) => {
       setUser(firebaseUser);
-      setLoading(false);
+
+      // Wait for the role before rendering, so the sidebar doesn't flash
+      if (!firebaseUser) {
+        setRole(null);
+        setLoading(false);
+      }
 
       // Clear any existing refresh interval
       if (refreshIntervalRef.current) {
@@ -109,6 +133,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
               }
             } else {
               console.log('Token refreshed successfully');
+              await loadRole();
             }
           } catch (error) {
             console.error('Error refreshing token:', error);
@@ -118,6 +143,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
 
         // Refresh token immediately to sync cookie
         await doRefresh();
+        setLoading(false);
 
         // Set up interval to refresh token every 50 minutes
         // (Firebase tokens expire after 1 hour)
@@ -163,6 +189,7 @@ export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
   const value = {
     user,
     loading,
+    role,
     signOut,
     refreshToken,
   };
@@ -1,8 +1,9 @@
 'use server';
 
 import { revalidatePath } from 'next/cache';
-import { getTodayOrders, getOrdersForNextDeliveryDay, updateOrderStatus as updateOrderFirestore, addOrderHistory } from '@/lib/firebase/dao/orders';
+import { getTodayOrders, getOrdersForNextDeliveryDay, updateOrderStatus as updateOrderFirestore } from '@/lib/firebase/dao/orders';
 import { getDishesByIds } from '@/lib/firebase/dao/dishes';
+import { OrderStatusTransitionError } from '@/lib/utils/order-status';
 import type { OrderStatus } from '@/lib/types/database';
 
 export async function getOrdersForToday() {
@@ -109,60 +110,51 @@ export async function getOrdersForNextDelivery() {
     }
 }
 
-export async function updateOrderStatus(orderId: string, newStatus: OrderStatus) {
+export async function updateOrderStatus(orderId: string, newStatus: OrderStatus, reason?: string) {
     try {
-        // Update order status in Firestore
-        await updateOrderFirestore(orderId, newStatus, 'kitchen-staff');
-
-        // Create history entry
-        await addOrderHistory(orderId, {
-            action: 'STATUS_CHANGED',
-            details: {
-                newStatus: newStatus,
-                changedBy: 'Kitchen Staff',
-                timestamp: new Date().toISOString()
-            }
-        });
+        // The DAO enforces the transition rules and records the history entry
+        await updateOrderFirestore(orderId, newStatus, 'kitchen-staff', { statusReason: reason });
 
         revalidatePath('/kitchen');
         revalidatePath('/orders');
 
         return { success: true };
     } catch (error) {
+        if (error instanceof OrderStatusTransitionError) {
+            return { success: false, error: error.message };
+        }
         console.error('Failed to update order status:', error);
         return { success: false, error: 'Failed to update order status' };
     }
 }
 
-export async function bulkUpdateOrderStatus(orderIds: string[], newStatus: OrderStatus) {
-    try {
-        // Update each order and create history entries
-        const updatePromises = orderIds.map(async (orderId) => {
-            // Update order status
-            await updateOrderFirestore(orderId, newStatus, 'kitchen-staff');
-
-            // Create history entry
-            await addOrderHistory(orderId, {
-                action: 'STATUS_CHANGED',
-                details: {
-                    newStatus: newStatus,
-                    notes: `Bulk status change to ${newStatus}`,
-                    changedBy: 'Kitchen Staff',
-                    bulkUpdate: true,
-                    totalOrders: orderIds.length,
-                    timestamp: new Date().toISOString()
-                }
-            });
+// Orders whose current status doesn't allow the change are skipped and reported back
+export async function bulkUpdateOrderStatus(orderIds: string[], newStatus: OrderStatus, reason?: string) {
+    const results = await Promise.allSettled(
+        orderIds.map(orderId => updateOrderFirestore(orderId, newStatus, 'kitchen-staff', { statusReason: reason }))
+    );
+
+    const updated: string[] = [];
+    const failed: { orderId: string; error: string }[] = [];
+    results.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+            updated.push(orderIds[index]);
+            return;
+        }
+        const error = result.reason;
+        if (!(error instanceof OrderStatusTransitionError)) {
+            console.error(`Failed to update order ${orderIds[index]} status:`, error);
+        }
+        failed.push({
+            orderId: orderIds[index],
+            error: error instanceof OrderStatusTransitionError ? error.message : 'Failed to update order'
         });
+    });
 
-        await Promise.all(updatePromises);
-
+    if (updated.length > 0) {
         revalidatePath('/kitchen');
         revalidatePath('/orders');
-
-        return { success: true };
-    } catch (error) {
-        console.error('Failed to bulk update order status:', error);
-        return { success: false, error: 'Failed to update orders' };
     }
+
+    return { success: failed.length === 0, updated, failed };
 }
@@ -1,6 +1,7 @@
 // lib/api/auth-middleware.ts
 import { NextRequest, NextResponse } from 'next/server'
 import { verifyIdToken } from '@/lib/firebase/admin'
+import { getRoleFromClaims, hasPermission, type Permission } from '@/lib/utils/roles'
 
 export async function verifyAuth(request: NextRequest) {
     const token = request.cookies.get('firebase-auth-token')?.value
@@ -30,7 +31,8 @@ export async function verifyAuth(request: NextRequest) {
 
         return {
             authenticated: true,
-            user: decodedToken
+            user: decodedToken,
+            role: getRoleFromClaims(decodedToken)
         }
     } catch (error) {
         console.error('Auth verification error:', error)
@@ -42,4 +44,26 @@ export async function verifyAuth(request: NextRequest) {
             )
         }
     }
-}
\ No newline at end of file
+}
+
+// Verify the token and that the user's role grants the permission
+export async function requirePermission(request: NextRequest, permission: Permission) {
+    const auth = await verifyAuth(request)
+    if (!auth.authenticated) {
+        return auth
+    }
+
+    if (!hasPermission(auth.role, permission)) {
+        return {
+            authenticated: false,
+            user: auth.user,
+            role: auth.role,
+            response: NextResponse.json(
+                { error: 'Forbidden - Insufficient permissions' },
+                { status: 403 }
+            )
+        }
+    }
+
+    return auth
+}
@@ -1,10 +1,20 @@
 // lib/api/customers.ts
 import { useState, useEffect, useCallback } from 'react'
+import { fetchWithAuth } from '@/lib/api/fetch-with-auth'
+import { usePagination } from '@/lib/hooks/use-pagination'
 import { Customer, CustomerPreference, CreateCustomerInput, UpdateCustomerInput } from '@/lib/types/database'
+import type { PageInfo } from '@/lib/utils/pagination'
+
+export interface CustomerListParams {
+  search?: string
+  sort?: 'newest' | 'name'
+  limit?: number
+  cursor?: string | null
+}
 
 // Base API function with error handling
 async function apiRequest<T>(url: string, options?: RequestInit): Promise<T> {
-  const response = await fetch(url, {
+  const response = await fetchWithAuth(url, {
     ...options,
     headers: {
       'Content-Type': 'application/json',
@@ -22,12 +32,18 @@ async function apiRequest<T>(url: string, options?: RequestInit): Promise<T> {
 
 // Customer API functions
 export const customersApi = {
-  // Get all customers with preferences
-  async getAll(search?: string) {
+  // One page of customers with preferences; pass back pagination.nextCursor or prevCursor
+  // to move through the list
+  async list({ search, sort, limit, cursor }: CustomerListParams = {}) {
     const params = new URLSearchParams()
     if (search) params.append('search', search)
-    
-    return apiRequest<Customer[]>(`/api/customers${params.toString() ? `?${params}` : ''}`)
+    if (sort) params.append('sort', sort)
+    if (limit) params.append('limit', limit.toString())
+    if (cursor) params.append('cursor', cursor)
+
+    return apiRequest<{ customers: Customer[], pagination: PageInfo }>(
+      `/api/customers${params.toString() ? `?${params}` : ''}`
+    )
   },
 
   // Get single customer with preferences and stats
@@ -94,30 +110,22 @@ export const customersApi = {
   },
 }
 
-// React hooks for customer data
-export function useCustomers(search?: string) {
-  const [customers, setCustomers] = useState<Customer[]>([])
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-
-  const fetchCustomers = useCallback(async () => {
-    try {
-      setLoading(true)
-      const data = await customersApi.getAll(search)
-      setCustomers(data)
-      setError(null)
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Failed to fetch customers')
-    } finally {
-      setLoading(false)
-    }
-  }, [search])
-
-  useEffect(() => {
-    fetchCustomers()
-  }, [fetchCustomers])
-
-  return { customers, loading, error, refetch: fetchCustomers }
+// React hooks for customer data. Pages through the list: loadMore appends the next page,
+// nextPage and previousPage replace it. A new search or sort starts from the first page.
+export function useCustomers({ search, sort, limit }: Omit<CustomerListParams, 'cursor'> = {}) {
+  const fetchPage = useCallback(async (cursor: string | null) => {
+    const { customers, pagination } = await customersApi.list({ search, sort, limit, cursor })
+    return { items: customers, pagination }
+  }, [search, sort, limit])
+
+  const { items, error, isLoading, ...page } = usePagination(fetchPage)
+
+  return {
+    ...page,
+    customers: items || [],
+    loading: isLoading,
+    error: error ? error.message : null
+  }
 }
 
 export function useCustomer(id: string) {
@@ -2,6 +2,7 @@
 import { initializeApp, getApps, cert, getApp } from 'firebase-admin/app'
 import { getAuth } from 'firebase-admin/auth'
 import { getFirestore } from 'firebase-admin/firestore'
+import { getRoleFromClaims, type UserRole } from '@/lib/utils/roles'
 
 const firebaseAdminConfig = {
   credential: cert({
@@ -18,10 +19,10 @@ const adminApp = getApps().length === 0 ? initializeApp(firebaseAdminConfig) : g
 export const adminAuth = getAuth(adminApp)
 export const adminDb = getFirestore(adminApp)
 
-// Helper function to verify ID token
+// Helper function to verify ID token; tokens of users whose access was removed are rejected
 export async function verifyIdToken(token: string) {
   try {
-    const decodedToken = await adminAuth.verifyIdToken(token)
+    const decodedToken = await adminAuth.verifyIdToken(token, true)
     return decodedToken
   } catch (error) {
     console.error('Error verifying ID token:', error)
@@ -51,4 +52,53 @@ export async function createCustomToken(uid: string) {
   }
 }
 
+// Helper function to set a user's role custom claim (null removes it)
+// Other custom claims are kept; the user's next token refresh picks the change up. Removing the
+// role also revokes the user's sessions, so tokens they already hold stop working.
+export async function setUserRole(uid: string, role: UserRole | null) {
+  const user = await adminAuth.getUser(uid)
+  const claims = { ...(user.customClaims || {}) }
+  if (role) {
+    claims.role = role
+  } else {
+    delete claims.role
+  }
+  await adminAuth.setCustomUserClaims(uid, claims)
+  if (!role) {
+    await adminAuth.revokeRefreshTokens(uid)
+  }
+}
+
+// Helper function to list all users with their roles
+export async function listUsersWithRoles() {
+  const users: {
+    uid: string
+    email: string | null
+    displayName: string | null
+    role: UserRole | null
+    disabled: boolean
+    createdAt: string
+    lastSignInAt: string | null
+  }[] = []
+
+  let pageToken: string | undefined
+  do {
+    const result = await adminAuth.listUsers(1000, pageToken)
+    result.users.forEach(user => {
+      users.push({
+        uid: user.uid,
+        email: user.email || null,
+        displayName: user.displayName || null,
+        role: getRoleFromClaims({ role: user.customClaims?.role, email: user.email, email_verified: user.emailVerified }),
+        disabled: user.disabled,
+        createdAt: user.metadata.creationTime,
+        lastSignInAt: user.metadata.lastSignInTime || null
+      })
+    })
+    pageToken = result.pageToken
+  } while (pageToken)
+
+  return users
+}
+
 export default adminApp
\ No newline at end of file
@@ -9,9 +9,7 @@ import {
   where,
   orderBy,
   limit,
-  startAfter,
   DocumentSnapshot,
-  QueryConstraint,
   writeBatch,
   collection,
   doc,
@@ -21,23 +19,34 @@ import {
   customersCollection,
   customerPreferencesCollection,
   getCustomerDoc,
+  getSearchIndexDoc,
   getServerTimestamp,
   dateToTimestamp,
   timestampToDate
 } from '../firestore'
 import { db } from '../config'
 import type { Customer, CustomerPreference, CustomerDoc, CustomerPreferenceDoc } from '@/lib/types/firestore'
+import { resolveAddressFields } from '@/lib/utils/address'
+import { paginateInMemory, type PageInfo, type PageRequest, type SortOption } from '@/lib/utils/pagination'
+import { paginateQuery } from '../pagination'
+import { customerSearchEntry, indexCustomer, removeFromSearchIndex, searchIndex } from './search-index'
 
 // Create a new customer
 export async function createCustomer(data: Omit<Customer, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
   try {
     const customerData: CustomerDoc = {
       ...data,
+      ...resolveAddressFields(data),
       createdAt: getServerTimestamp(),
       updatedAt: getServerTimestamp()
     }
 
-    const docRef = await addDoc(customersCollection, customerData)
+    // The customer and its search entry are written together
+    const docRef = doc(customersCollection)
+    const batch = writeBatch(db)
+    batch.set(docRef, customerData as any)
+    batch.set(getSearchIndexDoc('CUSTOMER', docRef.id), customerSearchEntry(docRef.id, data) as any)
+    await batch.commit()
 
     return docRef.id
   } catch (error) {
@@ -85,53 +94,63 @@ export async function getCustomerByPhone(phone: string): Promise<Customer | null
   }
 }
 
-// Get all customers with filters
+// The orders a customer list can be sorted in
+export const CUSTOMER_SORTS: Record<string, SortOption> = {
+  newest: { field: 'createdAt', direction: 'desc' },
+  name: { field: 'name', direction: 'asc' }
+}
+export const DEFAULT_CUSTOMER_SORT = 'newest'
+
+function snapshotToCustomer(docSnap: DocumentSnapshot): Customer {
+  const data = docSnap.data() as any
+  return {
+    id: docSnap.id,
+    ...data,
+    // Convert Firestore Timestamps to Dates
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
+    updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : new Date()
+  }
+}
+
+// One page of customers. A search goes through the search index, covers every customer and
+// is ranked by match; otherwise the page follows the requested sort.
 export async function getCustomers(
-  searchTerm?: string,
-  pageSize: number = 10,
-  lastDoc?: DocumentSnapshot
-): Promise<{ customers: Customer[], lastDoc: DocumentSnapshot | null, total: number }> {
-  const constraints: QueryConstraint[] = [orderBy('createdAt', 'desc'), limit(pageSize)]
-
-  if (lastDoc) {
-    constraints.push(startAfter(lastDoc))
+  searchTerm: string | undefined,
+  page: PageRequest
+): Promise<{ customers: Customer[], pagination: PageInfo }> {
+  if (searchTerm?.trim()) {
+    const hits = await searchIndex('CUSTOMER', searchTerm)
+    const { items, pageInfo } = paginateInMemory(hits, page)
+    const customers = await Promise.all(items.map(hit => getCustomerById(hit.entityId)))
+
+    return {
+      customers: customers.filter((customer): customer is Customer => customer !== null),
+      pagination: pageInfo
+    }
   }
 
-  // Note: Firestore doesn't support text search natively
-  // For production, consider using Algolia or Elasticsearch
-  // For now, we'll fetch all and filter client-side for search
-  const q = query(customersCollection, ...constraints)
-  const querySnapshot = await getDocs(q)
+  const sortOption = CUSTOMER_SORTS[page.sort] || CUSTOMER_SORTS[DEFAULT_CUSTOMER_SORT]
+  const { docs, pageInfo } = await paginateQuery(customersCollection, [], sortOption, page)
+
+  return { customers: docs.map(snapshotToCustomer), pagination: pageInfo }
+}
+
+// Get every customer (no pagination), for exports and bulk operations
+export async function getAllCustomers(): Promise<Customer[]> {
+  const querySnapshot = await getDocs(query(customersCollection, orderBy('name', 'asc')))
 
   const customers: Customer[] = []
   querySnapshot.forEach((doc) => {
     const data = doc.data()
-    const customer: Customer = {
+    customers.push({
       id: doc.id,
       ...data,
-      // Convert Firestore Timestamps to Dates
       createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
       updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : new Date()
-    }
-
-    // Client-side search filter
-    if (!searchTerm ||
-        customer.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        customer.phone.includes(searchTerm) ||
-        customer.email?.toLowerCase().includes(searchTerm.toLowerCase())) {
-      customers.push(customer)
-    }
+    })
   })
 
-  // Get total count
-  const countSnapshot = await getDocs(query(customersCollection))
-  const total = countSnapshot.size
-
-  return {
-    customers,
-    lastDoc: querySnapshot.docs[querySnapshot.docs.length - 1] || null,
-    total
-  }
+  return customers
 }
 
 // Update customer
@@ -140,6 +159,8 @@ export async function updateCustomer(id: string, data: Partial<Customer>): Promi
 
   const updateData = {
     ...data,
+    // A new address, as text or as parts, replaces both
+    ...((data.address !== undefined || data.structuredAddress !== undefined) && resolveAddressFields(data)),
     updatedAt: getServerTimestamp()
   }
 
@@ -147,6 +168,10 @@ export async function updateCustomer(id: string, data: Partial<Customer>): Promi
   delete updateData.id
 
   await updateDoc(docRef, updateData)
+
+  if (data.name !== undefined || data.phone !== undefined || data.email !== undefined) {
+    await indexCustomer(id)
+  }
 }
 
 // Delete customer
@@ -165,6 +190,7 @@ export async function deleteCustomer(id: string): Promise<void> {
 
   // Delete customer
   await deleteDoc(docRef)
+  await removeFromSearchIndex('CUSTOMER', id)
 }
 
 // Customer Preferences Functions
@@ -229,4 +255,50 @@ export async function isPhoneNumberTaken(phone: string, excludeId?: string): Pro
 
   const doc = querySnapshot.docs[0]
   return excludeId ? doc.id !== excludeId : true
-}
\ No newline at end of file
+}
+// Customers whose address couldn't be split into parts, by name
+export async function getCustomersWithAddressReview(): Promise<Customer[]> {
+  const querySnapshot = await getDocs(query(customersCollection, where('addressNeedsReview', '==', true)))
+
+  return querySnapshot.docs
+    .map(doc => {
+      const data = doc.data()
+      return {
+        id: doc.id,
+        ...data,
+        createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
+        updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : new Date()
+      }
+    })
+    .sort((a, b) => a.name.localeCompare(b.name, 'he'))
+}
+
+// Split the free-text addresses of customers that don't have parts yet. Addresses that can't
+// be parsed are flagged for review; running it again only retries those.
+export async function migrateCustomerAddresses(): Promise<{ migrated: number, needsReview: number }> {
+  const customers = await getAllCustomers()
+  const pending = customers.filter(customer => customer.address && !customer.structuredAddress)
+
+  let migrated = 0
+  let needsReview = 0
+  // Firestore batches are limited to 500 writes
+  for (let i = 0; i < pending.length; i += 500) {
+    const batch = writeBatch(db)
+    pending.slice(i, i + 500).forEach(customer => {
+      const resolved = resolveAddressFields({ address: customer.address })
+      if (resolved.structuredAddress) {
+        migrated++
+      } else {
+        needsReview++
+      }
+      batch.update(getCustomerDoc(customer.id!), {
+        structuredAddress: resolved.structuredAddress,
+        addressNeedsReview: resolved.addressNeedsReview,
+        updatedAt: getServerTimestamp()
+      })
+    })
+    await batch.commit()
+  }
+
+  return { migrated, needsReview }
+}
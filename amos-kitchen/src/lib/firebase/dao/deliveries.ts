@@ -0,0 +1,75 @@
+// lib/firebase/dao/deliveries.ts
+import { randomUUID } from 'crypto'
+import { getDoc, setDoc, Timestamp, type DocumentSnapshot } from 'firebase/firestore'
+import { getDeliveryPlanDoc, getServerTimestamp } from '../firestore'
+import { getCustomerById } from './customers'
+import { normalizeOrderStatus } from '@/lib/utils/order-status'
+import { formatAccessNotes } from '@/lib/utils/address'
+import { getAmountDue } from '@/lib/utils/payments'
+import { getDeliveryArea } from '@/lib/utils/delivery-routes'
+import type { DeliveryOrder, DeliveryPlan, Order } from '@/lib/types/firestore'
+import type { DeliveryPlanInput } from '@/lib/validators/delivery-route'
+
+function snapshotToDeliveryPlan(docSnap: DocumentSnapshot): DeliveryPlan {
+  const data = docSnap.data() || {}
+  return {
+    date: docSnap.id,
+    routes: data.routes || [],
+    updatedBy: data.updatedBy || null,
+    updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : new Date()
+  }
+}
+
+// Get the routes of a delivery date; a date nobody planned yet has none
+export async function getDeliveryPlan(dateKey: string): Promise<DeliveryPlan> {
+  const docSnap = await getDoc(getDeliveryPlanDoc(dateKey))
+  return docSnap.exists() ? snapshotToDeliveryPlan(docSnap) : { date: dateKey, routes: [] }
+}
+
+// Replace the routes of a delivery date
+export async function saveDeliveryPlan(dateKey: string, data: DeliveryPlanInput, userId?: string): Promise<void> {
+  await setDoc(getDeliveryPlanDoc(dateKey), {
+    date: dateKey,
+    routes: data.routes.map(route => ({
+      id: route.id || randomUUID(),
+      name: route.name,
+      driverName: route.driverName || null,
+      sortBy: route.sortBy,
+      stops: route.stops.map(stop => ({
+        orderId: stop.orderId,
+        windowStart: stop.windowStart ?? null,
+        windowEnd: stop.windowEnd ?? null
+      }))
+    })),
+    updatedBy: userId || null,
+    updatedAt: getServerTimestamp()
+  })
+}
+
+// The driver's view of orders: the delivery address falls back to the customer's address, and
+// the area is the delivery zone, else the city
+export async function getDeliveryOrders(orders: Order[]): Promise<DeliveryOrder[]> {
+  const customerIds = Array.from(new Set(orders.map(order => order.customerId)))
+  const customers = await Promise.all(customerIds.map(id => getCustomerById(id)))
+  const customerMap = new Map(customerIds.map((id, index) => [id, customers[index]]))
+
+  return orders.map(order => {
+    const customer = customerMap.get(order.customerId)
+    const address = order.deliveryAddress || customer?.address || null
+    // A delivery address typed on the order replaces the customer's parts
+    const details = order.deliveryAddressDetails ||
+      (!order.deliveryAddress || order.deliveryAddress === customer?.address ? customer?.structuredAddress : null)
+    return {
+      id: order.id!,
+      orderNumber: order.orderNumber,
+      customerName: order.customerData?.name || customer?.name || '',
+      phone: order.customerData?.phone || customer?.phone || '',
+      address,
+      area: order.deliveryZoneName || details?.city || getDeliveryArea(address),
+      accessNotes: formatAccessNotes(details),
+      amountDue: getAmountDue(order),
+      notes: order.notes || null,
+      status: normalizeOrderStatus(order.status)
+    }
+  })
+}
@@ -0,0 +1,65 @@
+// lib/firebase/dao/delivery-zones.ts
+import {
+  getDocs,
+  getDoc,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  query,
+  orderBy,
+  Timestamp,
+  type DocumentSnapshot
+} from 'firebase/firestore'
+import { deliveryZonesCollection, getDeliveryZoneDoc, getServerTimestamp } from '../firestore'
+import type { DeliveryZone } from '@/lib/types/firestore'
+import type { DeliveryZoneInput } from '@/lib/validators/delivery-zone'
+
+function snapshotToZone(docSnap: DocumentSnapshot): DeliveryZone & { id: string } {
+  const data = docSnap.data() || {}
+  return {
+    id: docSnap.id,
+    name: data.name || '',
+    cities: data.cities || [],
+    streets: data.streets || [],
+    deliveryFee: data.deliveryFee ?? 0,
+    minimumOrder: data.minimumOrder ?? null,
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
+    updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : new Date()
+  }
+}
+
+// Get all zones by name
+export async function getDeliveryZones(): Promise<(DeliveryZone & { id: string })[]> {
+  const snapshot = await getDocs(query(deliveryZonesCollection, orderBy('name', 'asc')))
+  return snapshot.docs.map(snapshotToZone)
+}
+
+// Get zone by ID
+export async function getDeliveryZoneById(id: string): Promise<(DeliveryZone & { id: string }) | null> {
+  const docSnap = await getDoc(getDeliveryZoneDoc(id))
+  return docSnap.exists() ? snapshotToZone(docSnap) : null
+}
+
+// Create a zone
+export async function createDeliveryZone(data: DeliveryZoneInput): Promise<string> {
+  const docRef = await addDoc(deliveryZonesCollection, {
+    ...data,
+    createdAt: getServerTimestamp(),
+    updatedAt: getServerTimestamp()
+  })
+
+  return docRef.id
+}
+
+// Update a zone; orders already placed keep the fee they were charged
+export async function updateDeliveryZone(id: string, data: DeliveryZoneInput): Promise<void> {
+  await updateDoc(getDeliveryZoneDoc(id), {
+    ...data,
+    updatedAt: getServerTimestamp()
+  })
+}
+
+// Delete zone
+export async function deleteDeliveryZone(id: string): Promise<void> {
+  await deleteDoc(getDeliveryZoneDoc(id))
+}
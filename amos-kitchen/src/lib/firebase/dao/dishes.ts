@@ -15,8 +15,12 @@ import {
 import {
   dishesCollection,
   getDishDoc,
+  getMenuDoc,
   getServerTimestamp
 } from '../firestore'
+import { applyMenu } from '@/lib/utils/menu'
+import { paginateInMemory, type PageInfo, type PageRequest, type SortOption } from '@/lib/utils/pagination'
+import { paginateQuery } from '../pagination'
 import type { Dish, DishDoc } from '@/lib/types/firestore'
 
 // Create a new dish
@@ -101,8 +105,58 @@ export async function getDishes(
   return dishes
 }
 
-// Get available dishes
-export async function getAvailableDishes(): Promise<Dish[]> {
+// The orders a dish list can be sorted in
+export const DISH_SORTS: Record<string, SortOption> = {
+  name: { field: 'name', direction: 'asc' },
+  priceAsc: { field: 'price', direction: 'asc' },
+  priceDesc: { field: 'price', direction: 'desc' },
+  newest: { field: 'createdAt', direction: 'desc' }
+}
+export const DEFAULT_DISH_SORT = 'name'
+
+// One page of dishes. A search reads every dish matching the other filters, since names and
+// descriptions can't be searched in Firestore; its pages are in name order.
+export async function getDishesPage(
+  filters: {
+    search?: string
+    category?: string
+    available?: boolean
+  },
+  page: PageRequest
+): Promise<{ dishes: Dish[], pagination: PageInfo }> {
+  if (filters.search?.trim()) {
+    const { items, pageInfo } = paginateInMemory(await getDishes(filters), page)
+    return { dishes: items, pagination: pageInfo }
+  }
+
+  const constraints: QueryConstraint[] = []
+  if (filters.category && filters.category !== 'all') {
+    constraints.push(where('category', '==', filters.category.toUpperCase()))
+  }
+  if (filters.available !== undefined) {
+    constraints.push(where('isAvailable', '==', filters.available))
+  }
+
+  const sortOption = DISH_SORTS[page.sort] || DISH_SORTS[DEFAULT_DISH_SORT]
+  const { docs, pageInfo } = await paginateQuery(dishesCollection, constraints, sortOption, page)
+
+  return {
+    dishes: docs.map(docSnap => {
+      const data = docSnap.data()
+      return {
+        id: docSnap.id,
+        ...data,
+        createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
+        updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : new Date()
+      }
+    }),
+    pagination: pageInfo
+  }
+}
+
+// Get available dishes. With a delivery date (yyyy-MM-dd) that has a menu, only the
+// dishes on that menu, at their special prices.
+export async function getAvailableDishes(deliveryDate?: string): Promise<Dish[]> {
   const q = query(
     dishesCollection,
     where('isAvailable', '==', true),
@@ -123,7 +177,12 @@ export async function getAvailableDishes(): Promise<Dish[]> {
     })
   })
 
-  return dishes
+  if (!deliveryDate) {
+    return dishes
+  }
+
+  const menuSnap = await getDoc(getMenuDoc(deliveryDate))
+  return applyMenu(dishes, menuSnap.exists() ? menuSnap.data() : null)
 }
 
 // Get dishes by category
@@ -0,0 +1,106 @@
+// lib/firebase/dao/invites.ts
+// Invites are read before the user has an account, so they go through the Admin SDK
+// and the Firestore rules keep the collection closed to clients
+import { createHash, randomBytes } from 'crypto'
+import { Timestamp, type DocumentSnapshot } from 'firebase-admin/firestore'
+import { adminDb } from '../admin'
+import { getInviteProblem, InviteError } from '@/lib/utils/invites'
+import type { UserRole } from '@/lib/utils/roles'
+import type { Invite } from '@/lib/types/firestore'
+
+const invitesCollection = adminDb.collection('invites')
+
+// Only the hash is stored, so a leaked database export doesn't leak usable links
+function hashInviteToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+function toDate(value: unknown): Date | null {
+  return value instanceof Timestamp ? value.toDate() : null
+}
+
+function docToInvite(docSnap: DocumentSnapshot): Invite {
+  const data = docSnap.data() || {}
+  return {
+    id: docSnap.id,
+    role: data.role,
+    email: data.email || null,
+    createdBy: data.createdBy || null,
+    createdAt: toDate(data.createdAt) || new Date(),
+    expiresAt: toDate(data.expiresAt) || new Date(0),
+    usedAt: toDate(data.usedAt),
+    usedBy: data.usedBy || null,
+    usedEmail: data.usedEmail || null,
+    revokedAt: toDate(data.revokedAt)
+  }
+}
+
+// Create an invite; the token is returned once and never stored
+export async function createInvite(
+  data: { role: UserRole, email?: string | null, expiresInDays: number },
+  createdBy?: string
+): Promise<{ invite: Invite, token: string }> {
+  const token = randomBytes(32).toString('base64url')
+  const inviteRef = invitesCollection.doc(hashInviteToken(token))
+  const now = new Date()
+
+  await inviteRef.set({
+    role: data.role,
+    email: data.email ? data.email.toLowerCase() : null,
+    createdBy: createdBy || null,
+    createdAt: Timestamp.fromDate(now),
+    expiresAt: Timestamp.fromMillis(now.getTime() + data.expiresInDays * 24 * 60 * 60 * 1000),
+    usedAt: null,
+    usedBy: null,
+    usedEmail: null,
+    revokedAt: null
+  })
+
+  return { invite: docToInvite(await inviteRef.get()), token }
+}
+
+// Get all invites, newest first
+export async function getInvites(): Promise<Invite[]> {
+  const snapshot = await invitesCollection.orderBy('createdAt', 'desc').get()
+  return snapshot.docs.map(docToInvite)
+}
+
+// Get the invite behind a link token
+export async function getInviteByToken(token: string): Promise<Invite | null> {
+  const docSnap = await invitesCollection.doc(hashInviteToken(token)).get()
+  return docSnap.exists ? docToInvite(docSnap) : null
+}
+
+// Revoke an invite that hasn't been used yet
+export async function revokeInvite(id: string): Promise<boolean> {
+  const inviteRef = invitesCollection.doc(id)
+  const docSnap = await inviteRef.get()
+  if (!docSnap.exists || docToInvite(docSnap).usedAt) {
+    return false
+  }
+
+  await inviteRef.update({ revokedAt: Timestamp.now() })
+  return true
+}
+
+// Mark the invite as used in a transaction, so the same link can't create two accounts
+export async function redeemInvite(token: string, userId: string, email: string): Promise<Invite> {
+  const inviteRef = invitesCollection.doc(hashInviteToken(token))
+
+  return adminDb.runTransaction(async (transaction) => {
+    const docSnap = await transaction.get(inviteRef)
+    if (!docSnap.exists) {
+      throw new InviteError('קישור ההזמנה אינו תקין')
+    }
+
+    const invite = docToInvite(docSnap)
+    const problem = getInviteProblem(invite, email)
+    if (problem) {
+      throw new InviteError(problem)
+    }
+
+    const usedAt = Timestamp.now()
+    transaction.update(inviteRef, { usedAt, usedBy: userId, usedEmail: email.toLowerCase() })
+    return { ...invite, usedAt: usedAt.toDate(), usedBy: userId, usedEmail: email.toLowerCase() }
+  })
+}
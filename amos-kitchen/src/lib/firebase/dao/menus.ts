@@ -0,0 +1,76 @@
+// lib/firebase/dao/menus.ts
+import {
+  getDocs,
+  getDoc,
+  setDoc,
+  deleteDoc,
+  query,
+  where,
+  orderBy,
+  Timestamp,
+  type DocumentSnapshot
+} from 'firebase/firestore'
+import { menusCollection, getMenuDoc, getServerTimestamp } from '../firestore'
+import { getDishesByIds } from './dishes'
+import type { Menu } from '@/lib/types/firestore'
+import type { MenuInput } from '@/lib/validators/menu'
+
+function snapshotToMenu(docSnap: DocumentSnapshot): Menu {
+  const data = docSnap.data() || {}
+  return {
+    date: docSnap.id,
+    items: data.items || [],
+    notes: data.notes || null,
+    createdBy: data.createdBy || null,
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
+    updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : new Date()
+  }
+}
+
+// Get the menu of a delivery date, null when none was planned
+export async function getMenu(dateKey: string): Promise<Menu | null> {
+  const docSnap = await getDoc(getMenuDoc(dateKey))
+  return docSnap.exists() ? snapshotToMenu(docSnap) : null
+}
+
+// Get the menus planned between two delivery dates (inclusive)
+export async function getMenus(fromKey: string, toKey: string): Promise<Menu[]> {
+  const snapshot = await getDocs(query(
+    menusCollection,
+    where('date', '>=', fromKey),
+    where('date', '<=', toKey),
+    orderBy('date', 'asc')
+  ))
+  return snapshot.docs.map(snapshotToMenu)
+}
+
+// Create or replace the menu of a delivery date
+export async function saveMenu(dateKey: string, data: MenuInput, userId?: string): Promise<void> {
+  const docRef = getMenuDoc(dateKey)
+  const [existing, dishes] = await Promise.all([
+    getDoc(docRef),
+    getDishesByIds(data.items.map(item => item.dishId))
+  ])
+  const dishMap = new Map(dishes.map(dish => [dish.id, dish]))
+
+  await setDoc(docRef, {
+    date: dateKey,
+    items: data.items
+      .filter(item => dishMap.has(item.dishId))
+      .map(item => ({
+        dishId: item.dishId,
+        dishName: dishMap.get(item.dishId)!.name,
+        specialPrice: item.specialPrice ?? null,
+        maxPortions: item.maxPortions ?? null
+      })),
+    notes: data.notes || null,
+    createdBy: existing.exists() ? existing.data().createdBy || null : userId || null,
+    createdAt: existing.exists() ? existing.data().createdAt : getServerTimestamp(),
+    updatedAt: getServerTimestamp()
+  })
+}
+
+// Delete a menu; the day goes back to every available dish
+export async function deleteMenu(dateKey: string): Promise<void> {
+  await deleteDoc(getMenuDoc(dateKey))
+}
@@ -0,0 +1,89 @@
+// lib/firebase/dao/order-templates.ts
+import {
+  getDocs,
+  getDoc,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  query,
+  orderBy,
+  Timestamp,
+  type DocumentSnapshot
+} from 'firebase/firestore'
+import { orderTemplatesCollection, getOrderTemplateDoc, getServerTimestamp } from '../firestore'
+import { getDishesByIds } from './dishes'
+import type { OrderTemplate, OrderTemplateItem } from '@/lib/types/firestore'
+
+export type OrderTemplateInput = Pick<OrderTemplate, 'name' | 'description'> & {
+  items: Omit<OrderTemplateItem, 'dishName'>[]
+}
+
+function snapshotToTemplate(docSnap: DocumentSnapshot): OrderTemplate & { id: string } {
+  const data = docSnap.data() || {}
+  return {
+    id: docSnap.id,
+    name: data.name || '',
+    description: data.description || null,
+    items: data.items || [],
+    createdBy: data.createdBy || null,
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
+    updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : new Date()
+  }
+}
+
+// Dish names are kept on the lines so a template still reads well after a dish leaves the menu
+async function nameItems(items: OrderTemplateInput['items']): Promise<OrderTemplateItem[]> {
+  const dishes = await getDishesByIds(Array.from(new Set(items.map(item => item.dishId))))
+  const dishMap = new Map(dishes.map(dish => [dish.id, dish]))
+  return items.map(item => ({
+    dishId: item.dishId,
+    dishName: dishMap.get(item.dishId)?.name || '',
+    quantity: item.quantity,
+    notes: item.notes || ''
+  }))
+}
+
+// Create a template
+export async function createOrderTemplate(data: OrderTemplateInput, userId?: string): Promise<string> {
+  const docRef = await addDoc(orderTemplatesCollection, {
+    name: data.name.trim(),
+    description: data.description || null,
+    items: await nameItems(data.items),
+    createdBy: userId || null,
+    createdAt: getServerTimestamp(),
+    updatedAt: getServerTimestamp()
+  })
+
+  return docRef.id
+}
+
+// Get all templates by name
+export async function getOrderTemplates(): Promise<(OrderTemplate & { id: string })[]> {
+  const snapshot = await getDocs(query(orderTemplatesCollection, orderBy('name', 'asc')))
+  return snapshot.docs.map(snapshotToTemplate)
+}
+
+// Get template by ID
+export async function getOrderTemplateById(id: string): Promise<(OrderTemplate & { id: string }) | null> {
+  const docSnap = await getDoc(getOrderTemplateDoc(id))
+  return docSnap.exists() ? snapshotToTemplate(docSnap) : null
+}
+
+// Rename a template or replace its lines
+export async function updateOrderTemplate(id: string, data: Partial<OrderTemplateInput>): Promise<void> {
+  const updateData: any = { ...data, updatedAt: getServerTimestamp() }
+
+  if (data.name) {
+    updateData.name = data.name.trim()
+  }
+  if (data.items) {
+    updateData.items = await nameItems(data.items)
+  }
+
+  await updateDoc(getOrderTemplateDoc(id), updateData)
+}
+
+// Delete template
+export async function deleteOrderTemplate(id: string): Promise<void> {
+  await deleteDoc(getOrderTemplateDoc(id))
+}
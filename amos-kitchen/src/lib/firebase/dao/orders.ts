@@ -9,7 +9,6 @@ import {
   where,
   orderBy,
   limit,
-  startAfter,
   DocumentSnapshot,
   QueryConstraint,
   writeBatch,
@@ -17,8 +16,13 @@ import {
   doc,
   runTransaction,
   Timestamp,
-  increment
+  Transaction,
+  increment,
+  onSnapshot,
+  type DocumentChangeType,
+  type Unsubscribe
 } from 'firebase/firestore'
+import { subDays } from 'date-fns'
 import {
   ordersCollection,
   orderHistoryCollection,
@@ -27,28 +31,180 @@ import {
   getServerTimestamp,
   dateToTimestamp,
   timestampToDate,
-  getCustomerDoc
+  getCustomerDoc,
+  getDeliveryUsageDoc,
+  getSearchIndexDoc
 } from '../firestore'
 import { db } from '../config'
-import { getCustomerById } from './customers'
-import type { Order, OrderHistory, OrderItem, OrderFilters, OrderDoc, OrderHistoryDoc } from '@/lib/types/firestore'
+import { getCustomerById, getCustomerPreferences } from './customers'
+import { getDishesByIds } from './dishes'
+import { getMenu } from './menus'
+import { indexOrder, orderSearchEntry, searchIndex } from './search-index'
+import { readRollupUpdate, writeRollupUpdate } from './rollups'
+import { paginateQuery } from '../pagination'
+import { getBusinessSettings, getCapacitySettings, getDeliverySchedule } from './settings'
+import { formatOrderNumber } from '@/lib/utils/business-settings'
+import {
+  assertStatusTransition,
+  isFinalOrderStatus,
+  normalizeOrderStatus,
+  ORDER_STATUS_LABELS,
+  OrderStatusConflictError
+} from '@/lib/utils/order-status'
+import { allergenConflictKey, detectAllergenConflicts, formatAllergenConflict } from '@/lib/utils/allergens'
+import {
+  emptyPageInfo,
+  paginateInMemory,
+  type PageInfo,
+  type PageRequest,
+  type SortOption
+} from '@/lib/utils/pagination'
+import { applyMenuLimits } from '@/lib/utils/menu'
+import {
+  fromDateKey,
+  getBusinessDayBounds,
+  getBusinessTime,
+  getBusinessToday,
+  getNextDeliveryDate,
+  toBusinessDateKey,
+  toDateKey
+} from '@/lib/utils/delivery-schedule'
+import {
+  CapacityExceededError,
+  combineUsage,
+  createEmptyUsage,
+  findCapacityViolations,
+  getDeliveryAvailability,
+  getEffectiveLimits,
+  getOrderUsage
+} from '@/lib/utils/capacity'
+import type {
+  Order,
+  OrderHistory,
+  OrderItem,
+  OrderFilters,
+  OrderDoc,
+  OrderHistoryDoc,
+  AllergenConflict,
+  CapacityLimits,
+  CapacitySettings,
+  DeliveryAvailability,
+  DeliveryUsage
+} from '@/lib/types/firestore'
+
+// Claim the next order number inside a running transaction; the counter is per
+// year, not per prefix, so changing the prefix doesn't restart the numbering
+async function reserveOrderNumber(transaction: Transaction, prefix: string): Promise<string> {
+  const year = new Date().getFullYear()
+  const counterRef = getOrderCounterDoc(year)
+  const counterDoc = await transaction.get(counterRef)
+
+  let nextNumber = 1
+  if (counterDoc.exists()) {
+    nextNumber = (counterDoc.data().count || 0) + 1
+  }
+
+  transaction.set(counterRef, { count: nextNumber, year }, { merge: true })
+
+  return formatOrderNumber(prefix, year, nextNumber)
+}
 
 // Generate order number
 export async function generateOrderNumber(): Promise<string> {
-  const year = new Date().getFullYear()
+  const { orderNumberPrefix } = await getBusinessSettings()
+  return await runTransaction(db, (transaction) => reserveOrderNumber(transaction, orderNumberPrefix))
+}
+
+const toDeliveryDate = (value: any): Date =>
+  value instanceof Timestamp ? value.toDate() : new Date(value)
 
-  return await runTransaction(db, async (transaction) => {
-    const counterRef = getOrderCounterDoc(year)
-    const counterDoc = await transaction.get(counterRef)
+// Recount a delivery day's usage from its orders
+async function countDeliveryUsage(dateKey: string): Promise<DeliveryUsage> {
+  const { start, end } = getBusinessDayBounds(dateKey)
+
+  const snapshot = await getDocs(query(
+    ordersCollection,
+    where('deliveryDate', '>=', dateToTimestamp(start)),
+    where('deliveryDate', '<', dateToTimestamp(end))
+  ))
+
+  let usage = createEmptyUsage(dateKey)
+  snapshot.forEach((doc) => {
+    usage = combineUsage(usage, getOrderUsage(dateKey, doc.data()), 1)
+  })
+  return usage
+}
+
+// Usage counters are created lazily, so days that had orders before capacity
+// tracking existed start from the real totals. Inside a transaction the counter
+// is read through it: if another order creates the counter first, the transaction
+// retries and finds it. The recount itself is a query, which transactions can't run.
+async function readDeliveryUsage(dateKey: string, transaction?: Transaction): Promise<DeliveryUsage> {
+  const usageRef = getDeliveryUsageDoc(dateKey)
+  const usageSnap = transaction ? await transaction.get(usageRef) : await getDoc(usageRef)
+  return usageSnap.exists() ? usageSnap.data() : countDeliveryUsage(dateKey)
+}
+
+// Capacity limits of a delivery day, including the portion limits on its menu
+async function getDeliveryLimits(capacity: CapacitySettings, dateKey: string): Promise<CapacityLimits> {
+  return applyMenuLimits(getEffectiveLimits(capacity, dateKey), await getMenu(dateKey))
+}
+
+// Remaining orders/portions/dishes for each delivery day
+export async function getDeliveryAvailabilityForDates(dateKeys: string[]): Promise<DeliveryAvailability[]> {
+  const capacity = await getCapacitySettings()
+
+  return Promise.all(dateKeys.map(async (dateKey) => {
+    const [limits, usage] = await Promise.all([getDeliveryLimits(capacity, dateKey), readDeliveryUsage(dateKey)])
+    return getDeliveryAvailability(limits, usage)
+  }))
+}
 
-    let nextNumber = 1
-    if (counterDoc.exists()) {
-      nextNumber = (counterDoc.data().count || 0) + 1
+// Check ordered dishes against the customer's allergies and medical restrictions
+export async function detectOrderAllergenConflicts(
+  customerId: string,
+  items: Pick<OrderItem, 'dishId' | 'dishName'>[]
+): Promise<AllergenConflict[]> {
+  const preferences = await getCustomerPreferences(customerId)
+  if (!preferences.some(p => p.type === 'ALLERGY' || p.type === 'MEDICAL')) {
+    return []
+  }
+
+  const dishIds = Array.from(new Set(items.map(item => item.dishId)))
+  const dishes = await getDishesByIds(dishIds)
+  const dishMap = new Map(dishes.map(d => [d.id, d]))
+
+  const orderedDishes = dishIds.map(dishId => {
+    const dish = dishMap.get(dishId)
+    return {
+      id: dishId,
+      name: dish?.name || items.find(item => item.dishId === dishId)?.dishName || 'Unknown Dish',
+      allergens: dish?.allergens || [],
+      ingredients: dish?.ingredients || []
     }
+  })
 
-    transaction.set(counterRef, { count: nextNumber, year }, { merge: true })
+  return detectAllergenConflicts(orderedDishes, preferences)
+}
+
+// Whether a re-check found a different set of conflicts than the order has
+function allergenConflictsChanged(previous: AllergenConflict[], conflicts: AllergenConflict[]): boolean {
+  const previousKeys = new Set(previous.map(allergenConflictKey))
+  return conflicts.length !== previousKeys.size ||
+    conflicts.some(conflict => !previousKeys.has(allergenConflictKey(conflict)))
+}
 
-    return `ORD-${year}-${nextNumber.toString().padStart(4, '0')}`
+// Record detected conflicts in the order history so they stay visible after edits
+async function recordAllergenConflicts(orderId: string, conflicts: AllergenConflict[], userId?: string) {
+  if (conflicts.length === 0) return
+
+  await addOrderHistory(orderId, {
+    action: 'ALLERGEN_CONFLICT',
+    details: {
+      message: `זוהו ${conflicts.length} התנגשויות אלרגנים: ${conflicts.map(formatAllergenConflict).join(', ')}`,
+      conflicts
+    },
+    userId
   })
 }
 
@@ -56,38 +212,75 @@ export async function generateOrderNumber(): Promise<string> {
 export async function createOrder(
   data: Omit<Order, 'id' | 'orderNumber' | 'createdAt' | 'updatedAt'>
 ): Promise<string> {
-  // Generate order number
-  const orderNumber = await generateOrderNumber()
-
   // Get customer data for denormalization
   const customer = await getCustomerById(data.customerId)
   if (!customer) {
     throw new Error('Customer not found')
   }
 
-  const orderData: OrderDoc = {
-    ...data,
-    orderNumber,
-    customerData: {
-      name: customer.name,
-      phone: customer.phone,
-      ...(customer.email && { email: customer.email })
-    },
-    orderDate: data.orderDate instanceof Date ? dateToTimestamp(data.orderDate) : data.orderDate,
-    deliveryDate: data.deliveryDate instanceof Date ? dateToTimestamp(data.deliveryDate) : data.deliveryDate,
-    createdAt: getServerTimestamp(),
-    updatedAt: getServerTimestamp()
+  const allergenConflicts = await detectOrderAllergenConflicts(data.customerId, data.items)
+
+  const dateKey = toBusinessDateKey(toDeliveryDate(data.deliveryDate))
+  const [capacity, business] = await Promise.all([
+    getCapacitySettings(),
+    getBusinessSettings()
+  ])
+  const limits = await getDeliveryLimits(capacity, dateKey)
+  const dishNames = Object.fromEntries(data.items.map(item => [item.dishId, item.dishName]))
+
+  const orderRef = doc(ordersCollection)
+  const customerData = {
+    name: customer.name,
+    phone: customer.phone,
+    ...(customer.email && { email: customer.email })
   }
 
-  const docRef = await addDoc(ordersCollection, orderData)
+  // Capacity check, order number, rollups and the order itself commit together
+  await runTransaction(db, async (transaction) => {
+    const usageRef = getDeliveryUsageDoc(dateKey)
+    const usage = await readDeliveryUsage(dateKey, transaction)
+    const rollups = await readRollupUpdate(transaction, orderRef.id, null, {
+      ...data,
+      customerData,
+      deliveryDate: toDeliveryDate(data.deliveryDate)
+    })
+    const updatedUsage = combineUsage(usage, getOrderUsage(dateKey, data), 1)
+
+    const violations = findCapacityViolations(limits, usage, updatedUsage, dishNames)
+    if (violations.length > 0) {
+      throw new CapacityExceededError(violations)
+    }
+
+    const orderNumber = await reserveOrderNumber(transaction, business.orderNumberPrefix)
+
+    const orderData: OrderDoc = {
+      ...data,
+      orderNumber,
+      allergenConflicts,
+      // Orders from before the payments ledger have no paid amount
+      amountPaid: 0,
+      customerData,
+      orderDate: data.orderDate instanceof Date ? dateToTimestamp(data.orderDate) : data.orderDate,
+      deliveryDate: data.deliveryDate instanceof Date ? dateToTimestamp(data.deliveryDate) : data.deliveryDate,
+      createdAt: getServerTimestamp(),
+      updatedAt: getServerTimestamp()
+    }
+
+    transaction.set(usageRef, updatedUsage)
+    writeRollupUpdate(transaction, rollups)
+    transaction.set(orderRef, orderData)
+    transaction.set(getSearchIndexDoc('ORDER', orderRef.id), orderSearchEntry(orderRef.id, orderData))
+  })
 
   // Add initial history entry
-  await addOrderHistory(docRef.id, {
+  await addOrderHistory(orderRef.id, {
     action: 'CREATED',
     details: { message: `הזמנה נוצרה עם ${data.items.length} פריטים` }
   })
 
-  return docRef.id
+  await recordAllergenConflicts(orderRef.id, allergenConflicts)
+
+  return orderRef.id
 }
 
 // Get order by ID
@@ -124,132 +317,121 @@ export async function getOrderById(id: string): Promise<Order | null> {
   return order
 }
 
-// Get orders with filters
-export async function getOrders(
-  filters?: OrderFilters,
-  pageSize: number = 10,
-  lastDoc?: DocumentSnapshot
-): Promise<{ orders: Order[], lastDoc: DocumentSnapshot | null, total: number }> {
-  try {
-    const constraints: QueryConstraint[] = []
-
-    // Build constraints carefully to avoid requiring composite indexes
-    // Only use one field for range queries along with orderBy
-
-    // Priority: customerId filter (exact match)
-    if (filters?.customerId) {
-      constraints.push(where('customerId', '==', filters.customerId))
+// The delivery dates covered by the date filters, or null for all dates
+function getDeliveryDateRange(filters?: OrderFilters): { start?: Date, end?: Date, endExclusive?: boolean } | null {
+  if (filters?.dateRange && filters.dateRange !== 'all') {
+    // Days in Israel, whatever the server's timezone
+    const now = new Date()
+    const today = getBusinessToday(now)
+
+    switch (filters.dateRange) {
+      case 'today': {
+        const { start, end } = getBusinessDayBounds(toDateKey(today))
+        return { start, end, endExclusive: true }
+      }
+      case 'week':
+        return { start: getBusinessTime(toDateKey(subDays(today, 7))), end: now }
+      case 'month':
+        return { start: getBusinessTime(toDateKey(subDays(today, 30))), end: now }
     }
+  }
 
-    // Priority: status filter (exact match)
-    if (filters?.status && filters.status !== 'all') {
-      constraints.push(where('status', '==', filters.status.toUpperCase()))
-    }
+  if (filters?.startDate || filters?.endDate) {
+    // Custom date range
+    return { start: filters.startDate, end: filters.endDate }
+  }
 
-    // Date range filter - only apply if no other range queries exist
-    // This simplifies the query to avoid complex composite index requirements
-    if (filters?.dateRange && filters.dateRange !== 'all') {
-      const now = new Date()
-      const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
-
-      switch (filters.dateRange) {
-        case 'today':
-          constraints.push(
-            where('deliveryDate', '>=', dateToTimestamp(today)),
-            where('deliveryDate', '<', dateToTimestamp(new Date(today.getTime() + 24 * 60 * 60 * 1000)))
-          )
-          // Use deliveryDate for ordering when filtering by date
-          constraints.push(orderBy('deliveryDate', 'desc'))
-          break
-        case 'week':
-          const weekAgo = new Date(today.getTime() - 7 * 24 * 60 * 60 * 1000)
-          constraints.push(
-            where('deliveryDate', '>=', dateToTimestamp(weekAgo)),
-            where('deliveryDate', '<=', dateToTimestamp(now))
-          )
-          constraints.push(orderBy('deliveryDate', 'desc'))
-          break
-        case 'month':
-          const monthAgo = new Date(today.getTime() - 30 * 24 * 60 * 60 * 1000)
-          constraints.push(
-            where('deliveryDate', '>=', dateToTimestamp(monthAgo)),
-            where('deliveryDate', '<=', dateToTimestamp(now))
-          )
-          constraints.push(orderBy('deliveryDate', 'desc'))
-          break
-      }
-    } else if (filters?.startDate || filters?.endDate) {
-      // Custom date range
-      if (filters?.startDate) {
-        constraints.push(where('deliveryDate', '>=', dateToTimestamp(filters.startDate)))
-      }
-      if (filters?.endDate) {
-        constraints.push(where('deliveryDate', '<=', dateToTimestamp(filters.endDate)))
+  return null
+}
+
+// The orders an order list can be sorted in
+export const ORDER_SORTS: Record<string, SortOption> = {
+  newest: { field: 'createdAt', direction: 'desc' },
+  oldest: { field: 'createdAt', direction: 'asc' },
+  deliveryDate: { field: 'deliveryDate', direction: 'desc' },
+  deliveryDateAsc: { field: 'deliveryDate', direction: 'asc' }
+}
+export const DEFAULT_ORDER_SORT = 'newest'
+
+// Orders matching a search (order number, customer name or phone) and the other filters, best
+// match first. The filters apply to the search index entries, so the total counts every match.
+async function searchOrders(
+  filters: OrderFilters,
+  page: PageRequest
+): Promise<{ orders: Order[], pagination: PageInfo }> {
+  const range = getDeliveryDateRange(filters)
+  const status = filters.status && filters.status !== 'all' ? filters.status.toUpperCase() : null
+
+  const hits = await searchIndex('ORDER', filters.search!, entry => {
+    if (filters.customerId && entry.customerId !== filters.customerId) return false
+    if (status && entry.status !== status) return false
+    if (range) {
+      const deliveryDate = entry.deliveryDate?.getTime()
+      if (deliveryDate === undefined) return false
+      if (range.start && deliveryDate < range.start.getTime()) return false
+      if (range.end && (range.endExclusive ? deliveryDate >= range.end.getTime() : deliveryDate > range.end.getTime())) {
+        return false
       }
-      constraints.push(orderBy('deliveryDate', 'desc'))
-    } else {
-      // Default ordering by creation date
-      constraints.push(orderBy('createdAt', 'desc'))
     }
+    return true
+  })
 
-    // Pagination
-    constraints.push(limit(pageSize))
-    if (lastDoc) {
-      constraints.push(startAfter(lastDoc))
-    }
+  const { items, pageInfo } = paginateInMemory(hits, page)
+  const snapshots = await Promise.all(items.map(hit => getDoc(getOrderDoc(hit.entityId))))
 
-    const q = query(ordersCollection, ...constraints)
-    const querySnapshot = await getDocs(q)
+  return {
+    orders: snapshots.filter(docSnap => docSnap.exists()).map(snapshotToOrder),
+    pagination: pageInfo
+  }
+}
 
-    const orders: Order[] = []
-    for (const doc of querySnapshot.docs) {
-      const data = doc.data()
-      const order: Order = {
-        id: doc.id,
-        ...data,
-        orderDate: data.orderDate instanceof Timestamp ? data.orderDate.toDate() : new Date(),
-        deliveryDate: data.deliveryDate instanceof Timestamp ? data.deliveryDate.toDate() : new Date(),
-        createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
-        updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : new Date()
-      }
+// One page of orders matching the filters. Searches go through the search index and are
+// ranked by match; otherwise the page follows the requested sort, except that a date filter
+// always sorts by delivery date (Firestore orders range queries by the filtered field first).
+export async function getOrders(
+  filters: OrderFilters,
+  page: PageRequest
+): Promise<{ orders: Order[], pagination: PageInfo }> {
+  try {
+    if (filters.search?.trim()) {
+      return await searchOrders(filters, page)
+    }
 
-      // Client-side search filter
-      if (!filters?.search ||
-          order.orderNumber.toLowerCase().includes(filters.search.toLowerCase()) ||
-          order.customerData?.name.toLowerCase().includes(filters.search.toLowerCase()) ||
-          order.customerData?.phone.includes(filters.search)) {
-        orders.push(order)
-      }
+    // Only equality filters next to the date range, to keep the composite indexes few
+    const constraints: QueryConstraint[] = []
+    if (filters.customerId) {
+      constraints.push(where('customerId', '==', filters.customerId))
+    }
+    if (filters.status && filters.status !== 'all') {
+      constraints.push(where('status', '==', filters.status.toUpperCase()))
     }
 
-    // Use query result size as approximate total instead of fetching all documents
-    // This is more efficient and won't fail on large datasets
-    const total = orders.length
+    const range = getDeliveryDateRange(filters)
+    if (range?.start) {
+      constraints.push(where('deliveryDate', '>=', dateToTimestamp(range.start)))
+    }
+    if (range?.end) {
+      constraints.push(where('deliveryDate', range.endExclusive ? '<' : '<=', dateToTimestamp(range.end)))
+    }
 
-    return {
-      orders,
-      lastDoc: querySnapshot.docs[querySnapshot.docs.length - 1] || null,
-      total
+    let sort = ORDER_SORTS[page.sort] ? page.sort : DEFAULT_ORDER_SORT
+    if (range && ORDER_SORTS[sort].field !== 'deliveryDate') {
+      sort = 'deliveryDate'
     }
+
+    const { docs, pageInfo } = await paginateQuery(ordersCollection, constraints, ORDER_SORTS[sort], { ...page, sort })
+    return { orders: docs.map(snapshotToOrder), pagination: pageInfo }
   } catch (error: any) {
     // Handle Firestore-specific errors
     if (error?.code === 'failed-precondition' || error?.message?.includes('index')) {
       console.error('Firestore index required. Please create the necessary composite index:', error.message)
       // Return empty result instead of throwing
-      return {
-        orders: [],
-        lastDoc: null,
-        total: 0
-      }
+      return { orders: [], pagination: emptyPageInfo(page) }
     }
 
     if (error?.code === 'permission-denied') {
       console.error('Firestore permission denied:', error.message)
-      return {
-        orders: [],
-        lastDoc: null,
-        total: 0
-      }
+      return { orders: [], pagination: emptyPageInfo(page) }
     }
 
     // Re-throw other errors
@@ -258,22 +440,66 @@ export async function getOrders(
   }
 }
 
+// Get every order matching the filters (no pagination), for exports
+export async function getAllOrders(filters?: OrderFilters): Promise<Order[]> {
+  const constraints: QueryConstraint[] = []
+
+  if (filters?.customerId) {
+    constraints.push(where('customerId', '==', filters.customerId))
+  }
+
+  if (filters?.status && filters.status !== 'all') {
+    constraints.push(where('status', '==', filters.status.toUpperCase()))
+  }
+
+  if (filters?.startDate) {
+    constraints.push(where('deliveryDate', '>=', dateToTimestamp(filters.startDate)))
+  }
+  if (filters?.endDate) {
+    constraints.push(where('deliveryDate', '<=', dateToTimestamp(filters.endDate)))
+  }
+  constraints.push(orderBy('deliveryDate', 'asc'))
+
+  const querySnapshot = await getDocs(query(ordersCollection, ...constraints))
+
+  const orders: Order[] = []
+  querySnapshot.forEach((doc) => {
+    const data = doc.data()
+    const order: Order = {
+      id: doc.id,
+      ...data,
+      orderDate: data.orderDate instanceof Timestamp ? data.orderDate.toDate() : new Date(),
+      deliveryDate: data.deliveryDate instanceof Timestamp ? data.deliveryDate.toDate() : new Date(),
+      createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
+      updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : new Date()
+    }
+
+    if (!filters?.search ||
+        order.orderNumber.toLowerCase().includes(filters.search.toLowerCase()) ||
+        order.customerData?.name.toLowerCase().includes(filters.search.toLowerCase()) ||
+        order.customerData?.phone.includes(filters.search)) {
+      orders.push(order)
+    }
+  })
+
+  return orders
+}
+
+// The orders delivered on one day in Israel (yyyy-MM-dd), whatever the server's timezone
+function deliveryDayQuery(dateKey: string) {
+  const { start, end } = getBusinessDayBounds(dateKey)
+  return query(
+    ordersCollection,
+    where('deliveryDate', '>=', dateToTimestamp(start)),
+    where('deliveryDate', '<', dateToTimestamp(end)),
+    orderBy('deliveryDate', 'asc')
+  )
+}
+
 // Get today's orders
 export async function getTodayOrders(): Promise<Order[]> {
   try {
-    const today = new Date()
-    today.setHours(0, 0, 0, 0)
-    const tomorrow = new Date(today)
-    tomorrow.setDate(tomorrow.getDate() + 1)
-
-    const q = query(
-      ordersCollection,
-      where('deliveryDate', '>=', dateToTimestamp(today)),
-      where('deliveryDate', '<', dateToTimestamp(tomorrow)),
-      orderBy('deliveryDate', 'asc')
-    )
-
-    const querySnapshot = await getDocs(q)
+    const querySnapshot = await getDocs(deliveryDayQuery(toBusinessDateKey(new Date())))
     const orders: Order[] = []
 
     querySnapshot.forEach((doc) => {
@@ -298,72 +524,51 @@ export async function getTodayOrders(): Promise<Order[]> {
   }
 }
 
-// Get orders for the next/closest delivery day
+// Convert an order document, turning its Timestamps into Dates
+function snapshotToOrder(docSnap: DocumentSnapshot): Order & { id: string } {
+  const data = docSnap.data() as any
+  return {
+    id: docSnap.id,
+    ...data,
+    orderDate: data.orderDate instanceof Timestamp ? data.orderDate.toDate() : new Date(data.orderDate),
+    deliveryDate: data.deliveryDate instanceof Timestamp ? data.deliveryDate.toDate() : new Date(data.deliveryDate),
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(data.createdAt),
+    updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : new Date(data.updatedAt)
+  }
+}
+
+// Get orders for the next delivery day on the delivery calendar
 export async function getOrdersForNextDeliveryDay(): Promise<{ orders: Order[], deliveryDate: Date | null }> {
   try {
-    const today = new Date()
-    today.setHours(0, 0, 0, 0)
-
-    // First, find the next delivery date that has orders (from today onwards)
-    let q = query(
-      ordersCollection,
-      where('deliveryDate', '>=', dateToTimestamp(today)),
-      orderBy('deliveryDate', 'asc'),
-      limit(1)
-    )
+    const schedule = await getDeliverySchedule()
+    const nextDeliveryDate = getNextDeliveryDate(schedule)
+    let dateKey = nextDeliveryDate ? toDateKey(nextDeliveryDate) : null
 
-    let firstOrderSnapshot = await getDocs(q)
-
-    // If no future orders, look for the most recent orders (for testing/demo purposes)
-    if (firstOrderSnapshot.empty) {
-      q = query(
+    // No delivery day on the calendar: fall back to the next date that has orders
+    if (!dateKey) {
+      const firstOrderSnapshot = await getDocs(query(
         ordersCollection,
-        orderBy('deliveryDate', 'desc'),
+        where('deliveryDate', '>=', dateToTimestamp(getBusinessTime(toBusinessDateKey(new Date())))),
+        orderBy('deliveryDate', 'asc'),
         limit(1)
-      )
-      firstOrderSnapshot = await getDocs(q)
-    }
-
-    if (firstOrderSnapshot.empty) {
-      return { orders: [], deliveryDate: null }
-    }
+      ))
 
-    // Get the delivery date from the first order
-    const firstOrderData = firstOrderSnapshot.docs[0].data()
-    const nextDeliveryDate = firstOrderData.deliveryDate instanceof Timestamp
-      ? firstOrderData.deliveryDate.toDate()
-      : new Date(firstOrderData.deliveryDate) // Parse the date properly if it's not a Timestamp
+      if (firstOrderSnapshot.empty) {
+        return { orders: [], deliveryDate: null }
+      }
 
-    // Set the date range for that specific day
-    const startOfDay = new Date(nextDeliveryDate)
-    startOfDay.setHours(0, 0, 0, 0)
-    const endOfDay = new Date(startOfDay)
-    endOfDay.setDate(endOfDay.getDate() + 1)
+      dateKey = toBusinessDateKey(toDeliveryDate(firstOrderSnapshot.docs[0].data().deliveryDate))
+    }
 
     // Now get all orders for that delivery date
-    const ordersQuery = query(
-      ordersCollection,
-      where('deliveryDate', '>=', dateToTimestamp(startOfDay)),
-      where('deliveryDate', '<', dateToTimestamp(endOfDay)),
-      orderBy('deliveryDate', 'asc')
-    )
-
-    const ordersSnapshot = await getDocs(ordersQuery)
+    const ordersSnapshot = await getDocs(deliveryDayQuery(dateKey))
     const orders: Order[] = []
 
     ordersSnapshot.forEach((doc) => {
-      const data = doc.data()
-      orders.push({
-        id: doc.id,
-        ...data,
-        orderDate: data.orderDate instanceof Timestamp ? data.orderDate.toDate() : new Date(data.orderDate),
-        deliveryDate: data.deliveryDate instanceof Timestamp ? data.deliveryDate.toDate() : new Date(data.deliveryDate),
-        createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(data.createdAt),
-        updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : new Date(data.updatedAt)
-      })
+      orders.push(snapshotToOrder(doc))
     })
 
-    return { orders, deliveryDate: nextDeliveryDate }
+    return { orders, deliveryDate: fromDateKey(dateKey) }
   } catch (error: any) {
     // Suppress Firebase permission errors during build
     if (error?.code !== 'permission-denied') {
@@ -373,11 +578,52 @@ export async function getOrdersForNextDeliveryDay(): Promise<{ orders: Order[],
   }
 }
 
-// Update order
+// Get all orders of one delivery day (a calendar date, see toDateKey)
+export async function getOrdersForDeliveryDate(deliveryDate: Date): Promise<(Order & { id: string })[]> {
+  const snapshot = await getDocs(deliveryDayQuery(toDateKey(deliveryDate)))
+  return snapshot.docs.map(snapshotToOrder)
+}
+
+// Listen to the orders of one delivery day. Each snapshot reports only the
+// documents that changed; the first one reports every order as 'added'.
+export function subscribeToDeliveryDayOrders(
+  deliveryDate: Date,
+  onChange: (changes: { type: DocumentChangeType, order: Order & { id: string } }[], isInitial: boolean) => void,
+  onError?: (error: Error) => void
+): Unsubscribe {
+  const ordersQuery = deliveryDayQuery(toDateKey(deliveryDate))
+
+  let isInitial = true
+  return onSnapshot(ordersQuery, (snapshot) => {
+    const changes = snapshot.docChanges().map(change => ({
+      type: change.type,
+      order: snapshotToOrder(change.doc)
+    }))
+    onChange(changes, isInitial)
+    isInitial = false
+  }, (error) => {
+    console.error('Error listening to delivery day orders:', error)
+    onError?.(error)
+  })
+}
+
+// Options for status changes made through updateOrder
+export interface StatusChangeOptions {
+  // Only apply if the status is still this one (OrderStatusConflictError otherwise)
+  expectedStatus?: Order['status']
+  // Required when cancelling and when overriding the transition rules
+  statusReason?: string | null
+  // Skip the transition rules; callers must only allow this for owners
+  overrideTransition?: boolean
+}
+
+// Update order. Status changes must follow the transition rules in lib/utils/order-status
+// (OrderStatusTransitionError otherwise).
 export async function updateOrder(
   id: string,
   data: Partial<Order>,
-  userId?: string
+  userId?: string,
+  options: StatusChangeOptions = {}
 ): Promise<void> {
   const docRef = getOrderDoc(id)
 
@@ -397,27 +643,148 @@ export async function updateOrder(
   // Remove id if present
   delete updateData.id
 
-  await updateDoc(docRef, updateData)
+  // Changing dishes, date or status can move capacity between delivery days
+  const affectsCapacity = data.items !== undefined || data.deliveryDate !== undefined || data.status !== undefined
+  // ...and, with amounts or the customer, the day and week rollups
+  const affectsRollups = affectsCapacity ||
+    data.totalAmount !== undefined || data.customerId !== undefined || data.customerData !== undefined
+  const existing = affectsRollups ? await getDoc(docRef) : null
+
+  // Re-check allergens whenever the ordered dishes or the customer change
+  let allergenConflicts: AllergenConflict[] = []
+  let conflictsChanged = false
+  if (data.items || data.customerId) {
+    const customerId = data.customerId || existing?.data()?.customerId
+    const items = data.items || existing?.data()?.items
+    if (customerId && items) {
+      allergenConflicts = await detectOrderAllergenConflicts(customerId, items)
+      updateData.allergenConflicts = allergenConflicts
+      conflictsChanged = allergenConflictsChanged(existing?.data()?.allergenConflicts || [], allergenConflicts)
+    }
+  }
+
+  if (data.status && normalizeOrderStatus(data.status) === 'CANCELLED') {
+    updateData.cancellationReason = options.statusReason?.trim() || null
+  }
+
+  let previousStatus: Order['status'] | null = null
+  if (affectsRollups && existing?.exists()) {
+    previousStatus = await updateOrderWithCapacity(
+      id,
+      data,
+      updateData,
+      toDeliveryDate(existing.data().deliveryDate),
+      options
+    )
+  } else {
+    await updateDoc(docRef, updateData)
+  }
+
+  // Only a different set of conflicts gets a new history entry
+  if (conflictsChanged) {
+    await recordAllergenConflicts(id, allergenConflicts, userId)
+  }
+
+  // Keep the search entry's text and filter fields current
+  if (data.status || data.deliveryDate || data.customerId || data.customerData) {
+    await indexOrder(id)
+  }
 
   // Add history entry
-  if (data.status) {
+  if (data.status && previousStatus && previousStatus !== normalizeOrderStatus(data.status)) {
+    const newStatus = normalizeOrderStatus(data.status)
     await addOrderHistory(id, {
-      action: 'STATUS_CHANGE',
-      details: { newStatus: data.status },
+      action: 'STATUS_CHANGED',
+      details: {
+        message: `סטטוס שונה מ-${ORDER_STATUS_LABELS[previousStatus]} ל-${ORDER_STATUS_LABELS[newStatus]}`,
+        previousStatus,
+        newStatus,
+        reason: options.statusReason?.trim() || null,
+        override: !!options.overrideTransition
+      },
       userId
     })
   }
 }
 
+// Apply an order update, move its usage between delivery days and its part of the day and week
+// rollups in one transaction. Returns the status the order had before the update.
+async function updateOrderWithCapacity(
+  id: string,
+  data: Partial<Order>,
+  updateData: any,
+  previousDeliveryDate: Date,
+  options: StatusChangeOptions
+): Promise<Order['status']> {
+  const docRef = getOrderDoc(id)
+  const newKey = toBusinessDateKey(data.deliveryDate ? toDeliveryDate(data.deliveryDate) : previousDeliveryDate)
+
+  const capacity = await getCapacitySettings()
+  const limits = await getDeliveryLimits(capacity, newKey)
+
+  return runTransaction(db, async (transaction) => {
+    const current = await transaction.get(docRef)
+    if (!current.exists()) {
+      throw new Error('Order not found')
+    }
+    const currentData = current.data()
+    const currentStatus = normalizeOrderStatus(currentData.status)
+    if (options.expectedStatus && currentStatus !== options.expectedStatus) {
+      throw new OrderStatusConflictError(options.expectedStatus, currentStatus)
+    }
+    if (data.status) {
+      assertStatusTransition(currentStatus, data.status, {
+        reason: options.statusReason,
+        override: options.overrideTransition
+      })
+    }
+    const currentKey = toBusinessDateKey(toDeliveryDate(currentData.deliveryDate))
+
+    const oldUsageRef = getDeliveryUsageDoc(currentKey)
+    const newUsageRef = getDeliveryUsageDoc(newKey)
+    const oldDayUsage = await readDeliveryUsage(currentKey, transaction)
+    const newDayUsage = currentKey === newKey ? oldDayUsage : await readDeliveryUsage(newKey, transaction)
+
+    const previousOrder = snapshotToOrder(current)
+    const rollups = await readRollupUpdate(transaction, id, previousOrder, {
+      ...previousOrder,
+      ...data,
+      deliveryDate: data.deliveryDate ? toDeliveryDate(data.deliveryDate) : previousOrder.deliveryDate
+    })
+
+    const items = data.items || currentData.items || []
+    const dishNames = Object.fromEntries(items.map(item => [item.dishId, item.dishName]))
+    const previousUsage = getOrderUsage(currentKey, currentData)
+    const nextUsage = getOrderUsage(newKey, { status: data.status || currentData.status, items })
+
+    const oldDayAfter = combineUsage(oldDayUsage, previousUsage, -1)
+    const newDayAfter = combineUsage(currentKey === newKey ? oldDayAfter : newDayUsage, nextUsage, 1)
+
+    const violations = findCapacityViolations(limits, newDayUsage, newDayAfter, dishNames)
+    if (violations.length > 0) {
+      throw new CapacityExceededError(violations)
+    }
+
+    if (currentKey !== newKey) {
+      transaction.set(oldUsageRef, oldDayAfter)
+    }
+    transaction.set(newUsageRef, newDayAfter)
+    writeRollupUpdate(transaction, rollups)
+    transaction.update(docRef, updateData)
+    return currentStatus
+  })
+}
+
 // Update order status
 export async function updateOrderStatus(
   id: string,
   status: Order['status'],
-  userId?: string
+  userId?: string,
+  options: StatusChangeOptions = {}
 ): Promise<void> {
   try {
     console.log(`Updating order ${id} status to ${status}`)
-    await updateOrder(id, { status }, userId)
+    await updateOrder(id, { status }, userId, options)
     console.log(`Successfully updated order ${id} status to ${status}`)
   } catch (error) {
     console.error(`Failed to update order ${id} status to ${status}:`, error)
@@ -437,9 +804,25 @@ export async function deleteOrder(id: string): Promise<void> {
 
   await batch.commit()
 
-  // Delete order
+  // Delete order, release its capacity and take it out of the rollups
   const docRef = getOrderDoc(id)
-  await deleteDoc(docRef)
+  await runTransaction(db, async (transaction) => {
+    const current = await transaction.get(docRef)
+    if (!current.exists()) return
+
+    const dateKey = toBusinessDateKey(toDeliveryDate(current.data().deliveryDate))
+    const usageRef = getDeliveryUsageDoc(dateKey)
+    const usageSnap = await transaction.get(usageRef)
+    const rollups = await readRollupUpdate(transaction, id, snapshotToOrder(current), null)
+
+    // Days without a counter get recounted from the remaining orders when next needed
+    if (usageSnap.exists()) {
+      transaction.set(usageRef, combineUsage(usageSnap.data(), getOrderUsage(dateKey, current.data()), -1))
+    }
+    writeRollupUpdate(transaction, rollups)
+    transaction.delete(docRef)
+    transaction.delete(getSearchIndexDoc('ORDER', id))
+  })
 }
 
 // Add order history entry
@@ -514,6 +897,20 @@ export async function getOrdersByCustomer(customerId: string): Promise<Order[]>
   return orders
 }
 
+// Re-check the customer's open orders after their allergies or medical restrictions change.
+// Orders whose conflicts changed are updated and get a history entry, as on an edit.
+export async function recheckCustomerAllergenConflicts(customerId: string, userId?: string): Promise<void> {
+  const orders = await getOrdersByCustomer(customerId)
+
+  for (const order of orders.filter(order => !isFinalOrderStatus(normalizeOrderStatus(order.status)))) {
+    const allergenConflicts = await detectOrderAllergenConflicts(customerId, order.items)
+    if (!allergenConflictsChanged(order.allergenConflicts || [], allergenConflicts)) continue
+
+    await updateDoc(getOrderDoc(order.id!), { allergenConflicts, updatedAt: getServerTimestamp() })
+    await recordAllergenConflicts(order.id!, allergenConflicts, userId)
+  }
+}
+
 // Get order statistics
 export async function getOrderStats(startDate?: Date, endDate?: Date): Promise<{
   totalOrders: number
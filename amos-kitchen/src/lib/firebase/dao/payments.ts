@@ -0,0 +1,110 @@
+// lib/firebase/dao/payments.ts
+import {
+  getDocs,
+  query,
+  where,
+  doc,
+  runTransaction,
+  Timestamp,
+  type DocumentSnapshot
+} from 'firebase/firestore'
+import { paymentsCollection, getOrderDoc, getServerTimestamp } from '../firestore'
+import { db } from '../config'
+import { addOrderHistory } from './orders'
+import { roundMoney } from '@/lib/utils/pricing'
+import {
+  getAmountDue,
+  getPaymentDelta,
+  PaymentError,
+  PAYMENT_METHOD_LABELS,
+  PAYMENT_TYPE_LABELS
+} from '@/lib/utils/payments'
+import type { Order, Payment } from '@/lib/types/firestore'
+import type { PaymentInput } from '@/lib/validators/payment'
+
+function snapshotToPayment(docSnap: DocumentSnapshot): Payment & { id: string } {
+  const data = docSnap.data() || {}
+  return {
+    id: docSnap.id,
+    orderId: data.orderId,
+    orderNumber: data.orderNumber || '',
+    customerId: data.customerId,
+    type: data.type || 'PAYMENT',
+    method: data.method,
+    amount: data.amount || 0,
+    paidAt: data.paidAt instanceof Timestamp ? data.paidAt.toDate() : new Date(),
+    reference: data.reference || null,
+    notes: data.notes || null,
+    recordedBy: data.recordedBy || null,
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date()
+  }
+}
+
+// Newest first; sorted here so the queries need no composite index
+const byPaidAtDesc = (a: Payment, b: Payment) => b.paidAt.getTime() - a.paidAt.getTime()
+
+// Record a payment or refund and move the order's paid amount with it, in one transaction.
+// Refunds can't give back more than was paid, and cancelled orders take no new payments.
+export async function recordPayment(orderId: string, data: PaymentInput, userId?: string): Promise<string> {
+  const orderRef = getOrderDoc(orderId)
+  const paymentRef = doc(paymentsCollection)
+
+  const { order, amountPaid } = await runTransaction(db, async (transaction) => {
+    const orderSnap = await transaction.get(orderRef)
+    if (!orderSnap.exists()) {
+      throw new PaymentError('ההזמנה לא נמצאה')
+    }
+
+    const current = orderSnap.data() as Order
+    const paid = current.amountPaid || 0
+    if (data.type === 'PAYMENT' && current.status === 'CANCELLED') {
+      throw new PaymentError('לא ניתן לרשום תשלום על הזמנה שבוטלה')
+    }
+    if (data.type === 'REFUND' && data.amount > paid) {
+      throw new PaymentError(`לא ניתן להחזיר יותר ממה ששולם (₪${paid})`)
+    }
+
+    const amountPaid = roundMoney(paid + getPaymentDelta(data))
+    transaction.set(paymentRef, {
+      orderId,
+      orderNumber: current.orderNumber,
+      customerId: current.customerId,
+      type: data.type,
+      method: data.method,
+      amount: roundMoney(data.amount),
+      paidAt: data.paidAt ? Timestamp.fromDate(new Date(data.paidAt)) : getServerTimestamp(),
+      reference: data.reference || null,
+      notes: data.notes || null,
+      recordedBy: userId || null,
+      createdAt: getServerTimestamp()
+    })
+    transaction.update(orderRef, { amountPaid, updatedAt: getServerTimestamp() })
+
+    return { order: current, amountPaid }
+  })
+
+  await addOrderHistory(orderId, {
+    action: data.type,
+    details: {
+      message: `${PAYMENT_TYPE_LABELS[data.type]} ב${PAYMENT_METHOD_LABELS[data.method]}: ₪${data.amount}`,
+      paymentId: paymentRef.id,
+      amountPaid,
+      amountDue: getAmountDue({ ...order, amountPaid })
+    },
+    userId: userId || null
+  })
+
+  return paymentRef.id
+}
+
+// The ledger entries of an order
+export async function getOrderPayments(orderId: string): Promise<(Payment & { id: string })[]> {
+  const snapshot = await getDocs(query(paymentsCollection, where('orderId', '==', orderId)))
+  return snapshot.docs.map(snapshotToPayment).sort(byPaidAtDesc)
+}
+
+// Every ledger entry of a customer, across their orders
+export async function getCustomerPayments(customerId: string): Promise<(Payment & { id: string })[]> {
+  const snapshot = await getDocs(query(paymentsCollection, where('customerId', '==', customerId)))
+  return snapshot.docs.map(snapshotToPayment).sort(byPaidAtDesc)
+}
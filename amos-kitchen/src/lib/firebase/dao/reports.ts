@@ -0,0 +1,56 @@
+// lib/firebase/dao/reports.ts
+import { getDishesByIds } from './dishes'
+import { getAllOrders } from './orders'
+import { getDailyRollups } from './rollups'
+import {
+  buildAnalyticsReport,
+  filterAnalyticsOrders,
+  type AnalyticsFilters,
+  type AnalyticsRange,
+  type AnalyticsReport
+} from '@/lib/utils/analytics'
+import { toDateKey } from '@/lib/utils/delivery-schedule'
+import { rollupOrdersByDay } from '@/lib/utils/rollups'
+import type { AnalyticsRollup } from '@/lib/types/firestore'
+
+// Load what the analytics report needs for a range and compute it. Shared by the JSON
+// endpoint and the report exports.
+export async function getAnalyticsReport(
+  range: AnalyticsRange,
+  filters: AnalyticsFilters = {}
+): Promise<AnalyticsReport> {
+  const [days, previousDays] = await Promise.all([
+    getDailyRollups(toDateKey(range.start), toDateKey(range.end)),
+    getDailyRollups(toDateKey(range.previousStart), toDateKey(range.previousEnd))
+  ])
+
+  if (!filters.category && !filters.customerId) {
+    return buildAnalyticsReport({ days, previousDays }, range, filters)
+  }
+
+  // The stored rollups cover every order, so a filtered report rolls up the matching orders
+  // itself. Whether a delivery was a customer's first still comes from the stored days.
+  const customerId = filters.customerId || undefined
+  const [orders, previousOrders] = await Promise.all([
+    getAllOrders({ startDate: range.start, endDate: range.end, customerId }),
+    getAllOrders({ startDate: range.previousStart, endDate: range.previousEnd, customerId })
+  ])
+
+  // Both periods' dishes, so a category filter applies to the comparison too
+  const dishIds = new Set<string>()
+  orders.concat(previousOrders).forEach(order => (order.items || []).forEach(item => dishIds.add(item.dishId)))
+  const dishes = await getDishesByIds(Array.from(dishIds))
+  const dishMap = new Map(dishes.map(dish => [dish.id, dish]))
+
+  const storedDays = new Map<string, AnalyticsRollup>(days.concat(previousDays).map(day => [day.date, day]))
+  const isFirstOrder = (id: string, date: string) => !!storedDays.get(date)?.customers[id]?.firstOrder
+
+  return buildAnalyticsReport(
+    {
+      days: rollupOrdersByDay(filterAnalyticsOrders(orders, filters, dishMap), dishMap, isFirstOrder),
+      previousDays: rollupOrdersByDay(filterAnalyticsOrders(previousOrders, filters, dishMap), dishMap, isFirstOrder)
+    },
+    range,
+    filters
+  )
+}
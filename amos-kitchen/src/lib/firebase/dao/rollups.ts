@@ -0,0 +1,244 @@
+// lib/firebase/dao/rollups.ts
+import {
+  getDocs,
+  getDoc,
+  query,
+  where,
+  orderBy,
+  writeBatch,
+  Timestamp,
+  type DocumentSnapshot,
+  type Transaction
+} from 'firebase/firestore'
+import {
+  ordersCollection,
+  dailyRollupsCollection,
+  weeklyRollupsCollection,
+  getDailyRollupDoc,
+  getWeeklyRollupDoc,
+  getServerTimestamp
+} from '../firestore'
+import { db } from '../config'
+import { getDishes, getDishesByIds } from './dishes'
+import { fromDateKey, toBusinessDateKey } from '@/lib/utils/delivery-schedule'
+import {
+  applyOrderToRollup,
+  createEmptyRollup,
+  getDeliveryWeekKey,
+  getFirstDeliveryDays,
+  mergeRollups,
+  rollupOrdersByDay,
+  settleRollup
+} from '@/lib/utils/rollups'
+import type { AnalyticsRollup, Order } from '@/lib/types/firestore'
+
+// What the rollups take from an order
+export type RollupOrder = Pick<Order, 'customerId' | 'customerData' | 'status' | 'totalAmount' | 'items' | 'deliveryDate'>
+
+// The day and week rollups an order change rewrites, by date key, with the order applied
+export interface RollupUpdate {
+  days: Map<string, AnalyticsRollup>
+  weeks: Map<string, AnalyticsRollup>
+}
+
+const toDate = (value: any): Date => value instanceof Timestamp ? value.toDate() : new Date(value)
+
+function snapshotToOrder(docSnap: DocumentSnapshot): Order {
+  const data = docSnap.data() as any
+  return { id: docSnap.id, ...data, deliveryDate: toDate(data.deliveryDate) }
+}
+
+function snapshotToRollup(docSnap: DocumentSnapshot): AnalyticsRollup {
+  const data = docSnap.data() as any
+  return { ...data, updatedAt: toDate(data.updatedAt) }
+}
+
+// A rollup with nothing in it isn't stored
+const isEmptyRollup = (rollup: AnalyticsRollup) => rollup.orders === 0 && rollup.cancelledOrders === 0
+
+// The stored rollups of the delivery days from startKey to endKey (yyyy-MM-dd, inclusive).
+// Days without orders have no rollup.
+export async function getDailyRollups(startKey: string, endKey: string): Promise<AnalyticsRollup[]> {
+  const snapshot = await getDocs(query(
+    dailyRollupsCollection,
+    where('date', '>=', startKey),
+    where('date', '<=', endKey),
+    orderBy('date', 'asc')
+  ))
+  return snapshot.docs.map(snapshotToRollup)
+}
+
+// The stored rollup of the delivery week ending on a Friday, if it had any orders
+export async function getWeeklyRollup(fridayKey: string): Promise<AnalyticsRollup | null> {
+  const snapshot = await getDoc(getWeeklyRollupDoc(fridayKey))
+  return snapshot.exists() ? snapshotToRollup(snapshot) : null
+}
+
+async function getCustomerOrders(customerId: string): Promise<Order[]> {
+  const snapshot = await getDocs(query(ordersCollection, where('customerId', '==', customerId)))
+  return snapshot.docs.map(snapshotToOrder)
+}
+
+const hasCustomer = (rollup: AnalyticsRollup | undefined, customerId: string) =>
+  (rollup?.customers[customerId]?.orders || 0) > 0
+
+// Read the rollups an order change touches, inside the order's transaction and before any of
+// its writes, and move the order's part of them: the order as it was is taken out (before is
+// null for a new order) and the order as it will be is added (after is null when it's deleted).
+// Only a customer gaining or losing their only order of a day can move their first delivery, so
+// only then are their orders read to move the new-customer flag. writeRollupUpdate stores the result.
+export async function readRollupUpdate(
+  transaction: Transaction,
+  orderId: string,
+  before: RollupOrder | null,
+  after: RollupOrder | null
+): Promise<RollupUpdate> {
+  const update: RollupUpdate = { days: new Map(), weeks: new Map() }
+  const stored: RollupUpdate = { days: new Map(), weeks: new Map() }
+
+  const load = async (dateKey: string) => {
+    const weekKey = getDeliveryWeekKey(fromDateKey(dateKey))
+    const reads: Promise<void>[] = []
+    if (!update.days.has(dateKey)) {
+      update.days.set(dateKey, createEmptyRollup(dateKey))
+      reads.push(transaction.get(getDailyRollupDoc(dateKey)).then(docSnap => {
+        if (!docSnap.exists()) return
+        update.days.set(dateKey, snapshotToRollup(docSnap))
+        stored.days.set(dateKey, snapshotToRollup(docSnap))
+      }))
+    }
+    if (!update.weeks.has(weekKey)) {
+      update.weeks.set(weekKey, createEmptyRollup(weekKey))
+      reads.push(transaction.get(getWeeklyRollupDoc(weekKey)).then(docSnap => {
+        if (!docSnap.exists()) return
+        update.weeks.set(weekKey, snapshotToRollup(docSnap))
+        stored.weeks.set(weekKey, snapshotToRollup(docSnap))
+      }))
+    }
+    await Promise.all(reads)
+  }
+
+  const beforeKey = before ? toBusinessDateKey(before.deliveryDate) : null
+  const afterKey = after ? toBusinessDateKey(after.deliveryDate) : null
+  const orderDays = Array.from(new Set([beforeKey, afterKey].filter(Boolean) as string[]))
+  for (const dateKey of orderDays) {
+    await load(dateKey)
+  }
+
+  // Only dishes new to the rollups are read, for their name and category
+  const knownDishes = new Set(Array.from(update.days.values()).flatMap(day => Object.keys(day.dishes)))
+  const newDishIds = Array.from(new Set((after?.items || []).map(item => item.dishId)))
+    .filter(dishId => !knownDishes.has(dishId))
+  const dishes = newDishIds.length > 0 ? await getDishesByIds(newDishIds) : []
+  const dishMap = new Map(dishes.map(dish => [dish.id, dish]))
+
+  const applyChange = (
+    rollups: Map<string, AnalyticsRollup>,
+    previous: Map<string, AnalyticsRollup>,
+    keyOf: (dateKey: string) => string
+  ) => {
+    rollups.forEach((rollup, key) => {
+      // A customer taken out and added back keeps the flag they had
+      const hadFirstOrder = (customerId: string) => !!previous.get(key)?.customers[customerId]?.firstOrder
+      if (before && keyOf(beforeKey!) === key) applyOrderToRollup(rollup, before, -1, dishMap, hadFirstOrder)
+      if (after && keyOf(afterKey!) === key) applyOrderToRollup(rollup, after, 1, dishMap, hadFirstOrder)
+    })
+  }
+  applyChange(update.days, stored.days, dateKey => dateKey)
+  applyChange(update.weeks, stored.weeks, dateKey => getDeliveryWeekKey(fromDateKey(dateKey)))
+
+  const customerIds = Array.from(new Set([before?.customerId, after?.customerId].filter(Boolean) as string[]))
+  const movedCustomers = customerIds.filter(customerId => orderDays.some(dateKey =>
+    hasCustomer(stored.days.get(dateKey), customerId) !== hasCustomer(update.days.get(dateKey), customerId)
+  ))
+
+  for (const customerId of movedCustomers) {
+    // The query doesn't see this transaction, so the order is swapped for what it will be
+    const orders = await getCustomerOrders(customerId)
+    const previousFirst = getFirstDeliveryDays(orders).get(customerId)
+    const changed: RollupOrder[] = [...orders.filter(order => order.id !== orderId), ...(after ? [after] : [])]
+    const first = getFirstDeliveryDays(changed).get(customerId)
+
+    for (const dateKey of [previousFirst, first]) {
+      if (dateKey) await load(dateKey)
+    }
+    const firstWeek = first ? getDeliveryWeekKey(fromDateKey(first)) : null
+    update.days.forEach((day, dateKey) => {
+      if (day.customers[customerId]) day.customers[customerId].firstOrder = dateKey === first
+    })
+    update.weeks.forEach((week, weekKey) => {
+      if (week.customers[customerId]) week.customers[customerId].firstOrder = weekKey === firstWeek
+    })
+  }
+
+  update.days.forEach(settleRollup)
+  update.weeks.forEach(settleRollup)
+  return update
+}
+
+// Store the rollups of readRollupUpdate in the same transaction; emptied ones are removed
+export function writeRollupUpdate(transaction: Transaction, update: RollupUpdate): void {
+  const writes = [
+    ...Array.from(update.days.values()).map(day => ({ ref: getDailyRollupDoc(day.date), rollup: day })),
+    ...Array.from(update.weeks.values()).map(week => ({ ref: getWeeklyRollupDoc(week.date), rollup: week }))
+  ]
+  writes.forEach(({ ref, rollup }) => {
+    if (isEmptyRollup(rollup)) {
+      transaction.delete(ref)
+    } else {
+      transaction.set(ref, { ...rollup, updatedAt: getServerTimestamp() } as any)
+    }
+  })
+}
+
+// Compute every day and week rollup from all orders, and drop rollups of days that no longer
+// have orders. Order changes keep the rollups current themselves; this is needed once for
+// orders from before the rollups, and to repair any that went stale. Safe to run again.
+export async function rebuildRollups(): Promise<{ orders: number, days: number, weeks: number, removed: number }> {
+  const [ordersSnapshot, dishes, dailySnapshot, weeklySnapshot] = await Promise.all([
+    getDocs(ordersCollection),
+    getDishes(),
+    getDocs(dailyRollupsCollection),
+    getDocs(weeklyRollupsCollection)
+  ])
+
+  const orders = ordersSnapshot.docs.map(snapshotToOrder)
+  const firstDays = getFirstDeliveryDays(orders)
+  const days = rollupOrdersByDay(orders, new Map(dishes.map(dish => [dish.id, dish])), (customerId, date) =>
+    firstDays.get(customerId) === date
+  )
+
+  const daysByWeek = new Map<string, AnalyticsRollup[]>()
+  days.forEach(day => {
+    const weekKey = getDeliveryWeekKey(fromDateKey(day.date))
+    daysByWeek.set(weekKey, [...(daysByWeek.get(weekKey) || []), day])
+  })
+  const weeks = Array.from(daysByWeek.entries()).map(([weekKey, weekDays]) => mergeRollups(weekKey, weekDays))
+
+  const writes = [
+    ...days.map(day => ({ ref: getDailyRollupDoc(day.date), rollup: day })),
+    ...weeks.map(week => ({ ref: getWeeklyRollupDoc(week.date), rollup: week }))
+  ]
+  const dayKeys = new Set(days.map(day => day.date))
+  const weekKeys = new Set(weeks.map(week => week.date))
+  const stale = [
+    ...dailySnapshot.docs.filter(docSnap => !dayKeys.has(docSnap.id)),
+    ...weeklySnapshot.docs.filter(docSnap => !weekKeys.has(docSnap.id))
+  ]
+
+  // Firestore batches are limited to 500 writes
+  for (let i = 0; i < writes.length; i += 500) {
+    const batch = writeBatch(db)
+    writes.slice(i, i + 500).forEach(({ ref, rollup }) => {
+      batch.set(ref, { ...rollup, updatedAt: getServerTimestamp() } as any)
+    })
+    await batch.commit()
+  }
+  for (let i = 0; i < stale.length; i += 500) {
+    const batch = writeBatch(db)
+    stale.slice(i, i + 500).forEach(docSnap => batch.delete(docSnap.ref))
+    await batch.commit()
+  }
+
+  return { orders: orders.length, days: days.length, weeks: weeks.length, removed: stale.length }
+}
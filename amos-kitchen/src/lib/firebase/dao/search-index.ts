@@ -0,0 +1,211 @@
+// lib/firebase/dao/search-index.ts
+import {
+  getDocs,
+  getDoc,
+  setDoc,
+  deleteDoc,
+  query,
+  where,
+  limit,
+  writeBatch,
+  Timestamp,
+  type DocumentSnapshot,
+  type FieldValue
+} from 'firebase/firestore'
+import {
+  customersCollection,
+  ordersCollection,
+  searchIndexCollection,
+  getCustomerDoc,
+  getOrderDoc,
+  getSearchIndexDoc,
+  getServerTimestamp
+} from '../firestore'
+import { db } from '../config'
+import { buildSearchFields, getQueryWords, getBigrams, scoreSearchMatch } from '@/lib/utils/search'
+import type { Customer, Order, SearchIndexEntry, SearchIndexKind } from '@/lib/types/firestore'
+
+// array-contains-any takes at most 30 values
+const MAX_QUERY_GRAMS = 30
+// A short search word is the prefix of many records; only this many are scored
+const MAX_PREFIX_CANDIDATES = 500
+// Records sharing a two-letter piece with the search are many; only this many are scored for typos
+const MAX_TYPO_CANDIDATES = 200
+
+type SearchIndexWrite = Omit<SearchIndexEntry, 'deliveryDate' | 'sortDate'> & {
+  deliveryDate?: Timestamp
+  sortDate: Timestamp | FieldValue
+}
+
+// A matching customer or order, best match first
+export interface SearchHit {
+  entityId: string
+  score: number
+  entry: SearchIndexEntry
+}
+
+const toTimestamp = (value: any): Timestamp | FieldValue => {
+  if (value instanceof Timestamp) return value
+  if (value instanceof Date || typeof value === 'string') return Timestamp.fromDate(new Date(value))
+  // A document written with a server timestamp that hasn't been read back yet
+  return getServerTimestamp()
+}
+
+// The index entry of a customer: name, phone and email
+export function customerSearchEntry(
+  customerId: string,
+  customer: Pick<Customer, 'name' | 'phone' | 'email'> & { createdAt?: unknown }
+): SearchIndexWrite {
+  return {
+    kind: 'CUSTOMER',
+    entityId: customerId,
+    ...buildSearchFields({
+      names: [customer.name, customer.email?.split('@')[0]],
+      phones: [customer.phone]
+    }),
+    sortDate: toTimestamp(customer.createdAt)
+  }
+}
+
+// The index entry of an order: order number and the customer's name and phone, with the
+// fields the orders list filters on
+export function orderSearchEntry(
+  orderId: string,
+  order: Pick<Order, 'orderNumber' | 'customerId' | 'customerData' | 'status'> & { deliveryDate: unknown, createdAt?: unknown }
+): SearchIndexWrite {
+  return {
+    kind: 'ORDER',
+    entityId: orderId,
+    ...buildSearchFields({
+      names: [order.customerData?.name],
+      phones: [order.customerData?.phone],
+      codes: [order.orderNumber]
+    }),
+    status: order.status,
+    customerId: order.customerId,
+    deliveryDate: toTimestamp(order.deliveryDate) as Timestamp,
+    sortDate: toTimestamp(order.createdAt)
+  }
+}
+
+function snapshotToEntry(docSnap: DocumentSnapshot): SearchIndexEntry {
+  const data = docSnap.data() as any
+  return {
+    ...data,
+    deliveryDate: data.deliveryDate instanceof Timestamp ? data.deliveryDate.toDate() : undefined,
+    sortDate: data.sortDate instanceof Timestamp ? data.sortDate.toDate() : new Date()
+  }
+}
+
+// Re-read a customer and write its entry; removes the entry when the customer is gone
+export async function indexCustomer(customerId: string): Promise<void> {
+  const customerSnap = await getDoc(getCustomerDoc(customerId))
+  if (!customerSnap.exists()) {
+    await removeFromSearchIndex('CUSTOMER', customerId)
+    return
+  }
+  await setDoc(getSearchIndexDoc('CUSTOMER', customerId), customerSearchEntry(customerId, customerSnap.data()))
+}
+
+// Re-read an order and write its entry; removes the entry when the order is gone
+export async function indexOrder(orderId: string): Promise<void> {
+  const orderSnap = await getDoc(getOrderDoc(orderId))
+  if (!orderSnap.exists()) {
+    await removeFromSearchIndex('ORDER', orderId)
+    return
+  }
+  await setDoc(getSearchIndexDoc('ORDER', orderId), orderSearchEntry(orderId, orderSnap.data()))
+}
+
+export async function removeFromSearchIndex(kind: SearchIndexKind, entityId: string): Promise<void> {
+  await deleteDoc(getSearchIndexDoc(kind, entityId))
+}
+
+// Score the candidates, keeping those that match every search word and pass the filter
+function scoreCandidates(
+  docs: DocumentSnapshot[],
+  queryWords: string[],
+  filter?: (entry: SearchIndexEntry) => boolean
+): SearchHit[] {
+  const hits: SearchHit[] = []
+  docs.forEach(docSnap => {
+    const entry = snapshotToEntry(docSnap)
+    const score = scoreSearchMatch(queryWords, entry.words || [])
+    if (score > 0 && (!filter || filter(entry))) {
+      hits.push({ entityId: entry.entityId, score, entry })
+    }
+  })
+  return hits
+}
+
+// Every customer or order matching the search, best match first and newest first among equal
+// matches. Records whose every word starts with a search word are found by prefix, up to
+// MAX_PREFIX_CANDIDATES of them. Only when that finds nothing, and the search is a name long
+// enough to allow typos, are records sharing two-letter pieces with its longest word scored
+// instead, up to MAX_TYPO_CANDIDATES of them.
+// Numbers (phones, order numbers) must be typed right. `filter` narrows the hits on the
+// entry's fields before they are counted.
+export async function searchIndex(
+  kind: SearchIndexKind,
+  text: string,
+  filter?: (entry: SearchIndexEntry) => boolean
+): Promise<SearchHit[]> {
+  const queryWords = getQueryWords(text)
+  if (queryWords.length === 0) return []
+
+  // The longest word narrows the candidates the most
+  const anchor = queryWords.reduce((longest, word) => word.length > longest.length ? word : longest)
+
+  const prefixSnapshot = await getDocs(query(
+    searchIndexCollection,
+    where('kind', '==', kind),
+    where('terms', 'array-contains', anchor),
+    limit(MAX_PREFIX_CANDIDATES)
+  ))
+  let hits = scoreCandidates(prefixSnapshot.docs, queryWords, filter)
+
+  if (hits.length === 0 && anchor.length >= 4 && !/^\d+$/.test(anchor)) {
+    const gramSnapshot = await getDocs(query(
+      searchIndexCollection,
+      where('kind', '==', kind),
+      where('grams', 'array-contains-any', getBigrams(anchor).slice(0, MAX_QUERY_GRAMS)),
+      limit(MAX_TYPO_CANDIDATES)
+    ))
+    hits = scoreCandidates(gramSnapshot.docs, queryWords, filter)
+  }
+
+  return hits.sort((a, b) => b.score - a.score || b.entry.sortDate.getTime() - a.entry.sortDate.getTime())
+}
+
+// Write the entries of all customers and orders, and drop entries of records that no longer
+// exist. Needed once for records from before the index, and safe to run again.
+export async function rebuildSearchIndex(): Promise<{ customers: number, orders: number, removed: number }> {
+  const [customersSnapshot, ordersSnapshot, indexSnapshot] = await Promise.all([
+    getDocs(customersCollection),
+    getDocs(ordersCollection),
+    getDocs(searchIndexCollection)
+  ])
+
+  const writes = [
+    ...customersSnapshot.docs.map(docSnap => customerSearchEntry(docSnap.id, docSnap.data())),
+    ...ordersSnapshot.docs.map(docSnap => orderSearchEntry(docSnap.id, docSnap.data()))
+  ]
+  const current = new Set(writes.map(entry => `${entry.kind}_${entry.entityId}`))
+  const stale = indexSnapshot.docs.filter(docSnap => !current.has(docSnap.id))
+
+  // Firestore batches are limited to 500 writes
+  for (let i = 0; i < writes.length; i += 500) {
+    const batch = writeBatch(db)
+    writes.slice(i, i + 500).forEach(entry => {
+      batch.set(getSearchIndexDoc(entry.kind, entry.entityId), entry)
+    })
+    await batch.commit()
+  }
+  for (let i = 0; i < stale.length; i += 500) {
+    const batch = writeBatch(db)
+    stale.slice(i, i + 500).forEach(docSnap => batch.delete(docSnap.ref))
+    await batch.commit()
+  }
+
+  return { customers: customersSnapshot.size, orders: ordersSnapshot.size, removed: stale.length }
+}
@@ -0,0 +1,152 @@
+// lib/firebase/dao/settings.ts
+import { getDoc, setDoc, Timestamp } from 'firebase/firestore'
+import { getBusinessSettingsDoc, getCapacitySettingsDoc, getDeliveryScheduleDoc, getServerTimestamp } from '../firestore'
+import { DEFAULT_DELIVERY_SCHEDULE } from '@/lib/utils/delivery-schedule'
+import { DEFAULT_CAPACITY_SETTINGS } from '@/lib/utils/capacity'
+import { DEFAULT_BUSINESS_SETTINGS, withBusinessDefaults } from '@/lib/utils/business-settings'
+import type { BusinessSettings, CapacityLimits, CapacitySettings, DeliverySchedule } from '@/lib/types/firestore'
+
+// Get the delivery schedule, falling back to the default Friday schedule if none was saved
+export async function getDeliverySchedule(): Promise<DeliverySchedule> {
+  try {
+    const docSnap = await getDoc(getDeliveryScheduleDoc())
+
+    if (!docSnap.exists()) {
+      return DEFAULT_DELIVERY_SCHEDULE
+    }
+
+    const data = docSnap.data()
+    return {
+      days: data.days || [],
+      closures: data.closures || [],
+      extraDays: data.extraDays || [],
+      updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : undefined,
+      updatedBy: data.updatedBy || null
+    }
+  } catch (error: any) {
+    // Suppress Firebase permission errors during build
+    if (error?.code !== 'permission-denied') {
+      console.error('Error getting delivery schedule:', error)
+    }
+    return DEFAULT_DELIVERY_SCHEDULE
+  }
+}
+
+// Replace the delivery schedule
+export async function updateDeliverySchedule(
+  schedule: Omit<DeliverySchedule, 'updatedAt' | 'updatedBy'>,
+  userId?: string
+): Promise<void> {
+  // Keep the lists sorted so the document reads naturally in the console
+  await setDoc(getDeliveryScheduleDoc(), {
+    days: [...schedule.days].sort((a, b) => a.weekday - b.weekday),
+    closures: schedule.closures
+      .map(closure => ({ date: closure.date, reason: closure.reason || null }))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    extraDays: schedule.extraDays
+      .map(extra => ({ date: extra.date, cutoff: extra.cutoff, reason: extra.reason || null }))
+      .sort((a, b) => a.date.localeCompare(b.date)),
+    updatedAt: getServerTimestamp(),
+    updatedBy: userId || null
+  })
+}
+
+// Firestore rejects undefined, so spell out every field
+const cleanLimits = (limits: CapacityLimits): CapacityLimits => ({
+  maxOrders: limits.maxOrders ?? null,
+  maxPortions: limits.maxPortions ?? null,
+  dishLimits: limits.dishLimits || {}
+})
+
+// Get capacity caps, defaulting to unlimited
+export async function getCapacitySettings(): Promise<CapacitySettings> {
+  try {
+    const docSnap = await getDoc(getCapacitySettingsDoc())
+
+    if (!docSnap.exists()) {
+      return DEFAULT_CAPACITY_SETTINGS
+    }
+
+    const data = docSnap.data()
+    return {
+      defaults: data.defaults || {},
+      dates: data.dates || {},
+      updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : undefined,
+      updatedBy: data.updatedBy || null
+    }
+  } catch (error: any) {
+    // Suppress Firebase permission errors during build
+    if (error?.code !== 'permission-denied') {
+      console.error('Error getting capacity settings:', error)
+    }
+    return DEFAULT_CAPACITY_SETTINGS
+  }
+}
+
+// Replace the capacity caps
+export async function updateCapacitySettings(
+  settings: Omit<CapacitySettings, 'updatedAt' | 'updatedBy'>,
+  userId?: string
+): Promise<void> {
+  const dates: Record<string, CapacityLimits> = {}
+  Object.entries(settings.dates).forEach(([dateKey, limits]) => {
+    dates[dateKey] = cleanLimits(limits)
+  })
+
+  await setDoc(getCapacitySettingsDoc(), {
+    defaults: cleanLimits(settings.defaults),
+    dates,
+    updatedAt: getServerTimestamp(),
+    updatedBy: userId || null
+  })
+}
+
+// Get the business profile and defaults; anything not saved yet comes from the defaults
+export async function getBusinessSettings(): Promise<BusinessSettings> {
+  try {
+    const docSnap = await getDoc(getBusinessSettingsDoc())
+
+    if (!docSnap.exists()) {
+      return DEFAULT_BUSINESS_SETTINGS
+    }
+
+    const data = docSnap.data()
+    return withBusinessDefaults({
+      ...data,
+      updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : undefined,
+      updatedBy: data.updatedBy || null
+    })
+  } catch (error: any) {
+    // Suppress Firebase permission errors during build
+    if (error?.code !== 'permission-denied') {
+      console.error('Error getting business settings:', error)
+    }
+    return DEFAULT_BUSINESS_SETTINGS
+  }
+}
+
+// Replace the business profile and defaults
+export async function updateBusinessSettings(
+  settings: Omit<BusinessSettings, 'updatedAt' | 'updatedBy'>,
+  userId?: string
+): Promise<void> {
+  await setDoc(getBusinessSettingsDoc(), {
+    businessName: settings.businessName,
+    logoUrl: settings.logoUrl || null,
+    vatNumber: settings.vatNumber || null,
+    phone: settings.phone || null,
+    address: settings.address || null,
+    currency: settings.currency,
+    vatRate: settings.vatRate,
+    pricesIncludeVat: settings.pricesIncludeVat,
+    defaultDeliveryFee: settings.defaultDeliveryFee,
+    orderNumberPrefix: settings.orderNumberPrefix,
+    workingHours: [...settings.workingHours].sort((a, b) => a.weekday - b.weekday),
+    notifications: {
+      ...settings.notifications,
+      email: settings.notifications.email || null
+    },
+    updatedAt: getServerTimestamp(),
+    updatedBy: userId || null
+  })
+}
@@ -0,0 +1,311 @@
+// lib/firebase/dao/standing-orders.ts
+import {
+  getDocs,
+  getDoc,
+  addDoc,
+  updateDoc,
+  deleteDoc,
+  query,
+  where,
+  orderBy,
+  runTransaction,
+  arrayRemove,
+  Timestamp,
+  type DocumentSnapshot
+} from 'firebase/firestore'
+import { standingOrdersCollection, getStandingOrderDoc, getServerTimestamp } from '../firestore'
+import { db } from '../config'
+import { getCustomerById } from './customers'
+import { getDishesByIds } from './dishes'
+import { getMenu } from './menus'
+import { getBusinessSettings } from './settings'
+import { getDeliveryZones } from './delivery-zones'
+import { addOrderHistory, createOrder } from './orders'
+import { calculateOrderPricing, priceOrderItems } from '@/lib/utils/pricing'
+import { getBusinessTime } from '@/lib/utils/delivery-schedule'
+import { applyMenu } from '@/lib/utils/menu'
+import { findDeliveryZone, isBelowZoneMinimum, resolveOrderAddress } from '@/lib/utils/address'
+import { getStandingOrderOccurrenceStatus, StandingOrderError } from '@/lib/utils/standing-orders'
+import type {
+  BusinessSettings,
+  Customer,
+  DeliveryZone,
+  Dish,
+  Menu,
+  StandingOrder,
+  StandingOrderItem,
+  StandingOrderOccurrence
+} from '@/lib/types/firestore'
+
+export type StandingOrderInput = Omit<
+  StandingOrder,
+  'id' | 'customerName' | 'items' | 'paused' | 'pausedUntil' | 'generatedDates' | 'createdBy' | 'createdAt' | 'updatedAt'
+> & {
+  items: Omit<StandingOrderItem, 'dishName'>[]
+}
+
+function snapshotToStandingOrder(docSnap: DocumentSnapshot): StandingOrder & { id: string } {
+  const data = docSnap.data() || {}
+  return {
+    id: docSnap.id,
+    customerId: data.customerId,
+    customerName: data.customerName || '',
+    items: data.items || [],
+    discount: data.discount || null,
+    deliveryFee: data.deliveryFee ?? null,
+    deliveryAddress: data.deliveryAddress || null,
+    notes: data.notes || null,
+    frequency: data.frequency || 'WEEKLY',
+    startDate: data.startDate,
+    endDate: data.endDate || null,
+    skipDates: data.skipDates || [],
+    paused: data.paused === true,
+    pausedUntil: data.pausedUntil || null,
+    // Older standing orders only kept the latest generated date
+    generatedDates: data.generatedDates || (data.lastGeneratedDate ? [data.lastGeneratedDate] : []),
+    createdBy: data.createdBy || null,
+    createdAt: data.createdAt instanceof Timestamp ? data.createdAt.toDate() : new Date(),
+    updatedAt: data.updatedAt instanceof Timestamp ? data.updatedAt.toDate() : new Date()
+  }
+}
+
+// Dish names are kept on the lines so the list reads well after a dish leaves the menu
+async function nameItems(items: StandingOrderInput['items']): Promise<StandingOrderItem[]> {
+  const dishes = await getDishesByIds(Array.from(new Set(items.map(item => item.dishId))))
+  const dishMap = new Map(dishes.map(dish => [dish.id, dish]))
+  return items.map(item => ({
+    dishId: item.dishId,
+    dishName: dishMap.get(item.dishId)?.name || '',
+    quantity: item.quantity,
+    discount: item.discount || null,
+    notes: item.notes || ''
+  }))
+}
+
+// Create a standing order. When it starts from an order that was already placed, pass that
+// delivery date in generatedDates so it isn't generated a second time.
+export async function createStandingOrder(
+  data: StandingOrderInput,
+  userId?: string,
+  generatedDates: string[] = []
+): Promise<string> {
+  const customer = await getCustomerById(data.customerId)
+  if (!customer) {
+    throw new Error('Customer not found')
+  }
+
+  const docRef = await addDoc(standingOrdersCollection, {
+    customerId: data.customerId,
+    customerName: customer.name,
+    items: await nameItems(data.items),
+    discount: data.discount || null,
+    deliveryFee: data.deliveryFee ?? null,
+    deliveryAddress: data.deliveryAddress || null,
+    notes: data.notes || null,
+    frequency: data.frequency,
+    startDate: data.startDate,
+    endDate: data.endDate || null,
+    skipDates: Array.from(new Set(data.skipDates)).sort(),
+    paused: false,
+    pausedUntil: null,
+    generatedDates,
+    createdBy: userId || null,
+    createdAt: getServerTimestamp(),
+    updatedAt: getServerTimestamp()
+  })
+
+  return docRef.id
+}
+
+// Get standing orders, optionally for one customer
+export async function getStandingOrders(customerId?: string): Promise<(StandingOrder & { id: string })[]> {
+  const snapshot = await getDocs(customerId
+    ? query(standingOrdersCollection, where('customerId', '==', customerId))
+    : query(standingOrdersCollection, orderBy('createdAt', 'desc')))
+
+  return snapshot.docs.map(snapshotToStandingOrder)
+}
+
+// Get standing order by ID
+export async function getStandingOrderById(id: string): Promise<(StandingOrder & { id: string }) | null> {
+  const docSnap = await getDoc(getStandingOrderDoc(id))
+  return docSnap.exists() ? snapshotToStandingOrder(docSnap) : null
+}
+
+// Update the lines or the schedule of a standing order
+export async function updateStandingOrder(id: string, data: Partial<StandingOrderInput>): Promise<void> {
+  const updateData: any = { ...data, updatedAt: getServerTimestamp() }
+
+  if (data.items) {
+    updateData.items = await nameItems(data.items)
+  }
+  if (data.skipDates) {
+    updateData.skipDates = Array.from(new Set(data.skipDates)).sort()
+  }
+
+  await updateDoc(getStandingOrderDoc(id), updateData)
+}
+
+// Pause a standing order, until a date or until it is resumed; pass paused=false to resume
+export async function setStandingOrderPaused(id: string, paused: boolean, pausedUntil?: string | null): Promise<void> {
+  await updateDoc(getStandingOrderDoc(id), {
+    paused,
+    pausedUntil: paused ? pausedUntil || null : null,
+    updatedAt: getServerTimestamp()
+  })
+}
+
+// Delete a standing order; orders already generated from it are kept
+export async function deleteStandingOrder(id: string): Promise<void> {
+  await deleteDoc(getStandingOrderDoc(id))
+}
+
+// Where a standing order delivers, and the zone it falls in
+function resolveStandingOrderAddress(standing: StandingOrder, customer: Customer | null, zones: DeliveryZone[]) {
+  const address = resolveOrderAddress({ deliveryAddress: standing.deliveryAddress }, customer)
+  return { address, zone: findDeliveryZone(zones, address.deliveryAddressDetails) }
+}
+
+// Price a standing order from the delivery day's menu, leaving out dishes that are no longer
+// available or not on that menu. Without its own fee it pays the zone's, then the business default.
+// Like an order placed by hand, it has to reach the zone's minimum.
+function priceStandingOrder(
+  standing: StandingOrder,
+  dishes: Dish[],
+  menu: Menu | null,
+  business: BusinessSettings,
+  zone: DeliveryZone | null
+): Pick<StandingOrderOccurrence, 'items' | 'pricing' | 'unavailableDishes' | 'belowMinimum'> {
+  const offered = applyMenu(dishes.filter(dish => dish.isAvailable), menu)
+  const available = new Map(offered.map(dish => [dish.id, dish]))
+  const lines = standing.items.filter(item => available.has(item.dishId))
+  const items = priceOrderItems(lines, Array.from(available.values()))
+
+  const pricing = calculateOrderPricing(
+    items,
+    standing.discount,
+    standing.deliveryFee ?? zone?.deliveryFee ?? business.defaultDeliveryFee
+  )
+
+  return {
+    items,
+    pricing,
+    belowMinimum: zone && isBelowZoneMinimum(zone, pricing)
+      ? { zoneName: zone.name, minimumOrder: zone.minimumOrder! }
+      : null,
+    unavailableDishes: standing.items
+      .filter(item => !available.has(item.dishId))
+      .map(item => item.dishName || item.dishId)
+  }
+}
+
+// Every standing order with a delivery on the date, priced as it would be generated now
+export async function getStandingOrderOccurrences(dateKey: string): Promise<StandingOrderOccurrence[]> {
+  const standingOrders = await getStandingOrders()
+  const scheduled = standingOrders
+    .map(standingOrder => ({ standingOrder, status: getStandingOrderOccurrenceStatus(standingOrder, dateKey) }))
+    .filter(entry => entry.status !== null)
+
+  const dishIds = new Set(scheduled.flatMap(entry => entry.standingOrder.items.map(item => item.dishId)))
+  const customerIds = Array.from(new Set(scheduled.map(entry => entry.standingOrder.customerId)))
+  const [dishes, business, menu, zones, customers] = await Promise.all([
+    getDishesByIds(Array.from(dishIds)),
+    getBusinessSettings(),
+    getMenu(dateKey),
+    getDeliveryZones(),
+    Promise.all(customerIds.map(customerId => getCustomerById(customerId)))
+  ])
+  const customerMap = new Map(customerIds.map((customerId, index) => [customerId, customers[index]]))
+
+  return scheduled
+    .map(({ standingOrder, status }) => {
+      const { zone } = resolveStandingOrderAddress(standingOrder, customerMap.get(standingOrder.customerId) || null, zones)
+      return {
+        standingOrder,
+        date: dateKey,
+        status: status!,
+        ...priceStandingOrder(standingOrder, dishes, menu, business, zone)
+      }
+    })
+    .sort((a, b) => a.standingOrder.customerName.localeCompare(b.standingOrder.customerName))
+}
+
+// Materialize one standing order as a real order for the delivery day. The day is claimed on the
+// standing order first, so generating twice (or from two screens at once) can't create a duplicate.
+export async function generateOrderFromStandingOrder(
+  id: string,
+  dateKey: string,
+  userId?: string
+): Promise<string> {
+  const standingRef = getStandingOrderDoc(id)
+
+  const standing = await runTransaction(db, async (transaction) => {
+    const docSnap = await transaction.get(standingRef)
+    if (!docSnap.exists()) {
+      throw new StandingOrderError('ההזמנה הקבועה לא נמצאה')
+    }
+
+    const current = snapshotToStandingOrder(docSnap)
+    const status = getStandingOrderOccurrenceStatus(current, dateKey)
+    if (status !== 'DUE') {
+      throw new StandingOrderError(status === 'GENERATED'
+        ? 'כבר נוצרה הזמנה ליום משלוח זה'
+        : 'ההזמנה הקבועה אינה פעילה ביום משלוח זה')
+    }
+
+    // Written in full so a legacy lastGeneratedDate carries over
+    transaction.update(standingRef, { generatedDates: [...current.generatedDates, dateKey].sort() })
+    return current
+  })
+
+  try {
+    const [dishes, business, customer, menu, zones] = await Promise.all([
+      getDishesByIds(standing.items.map(item => item.dishId)),
+      getBusinessSettings(),
+      getCustomerById(standing.customerId),
+      getMenu(dateKey),
+      getDeliveryZones()
+    ])
+    const { address, zone } = resolveStandingOrderAddress(standing, customer, zones)
+    const { items, pricing, unavailableDishes, belowMinimum } = priceStandingOrder(standing, dishes, menu, business, zone)
+    if (items.length === 0) {
+      throw new StandingOrderError('אף אחת מהמנות בהזמנה הקבועה אינה זמינה')
+    }
+    if (belowMinimum) {
+      throw new StandingOrderError(`הזמנת המינימום לאזור ${belowMinimum.zoneName} היא ₪${belowMinimum.minimumOrder}`)
+    }
+
+    const orderId = await createOrder({
+      customerId: standing.customerId,
+      orderDate: new Date(),
+      deliveryDate: getBusinessTime(dateKey),
+      ...address,
+      deliveryZoneId: zone?.id || null,
+      deliveryZoneName: zone?.name || null,
+      items,
+      discount: standing.discount || null,
+      ...pricing,
+      status: 'NEW',
+      notes: standing.notes || '',
+      standingOrderId: id
+    })
+
+    await addOrderHistory(orderId, {
+      action: 'STANDING_ORDER',
+      userId: userId || null,
+      details: {
+        message: unavailableDishes.length > 0
+          ? `נוצרה מהזמנה קבועה, ללא מנות שאינן זמינות: ${unavailableDishes.join(', ')}`
+          : 'נוצרה מהזמנה קבועה',
+        standingOrderId: id,
+        unavailableDishes
+      }
+    })
+
+    return orderId
+  } catch (error) {
+    // Release the day so the order can be generated again once the problem is fixed
+    await updateDoc(standingRef, { generatedDates: arrayRemove(dateKey) })
+    throw error
+  }
+}
@@ -15,7 +15,17 @@ import type {
   Dish,
   Order,
   OrderHistory,
-  OrderCounter
+  OrderCounter,
+  DeliveryUsage,
+  StandingOrder,
+  OrderTemplate,
+  Menu,
+  DeliveryPlan,
+  DeliveryZone,
+  Payment,
+  SearchIndexEntry,
+  SearchIndexKind,
+  AnalyticsRollup
 } from '@/lib/types/firestore'
 
 // Collection references
@@ -23,6 +33,17 @@ export const customersCollection = collection(db, 'customers') as CollectionRefe
 export const dishesCollection = collection(db, 'dishes') as CollectionReference<Dish>
 export const ordersCollection = collection(db, 'orders') as CollectionReference<Order>
 export const countersCollection = collection(db, 'counters') as CollectionReference<OrderCounter>
+export const settingsCollection = collection(db, 'settings')
+export const deliveryUsageCollection = collection(db, 'deliveryUsage') as CollectionReference<DeliveryUsage>
+export const standingOrdersCollection = collection(db, 'standingOrders') as CollectionReference<StandingOrder>
+export const orderTemplatesCollection = collection(db, 'orderTemplates') as CollectionReference<OrderTemplate>
+export const menusCollection = collection(db, 'menus') as CollectionReference<Menu>
+export const deliveryRoutesCollection = collection(db, 'deliveryRoutes') as CollectionReference<DeliveryPlan>
+export const deliveryZonesCollection = collection(db, 'deliveryZones') as CollectionReference<DeliveryZone>
+export const paymentsCollection = collection(db, 'payments') as CollectionReference<Payment>
+export const searchIndexCollection = collection(db, 'searchIndex') as CollectionReference<SearchIndexEntry>
+export const dailyRollupsCollection = collection(db, 'dailyRollups') as CollectionReference<AnalyticsRollup>
+export const weeklyRollupsCollection = collection(db, 'weeklyRollups') as CollectionReference<AnalyticsRollup>
 
 // Helper function to get subcollection references
 export const customerPreferencesCollection = (customerId: string) =>
@@ -44,6 +65,42 @@ export const getOrderDoc = (orderId: string) =>
 export const getOrderCounterDoc = (year: number) =>
   doc(countersCollection, `orderNumbers_${year}`)
 
+export const getDeliveryScheduleDoc = () =>
+  doc(settingsCollection, 'deliverySchedule')
+
+export const getCapacitySettingsDoc = () =>
+  doc(settingsCollection, 'capacity')
+
+export const getBusinessSettingsDoc = () =>
+  doc(settingsCollection, 'business')
+
+export const getDeliveryUsageDoc = (dateKey: string) =>
+  doc(deliveryUsageCollection, dateKey)
+
+export const getStandingOrderDoc = (standingOrderId: string) =>
+  doc(standingOrdersCollection, standingOrderId)
+
+export const getOrderTemplateDoc = (templateId: string) =>
+  doc(orderTemplatesCollection, templateId)
+
+export const getMenuDoc = (dateKey: string) =>
+  doc(menusCollection, dateKey)
+
+export const getDeliveryPlanDoc = (dateKey: string) =>
+  doc(deliveryRoutesCollection, dateKey)
+
+export const getDeliveryZoneDoc = (zoneId: string) =>
+  doc(deliveryZonesCollection, zoneId)
+
+export const getSearchIndexDoc = (kind: SearchIndexKind, entityId: string) =>
+  doc(searchIndexCollection, `${kind}_${entityId}`)
+
+export const getDailyRollupDoc = (dateKey: string) =>
+  doc(dailyRollupsCollection, dateKey)
+
+export const getWeeklyRollupDoc = (fridayKey: string) =>
+  doc(weeklyRollupsCollection, fridayKey)
+
 // Timestamp helpers
 export const createTimestamp = () => Timestamp.now()
 export const getServerTimestamp = () => serverTimestamp()
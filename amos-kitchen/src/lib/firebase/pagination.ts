@@ -0,0 +1,82 @@
+// lib/firebase/pagination.ts
+import {
+  getDocs,
+  getCountFromServer,
+  query,
+  orderBy,
+  limit,
+  limitToLast,
+  startAfter,
+  endBefore,
+  documentId,
+  Timestamp,
+  type Query,
+  type QueryConstraint,
+  type QueryDocumentSnapshot
+} from 'firebase/firestore'
+import { encodeCursor, type CursorValue, type PageInfo, type PageRequest, type SortOption } from '@/lib/utils/pagination'
+
+const toCursorValue = (value: unknown): CursorValue => {
+  if (value instanceof Timestamp) return { ms: value.toMillis() }
+  if (value === undefined) return null
+  return value as CursorValue
+}
+
+const fromCursorValue = (value: CursorValue): unknown =>
+  value !== null && typeof value === 'object' ? Timestamp.fromMillis(value.ms) : value
+
+// One page of a Firestore query in a stable order (the sort field, then the document id),
+// with the number of all matching documents from a count query. `filters` must not contain
+// orderBy or limit constraints.
+export async function paginateQuery<T>(
+  baseQuery: Query<T>,
+  filters: QueryConstraint[],
+  sortOption: SortOption,
+  page: PageRequest
+): Promise<{ docs: QueryDocumentSnapshot<T>[], pageInfo: PageInfo }> {
+  const { field, direction } = sortOption
+  const ordering = [orderBy(field, direction), orderBy(documentId(), direction)]
+  const cursor = page.cursor && 'direction' in page.cursor ? page.cursor : null
+  const cursorValues = cursor ? [fromCursorValue(cursor.value), cursor.id] : []
+
+  // One extra document tells whether there is another page in that direction
+  const pageQuery = cursor?.direction === 'prev'
+    ? query(baseQuery, ...filters, ...ordering, endBefore(...cursorValues), limitToLast(page.limit + 1))
+    : query(baseQuery, ...filters, ...ordering, ...(cursor ? [startAfter(...cursorValues)] : []), limit(page.limit + 1))
+
+  const [snapshot, countSnapshot] = await Promise.all([
+    getDocs(pageQuery),
+    getCountFromServer(query(baseQuery, ...filters))
+  ])
+
+  let docs = snapshot.docs
+  let hasNext: boolean
+  let hasPrev: boolean
+  if (cursor?.direction === 'prev') {
+    hasPrev = docs.length > page.limit
+    hasNext = true
+    if (hasPrev) docs = docs.slice(1)
+  } else {
+    hasNext = docs.length > page.limit
+    hasPrev = !!cursor
+    if (hasNext) docs = docs.slice(0, page.limit)
+  }
+
+  const cursorAt = (docSnap: QueryDocumentSnapshot<T>, to: 'next' | 'prev') => encodeCursor({
+    sort: page.sort,
+    direction: to,
+    value: toCursorValue(docSnap.get(field)),
+    id: docSnap.id
+  })
+
+  return {
+    docs,
+    pageInfo: {
+      total: countSnapshot.data().count,
+      limit: page.limit,
+      sort: page.sort,
+      nextCursor: hasNext && docs.length > 0 ? cursorAt(docs[docs.length - 1], 'next') : null,
+      prevCursor: hasPrev && docs.length > 0 ? cursorAt(docs[0], 'prev') : null
+    }
+  }
+}
@@ -0,0 +1,52 @@
+// lib/hooks/use-business-settings.ts
+'use client'
+
+import { useEffect, useState } from 'react'
+import { fetchWithAuth } from '@/lib/api/fetch-with-auth'
+import { DEFAULT_BUSINESS_SETTINGS, withBusinessDefaults } from '@/lib/utils/business-settings'
+import type { BusinessSettings } from '@/lib/types/firestore'
+
+// Shared between components so a page with several price displays fetches once
+let settingsPromise: Promise<BusinessSettings> | null = null
+
+function loadBusinessSettings(): Promise<BusinessSettings> {
+    if (!settingsPromise) {
+        settingsPromise = fetchWithAuth('/api/settings/business')
+            .then(response => {
+                if (!response.ok) throw new Error('Failed to fetch business settings')
+                return response.json()
+            })
+            .then(withBusinessDefaults)
+            .catch(error => {
+                console.error('Error fetching business settings:', error)
+                settingsPromise = null
+                return DEFAULT_BUSINESS_SETTINGS
+            })
+    }
+    return settingsPromise
+}
+
+// Call after saving so the next reader sees the new values
+export function invalidateBusinessSettings(settings?: BusinessSettings) {
+    settingsPromise = settings ? Promise.resolve(settings) : null
+}
+
+export function useBusinessSettings() {
+    const [settings, setSettings] = useState<BusinessSettings>(DEFAULT_BUSINESS_SETTINGS)
+    const [isLoading, setIsLoading] = useState(true)
+
+    useEffect(() => {
+        let cancelled = false
+        loadBusinessSettings().then(loaded => {
+            if (!cancelled) {
+                setSettings(loaded)
+                setIsLoading(false)
+            }
+        })
+        return () => {
+            cancelled = true
+        }
+    }, [])
+
+    return { settings, isLoading }
+}
@@ -0,0 +1,289 @@
+// lib/hooks/use-kitchen-orders.ts
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { fetchWithAuth } from '@/lib/api/fetch-with-auth'
+import { subscribeToDeliveryDayOrders } from '@/lib/firebase/dao/orders'
+import { getDishesByIds } from '@/lib/firebase/dao/dishes'
+import { getCustomerById, getCustomerPreferences } from '@/lib/firebase/dao/customers'
+import { normalizeOrderStatus } from '@/lib/utils/order-status'
+import type { Order as FirestoreOrder } from '@/lib/types/firestore'
+import type { Order, OrderStatus, Customer, CustomerPreference, OrderItem, Dish } from '@/lib/types/database'
+
+export interface KitchenOrder extends Order {
+    customer: Customer & {
+        preferences?: CustomerPreference[]
+    }
+    orderItems: (OrderItem & {
+        dish: Dish
+    })[]
+}
+
+type CustomerInfo = { customer: Customer | null, preferences: CustomerPreference[] }
+
+// How long a new or changed order stays highlighted on the board
+const HIGHLIGHT_MS = 10000
+const MUTE_STORAGE_KEY = 'kitchen-board-muted'
+const STATUS_ORDER = ['NEW', 'CONFIRMED', 'PREPARING', 'READY', 'DELIVERED']
+
+// Same order as the next-delivery API: by status, then oldest first
+function sortKitchenOrders(orders: KitchenOrder[]): KitchenOrder[] {
+    return orders.sort((a, b) => {
+        const statusDiff = STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status)
+        if (statusDiff !== 0) return statusDiff
+        return new Date(a.createdAt) < new Date(b.createdAt) ? -1 : 1
+    })
+}
+
+// Two short tones; browsers only allow audio after the user has interacted with the page
+function playChime() {
+    try {
+        const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext
+        if (!AudioContextClass) return
+
+        const context = new AudioContextClass()
+        const frequencies = [880, 1320]
+        frequencies.forEach((frequency, index) => {
+            const oscillator = context.createOscillator()
+            const gain = context.createGain()
+            const start = context.currentTime + index * 0.18
+
+            oscillator.type = 'sine'
+            oscillator.frequency.value = frequency
+            gain.gain.setValueAtTime(0.2, start)
+            gain.gain.exponentialRampToValueAtTime(0.001, start + 0.3)
+
+            oscillator.connect(gain)
+            gain.connect(context.destination)
+            oscillator.start(start)
+            oscillator.stop(start + 0.3)
+        })
+        setTimeout(() => context.close(), 1000)
+    } catch (error) {
+        console.warn('Could not play notification sound:', error)
+    }
+}
+
+interface UseKitchenOrdersResult {
+    orders: KitchenOrder[]
+    deliveryDate: Date | null
+    isLive: boolean
+    highlightedIds: Set<string>
+    muted: boolean
+    setMuted: (muted: boolean) => void
+    expectStatusChange: (orderId: string, status: OrderStatus) => void
+    clearExpectedStatusChange: (orderId: string) => void
+}
+
+// Keeps the kitchen board in sync with Firestore: orders of the delivery day are pushed
+// as they change instead of being polled, and changes made elsewhere get a visual and
+// audio cue. Changes the board makes itself are announced with expectStatusChange so
+// they don't trigger the cue.
+export function useKitchenOrders(
+    initialOrders: KitchenOrder[],
+    initialDeliveryDate: Date | null
+): UseKitchenOrdersResult {
+    const [orders, setOrders] = useState<KitchenOrder[]>(() => sortKitchenOrders(
+        initialOrders.map(order => ({ ...order, status: normalizeOrderStatus(order.status) }))
+    ))
+    const [deliveryDate, setDeliveryDate] = useState<Date | null>(
+        initialDeliveryDate ? new Date(initialDeliveryDate) : null
+    )
+    const [isLive, setIsLive] = useState(false)
+    const [highlightedIds, setHighlightedIds] = useState<Set<string>>(new Set())
+    const [muted, setMutedState] = useState(false)
+
+    const mutedRef = useRef(false)
+    const rawOrdersRef = useRef(new Map<string, FirestoreOrder & { id: string }>())
+    const dishCacheRef = useRef(new Map<string, Dish>())
+    const customerCacheRef = useRef(new Map<string, Promise<CustomerInfo>>())
+    const expectedStatusRef = useRef(new Map<string, OrderStatus>())
+    const highlightTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>())
+    const snapshotSeqRef = useRef(0)
+    const pendingCueRef = useRef(new Set<string>())
+
+    useEffect(() => {
+        const stored = window.localStorage.getItem(MUTE_STORAGE_KEY) === 'true'
+        mutedRef.current = stored
+        setMutedState(stored)
+    }, [])
+
+    const setMuted = useCallback((value: boolean) => {
+        mutedRef.current = value
+        setMutedState(value)
+        window.localStorage.setItem(MUTE_STORAGE_KEY, String(value))
+    }, [])
+
+    const expectStatusChange = useCallback((orderId: string, status: OrderStatus) => {
+        expectedStatusRef.current.set(orderId, status)
+    }, [])
+
+    const clearExpectedStatusChange = useCallback((orderId: string) => {
+        expectedStatusRef.current.delete(orderId)
+    }, [])
+
+    const highlight = useCallback((ids: string[]) => {
+        setHighlightedIds(prev => new Set([...Array.from(prev), ...ids]))
+        ids.forEach(id => {
+            const existing = highlightTimersRef.current.get(id)
+            if (existing) clearTimeout(existing)
+            highlightTimersRef.current.set(id, setTimeout(() => {
+                highlightTimersRef.current.delete(id)
+                setHighlightedIds(prev => {
+                    const next = new Set(prev)
+                    next.delete(id)
+                    return next
+                })
+            }, HIGHLIGHT_MS))
+        })
+    }, [])
+
+    useEffect(() => {
+        const timers = highlightTimersRef.current
+        return () => timers.forEach(timer => clearTimeout(timer))
+    }, [])
+
+    // Without a date from the server render, ask the API which day is next
+    useEffect(() => {
+        if (deliveryDate) return
+
+        let cancelled = false
+        fetchWithAuth('/api/orders/next-delivery')
+            .then(response => response.ok ? response.json() : null)
+            .then(data => {
+                if (!cancelled && data?.deliveryDate) {
+                    setDeliveryDate(new Date(data.deliveryDate))
+                }
+            })
+            .catch(error => console.error('Error resolving next delivery date:', error))
+        return () => {
+            cancelled = true
+        }
+    }, [deliveryDate])
+
+    const loadCustomer = useCallback((customerId: string): Promise<CustomerInfo> => {
+        let cached = customerCacheRef.current.get(customerId)
+        if (!cached) {
+            cached = Promise.all([getCustomerById(customerId), getCustomerPreferences(customerId)])
+                .then(([customer, preferences]) => ({
+                    customer: customer as unknown as Customer | null,
+                    preferences: preferences as unknown as CustomerPreference[]
+                }))
+                .catch(error => {
+                    console.error('Error loading customer for kitchen board:', error)
+                    customerCacheRef.current.delete(customerId)
+                    return { customer: null, preferences: [] }
+                })
+            customerCacheRef.current.set(customerId, cached)
+        }
+        return cached
+    }, [])
+
+    // Turn a stored order into the shape the board renders, like the next-delivery API does
+    const toKitchenOrder = useCallback(async (order: FirestoreOrder & { id: string }): Promise<KitchenOrder> => {
+        const { customer, preferences } = await loadCustomer(order.customerId)
+        const items = order.items || []
+
+        return {
+            ...(order as any),
+            status: normalizeOrderStatus(order.status),
+            customer: {
+                id: order.customerId,
+                name: order.customerData?.name || customer?.name || 'Unknown',
+                phone: order.customerData?.phone || customer?.phone || '',
+                email: order.customerData?.email || customer?.email || null,
+                address: customer?.address || null,
+                notes: customer?.notes || null,
+                preferences
+            } as KitchenOrder['customer'],
+            orderItems: items.map(item => ({
+                ...(item as any),
+                dish: dishCacheRef.current.get(item.dishId) || {
+                    id: item.dishId,
+                    name: item.dishName || 'Unknown Dish',
+                    category: 'MAIN',
+                    price: item.price,
+                    description: null
+                }
+            }))
+        }
+    }, [loadCustomer])
+
+    useEffect(() => {
+        if (!deliveryDate) return
+
+        rawOrdersRef.current = new Map()
+        const unsubscribe = subscribeToDeliveryDayOrders(deliveryDate, async (changes, isInitial) => {
+            const seq = ++snapshotSeqRef.current
+
+            changes.forEach(({ type, order }) => {
+                if (type === 'removed') {
+                    rawOrdersRef.current.delete(order.id)
+                    return
+                }
+                rawOrdersRef.current.set(order.id, order)
+
+                const status = normalizeOrderStatus(order.status)
+                const expected = expectedStatusRef.current.get(order.id)
+                if (expected && expected === status) {
+                    expectedStatusRef.current.delete(order.id)
+                } else if (!isInitial && status !== 'CANCELLED') {
+                    pendingCueRef.current.add(order.id)
+                }
+            })
+
+            const activeOrders = Array.from(rawOrdersRef.current.values())
+                .filter(order => normalizeOrderStatus(order.status) !== 'CANCELLED')
+
+            // Only dishes the board hasn't seen yet are fetched
+            const missingDishIds = new Set<string>()
+            activeOrders.forEach(order => {
+                (order.items || []).forEach(item => {
+                    if (!dishCacheRef.current.has(item.dishId)) missingDishIds.add(item.dishId)
+                })
+            })
+            if (missingDishIds.size > 0) {
+                try {
+                    const dishes = await getDishesByIds(Array.from(missingDishIds))
+                    dishes.forEach(dish => {
+                        if (dish.id) dishCacheRef.current.set(dish.id, dish as unknown as Dish)
+                    })
+                } catch (error) {
+                    console.error('Error loading dishes for kitchen board:', error)
+                }
+            }
+
+            const kitchenOrders = await Promise.all(activeOrders.map(toKitchenOrder))
+
+            // A newer snapshot arrived while this one was loading; it will render (and cue) instead
+            if (seq !== snapshotSeqRef.current) return
+
+            setOrders(sortKitchenOrders(kitchenOrders))
+            setIsLive(true)
+
+            const changedIds = Array.from(pendingCueRef.current)
+                .filter(id => rawOrdersRef.current.has(id))
+            pendingCueRef.current.clear()
+            if (changedIds.length > 0) {
+                highlight(changedIds)
+                if (!mutedRef.current) playChime()
+            }
+        }, () => setIsLive(false))
+
+        return () => {
+            unsubscribe()
+            setIsLive(false)
+        }
+    }, [deliveryDate, toKitchenOrder, highlight])
+
+    return {
+        orders,
+        deliveryDate,
+        isLive,
+        highlightedIds,
+        muted,
+        setMuted,
+        expectStatusChange,
+        clearExpectedStatusChange
+    }
+}
@@ -1,70 +1,58 @@
 // lib/hooks/use-orders.ts
 import { useState, useEffect, useCallback } from 'react'
 import { fetchWithAuth } from '@/lib/api/fetch-with-auth'
+import { usePagination, type Page } from '@/lib/hooks/use-pagination'
 import type { Order, OrderFilters } from '@/lib/types/database'
+import type { PageInfo } from '@/lib/utils/pagination'
 
 interface UseOrdersResult {
     orders: Order[] | null
     isLoading: boolean
     error: Error | null
     totalCount: number
+    pagination: PageInfo | null
+    pageNumber: number
+    hasNext: boolean
+    hasPrevious: boolean
+    nextPage: () => void
+    previousPage: () => void
+    loadMore: () => void
     refetch: () => void
 }
 
+// Orders a page at a time; changing the filters goes back to the first page
 export function useOrders(filters: OrderFilters): UseOrdersResult {
-    const [orders, setOrders] = useState<Order[] | null>(null)
-    const [isLoading, setIsLoading] = useState(true)
-    const [error, setError] = useState<Error | null>(null)
-    const [totalCount, setTotalCount] = useState(0)
-
-    const fetchOrders = useCallback(async () => {
+    const fetchPage = useCallback(async (cursor: string | null): Promise<Page<Order>> => {
         console.log('Fetching orders with filters:', filters)
-        try {
-            setIsLoading(true)
-            setError(null)
-
-            const params = new URLSearchParams({
-                search: filters.search,
-                status: filters.status,
-                dateRange: filters.dateRange,
-                page: filters.page.toString(),
-                limit: filters.limit.toString()
-            })
-
-            console.log('Calling API:', `/api/orders?${params}`)
-            const response = await fetchWithAuth(`/api/orders?${params}`)
-
-            if (!response.ok) {
-                const errorData = await response.text()
-                console.error('API Error:', response.status, errorData)
-                throw new Error(`Failed to fetch orders: ${response.status}`)
-            }
-
-            const data = await response.json()
-            console.log('Received data:', data)
-            setOrders(data.orders || [])
-            setTotalCount(data.totalCount || 0)
-        } catch (err) {
-            setError(err as Error)
-            console.error('Error fetching orders:', err)
-            setOrders([])
-            setTotalCount(0)
-        } finally {
-            console.log('Setting loading to false')
-            setIsLoading(false)
+        const params = new URLSearchParams({
+            search: filters.search,
+            status: filters.status,
+            dateRange: filters.dateRange,
+            sort: filters.sort,
+            limit: filters.limit.toString()
+        })
+        if (cursor) params.set('cursor', cursor)
+
+        console.log('Calling API:', `/api/orders?${params}`)
+        const response = await fetchWithAuth(`/api/orders?${params}`)
+
+        if (!response.ok) {
+            const errorData = await response.text()
+            console.error('API Error:', response.status, errorData)
+            throw new Error(`Failed to fetch orders: ${response.status}`)
         }
+
+        const data = await response.json()
+        return { items: data.orders || [], pagination: data.pagination }
     }, [filters])
 
-    useEffect(() => {
-        fetchOrders()
-    }, [fetchOrders])
+    const { items, pagination, ...page } = usePagination(fetchPage)
 
     return {
-        orders,
-        isLoading,
-        error,
-        totalCount,
-        refetch: fetchOrders
+        ...page,
+        orders: items,
+        pagination,
+        totalCount: pagination?.total || 0
     }
 }
 
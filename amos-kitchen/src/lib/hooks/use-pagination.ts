@@ -0,0 +1,104 @@
+// lib/hooks/use-pagination.ts
+import { useState, useEffect, useCallback, useRef } from 'react'
+import type { PageInfo } from '@/lib/utils/pagination'
+
+export interface Page<T> {
+    items: T[]
+    pagination: PageInfo
+}
+
+export interface UsePaginationResult<T> {
+    items: T[] | null
+    pagination: PageInfo | null
+    isLoading: boolean
+    error: Error | null
+    pageNumber: number
+    hasNext: boolean
+    hasPrevious: boolean
+    // Replace the list with the next or previous page
+    nextPage: () => void
+    previousPage: () => void
+    // Append the next page, for infinite scroll
+    loadMore: () => void
+    refetch: () => void
+}
+
+// Walks a cursor-paginated list. A new fetchPage (i.e. new filters) starts over from the
+// first page; responses to requests made before that are dropped.
+export function usePagination<T>(fetchPage: (cursor: string | null) => Promise<Page<T>>): UsePaginationResult<T> {
+    const [items, setItems] = useState<T[] | null>(null)
+    const [pagination, setPagination] = useState<PageInfo | null>(null)
+    const [isLoading, setIsLoading] = useState(true)
+    const [error, setError] = useState<Error | null>(null)
+    const [pageNumber, setPageNumber] = useState(1)
+    // The cursor of the first page on screen, so a refetch shows the same records
+    const [startCursor, setStartCursor] = useState<string | null>(null)
+    const requestId = useRef(0)
+
+    const load = useCallback(async (cursor: string | null, append: boolean) => {
+        const id = ++requestId.current
+        try {
+            setIsLoading(true)
+            setError(null)
+
+            const page = await fetchPage(cursor)
+            if (id !== requestId.current) return
+
+            setItems(current => append && current ? [...current, ...page.items] : page.items)
+            setPagination(page.pagination)
+        } catch (err) {
+            if (id !== requestId.current) return
+            console.error('Error fetching page:', err)
+            setError(err as Error)
+            if (!append) {
+                setItems([])
+                setPagination(null)
+            }
+        } finally {
+            if (id === requestId.current) setIsLoading(false)
+        }
+    }, [fetchPage])
+
+    useEffect(() => {
+        setPageNumber(1)
+        setStartCursor(null)
+        load(null, false)
+    }, [load])
+
+    const nextPage = useCallback(() => {
+        if (!pagination?.nextCursor) return
+        setPageNumber(n => n + 1)
+        setStartCursor(pagination.nextCursor)
+        load(pagination.nextCursor, false)
+    }, [pagination, load])
+
+    const previousPage = useCallback(() => {
+        if (!pagination?.prevCursor) return
+        setPageNumber(n => Math.max(1, n - 1))
+        setStartCursor(pagination.prevCursor)
+        load(pagination.prevCursor, false)
+    }, [pagination, load])
+
+    const loadMore = useCallback(() => {
+        if (!pagination?.nextCursor || isLoading) return
+        load(pagination.nextCursor, true)
+    }, [pagination, isLoading, load])
+
+    const refetch = useCallback(() => {
+        load(startCursor, false)
+    }, [startCursor, load])
+
+    return {
+        items,
+        pagination,
+        isLoading,
+        error,
+        pageNumber,
+        hasNext: !!pagination?.nextCursor,
+        hasPrevious: !!pagination?.prevCursor,
+        nextPage,
+        previousPage,
+        loadMore,
+        refetch
+    }
+}
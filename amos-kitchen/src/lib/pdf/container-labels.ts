@@ -0,0 +1,51 @@
+// lib/pdf/container-labels.ts
+import { COLORS, FONTS, PAGE_SIZES, contentWidth, drawAlert } from './document'
+import { drawText } from './rtl-text'
+import type { PrintOrder } from './print-data'
+
+const MARGIN = 8
+
+// One sticker per container, so a line of 3 portions prints 3 labels
+export function drawContainerLabels(doc: PDFKit.PDFDocument, order: PrintOrder) {
+    const containers = order.items.reduce((sum, item) => sum + item.quantity, 0)
+    let count = 0
+
+    order.items.forEach(item => {
+        for (let portion = 0; portion < item.quantity; portion++) {
+            count++
+            doc.addPage({ size: PAGE_SIZES.LABEL, margin: MARGIN })
+            const x = MARGIN
+            const width = contentWidth(doc)
+            const bottom = doc.page.height - MARGIN
+
+            doc.font(FONTS.bold).fontSize(11).fillColor(COLORS.text)
+            drawText(doc, order.customer.name, x, MARGIN, { width, maxLines: 1 })
+            doc.font(FONTS.regular).fontSize(8).fillColor(COLORS.muted)
+            drawText(doc, order.delivery.date, x, MARGIN + 2, { width, align: 'left' })
+
+            doc.font(FONTS.bold).fontSize(15).fillColor(COLORS.text)
+            let y = drawText(doc, item.dishName, x, MARGIN + 17, { width, maxLines: 2 })
+            if (item.notes) {
+                doc.font(FONTS.regular).fontSize(8)
+                drawText(doc, item.notes, x, y, { width, maxLines: 1 })
+            }
+
+            // Allergens sit at the bottom, highlighted when the customer must avoid one
+            doc.fontSize(8)
+            y = bottom - 24
+            if (item.conflicts.length > 0) {
+                drawAlert(doc, `⚠ אלרגן ללקוח: ${item.conflicts.join(', ')}`, x, y, width)
+            } else {
+                doc.font(FONTS.regular).fillColor(COLORS.text)
+                drawText(doc, item.allergens.length > 0 ? `אלרגנים: ${item.allergens.join(', ')}` : 'ללא אלרגנים מסומנים', x, y, {
+                    width,
+                    maxLines: 1
+                })
+            }
+
+            doc.font(FONTS.regular).fontSize(7).fillColor(COLORS.muted)
+            drawText(doc, `${order.header.orderNumber} · ${count}/${containers}`, x, bottom - 9, { width, align: 'left' })
+            doc.fillColor(COLORS.text)
+        }
+    })
+}
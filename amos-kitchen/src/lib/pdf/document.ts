@@ -0,0 +1,94 @@
+// lib/pdf/document.ts
+import path from 'path'
+import PDFDocument from 'pdfkit'
+import { drawText, measureText } from './rtl-text'
+
+// pdfkit works in points; labels are specified in millimetres
+const MM = 72 / 25.4
+
+export const PAGE_SIZES = {
+    A4: [595.28, 841.89],
+    // A6, fits the kitchen pass
+    TICKET: [105 * MM, 148 * MM],
+    // Standard 100x50mm container sticker
+    LABEL: [100 * MM, 50 * MM]
+}
+
+// DejaVu Sans covers Hebrew, Latin and digits in one font, so mixed lines need no fallback
+const FONT_DIR = path.join(process.cwd(), 'node_modules', 'dejavu-fonts-ttf', 'ttf')
+
+export const FONTS = {
+    regular: 'Regular',
+    bold: 'Bold'
+}
+
+export const COLORS = {
+    text: '#111827',
+    muted: '#6b7280',
+    border: '#d1d5db',
+    alert: '#b91c1c',
+    alertBackground: '#fee2e2'
+}
+
+// Render a PDF into a buffer. Pages are added by the callback.
+export function renderPdf(title: string, draw: (doc: PDFKit.PDFDocument) => void): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        const doc = new PDFDocument({
+            autoFirstPage: false,
+            font: path.join(FONT_DIR, 'DejaVuSans.ttf'),
+            info: { Title: title }
+        })
+        doc.registerFont(FONTS.regular, path.join(FONT_DIR, 'DejaVuSans.ttf'))
+        doc.registerFont(FONTS.bold, path.join(FONT_DIR, 'DejaVuSans-Bold.ttf'))
+
+        const chunks: Buffer[] = []
+        doc.on('data', (chunk: Buffer) => chunks.push(chunk))
+        doc.on('end', () => resolve(Buffer.concat(chunks)))
+        doc.on('error', reject)
+
+        try {
+            draw(doc)
+            doc.end()
+        } catch (error) {
+            reject(error)
+        }
+    })
+}
+
+// Start a new page when a block of the given height doesn't fit; returns where to draw it
+export function ensureSpace(doc: PDFKit.PDFDocument, y: number, height: number): number {
+    const bottom = doc.page.height - doc.page.margins.bottom
+    if (y + height <= bottom) return y
+
+    doc.addPage({ size: [doc.page.width, doc.page.height], margin: doc.page.margins.top })
+    return doc.page.margins.top
+}
+
+// Usable width between the page margins
+export function contentWidth(doc: PDFKit.PDFDocument): number {
+    return doc.page.width - doc.page.margins.left - doc.page.margins.right
+}
+
+// A highlighted box, used for allergies. Returns the y below it.
+export function drawAlert(doc: PDFKit.PDFDocument, text: string, x: number, y: number, width: number): number {
+    const padding = 4
+    doc.font(FONTS.bold)
+    const height = measureText(doc, text, { width: width - padding * 2 }) + padding * 2
+
+    doc.save()
+    doc.rect(x, y, width, height).fillAndStroke(COLORS.alertBackground, COLORS.alert)
+    doc.restore()
+
+    doc.fillColor(COLORS.alert)
+    drawText(doc, text, x + padding, y + padding, { width: width - padding * 2 })
+    doc.fillColor(COLORS.text).font(FONTS.regular)
+    return y + height
+}
+
+// A thin horizontal rule across the given width; returns the y below it
+export function drawRule(doc: PDFKit.PDFDocument, x: number, y: number, width: number, gap = 6): number {
+    doc.save()
+    doc.moveTo(x, y + gap / 2).lineTo(x + width, y + gap / 2).lineWidth(0.5).strokeColor(COLORS.border).stroke()
+    doc.restore()
+    return y + gap
+}
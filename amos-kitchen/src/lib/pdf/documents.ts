@@ -0,0 +1,48 @@
+// lib/pdf/documents.ts
+import { renderPdf } from './document'
+import { drawKitchenTicket } from './kitchen-ticket'
+import { drawContainerLabels } from './container-labels'
+import { drawPackingSlip } from './packing-slip'
+import type { PrintBatch } from './print-data'
+
+export const PRINT_DOCUMENT_TYPES = ['ticket', 'labels', 'packing'] as const
+
+export type PrintDocumentType = typeof PRINT_DOCUMENT_TYPES[number]
+
+const DOCUMENT_TITLES: Record<PrintDocumentType, string> = {
+    ticket: 'כרטיסי מטבח',
+    labels: 'מדבקות לקופסאות',
+    packing: 'תעודות אריזה'
+}
+
+export function isPrintDocumentType(value: string | null): value is PrintDocumentType {
+    return PRINT_DOCUMENT_TYPES.includes(value as PrintDocumentType)
+}
+
+// Render one document type for every order in the batch into a single PDF
+export function renderPrintDocument(type: PrintDocumentType, batch: PrintBatch): Promise<Buffer> {
+    return renderPdf(DOCUMENT_TITLES[type], doc => {
+        batch.orders.forEach(order => {
+            switch (type) {
+                case 'ticket':
+                    drawKitchenTicket(doc, order)
+                    break
+                case 'labels':
+                    drawContainerLabels(doc, order)
+                    break
+                case 'packing':
+                    drawPackingSlip(doc, order, batch.business)
+                    break
+            }
+        })
+    })
+}
+
+// Response headers that let the browser show the PDF in a tab
+export function pdfHeaders(filename: string): HeadersInit {
+    return {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `inline; filename="${filename}"`,
+        'Cache-Control': 'no-store'
+    }
+}
@@ -0,0 +1,59 @@
+// lib/pdf/kitchen-ticket.ts
+import { COLORS, FONTS, PAGE_SIZES, contentWidth, drawAlert, drawRule, ensureSpace } from './document'
+import { drawText, measureText } from './rtl-text'
+import type { PrintOrder } from './print-data'
+
+const MARGIN = 16
+
+// One ticket per order for the kitchen pass: what to cook, with allergies up front
+export function drawKitchenTicket(doc: PDFKit.PDFDocument, order: PrintOrder) {
+    doc.addPage({ size: PAGE_SIZES.TICKET, margin: MARGIN })
+    const x = MARGIN
+    const width = contentWidth(doc)
+    let y = MARGIN
+
+    doc.font(FONTS.bold).fontSize(16).fillColor(COLORS.text)
+    y = drawText(doc, `הזמנה ${order.header.orderNumber}`, x, y, { width })
+
+    doc.font(FONTS.regular).fontSize(10).fillColor(COLORS.muted)
+    y = drawText(doc, `משלוח ${order.delivery.date} · ${order.customer.name}`, x, y, { width })
+    doc.fillColor(COLORS.text)
+    y = drawRule(doc, x, y, width)
+
+    if (order.allergies.length > 0) {
+        doc.fontSize(11)
+        y = drawAlert(doc, `⚠ אלרגיות: ${order.allergies.join(', ')}`, x, y, width) + 6
+    }
+
+    order.items.forEach(item => {
+        const notes = item.notes ? `הערה: ${item.notes}` : ''
+        const warning = item.conflicts.length > 0 ? `⚠ מכיל ${item.conflicts.join(', ')}` : ''
+
+        doc.font(FONTS.bold).fontSize(13)
+        const height = measureText(doc, `${item.quantity} × ${item.dishName}`, { width }) +
+            (notes || warning ? 30 : 0)
+        y = ensureSpace(doc, y, height)
+
+        y = drawText(doc, `${item.quantity} × ${item.dishName}`, x, y, { width })
+        doc.font(FONTS.regular).fontSize(10)
+        if (notes) {
+            y = drawText(doc, notes, x, y, { width })
+        }
+        if (warning) {
+            doc.font(FONTS.bold).fillColor(COLORS.alert)
+            y = drawText(doc, warning, x, y, { width })
+            doc.font(FONTS.regular).fillColor(COLORS.text)
+        }
+        y += 4
+    })
+
+    if (order.notes) {
+        y = drawRule(doc, x, y, width)
+        doc.font(FONTS.regular).fontSize(10)
+        y = ensureSpace(doc, y, measureText(doc, order.notes, { width }) + 14)
+        doc.font(FONTS.bold)
+        y = drawText(doc, 'הערות להזמנה', x, y, { width })
+        doc.font(FONTS.regular)
+        drawText(doc, order.notes, x, y, { width })
+    }
+}
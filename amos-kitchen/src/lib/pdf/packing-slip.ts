@@ -0,0 +1,121 @@
+// lib/pdf/packing-slip.ts
+import { COLORS, FONTS, PAGE_SIZES, contentWidth, drawAlert, drawRule, ensureSpace } from './document'
+import { drawText, measureText } from './rtl-text'
+import type { BusinessSettings } from '@/lib/types/firestore'
+import type { PrintOrder } from './print-data'
+
+const MARGIN = 40
+const CHECK_WIDTH = 24
+const QUANTITY_WIDTH = 50
+const NOTES_WIDTH = 170
+const CELL_PADDING = 6
+
+// An A4 slip that goes in the delivery bag: what was packed, for whom, and what to collect
+export function drawPackingSlip(doc: PDFKit.PDFDocument, order: PrintOrder, business: BusinessSettings) {
+    doc.addPage({ size: PAGE_SIZES.A4, margin: MARGIN })
+    const x = MARGIN
+    const width = contentWidth(doc)
+    const formatCurrency = (amount: number) =>
+        new Intl.NumberFormat('he-IL', { style: 'currency', currency: business.currency }).format(amount)
+
+    // Business and slip title
+    doc.font(FONTS.bold).fontSize(18).fillColor(COLORS.text)
+    let y = drawText(doc, business.businessName, x, MARGIN, { width })
+    const contact = [business.phone, business.address].filter(Boolean).join(' · ')
+    if (contact) {
+        doc.font(FONTS.regular).fontSize(9).fillColor(COLORS.muted)
+        y = drawText(doc, contact, x, y, { width })
+    }
+    doc.font(FONTS.bold).fontSize(14).fillColor(COLORS.text)
+    drawText(doc, `תעודת אריזה · הזמנה ${order.header.orderNumber}`, x, MARGIN + 4, { width, align: 'left' })
+    y = drawRule(doc, x, y + 4, width, 12)
+
+    // Delivery details
+    doc.font(FONTS.regular).fontSize(11)
+    const details = [
+        `תאריך משלוח: ${order.delivery.date}`,
+        `לקוח: ${order.customer.name}`,
+        `טלפון: ${order.customer.phone}`,
+        order.customer.address ? `כתובת: ${order.customer.address}` : ''
+    ].filter(Boolean)
+    details.forEach(line => {
+        y = drawText(doc, line, x, y, { width })
+    })
+    y += 8
+
+    if (order.allergies.length > 0) {
+        doc.fontSize(11)
+        y = drawAlert(doc, `⚠ אלרגיות: ${order.allergies.join(', ')}`, x, y, width) + 10
+    }
+
+    // Columns from the right: check box, dish, quantity, notes
+    const right = x + width
+    const dishWidth = width - CHECK_WIDTH - QUANTITY_WIDTH - NOTES_WIDTH
+    const columns = {
+        check: right - CHECK_WIDTH,
+        dish: right - CHECK_WIDTH - dishWidth,
+        quantity: right - CHECK_WIDTH - dishWidth - QUANTITY_WIDTH,
+        notes: x
+    }
+
+    const drawHeader = (top: number) => {
+        doc.font(FONTS.bold).fontSize(10)
+        drawText(doc, 'מנה', columns.dish, top, { width: dishWidth - CELL_PADDING })
+        drawText(doc, 'כמות', columns.quantity, top, { width: QUANTITY_WIDTH, align: 'center' })
+        drawText(doc, 'הערות', columns.notes, top, { width: NOTES_WIDTH - CELL_PADDING })
+        return drawRule(doc, x, top + doc.currentLineHeight() + 2, width)
+    }
+
+    y = drawHeader(y)
+    order.items.forEach(item => {
+        doc.font(FONTS.regular).fontSize(11)
+        const rowHeight = Math.max(
+            measureText(doc, item.dishName, { width: dishWidth - CELL_PADDING }),
+            measureText(doc, item.notes || '-', { width: NOTES_WIDTH - CELL_PADDING })
+        ) + 4
+        const top = ensureSpace(doc, y, rowHeight + 6)
+        if (top !== y) {
+            y = drawHeader(top)
+            doc.font(FONTS.regular).fontSize(11)
+        }
+
+        doc.save()
+        doc.rect(columns.check + 6, y + 2, 10, 10).lineWidth(0.8).strokeColor(COLORS.text).stroke()
+        doc.restore()
+
+        const dishLabel = item.conflicts.length > 0 ? `${item.dishName} ⚠` : item.dishName
+        if (item.conflicts.length > 0) doc.fillColor(COLORS.alert)
+        drawText(doc, dishLabel, columns.dish, y, { width: dishWidth - CELL_PADDING })
+        doc.fillColor(COLORS.text)
+        drawText(doc, String(item.quantity), columns.quantity, y, { width: QUANTITY_WIDTH, align: 'center' })
+        doc.fontSize(9)
+        drawText(doc, item.notes || '-', columns.notes, y + 1, { width: NOTES_WIDTH - CELL_PADDING })
+
+        y = drawRule(doc, x, y + rowHeight, width)
+    })
+
+    // Totals
+    const portions = order.items.reduce((sum, item) => sum + item.quantity, 0)
+    y = ensureSpace(doc, y + 6, 120)
+    doc.font(FONTS.regular).fontSize(11)
+    y = drawText(doc, `סה״כ מנות: ${portions}`, x, y, { width })
+    if (order.pricing.discountAmount > 0) {
+        y = drawText(doc, `הנחה: ${formatCurrency(order.pricing.discountAmount)}`, x, y, { width })
+    }
+    if (order.pricing.deliveryFee > 0) {
+        y = drawText(doc, `דמי משלוח: ${formatCurrency(order.pricing.deliveryFee)}`, x, y, { width })
+    }
+    doc.font(FONTS.bold).fontSize(13)
+    y = drawText(doc, `לתשלום: ${formatCurrency(order.pricing.totalAmount)}`, x, y, { width }) + 10
+
+    if (order.notes) {
+        doc.font(FONTS.bold).fontSize(10)
+        y = drawText(doc, 'הערות', x, y, { width })
+        doc.font(FONTS.regular)
+        y = drawText(doc, order.notes, x, y, { width }) + 10
+    }
+
+    doc.font(FONTS.regular).fontSize(10)
+    y = ensureSpace(doc, y + 10, 20)
+    drawText(doc, 'נארז ע״י: ____________        התקבל ע״י: ____________', x, y, { width })
+}
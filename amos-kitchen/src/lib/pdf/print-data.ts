@@ -0,0 +1,80 @@
+// lib/pdf/print-data.ts
+import { getBusinessSettings } from '@/lib/firebase/dao/settings'
+import { getCustomerPreferences } from '@/lib/firebase/dao/customers'
+import { getDishesByIds } from '@/lib/firebase/dao/dishes'
+import { prepareOrderForPrint, toExportOrder } from '@/lib/utils/export'
+import type { BusinessSettings, CustomerPreference, Dish, Order } from '@/lib/types/firestore'
+
+export interface PrintOrderItem {
+    dishName: string
+    quantity: number
+    notes: string
+    allergens: string[]
+    // Allergens on this dish that the customer must avoid
+    conflicts: string[]
+}
+
+// An order as the printed documents need it: the shape from prepareOrderForPrint plus the
+// allergy information the kitchen has to see
+export type PrintOrder = Omit<ReturnType<typeof prepareOrderForPrint>, 'items'> & {
+    items: PrintOrderItem[]
+    // The customer's allergies and medical restrictions
+    allergies: string[]
+    pricing: {
+        subtotal: number
+        discountAmount: number
+        deliveryFee: number
+        totalAmount: number
+    }
+}
+
+export interface PrintBatch {
+    business: BusinessSettings
+    orders: PrintOrder[]
+}
+
+function toPrintOrder(order: Order, preferences: CustomerPreference[], dishMap: Map<string, Dish>): PrintOrder {
+    const base = prepareOrderForPrint(toExportOrder(order))
+    const conflicts = order.allergenConflicts || []
+
+    return {
+        ...base,
+        items: order.items.map(item => ({
+            dishName: item.dishName,
+            quantity: item.quantity,
+            notes: item.notes || '',
+            allergens: dishMap.get(item.dishId)?.allergens || [],
+            conflicts: Array.from(new Set(conflicts
+                .filter(conflict => conflict.dishId === item.dishId)
+                .map(conflict => conflict.allergen)))
+        })),
+        allergies: preferences
+            .filter(preference => preference.type === 'ALLERGY' || preference.type === 'MEDICAL')
+            .map(preference => preference.value),
+        pricing: {
+            subtotal: order.subtotal ?? order.totalAmount,
+            discountAmount: order.discountAmount || 0,
+            deliveryFee: order.deliveryFee || 0,
+            totalAmount: order.totalAmount
+        }
+    }
+}
+
+// Load what the printed documents show for a set of orders, keeping their order
+export async function loadPrintBatch(orders: Order[]): Promise<PrintBatch> {
+    const customerIds = Array.from(new Set(orders.map(order => order.customerId)))
+    const dishIds = Array.from(new Set(orders.flatMap(order => order.items.map(item => item.dishId))))
+
+    const [business, dishes, preferences] = await Promise.all([
+        getBusinessSettings(),
+        getDishesByIds(dishIds),
+        Promise.all(customerIds.map(id => getCustomerPreferences(id)))
+    ])
+    const dishMap = new Map(dishes.map(dish => [dish.id!, dish]))
+    const preferencesMap = new Map(customerIds.map((id, index) => [id, preferences[index]]))
+
+    return {
+        business,
+        orders: orders.map(order => toPrintOrder(order, preferencesMap.get(order.customerId) || [], dishMap))
+    }
+}
@@ -0,0 +1,88 @@
+// lib/pdf/rtl-text.ts
+import bidiFactory from 'bidi-js'
+
+const bidi = bidiFactory()
+
+const HEBREW = /[\u0590-\u05FF\uFB1D-\uFB4F]/
+// Direction marks only steer the bidi algorithm; the font has no glyphs for them
+const BIDI_MARKS = /[\u200E\u200F\u202A-\u202E\u2066-\u2069]/g
+const VISUAL_CHUNKS = /\s+|[\u0590-\u05FF\uFB1D-\uFB4F]+|[^\s\u0590-\u05FF\uFB1D-\uFB4F]+/g
+
+export type TextAlign = 'right' | 'center' | 'left'
+
+export interface RtlTextOptions {
+    width: number
+    align?: TextAlign
+    lineGap?: number
+    // Cut the text after this many lines, ending with an ellipsis
+    maxLines?: number
+}
+
+// Break text into lines that fit the width, keeping the logical (typed) order
+export function wrapText(doc: PDFKit.PDFDocument, text: string, width: number): string[] {
+    const lines: string[] = []
+
+    text.split('\n').forEach(paragraph => {
+        let line = ''
+        paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+            const candidate = line ? `${line} ${word}` : word
+            if (line && doc.widthOfString(candidate) > width) {
+                lines.push(line)
+                line = word
+            } else {
+                line = candidate
+            }
+        })
+        lines.push(line)
+    })
+
+    return lines
+}
+
+// A line in drawing order (left to right), cut where Hebrew meets anything else. pdfkit
+// lays out each Hebrew word right to left by itself, so Hebrew chunks are handed to it
+// reversed and everything around them is placed by the bidi algorithm here.
+function toVisualChunks(line: string): string[] {
+    const visual = bidi.getReorderedString(line, bidi.getEmbeddingLevels(line, 'rtl'))
+    return visual.replace(BIDI_MARKS, '').match(VISUAL_CHUNKS) || []
+}
+
+function drawLine(doc: PDFKit.PDFDocument, line: string, x: number, y: number, width: number, align: TextAlign) {
+    const chunks = toVisualChunks(line)
+    const widths = chunks.map(chunk => doc.widthOfString(chunk))
+    const total = widths.reduce((sum, chunkWidth) => sum + chunkWidth, 0)
+
+    let cursor = align === 'left' ? x : align === 'center' ? x + (width - total) / 2 : x + width - total
+    chunks.forEach((chunk, index) => {
+        if (chunk.trim()) {
+            const text = HEBREW.test(chunk) ? Array.from(chunk).reverse().join('') : chunk
+            doc.text(text, cursor, y, { lineBreak: false })
+        }
+        cursor += widths[index]
+    })
+}
+
+// Draw wrapped text in the current font, right-aligned by default. Returns the y below it.
+export function drawText(
+    doc: PDFKit.PDFDocument,
+    text: string,
+    x: number,
+    y: number,
+    { width, align = 'right', lineGap = 2, maxLines }: RtlTextOptions
+): number {
+    let lines = wrapText(doc, text, width)
+    if (maxLines && lines.length > maxLines) {
+        lines = lines.slice(0, maxLines)
+        lines[maxLines - 1] = `${lines[maxLines - 1]}…`
+    }
+
+    const lineHeight = doc.currentLineHeight() + lineGap
+    lines.forEach((line, index) => drawLine(doc, line, x, y + index * lineHeight, width, align))
+    return y + lines.length * lineHeight
+}
+
+// Height drawText would take, for checking whether a block still fits on the page
+export function measureText(doc: PDFKit.PDFDocument, text: string, { width, lineGap = 2, maxLines }: RtlTextOptions): number {
+    const lines = wrapText(doc, text, width).length
+    return Math.min(lines, maxLines || lines) * (doc.currentLineHeight() + lineGap)
+}
@@ -1,4 +1,5 @@
 // lib/types/database.ts
+import type { StructuredAddress } from './firestore'
 
 // Preference Types
 export type PreferenceType = 'ALLERGY' | 'DIETARY_RESTRICTION' | 'PREFERENCE' | 'MEDICAL'
@@ -21,6 +22,8 @@ export interface Customer {
     phone: string
     email?: string | null
     address?: string | null
+    structuredAddress?: StructuredAddress | null
+    addressNeedsReview?: boolean
     notes?: string | null
     preferences?: CustomerPreference[]
     createdAt: Date
@@ -58,6 +61,8 @@ export interface Dish {
     category: string
     isAvailable: boolean
     imageUrl?: string | null
+    allergens?: string[]
+    ingredients?: string[]
     createdAt: Date
     updatedAt: Date
 }
@@ -70,11 +75,29 @@ export interface OrderItem {
     dish: Dish
     quantity: number
     price: number
+    discount?: PriceAdjustment | null
+    lineTotal?: number
     notes?: string | null
     createdAt: Date
     updatedAt: Date
 }
 
+// Allergen conflict between an ordered dish and a customer's ALLERGY/MEDICAL preference
+export interface AllergenConflict {
+    dishId: string
+    dishName: string
+    allergen: string
+    preferenceType: 'ALLERGY' | 'MEDICAL'
+    preferenceValue: string
+}
+
+// A discount on one order line or on the whole order
+export interface PriceAdjustment {
+    type: 'PERCENT' | 'FIXED'
+    value: number
+    reason?: string | null
+}
+
 // Order Types
 export interface Order {
     id: string
@@ -85,9 +108,17 @@ export interface Order {
     deliveryDate: Date
     deliveryAddress?: string | null
     status: OrderStatus
+    cancellationReason?: string | null
+    subtotal?: number
+    discount?: PriceAdjustment | null
+    discountAmount?: number
+    deliveryFee?: number
     totalAmount: number
+    amountPaid?: number
     notes?: string | null
     orderItems: OrderItem[]
+    allergenConflicts?: AllergenConflict[]
+    standingOrderId?: string | null
     createdAt: Date
     updatedAt: Date
 }
@@ -97,7 +128,7 @@ export interface OrderFilters {
     search: string
     status: OrderStatus | 'all'
     dateRange: 'all' | 'today' | 'week' | 'month'
-    page: number
+    sort: 'newest' | 'oldest' | 'deliveryDate' | 'deliveryDateAsc'
     limit: number
 }
 
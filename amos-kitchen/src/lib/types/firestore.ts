@@ -1,14 +1,31 @@
 // lib/types/firestore.ts
 import { Timestamp, FieldValue } from 'firebase/firestore'
+import type { UserRole } from '@/lib/utils/roles'
+import type { OrderPricing } from '@/lib/utils/pricing'
 
 // Application types (with Date objects for timestamps)
 // These are used throughout the application
+
+// A delivery address in parts. The one-line `address` strings kept next to it are formatted
+// from these parts, city last.
+export interface StructuredAddress {
+  city: string
+  street: string
+  number: string | null // may carry a letter, e.g. '12א'
+  floor: string | null
+  apartment: string | null
+  entryCode: string | null
+  notes: string | null // directions for the driver
+}
+
 export interface Customer {
   id?: string
   name: string
   phone: string
   email?: string | null
   address?: string | null
+  structuredAddress?: StructuredAddress | null
+  addressNeedsReview?: boolean // free-text address that couldn't be parsed into parts
   notes?: string | null
   createdAt: Date
   updatedAt: Date
@@ -30,6 +47,8 @@ export interface Dish {
   price: number
   category?: string | null
   isAvailable: boolean
+  allergens?: string[]
+  ingredients?: string[]
   createdAt: Date
   updatedAt: Date
 }
@@ -46,10 +65,21 @@ export interface Order {
   orderDate: Date
   deliveryDate: Date
   deliveryAddress?: string | null
+  deliveryAddressDetails?: StructuredAddress | null
+  deliveryZoneId?: string | null
+  deliveryZoneName?: string | null
   status: 'NEW' | 'CONFIRMED' | 'PREPARING' | 'READY' | 'DELIVERED' | 'CANCELLED'
-  totalAmount: number
+  cancellationReason?: string | null
+  subtotal?: number // sum of the line totals
+  discount?: PriceAdjustment | null
+  discountAmount?: number
+  deliveryFee?: number
+  totalAmount: number // always derived: subtotal - discountAmount + deliveryFee
   notes?: string | null
   items: OrderItem[]
+  allergenConflicts?: AllergenConflict[]
+  standingOrderId?: string | null // set on orders generated from a standing order
+  amountPaid?: number // payments minus refunds, kept in step with the payments ledger; unset on older orders
   createdAt: Date
   updatedAt: Date
 }
@@ -71,6 +101,8 @@ export interface CustomerDoc {
   phone: string
   email?: string | null
   address?: string | null
+  structuredAddress?: StructuredAddress | null
+  addressNeedsReview?: boolean
   notes?: string | null
   createdAt: Timestamp | FieldValue
   updatedAt: Timestamp | FieldValue
@@ -92,6 +124,8 @@ export interface DishDoc {
   price: number
   category?: string | null
   isAvailable: boolean
+  allergens?: string[]
+  ingredients?: string[]
   createdAt: Timestamp | FieldValue
   updatedAt: Timestamp | FieldValue
 }
@@ -108,10 +142,21 @@ export interface OrderDoc {
   orderDate: Timestamp | FieldValue
   deliveryDate: Timestamp | FieldValue
   deliveryAddress?: string | null
+  deliveryAddressDetails?: StructuredAddress | null
+  deliveryZoneId?: string | null
+  deliveryZoneName?: string | null
   status: 'NEW' | 'CONFIRMED' | 'PREPARING' | 'READY' | 'DELIVERED' | 'CANCELLED'
+  cancellationReason?: string | null
+  subtotal?: number
+  discount?: PriceAdjustment | null
+  discountAmount?: number
+  deliveryFee?: number
   totalAmount: number
   notes?: string | null
   items: OrderItem[]
+  allergenConflicts?: AllergenConflict[]
+  standingOrderId?: string | null
+  amountPaid?: number
   createdAt: Timestamp | FieldValue
   updatedAt: Timestamp | FieldValue
 }
@@ -130,10 +175,28 @@ export interface OrderItem {
   dishId: string
   dishName: string
   quantity: number
-  price: number
+  price: number // unit price snapshot, taken from the dish when the line was priced
+  discount?: PriceAdjustment | null
+  lineTotal?: number
   notes?: string | null
 }
 
+// A discount on one line or on the whole order
+export interface PriceAdjustment {
+  type: 'PERCENT' | 'FIXED'
+  value: number
+  reason?: string | null
+}
+
+// A dish in an order that contains something the customer must avoid
+export interface AllergenConflict {
+  dishId: string
+  dishName: string
+  allergen: string
+  preferenceType: 'ALLERGY' | 'MEDICAL'
+  preferenceValue: string
+}
+
 // Helper type for order counter
 export interface OrderCounter {
   count: number
@@ -148,4 +211,359 @@ export interface OrderFilters {
   startDate?: Date
   endDate?: Date
   customerId?: string
-}
\ No newline at end of file
+}
+// Delivery calendar (stored as settings/deliverySchedule)
+export interface DeliveryCutoff {
+  daysBefore: number // 0 = same day as delivery
+  time: string // 'HH:mm'
+}
+
+export interface DeliveryDayRule {
+  weekday: number // 0 = Sunday ... 6 = Saturday
+  cutoff: DeliveryCutoff
+}
+
+export interface DeliveryClosure {
+  date: string // 'yyyy-MM-dd'
+  reason?: string | null
+}
+
+export interface ExtraDeliveryDay {
+  date: string // 'yyyy-MM-dd'
+  cutoff: DeliveryCutoff
+  reason?: string | null
+}
+
+export interface DeliverySchedule {
+  days: DeliveryDayRule[]
+  closures: DeliveryClosure[]
+  extraDays: ExtraDeliveryDay[]
+  updatedAt?: Date
+  updatedBy?: string | null
+}
+
+// Capacity caps for a delivery day; null/missing means unlimited
+export interface CapacityLimits {
+  maxOrders?: number | null
+  maxPortions?: number | null
+  dishLimits?: Record<string, number> // dishId -> max portions
+}
+
+// Stored as settings/capacity: defaults for every delivery day plus per-date overrides
+export interface CapacitySettings {
+  defaults: CapacityLimits
+  dates: Record<string, CapacityLimits> // 'yyyy-MM-dd' -> overrides
+  updatedAt?: Date
+  updatedBy?: string | null
+}
+
+// Running totals per delivery day (deliveryUsage/{yyyy-MM-dd}), kept in step with orders
+export interface DeliveryUsage {
+  date: string
+  orderCount: number
+  portionCount: number
+  dishCounts: Record<string, number>
+}
+
+export interface CapacityViolation {
+  type: 'ORDERS' | 'PORTIONS' | 'DISH'
+  date: string
+  dishId?: string
+  dishName?: string
+  limit: number
+  requested: number
+}
+
+export interface RemainingCapacity {
+  limit: number | null
+  used: number
+  remaining: number | null
+}
+
+// What is left on a delivery day, as shown in the order form
+export interface DeliveryAvailability {
+  date: string
+  orders: RemainingCapacity
+  portions: RemainingCapacity
+  dishes: Record<string, RemainingCapacity>
+  isFull: boolean
+}
+
+// Single-use team invite (invites/{sha256 of the token}); the token itself is only in the link
+export interface Invite {
+  id: string
+  role: UserRole
+  email?: string | null // when set, only this address can register
+  createdBy?: string | null
+  createdAt: Date
+  expiresAt: Date
+  usedAt?: Date | null
+  usedBy?: string | null
+  usedEmail?: string | null
+  revokedAt?: Date | null
+}
+
+export type InviteStatus = 'PENDING' | 'USED' | 'REVOKED' | 'EXPIRED'
+
+// Opening hours for one weekday; closed days keep their hours for when they reopen
+export interface WorkingHours {
+  weekday: number // 0 = Sunday ... 6 = Saturday
+  open: string // 'HH:mm'
+  close: string // 'HH:mm'
+  closed: boolean
+}
+
+export interface NotificationSettings {
+  email?: string | null // where notifications go
+  newOrder: boolean
+  orderCancelled: boolean
+  dailySummary: boolean
+  capacityAlert: boolean // a delivery day is close to full
+}
+
+// Business profile and defaults (stored as settings/business)
+export interface BusinessSettings {
+  businessName: string
+  logoUrl?: string | null
+  vatNumber?: string | null // ע.מ / ח.פ
+  phone?: string | null
+  address?: string | null
+  currency: string // ISO 4217, e.g. 'ILS'
+  vatRate: number // percent, e.g. 18
+  pricesIncludeVat: boolean
+  defaultDeliveryFee: number
+  orderNumberPrefix: string
+  workingHours: WorkingHours[]
+  notifications: NotificationSettings
+  updatedAt?: Date
+  updatedBy?: string | null
+}
+
+// A line of a standing order; it is priced from the menu each time an order is generated
+export interface StandingOrderItem {
+  dishId: string
+  dishName: string
+  quantity: number
+  discount?: PriceAdjustment | null
+  notes?: string | null
+}
+
+export type StandingOrderFrequency = 'WEEKLY' | 'BIWEEKLY'
+
+// A customer's repeating order (standingOrders/{id}). Deliveries fall on the weekday of
+// startDate, every one or two weeks; real orders are generated per delivery day after review.
+export interface StandingOrder {
+  id?: string
+  customerId: string
+  customerName: string
+  items: StandingOrderItem[]
+  discount?: PriceAdjustment | null
+  deliveryFee?: number | null // null = the business default at generation time
+  deliveryAddress?: string | null
+  notes?: string | null
+  frequency: StandingOrderFrequency
+  startDate: string // 'yyyy-MM-dd', the first delivery
+  endDate?: string | null // 'yyyy-MM-dd', the last possible delivery (inclusive)
+  skipDates: string[] // 'yyyy-MM-dd' deliveries the customer doesn't want
+  paused: boolean
+  pausedUntil?: string | null // 'yyyy-MM-dd'; the pause ends after this date
+  generatedDates: string[] // 'yyyy-MM-dd' deliveries an order was already generated for
+  createdBy?: string | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+// Where a standing order stands for one delivery day
+export type StandingOrderOccurrenceStatus = 'DUE' | 'GENERATED' | 'SKIPPED' | 'PAUSED'
+
+// A standing order as it would be generated for one delivery day, priced from the current menu
+export interface StandingOrderOccurrence {
+  standingOrder: StandingOrder
+  date: string // 'yyyy-MM-dd'
+  status: StandingOrderOccurrenceStatus
+  items: OrderItem[] // only the dishes that are still on the menu
+  pricing: OrderPricing
+  unavailableDishes: string[] // names of dishes that will be left out
+  belowMinimum: { zoneName: string, minimumOrder: number } | null // the zone's minimum isn't reached
+}
+
+export interface OrderTemplateItem {
+  dishId: string
+  dishName: string
+  quantity: number
+  notes?: string | null
+}
+
+// A named set of dishes that can start an order for any customer (orderTemplates/{id})
+export interface OrderTemplate {
+  id?: string
+  name: string
+  description?: string | null
+  items: OrderTemplateItem[]
+  createdBy?: string | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+// A dish offered on a delivery day's menu; null means the dish's regular price / no portion limit
+export interface MenuItem {
+  dishId: string
+  dishName: string
+  specialPrice: number | null
+  maxPortions: number | null
+}
+
+// The dishes offered for one delivery date (menus/{yyyy-MM-dd}). Days without a menu
+// fall back to every dish marked available.
+export interface Menu {
+  date: string
+  items: MenuItem[]
+  notes?: string | null
+  createdBy?: string | null
+  createdAt: Date
+  updatedAt: Date
+}
+
+// How a route's stops are ordered: grouped by area, or in the sequence set by hand
+export type DeliveryRouteSort = 'AREA' | 'MANUAL'
+
+// An order on a route; the time window is what the customer was told ('HH:mm', null = any time)
+export interface DeliveryStop {
+  orderId: string
+  windowStart: string | null
+  windowEnd: string | null
+}
+
+export interface DeliveryRoute {
+  id: string
+  name: string
+  driverName: string | null
+  sortBy: DeliveryRouteSort
+  stops: DeliveryStop[] // the manual sequence; AREA routes are re-sorted for display
+}
+
+// The routes of one delivery date (deliveryRoutes/{yyyy-MM-dd})
+export interface DeliveryPlan {
+  date: string
+  routes: DeliveryRoute[]
+  updatedBy?: string | null
+  updatedAt?: Date
+}
+
+// What a driver needs to know about an order
+export interface DeliveryOrder {
+  id: string
+  orderNumber: string
+  customerName: string
+  phone: string
+  address: string | null
+  area: string // the delivery zone, or the city when no zone matches
+  accessNotes: string | null // entry code and directions
+  amountDue: number // what is left to collect
+  notes: string | null
+  status: Order['status']
+}
+
+// One line of a driver manifest, in driving order
+export interface DeliveryManifestStop extends DeliveryOrder {
+  sequence: number
+  windowStart: string | null
+  windowEnd: string | null
+}
+
+// Where deliveries go and what they cost (deliveryZones/{id}). A zone covers whole cities,
+// or only the listed streets when there are any.
+export interface DeliveryZone {
+  id?: string
+  name: string
+  cities: string[]
+  streets: string[]
+  deliveryFee: number
+  minimumOrder: number | null // order subtotal after discounts; null = no minimum
+  createdAt: Date
+  updatedAt: Date
+}
+
+export type PaymentMethod = 'CASH' | 'BIT' | 'PAYBOX' | 'TRANSFER' | 'CREDIT'
+
+// A refund gives money back; its amount is positive like a payment's
+export type PaymentType = 'PAYMENT' | 'REFUND'
+
+// Derived from the order total and what was paid; OVERPAID means money is owed back
+export type PaymentStatus = 'UNPAID' | 'PARTIAL' | 'PAID' | 'OVERPAID'
+
+// One entry of the payments ledger (payments/{id}). Entries are never changed; a mistake is
+// corrected with a refund.
+export interface Payment {
+  id?: string
+  orderId: string
+  orderNumber: string
+  customerId: string
+  type: PaymentType
+  method: PaymentMethod
+  amount: number
+  paidAt: Date
+  reference: string | null // transfer or receipt number
+  notes: string | null
+  recordedBy: string | null
+  createdAt: Date
+}
+
+// What a customer was charged and paid over all their orders
+export interface CustomerBalance {
+  charged: number
+  paid: number
+  balance: number // positive = the customer owes, negative = credit
+}
+
+// What the search index covers
+export type SearchIndexKind = 'CUSTOMER' | 'ORDER'
+
+// One searchable customer or order (searchIndex/{kind}_{id}), kept in step with it by the DAOs.
+// `terms` holds every prefix of every word, so a prefix search is one array-contains query;
+// `grams` (two-letter pieces of the words) find the candidates for a search with a typo.
+export interface SearchIndexEntry {
+  kind: SearchIndexKind
+  entityId: string
+  words: string[]
+  terms: string[]
+  grams: string[]
+  // Order filters, so a search can be filtered and counted without reading the orders
+  status?: Order['status']
+  customerId?: string
+  deliveryDate?: Date
+  sortDate: Date // when the customer or order was created; newer first among equal matches
+}
+
+// Precomputed totals of one delivery day (dailyRollups/{yyyy-MM-dd}) or one delivery week, Saturday
+// to Friday (weeklyRollups/{the Friday}), kept in step with the orders by the DAOs. Cancelled
+// orders only count in cancelledOrders.
+export interface AnalyticsRollup {
+  date: string // yyyy-MM-dd: the delivery day, or the Friday that ends the week
+  orders: number
+  cancelledOrders: number
+  revenue: number
+  itemsSold: number
+  statusCounts: Record<string, number>
+  dishes: Record<string, RollupDish> // by dish id
+  customers: Record<string, RollupCustomer> // by customer id
+  newCustomers: number
+  returningCustomers: number
+  updatedAt: Date
+}
+
+export interface RollupDish {
+  name: string
+  category: string
+  quantity: number
+  revenue: number
+  orders: number
+}
+
+export interface RollupCustomer {
+  name: string
+  orders: number
+  revenue: number
+  // This is the customer's first delivery: no earlier order that wasn't cancelled
+  firstOrder: boolean
+}
@@ -0,0 +1,213 @@
+// lib/utils/address.ts
+import type { Customer, DeliveryZone, StructuredAddress } from '@/lib/types/firestore'
+
+// The address form keeps every part as typed
+export type AddressDraft = Record<keyof StructuredAddress, string>
+
+export const EMPTY_ADDRESS_DRAFT: AddressDraft = {
+    city: '',
+    street: '',
+    number: '',
+    floor: '',
+    apartment: '',
+    entryCode: '',
+    notes: ''
+}
+
+// Detail markers that can appear anywhere in a free-text address
+const FLOOR_PATTERN = /קומה\s*(\d+|קרקע)/
+const APARTMENT_PATTERN = /(?:דירה|דיר['׳]|ד['׳])\s*(\d+[א-ת]?)/
+const ENTRY_CODE_PATTERN = /קוד(?:\s*(?:כניסה|בניין|לבניין))?\s*[:-]?\s*([\d#*]+)/
+// "הרצל 12", "רח' הרצל 12א", "הרצל 12/3" (number/apartment)
+const STREET_NUMBER_PATTERN = /^(?:רחוב\s+|רח['׳]\s*)?(.+?)\s+(\d+[א-ת]?)(?:\s*\/\s*(\d+))?$/
+// The same without commas: "הרצל 12 תל אביב"
+const STREET_NUMBER_CITY_PATTERN = /^(?:רחוב\s+|רח['׳]\s*)?(.+?)\s+(\d+[א-ת]?)(?:\s*\/\s*(\d+))?\s+(\D+)$/
+const ZIP_PATTERN = /^\d{5,7}$/
+
+const clean = (value: string | null | undefined) => value?.trim().replace(/\s+/g, ' ') || null
+
+// Best effort: split a free-text address into parts. Returns null when the street, house number
+// or city can't be told apart, so the address can be reviewed by hand.
+export function parseAddress(text: string | null | undefined): StructuredAddress | null {
+    let rest = clean(text)
+    if (!rest) return null
+
+    const take = (pattern: RegExp) => {
+        const match = rest!.match(pattern)
+        if (!match) return null
+        rest = rest!.replace(match[0], ' ')
+        return match[1]
+    }
+    const floor = take(FLOOR_PATTERN)
+    let apartment = take(APARTMENT_PATTERN)
+    const entryCode = take(ENTRY_CODE_PATTERN)
+
+    const parts = rest.split(',').map(part => clean(part)).filter((part): part is string => !!part && !ZIP_PATTERN.test(part))
+    if (parts.length === 0) return null
+
+    let street: string | null = null
+    let number: string | null = null
+    let city: string | null = null
+    const leftover: string[] = []
+
+    if (parts.length === 1) {
+        const match = parts[0].match(STREET_NUMBER_CITY_PATTERN)
+        if (!match) return null
+        street = match[1]
+        number = match[2]
+        apartment = apartment || match[3] || null
+        city = clean(match[4])
+    } else {
+        const streetIndex = parts.findIndex(part => STREET_NUMBER_PATTERN.test(part))
+        if (streetIndex < 0 || streetIndex === parts.length - 1) return null
+
+        const match = parts[streetIndex].match(STREET_NUMBER_PATTERN)!
+        street = match[1]
+        number = match[2]
+        apartment = apartment || match[3] || null
+        city = parts[parts.length - 1]
+        leftover.push(...parts.filter((_, index) => index !== streetIndex && index !== parts.length - 1))
+    }
+
+    if (!street || !city || /\d/.test(city)) return null
+
+    return {
+        city,
+        street: clean(street)!,
+        number,
+        floor,
+        apartment,
+        entryCode,
+        notes: leftover.length > 0 ? leftover.join(', ') : null
+    }
+}
+
+// One line for lists, labels and exports; the city goes last
+export function formatAddress(address: StructuredAddress): string {
+    return [
+        [address.street, address.number].filter(Boolean).join(' '),
+        address.floor ? `קומה ${address.floor}` : null,
+        address.apartment ? `דירה ${address.apartment}` : null,
+        address.city
+    ].filter(Boolean).join(', ')
+}
+
+// Entry code and directions, for whoever makes the delivery
+export function formatAccessNotes(address: StructuredAddress | null | undefined): string | null {
+    if (!address) return null
+    const notes = [address.entryCode ? `קוד כניסה ${address.entryCode}` : null, address.notes].filter(Boolean)
+    return notes.length > 0 ? notes.join(' · ') : null
+}
+
+// Keep the one-line address and the parts in step. Parts win when given; a free-text address
+// is parsed, and flagged for review when that fails.
+export function resolveAddressFields(input: {
+    address?: string | null
+    structuredAddress?: StructuredAddress | null
+}): { address: string | null, structuredAddress: StructuredAddress | null, addressNeedsReview: boolean } {
+    if (input.structuredAddress) {
+        return {
+            address: formatAddress(input.structuredAddress),
+            structuredAddress: input.structuredAddress,
+            addressNeedsReview: false
+        }
+    }
+
+    const address = clean(input.address)
+    const structuredAddress = parseAddress(address)
+    return { address, structuredAddress, addressNeedsReview: !!address && !structuredAddress }
+}
+
+// Compare place names regardless of spacing, dashes, quotes and a leading "רחוב"
+export function normalizePlaceName(name: string): string {
+    return name
+        .trim()
+        .toLowerCase()
+        .replace(/^(?:רחוב\s+|רח['׳]\s*)/, '')
+        .replace(/["'׳״]/g, '')
+        .replace(/[-־]/g, ' ')
+        .replace(/\s+/g, ' ')
+}
+
+// The zone an address falls in: a zone listing its street beats a zone covering the whole city
+export function findDeliveryZone<T extends Pick<DeliveryZone, 'cities' | 'streets'>>(
+    zones: T[],
+    address: Pick<StructuredAddress, 'city' | 'street'> | null | undefined
+): T | null {
+    if (!address?.city) return null
+
+    const city = normalizePlaceName(address.city)
+    const street = normalizePlaceName(address.street || '')
+    const inCity = zones.filter(zone => zone.cities.some(name => normalizePlaceName(name) === city))
+
+    return inCity.find(zone => zone.streets.some(name => normalizePlaceName(name) === street)) ||
+        inCity.find(zone => zone.streets.length === 0) ||
+        null
+}
+
+// The delivery address of an order: parts sent with the order win, a typed address that differs
+// from the customer's is parsed, and otherwise the customer's address is used
+export function resolveOrderAddress(
+    input: { deliveryAddress?: string | null, deliveryAddressDetails?: StructuredAddress | null },
+    customer: Pick<Customer, 'address' | 'structuredAddress'> | null
+): { deliveryAddress: string, deliveryAddressDetails: StructuredAddress | null } {
+    if (input.deliveryAddressDetails) {
+        return {
+            deliveryAddress: formatAddress(input.deliveryAddressDetails),
+            deliveryAddressDetails: input.deliveryAddressDetails
+        }
+    }
+
+    const typed = clean(input.deliveryAddress)
+    if (typed && typed !== clean(customer?.address)) {
+        return { deliveryAddress: typed, deliveryAddressDetails: parseAddress(typed) }
+    }
+
+    return {
+        deliveryAddress: customer?.address || '',
+        deliveryAddressDetails: customer?.structuredAddress || parseAddress(customer?.address)
+    }
+}
+
+// The amount a zone's minimum applies to: the items after discount, before the delivery fee
+export function isBelowZoneMinimum(
+    zone: Pick<DeliveryZone, 'minimumOrder'> | null | undefined,
+    pricing: { subtotal: number, discountAmount: number }
+): boolean {
+    return !!zone?.minimumOrder && pricing.subtotal - pricing.discountAmount < zone.minimumOrder
+}
+
+export function toAddressDraft(address: StructuredAddress | null | undefined): AddressDraft {
+    if (!address) return EMPTY_ADDRESS_DRAFT
+    return {
+        city: address.city,
+        street: address.street,
+        number: address.number || '',
+        floor: address.floor || '',
+        apartment: address.apartment || '',
+        entryCode: address.entryCode || '',
+        notes: address.notes || ''
+    }
+}
+
+// null when nothing was filled in
+export function fromAddressDraft(draft: AddressDraft): StructuredAddress | null {
+    if (Object.values(draft).every(value => !value.trim())) return null
+    return {
+        city: draft.city.trim(),
+        street: draft.street.trim(),
+        number: clean(draft.number),
+        floor: clean(draft.floor),
+        apartment: clean(draft.apartment),
+        entryCode: clean(draft.entryCode),
+        notes: clean(draft.notes)
+    }
+}
+
+// A started address needs at least a city and a street
+export function getAddressDraftError(draft: AddressDraft): string | null {
+    if (Object.values(draft).every(value => !value.trim())) return null
+    if (!draft.city.trim()) return 'יש להזין עיר'
+    if (!draft.street.trim()) return 'יש להזין רחוב'
+    return null
+}
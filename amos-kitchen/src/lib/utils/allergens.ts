@@ -0,0 +1,126 @@
+// lib/utils/allergens.ts
+import { COMMON_PREFERENCES } from '@/lib/utils/preferences'
+import type { AllergenConflict, CustomerPreference } from '@/lib/types/database'
+
+// Dishes are tagged with the same allergen vocabulary customers pick from
+export const DISH_ALLERGENS: string[] = COMMON_PREFERENCES.ALLERGY
+
+// Medical conditions that imply avoiding specific allergens
+export const MEDICAL_ALLERGEN_MAP: Record<string, string[]> = {
+    'צליאק': ['גלוטן']
+}
+
+interface AllergenDish {
+    id?: string
+    name: string
+    allergens?: string[] | null
+    ingredients?: string[] | null
+}
+
+type ConflictPreference = Pick<CustomerPreference, 'type' | 'value'>
+
+export function isKnownAllergen(value: string): boolean {
+    return DISH_ALLERGENS.includes(value.trim())
+}
+
+// Normalize free-text lists (e.g. "קמח, ביצים ,שמן") into a clean array
+export function parseIngredientList(value: string): string[] {
+    return value
+        .split(/[,\n]/)
+        .map(part => part.trim())
+        .filter(part => part.length > 0)
+}
+
+const normalize = (value: string) => value.trim().toLowerCase()
+
+// Allergens a single preference forbids
+function getForbiddenAllergens(preference: ConflictPreference): string[] {
+    if (preference.type === 'ALLERGY') {
+        return [preference.value]
+    }
+    if (preference.type === 'MEDICAL') {
+        return MEDICAL_ALLERGEN_MAP[preference.value.trim()] || []
+    }
+    return []
+}
+
+// Words of a normalized name, so matching doesn't depend on spacing or punctuation
+const toWords = (value: string) => normalize(value).split(/[\s,.;:()/-]+/).filter(Boolean)
+
+// One-letter Hebrew prefixes (and, the, in, to, from, that) written onto the next word
+const HEBREW_PREFIXES = 'והבלמש'
+
+// A word as written, or with a one-letter prefix: "וחלב" and "בשומשום" still name the allergen
+const matchesWord = (word: string, target: string, allowPrefix: boolean) =>
+    word === target ||
+    (allowPrefix && word.length === target.length + 1 && HEBREW_PREFIXES.includes(word[0]) && word.slice(1) === target)
+
+// Whether the words of `phrase` appear, in order and whole, among `words`. Only the first
+// word can carry a prefix, as in "ואגוזי מלך".
+function containsPhrase(words: string[], phrase: string[]): boolean {
+    if (phrase.length === 0) return false
+    for (let i = 0; i + phrase.length <= words.length; i++) {
+        if (phrase.every((word, j) => matchesWord(words[i + j], word, j === 0))) return true
+    }
+    return false
+}
+
+// Find the dish allergen or ingredient matching a forbidden allergen, if any
+function findMatch(dish: AllergenDish, forbidden: string): string | null {
+    const target = normalize(forbidden)
+    if (!target) return null
+
+    const allergen = (dish.allergens || []).find(a => normalize(a) === target)
+    if (allergen) return allergen
+
+    // Free-text allergies ("אגוזי מלך") may only show up in the ingredients list, as whole
+    // words: a short allergen name inside an unrelated word isn't a match
+    const targetWords = toWords(target)
+    const ingredient = (dish.ingredients || []).find(i => containsPhrase(toWords(i), targetWords))
+    return ingredient || null
+}
+
+// Cross-check dishes against a customer's ALLERGY and MEDICAL preferences
+export function detectAllergenConflicts(
+    dishes: AllergenDish[],
+    preferences: ConflictPreference[]
+): AllergenConflict[] {
+    const conflicts: AllergenConflict[] = []
+    const seen = new Set<string>()
+
+    const critical = preferences.filter(p => p.type === 'ALLERGY' || p.type === 'MEDICAL')
+    if (critical.length === 0) return conflicts
+
+    dishes.forEach(dish => {
+        critical.forEach(preference => {
+            getForbiddenAllergens(preference).forEach(forbidden => {
+                const match = findMatch(dish, forbidden)
+                if (!match) return
+
+                const key = `${dish.id}-${normalize(forbidden)}-${preference.type}-${normalize(preference.value)}`
+                if (seen.has(key)) return
+                seen.add(key)
+
+                conflicts.push({
+                    dishId: dish.id || '',
+                    dishName: dish.name,
+                    allergen: match,
+                    preferenceType: preference.type as AllergenConflict['preferenceType'],
+                    preferenceValue: preference.value
+                })
+            })
+        })
+    })
+
+    return conflicts
+}
+
+// Identifies a conflict, to tell whether an edit changed the set of conflicts
+export const allergenConflictKey = (conflict: AllergenConflict) =>
+    `${conflict.dishId}-${normalize(conflict.allergen)}-${conflict.preferenceType}-${normalize(conflict.preferenceValue)}`
+
+// Short Hebrew description of a conflict for alerts and history entries
+export function formatAllergenConflict(conflict: AllergenConflict): string {
+    const label = conflict.preferenceType === 'ALLERGY' ? 'אלרגיה' : 'רפואי'
+    return `${conflict.dishName} מכיל ${conflict.allergen} (${label}: ${conflict.preferenceValue})`
+}
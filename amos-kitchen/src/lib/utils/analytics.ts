@@ -0,0 +1,423 @@
+// lib/utils/analytics.ts
+import {
+    differenceInCalendarDays,
+    eachDayOfInterval,
+    eachMonthOfInterval,
+    endOfDay,
+    endOfMonth,
+    endOfQuarter,
+    endOfWeek,
+    endOfYear,
+    format,
+    isValid,
+    startOfDay,
+    startOfMonth,
+    startOfQuarter,
+    startOfWeek,
+    startOfYear,
+    subDays,
+    subMonths,
+    subWeeks,
+    subYears
+} from 'date-fns'
+import { fromDateKey, toDateKey } from '@/lib/utils/delivery-schedule'
+import { getLineRevenue } from '@/lib/utils/pricing'
+import { DELIVERY_WEEK_STARTS_ON, getDeliveryWeekKey, mergeRollups } from '@/lib/utils/rollups'
+import type { AnalyticsRollup, Dish, Order } from '@/lib/types/firestore'
+
+export type AnalyticsPeriod = 'week' | 'month' | 'quarter' | 'year' | 'custom'
+
+// What a period is compared with: the period right before it, or the same period a year earlier
+// (which keeps holiday weeks apart when the holidays move on the Gregorian calendar)
+export type AnalyticsComparison = 'previous' | 'lastYear'
+
+const PRESET_PERIODS: AnalyticsPeriod[] = ['week', 'month', 'quarter', 'year']
+
+// Longest custom range, so a typo in a year can't load every order ever placed
+const MAX_RANGE_DAYS = 731
+
+// The period a report covers and the one it is compared with, both inclusive, by delivery date
+export interface AnalyticsRange {
+    period: AnalyticsPeriod
+    comparison: AnalyticsComparison
+    start: Date
+    end: Date
+    previousStart: Date
+    previousEnd: Date
+}
+
+// Narrow a report down to one dish category or one customer
+export interface AnalyticsFilters {
+    category?: string | null
+    customerId?: string | null
+}
+
+// date is the first day of the day or month, or the Friday that ends the delivery week
+export interface RevenuePoint {
+    date: string // yyyy-MM-dd
+    amount: number
+    orders: number
+}
+
+export interface DishSales {
+    name: string
+    quantity: number
+    revenue: number
+    category: string
+}
+
+export interface CustomerSpend {
+    id: string
+    name: string
+    totalSpent: number
+    orderCount: number
+}
+
+export interface AnalyticsReport {
+    range: {
+        period: AnalyticsPeriod
+        comparison: AnalyticsComparison
+        startDate: string // yyyy-MM-dd
+        endDate: string
+        previousStartDate: string
+        previousEndDate: string
+    }
+    filters: {
+        category: string | null
+        customerId: string | null
+    }
+    // The comparison period's totals, which the growth figures are computed from
+    previous: {
+        totalRevenue: number
+        totalOrders: number
+        averageOrderValue: number
+    }
+    summary: {
+        totalRevenue: number
+        totalOrders: number
+        averageOrderValue: number
+        totalCustomers: number
+        newCustomers: number
+        returningCustomers: number
+        revenueGrowth: number
+        ordersGrowth: number
+    }
+    revenue: {
+        daily: RevenuePoint[]
+        weekly: RevenuePoint[]
+        monthly: RevenuePoint[]
+    }
+    orders: {
+        byStatus: Record<string, number>
+        byDay: { day: string, count: number }[]
+        byHour: { hour: string, count: number }[]
+    }
+    dishes: {
+        topSelling: DishSales[]
+        byCategory: Record<string, { quantity: number, revenue: number }>
+    }
+    customers: {
+        byOrderCount: { range: string, count: number }[]
+        topSpenders: CustomerSpend[]
+    }
+}
+
+// What a report is computed from: the day rollups of both periods, one per delivery day that had orders
+export interface AnalyticsInput {
+    days: AnalyticsRollup[]
+    previousDays: AnalyticsRollup[]
+}
+
+// Thrown for a range that can't be reported on
+export class AnalyticsRangeError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'AnalyticsRangeError'
+    }
+}
+
+function parseDateParam(value: string, name: string): Date {
+    const date = /^\d{4}-\d{2}-\d{2}$/.test(value) ? fromDateKey(value) : new Date(NaN)
+    if (!isValid(date) || toDateKey(date) !== value) {
+        throw new AnalyticsRangeError(`${name} must be a date in yyyy-MM-dd format`)
+    }
+    return date
+}
+
+// The range of a preset period (the current delivery week, month, quarter or year) or of
+// startDate..endDate, and the range it is compared with
+export function resolveAnalyticsRange(
+    params: {
+        period?: string | null
+        startDate?: string | null
+        endDate?: string | null
+        comparison?: string | null
+    },
+    now: Date = new Date()
+): AnalyticsRange {
+    const range = resolvePeriod(params, now)
+    if (params.comparison !== 'lastYear') {
+        return { ...range, comparison: 'previous' }
+    }
+
+    // A delivery week is compared with the week 52 weeks back, so it ends on a Friday too; other
+    // periods with the same dates a year earlier (month ends included, for February)
+    if (range.period === 'week') {
+        return {
+            ...range,
+            comparison: 'lastYear',
+            previousStart: subWeeks(range.start, 52),
+            previousEnd: subWeeks(range.end, 52)
+        }
+    }
+    return {
+        ...range,
+        comparison: 'lastYear',
+        previousStart: subYears(range.start, 1),
+        previousEnd: range.period === 'custom' ? subYears(range.end, 1) : endOfMonth(subYears(range.end, 1))
+    }
+}
+
+// A period and the one right before it: as many days for a custom range, otherwise the previous
+// week, month, quarter or year
+function resolvePeriod(
+    params: { period?: string | null, startDate?: string | null, endDate?: string | null },
+    now: Date
+): Omit<AnalyticsRange, 'comparison'> {
+    if (params.startDate || params.endDate) {
+        if (!params.startDate || !params.endDate) {
+            throw new AnalyticsRangeError('A custom range needs both startDate and endDate')
+        }
+        const start = startOfDay(parseDateParam(params.startDate, 'startDate'))
+        const end = endOfDay(parseDateParam(params.endDate, 'endDate'))
+        if (start > end) {
+            throw new AnalyticsRangeError('startDate must not be after endDate')
+        }
+
+        const days = differenceInCalendarDays(end, start) + 1
+        if (days > MAX_RANGE_DAYS) {
+            throw new AnalyticsRangeError(`A range can span at most ${MAX_RANGE_DAYS} days`)
+        }
+
+        return {
+            period: 'custom',
+            start,
+            end,
+            previousStart: subDays(start, days),
+            previousEnd: subDays(end, days)
+        }
+    }
+
+    const period = PRESET_PERIODS.includes(params.period as AnalyticsPeriod)
+        ? params.period as AnalyticsPeriod
+        : 'month'
+
+    switch (period) {
+        case 'week': {
+            const previous = subWeeks(now, 1)
+            return {
+                period,
+                start: startOfWeek(now, { weekStartsOn: DELIVERY_WEEK_STARTS_ON }),
+                end: endOfWeek(now, { weekStartsOn: DELIVERY_WEEK_STARTS_ON }),
+                previousStart: startOfWeek(previous, { weekStartsOn: DELIVERY_WEEK_STARTS_ON }),
+                previousEnd: endOfWeek(previous, { weekStartsOn: DELIVERY_WEEK_STARTS_ON })
+            }
+        }
+        case 'quarter':
+            return {
+                period,
+                start: startOfQuarter(now),
+                end: endOfQuarter(now),
+                previousStart: startOfQuarter(subMonths(now, 3)),
+                previousEnd: endOfQuarter(subMonths(now, 3))
+            }
+        case 'year':
+            return {
+                period,
+                start: startOfYear(now),
+                end: endOfYear(now),
+                previousStart: startOfYear(subYears(now, 1)),
+                previousEnd: endOfYear(subYears(now, 1))
+            }
+        default:
+            return {
+                period: 'month',
+                start: startOfMonth(now),
+                end: endOfMonth(now),
+                previousStart: startOfMonth(subMonths(now, 1)),
+                previousEnd: endOfMonth(subMonths(now, 1))
+            }
+    }
+}
+
+const growthPercent = (current: number, previous: number) =>
+    previous > 0 ? ((current - previous) / previous) * 100 : 0
+
+// Revenue per day, delivery week or month of the range, by delivery date
+function revenueByPeriod(
+    days: AnalyticsRollup[],
+    periodType: 'day' | 'week' | 'month',
+    start: Date,
+    end: Date
+): RevenuePoint[] {
+    const periodKey = (date: string) => periodType === 'day'
+        ? date
+        : periodType === 'week'
+            ? getDeliveryWeekKey(fromDateKey(date))
+            : toDateKey(startOfMonth(fromDateKey(date)))
+
+    const totals = new Map<string, { amount: number, orders: number }>()
+    days.forEach(day => {
+        const key = periodKey(day.date)
+        const total = totals.get(key) || { amount: 0, orders: 0 }
+        total.amount += day.revenue
+        total.orders += day.orders
+        totals.set(key, total)
+    })
+
+    const keys = periodType === 'month'
+        ? eachMonthOfInterval({ start, end }).map(toDateKey)
+        : eachDayOfInterval({ start, end }).map(date => periodKey(toDateKey(date)))
+
+    return Array.from(new Set(keys)).map(date => ({
+        date,
+        amount: totals.get(date)?.amount || 0,
+        orders: totals.get(date)?.orders || 0
+    }))
+}
+
+// Keep the orders of one customer and, for a category, only the lines of that category: an order
+// then counts with the total of those lines, and not at all when it has none
+export function filterAnalyticsOrders(
+    orders: Order[],
+    filters: AnalyticsFilters,
+    dishMap: Map<string | undefined, Dish>
+): Order[] {
+    const category = filters.category?.toLowerCase()
+
+    return orders
+        .filter(order => !filters.customerId || order.customerId === filters.customerId)
+        .map(order => {
+            if (!category) return order
+            const items = (order.items || []).filter(item =>
+                (dishMap.get(item.dishId)?.category || '').toLowerCase() === category
+            )
+            return { ...order, items, totalAmount: items.reduce((sum, item) => sum + getLineRevenue(item), 0) }
+        })
+        .filter(order => !category || order.items.length > 0)
+}
+
+function orderCountRange(orderCount: number): string {
+    if (orderCount === 1) return '1 הזמנה'
+    if (orderCount <= 3) return '2-3 הזמנות'
+    if (orderCount <= 5) return '4-5 הזמנות'
+    return '6+ הזמנות'
+}
+
+// Everything the analytics report shows, from the day rollups of both periods. Filtered reports
+// pass rollups built from the filtered orders.
+export function buildAnalyticsReport(
+    input: AnalyticsInput,
+    range: AnalyticsRange,
+    filters: AnalyticsFilters = {}
+): AnalyticsReport {
+    const startKey = toDateKey(range.start)
+    const endKey = toDateKey(range.end)
+    const days = input.days.filter(day => day.date >= startKey && day.date <= endKey)
+    const total = mergeRollups(startKey, days)
+    const previous = mergeRollups(toDateKey(range.previousStart), input.previousDays)
+
+    // Orders by status and by delivery day of week
+    const byStatus: Record<string, number> = {}
+    Object.entries(total.statusCounts).forEach(([status, count]) => {
+        byStatus[status.toLowerCase()] = (byStatus[status.toLowerCase()] || 0) + count
+    })
+    const byDay: Record<string, number> = {}
+    days.forEach(day => {
+        if (day.orders === 0) return
+        const weekday = format(fromDateKey(day.date), 'EEEE')
+        byDay[weekday] = (byDay[weekday] || 0) + day.orders
+    })
+
+    // Dish sales
+    const dishSales: DishSales[] = Object.values(total.dishes).map(dish => ({
+        name: dish.name,
+        quantity: dish.quantity,
+        revenue: dish.revenue,
+        category: dish.category
+    }))
+
+    const byCategory: Record<string, { quantity: number, revenue: number }> = {}
+    dishSales.forEach(dish => {
+        byCategory[dish.category] = byCategory[dish.category] || { quantity: 0, revenue: 0 }
+        byCategory[dish.category].quantity += dish.quantity
+        byCategory[dish.category].revenue += dish.revenue
+    })
+
+    // Customer spend in the period
+    const customerSpend: CustomerSpend[] = Object.entries(total.customers).map(([id, customer]) => ({
+        id,
+        name: customer.name,
+        totalSpent: customer.revenue,
+        orderCount: customer.orders
+    }))
+
+    const byOrderCount: Record<string, number> = {}
+    customerSpend.forEach(customer => {
+        const countRange = orderCountRange(customer.orderCount)
+        byOrderCount[countRange] = (byOrderCount[countRange] || 0) + 1
+    })
+
+    return {
+        range: {
+            period: range.period,
+            comparison: range.comparison,
+            startDate: startKey,
+            endDate: endKey,
+            previousStartDate: toDateKey(range.previousStart),
+            previousEndDate: toDateKey(range.previousEnd)
+        },
+        filters: {
+            category: filters.category || null,
+            customerId: filters.customerId || null
+        },
+        previous: {
+            totalRevenue: previous.revenue,
+            totalOrders: previous.orders,
+            averageOrderValue: previous.orders > 0 ? previous.revenue / previous.orders : 0
+        },
+        summary: {
+            totalRevenue: total.revenue,
+            totalOrders: total.orders,
+            averageOrderValue: total.orders > 0 ? total.revenue / total.orders : 0,
+            totalCustomers: customerSpend.length,
+            // New customers had their first delivery in the period; everyone else ordered before it
+            newCustomers: total.newCustomers,
+            returningCustomers: total.returningCustomers,
+            revenueGrowth: growthPercent(total.revenue, previous.revenue),
+            ordersGrowth: growthPercent(total.orders, previous.orders)
+        },
+        revenue: {
+            daily: revenueByPeriod(days, 'day', range.start, range.end),
+            weekly: revenueByPeriod(days, 'week', range.start, range.end),
+            monthly: revenueByPeriod(days, 'month', range.start, range.end)
+        },
+        orders: {
+            byStatus,
+            byDay: Object.entries(byDay).map(([day, count]) => ({ day, count })),
+            byHour: []
+        },
+        dishes: {
+            topSelling: dishSales
+                .sort((a, b) => b.revenue - a.revenue)
+                .slice(0, 10),
+            byCategory
+        },
+        customers: {
+            byOrderCount: Object.entries(byOrderCount).map(([countRange, count]) => ({ range: countRange, count })),
+            topSpenders: [...customerSpend]
+                .sort((a, b) => b.totalSpent - a.totalSpent)
+                .slice(0, 10)
+        }
+    }
+}
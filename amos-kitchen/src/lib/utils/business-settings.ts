@@ -0,0 +1,56 @@
+// lib/utils/business-settings.ts
+import type { BusinessSettings, WorkingHours } from '@/lib/types/firestore'
+
+export const CURRENCY_OPTIONS = [
+    { code: 'ILS', label: 'שקל חדש (₪)' },
+    { code: 'USD', label: 'דולר ($)' },
+    { code: 'EUR', label: 'אירו (€)' }
+] as const
+
+// Sunday to Thursday 08:00-18:00, Friday until 14:00, closed on Saturday
+const DEFAULT_WORKING_HOURS: WorkingHours[] = [0, 1, 2, 3, 4, 5, 6].map(weekday => ({
+    weekday,
+    open: '08:00',
+    close: weekday === 5 ? '14:00' : '18:00',
+    closed: weekday === 6
+}))
+
+export const DEFAULT_BUSINESS_SETTINGS: BusinessSettings = {
+    businessName: 'המטבח של עמוס',
+    logoUrl: null,
+    vatNumber: null,
+    phone: null,
+    address: null,
+    currency: 'ILS',
+    vatRate: 18,
+    pricesIncludeVat: true,
+    defaultDeliveryFee: 0,
+    orderNumberPrefix: 'ORD-',
+    workingHours: DEFAULT_WORKING_HOURS,
+    notifications: {
+        email: null,
+        newOrder: true,
+        orderCancelled: true,
+        dailySummary: false,
+        capacityAlert: false
+    }
+}
+
+// Fill in anything an older saved document is missing
+export function withBusinessDefaults(settings: Partial<BusinessSettings>): BusinessSettings {
+    const workingHours = DEFAULT_WORKING_HOURS.map(defaults =>
+        settings.workingHours?.find(hours => hours.weekday === defaults.weekday) || defaults
+    )
+
+    return {
+        ...DEFAULT_BUSINESS_SETTINGS,
+        ...settings,
+        workingHours,
+        notifications: { ...DEFAULT_BUSINESS_SETTINGS.notifications, ...settings.notifications }
+    }
+}
+
+// e.g. ORD-2025-0042
+export function formatOrderNumber(prefix: string, year: number, sequence: number): string {
+    return `${prefix}${year}-${sequence.toString().padStart(4, '0')}`
+}
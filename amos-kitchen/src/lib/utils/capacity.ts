@@ -0,0 +1,139 @@
+// lib/utils/capacity.ts
+import { format } from 'date-fns'
+import { fromDateKey } from '@/lib/utils/delivery-schedule'
+import type {
+    CapacityLimits,
+    CapacitySettings,
+    CapacityViolation,
+    DeliveryAvailability,
+    DeliveryUsage,
+    OrderItem,
+    RemainingCapacity
+} from '@/lib/types/firestore'
+
+export const DEFAULT_CAPACITY_SETTINGS: CapacitySettings = {
+    defaults: {},
+    dates: {}
+}
+
+// Thrown by the order DAO when a write would overbook a delivery day
+export class CapacityExceededError extends Error {
+    violations: CapacityViolation[]
+
+    constructor(violations: CapacityViolation[]) {
+        super(violations.map(formatCapacityViolation).join(', '))
+        this.name = 'CapacityExceededError'
+        this.violations = violations
+    }
+}
+
+export function createEmptyUsage(date: string): DeliveryUsage {
+    return { date, orderCount: 0, portionCount: 0, dishCounts: {} }
+}
+
+// Per-date overrides win over the defaults, field by field
+export function getEffectiveLimits(settings: CapacitySettings, dateKey: string): CapacityLimits {
+    const overrides = settings.dates[dateKey] || {}
+    return {
+        maxOrders: overrides.maxOrders ?? settings.defaults.maxOrders ?? null,
+        maxPortions: overrides.maxPortions ?? settings.defaults.maxPortions ?? null,
+        dishLimits: { ...settings.defaults.dishLimits, ...overrides.dishLimits }
+    }
+}
+
+// How much of a day's capacity an order takes; cancelled orders take none
+export function getOrderUsage(
+    date: string,
+    order: { status?: string, items?: Pick<OrderItem, 'dishId' | 'quantity'>[] }
+): DeliveryUsage {
+    const usage = createEmptyUsage(date)
+    if (order.status === 'CANCELLED' || !order.items) return usage
+
+    usage.orderCount = 1
+    order.items.forEach(item => {
+        usage.portionCount += item.quantity
+        usage.dishCounts[item.dishId] = (usage.dishCounts[item.dishId] || 0) + item.quantity
+    })
+    return usage
+}
+
+// Add (sign = 1) or remove (sign = -1) one usage from another
+export function combineUsage(base: DeliveryUsage, change: DeliveryUsage, sign: 1 | -1): DeliveryUsage {
+    const dishCounts = { ...base.dishCounts }
+    Object.entries(change.dishCounts).forEach(([dishId, count]) => {
+        dishCounts[dishId] = Math.max(0, (dishCounts[dishId] || 0) + sign * count)
+    })
+
+    return {
+        date: base.date,
+        orderCount: Math.max(0, base.orderCount + sign * change.orderCount),
+        portionCount: Math.max(0, base.portionCount + sign * change.portionCount),
+        dishCounts
+    }
+}
+
+// Only flag limits the change pushes further over, so status updates on an
+// already-overbooked day still go through
+export function findCapacityViolations(
+    limits: CapacityLimits,
+    before: DeliveryUsage,
+    after: DeliveryUsage,
+    dishNames: Record<string, string> = {}
+): CapacityViolation[] {
+    const violations: CapacityViolation[] = []
+
+    if (limits.maxOrders != null && after.orderCount > limits.maxOrders && after.orderCount > before.orderCount) {
+        violations.push({ type: 'ORDERS', date: after.date, limit: limits.maxOrders, requested: after.orderCount })
+    }
+
+    if (limits.maxPortions != null && after.portionCount > limits.maxPortions && after.portionCount > before.portionCount) {
+        violations.push({ type: 'PORTIONS', date: after.date, limit: limits.maxPortions, requested: after.portionCount })
+    }
+
+    Object.entries(limits.dishLimits || {}).forEach(([dishId, limit]) => {
+        const requested = after.dishCounts[dishId] || 0
+        if (requested > limit && requested > (before.dishCounts[dishId] || 0)) {
+            violations.push({ type: 'DISH', date: after.date, dishId, dishName: dishNames[dishId], limit, requested })
+        }
+    })
+
+    return violations
+}
+
+function toRemaining(limit: number | null | undefined, used: number): RemainingCapacity {
+    return {
+        limit: limit ?? null,
+        used,
+        remaining: limit == null ? null : Math.max(0, limit - used)
+    }
+}
+
+export function getDeliveryAvailability(limits: CapacityLimits, usage: DeliveryUsage): DeliveryAvailability {
+    const orders = toRemaining(limits.maxOrders, usage.orderCount)
+    const portions = toRemaining(limits.maxPortions, usage.portionCount)
+
+    const dishes: Record<string, RemainingCapacity> = {}
+    Object.entries(limits.dishLimits || {}).forEach(([dishId, limit]) => {
+        dishes[dishId] = toRemaining(limit, usage.dishCounts[dishId] || 0)
+    })
+
+    return {
+        date: usage.date,
+        orders,
+        portions,
+        dishes,
+        isFull: orders.remaining === 0 || portions.remaining === 0
+    }
+}
+
+export function formatCapacityViolation(violation: CapacityViolation): string {
+    const day = format(fromDateKey(violation.date), 'dd/MM')
+    switch (violation.type) {
+        case 'ORDERS':
+            return `יום ${day} מלא: עד ${violation.limit} הזמנות`
+        case 'PORTIONS':
+            return `יום ${day} מלא: עד ${violation.limit} מנות`
+        case 'DISH':
+            return `${violation.dishName || 'מנה'}: מבוקשות ${violation.requested} מנות ליום ${day}, המכסה היא ${violation.limit}`
+    }
+}
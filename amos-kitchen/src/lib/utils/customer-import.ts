@@ -0,0 +1,163 @@
+// lib/utils/customer-import.ts
+import * as XLSX from 'xlsx'
+import { COMMON_PREFERENCES } from '@/lib/utils/preferences'
+import { toPreferenceType } from '@/lib/utils/type-guards'
+import { PREFERENCE_TYPE_LABELS, type PreferenceType } from '@/lib/types/database'
+
+export type ImportAction = 'create' | 'update' | 'skip' | 'error'
+
+export interface ImportPreference {
+    type: PreferenceType
+    value: string
+}
+
+// A spreadsheet row after header mapping, before validation
+export interface RawImportRow {
+    rowNumber: number
+    name: string
+    phone: string
+    email: string
+    address: string
+    notes: string
+    preferences: ImportPreference[]
+}
+
+export interface ImportRowResult {
+    rowNumber: number
+    action: ImportAction
+    name: string
+    phone: string
+    existingCustomerId?: string
+    changes: string[]
+    errors: string[]
+    preferences: ImportPreference[]
+}
+
+export interface ImportSummary {
+    create: number
+    update: number
+    skip: number
+    error: number
+}
+
+// Accepted header names per field (Hebrew, English, and the customer export's own headers)
+const FIELD_HEADERS: Record<'name' | 'phone' | 'email' | 'address' | 'notes', string[]> = {
+    name: ['שם', 'שם לקוח', 'name', 'full name'],
+    phone: ['טלפון', 'נייד', 'phone', 'mobile'],
+    email: ['אימייל', 'מייל', 'email', 'e-mail'],
+    address: ['כתובת', 'address'],
+    notes: ['הערות', 'notes']
+}
+
+// Columns holding a single preference type, as written by the customer export
+const TYPED_PREFERENCE_HEADERS: Record<string, PreferenceType> = {
+    'אלרגיות': 'ALLERGY',
+    'allergies': 'ALLERGY',
+    'רפואי': 'MEDICAL',
+    'medical': 'MEDICAL',
+    'הגבלות תזונתיות': 'DIETARY_RESTRICTION',
+    'dietary restrictions': 'DIETARY_RESTRICTION'
+}
+
+// Free-form preference columns; each entry may carry a "type:" prefix
+const MIXED_PREFERENCE_HEADERS = ['העדפות', 'preferences']
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase()
+
+const cellToString = (value: unknown): string => {
+    if (value === null || value === undefined) return ''
+    return String(value).trim()
+}
+
+// Resolve a preference type from "ALLERGY", "allergy" or a Hebrew label like "אלרגיה"
+function resolvePreferenceType(label: string): PreferenceType | null {
+    const byAlias = toPreferenceType(label.trim())
+    if (byAlias) return byAlias
+
+    const entry = Object.entries(PREFERENCE_TYPE_LABELS).find(([, hebrew]) => hebrew === label.trim())
+    return entry ? entry[0] as PreferenceType : null
+}
+
+// Without an explicit type, use the vocabulary the value belongs to (defaults to PREFERENCE)
+function inferPreferenceType(value: string): PreferenceType {
+    const types = Object.keys(COMMON_PREFERENCES) as PreferenceType[]
+    return types.find(type => COMMON_PREFERENCES[type].includes(value)) || 'PREFERENCE'
+}
+
+// Parse "אלרגיה: בוטנים; ללא בצל, ALLERGY:גלוטן" into typed preferences
+export function parsePreferenceCell(cell: string, fixedType?: PreferenceType): ImportPreference[] {
+    return cell
+        .split(/[;,\n]/)
+        .map(part => part.trim())
+        .filter(part => part.length > 0)
+        .map(part => {
+            if (fixedType) return { type: fixedType, value: part }
+
+            const separator = part.indexOf(':')
+            if (separator > 0) {
+                const type = resolvePreferenceType(part.slice(0, separator))
+                const value = part.slice(separator + 1).trim()
+                if (type && value) return { type, value }
+            }
+            return { type: inferPreferenceType(part), value: part }
+        })
+}
+
+// Read the first sheet of a CSV/XLSX file into mapped rows
+export function parseCustomerImportFile(data: ArrayBuffer): RawImportRow[] {
+    const workbook = XLSX.read(data, { type: 'array', raw: false, codepage: 65001 })
+    const sheet = workbook.Sheets[workbook.SheetNames[0]]
+    if (!sheet) return []
+
+    const records = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet, { defval: '', raw: false })
+
+    return records.map((record, index) => {
+        const row: RawImportRow = {
+            // +2: one for the header row, one for 1-based numbering
+            rowNumber: index + 2,
+            name: '',
+            phone: '',
+            email: '',
+            address: '',
+            notes: '',
+            preferences: []
+        }
+
+        Object.entries(record).forEach(([header, rawValue]) => {
+            const key = normalizeHeader(header.replace(/^\uFEFF/, ''))
+            const value = cellToString(rawValue)
+            if (!value) return
+
+            const field = (Object.keys(FIELD_HEADERS) as (keyof typeof FIELD_HEADERS)[])
+                .find(f => FIELD_HEADERS[f].includes(key))
+            if (field) {
+                row[field] = value
+                return
+            }
+
+            if (TYPED_PREFERENCE_HEADERS[key]) {
+                row.preferences.push(...parsePreferenceCell(value, TYPED_PREFERENCE_HEADERS[key]))
+            } else if (MIXED_PREFERENCE_HEADERS.includes(key)) {
+                row.preferences.push(...parsePreferenceCell(value))
+            }
+        })
+
+        return row
+    })
+}
+
+// Spreadsheets often store phones as numbers and drop the leading zero (0501234567 -> 501234567)
+export function restoreLeadingZero(phone: string): string {
+    const digits = phone.replace(/\D/g, '')
+    if (digits.length === 9 && /^[2-9]/.test(digits) && digits === phone.trim()) {
+        return `0${digits}`
+    }
+    return phone
+}
+
+export function summarizeImport(rows: ImportRowResult[]): ImportSummary {
+    return rows.reduce((summary, row) => {
+        summary[row.action] += 1
+        return summary
+    }, { create: 0, update: 0, skip: 0, error: 0 } as ImportSummary)
+}
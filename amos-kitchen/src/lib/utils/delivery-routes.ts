@@ -0,0 +1,64 @@
+// lib/utils/delivery-routes.ts
+import type { DeliveryManifestStop, DeliveryOrder, DeliveryRoute, DeliveryStop } from '@/lib/types/firestore'
+
+export const NO_AREA = 'ללא אזור'
+
+export const DELIVERY_ROUTE_SORT_LABELS: Record<DeliveryRoute['sortBy'], string> = {
+    AREA: 'לפי אזור',
+    MANUAL: 'סדר ידני'
+}
+
+// For addresses that were never split into parts ("street 12, city"): the last part is the area
+export function getDeliveryArea(address: string | null | undefined): string {
+    const parts = (address || '').split(',').map(part => part.trim()).filter(Boolean)
+    return parts.length > 1 ? parts[parts.length - 1] : NO_AREA
+}
+
+export function formatDeliveryWindow(start: string | null, end: string | null): string {
+    if (start && end) return `${start}–${end}`
+    if (start) return `מ-${start}`
+    if (end) return `עד ${end}`
+    return ''
+}
+
+// The stops of a route in driving order. AREA routes go area by area, earliest window first;
+// MANUAL routes keep the sequence they were given.
+export function arrangeStops(route: Pick<DeliveryRoute, 'sortBy' | 'stops'>, orders: Map<string, DeliveryOrder>): DeliveryStop[] {
+    if (route.sortBy === 'MANUAL') return route.stops
+
+    const areaOf = (stop: DeliveryStop) => orders.get(stop.orderId)?.area || NO_AREA
+    return [...route.stops].sort((a, b) =>
+        areaOf(a).localeCompare(areaOf(b), 'he') ||
+        (a.windowStart || '99:99').localeCompare(b.windowStart || '99:99') ||
+        (orders.get(a.orderId)?.address || '').localeCompare(orders.get(b.orderId)?.address || '', 'he')
+    )
+}
+
+// The manifest lines of a route; stops whose order no longer exists are left out
+export function buildRouteManifest(route: DeliveryRoute, orders: DeliveryOrder[]): DeliveryManifestStop[] {
+    const orderMap = new Map(orders.map(order => [order.id, order]))
+
+    return arrangeStops(route, orderMap)
+        .filter(stop => orderMap.has(stop.orderId))
+        .map((stop, index) => {
+            const order = orderMap.get(stop.orderId)!
+            return {
+                ...order,
+                sequence: index + 1,
+                windowStart: stop.windowStart,
+                windowEnd: stop.windowEnd
+            }
+        })
+}
+
+// Orders grouped by area, areas in alphabetical order
+export function groupOrdersByArea(orders: DeliveryOrder[]): { area: string, orders: DeliveryOrder[] }[] {
+    const groups = new Map<string, DeliveryOrder[]>()
+    orders.forEach(order => {
+        groups.set(order.area, [...(groups.get(order.area) || []), order])
+    })
+
+    return Array.from(groups.entries())
+        .sort(([a], [b]) => a.localeCompare(b, 'he'))
+        .map(([area, areaOrders]) => ({ area, orders: areaOrders }))
+}
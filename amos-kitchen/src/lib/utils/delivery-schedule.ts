@@ -0,0 +1,184 @@
+// lib/utils/delivery-schedule.ts
+import { addDays, format, startOfDay } from 'date-fns'
+import type { DeliveryCutoff, DeliverySchedule } from '@/lib/types/firestore'
+
+export const WEEKDAY_LABELS = ['ראשון', 'שני', 'שלישי', 'רביעי', 'חמישי', 'שישי', 'שבת']
+
+// Used until the schedule is saved for the first time: Friday deliveries, orders close Thursday 18:00
+export const DEFAULT_DELIVERY_SCHEDULE: DeliverySchedule = {
+    days: [{ weekday: 5, cutoff: { daysBefore: 1, time: '18:00' } }],
+    closures: [],
+    extraDays: []
+}
+
+// How far ahead we look for delivery days before giving up
+const MAX_LOOKAHEAD_DAYS = 120
+
+// Delivery days, cutoffs and "today" are days and times in Israel, whatever timezone the
+// server or the browser runs in
+export const BUSINESS_TIME_ZONE = 'Asia/Jerusalem'
+
+// Schedule dates are stored as 'yyyy-MM-dd' keys so they don't shift with timezones. These two
+// convert between a key and a calendar date: a Date at local midnight that stands for the day,
+// not for a moment. Use toBusinessDateKey and getBusinessDayBounds for moments such as the
+// stored delivery dates of orders.
+export function toDateKey(date: Date): string {
+    return format(date, 'yyyy-MM-dd')
+}
+
+export function fromDateKey(key: string): Date {
+    const [year, month, day] = key.split('-').map(Number)
+    return new Date(year, month - 1, day)
+}
+
+const businessClock = new Intl.DateTimeFormat('en-US', {
+    timeZone: BUSINESS_TIME_ZONE,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+})
+
+// The wall-clock reading in Israel at a moment
+function getBusinessClock(moment: Date): { year: number, month: number, day: number, hour: number, minute: number, second: number } {
+    const parts: Record<string, number> = {}
+    businessClock.formatToParts(moment).forEach(part => {
+        if (part.type !== 'literal') parts[part.type] = Number(part.value)
+    })
+    return {
+        year: parts.year,
+        month: parts.month,
+        day: parts.day,
+        hour: parts.hour,
+        minute: parts.minute,
+        second: parts.second
+    }
+}
+
+// The day in Israel that a moment falls on
+export function toBusinessDateKey(moment: Date): string {
+    const { year, month, day } = getBusinessClock(moment)
+    return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+// Today in Israel, as a calendar date
+export function getBusinessToday(now: Date = new Date()): Date {
+    return fromDateKey(toBusinessDateKey(now))
+}
+
+// How far Israel's clock is ahead of UTC at a moment, in milliseconds
+function getBusinessOffset(moment: Date): number {
+    const clock = getBusinessClock(moment)
+    const asUtc = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second)
+    return asUtc - Math.floor(moment.getTime() / 1000) * 1000
+}
+
+// The moment the clock in Israel shows `time` (HH:mm) on a day. The offset is taken again at
+// the result, for days when daylight saving time starts or ends.
+export function getBusinessTime(dateKey: string, time: string = '00:00'): Date {
+    const [year, month, day] = dateKey.split('-').map(Number)
+    const [hours, minutes] = time.split(':').map(Number)
+    const wallClock = Date.UTC(year, month - 1, day, hours || 0, minutes || 0)
+    const guess = wallClock - getBusinessOffset(new Date(wallClock))
+    return new Date(wallClock - getBusinessOffset(new Date(guess)))
+}
+
+// The moments a day in Israel starts and ends (end exclusive), for querying stored dates
+export function getBusinessDayBounds(dateKey: string): { start: Date, end: Date } {
+    return {
+        start: getBusinessTime(dateKey),
+        end: getBusinessTime(toDateKey(addDays(fromDateKey(dateKey), 1)))
+    }
+}
+
+// The day a submitted delivery date stands for: a 'yyyy-MM-dd' key as is, or the day in
+// Israel of a moment (older clients send the ISO time of local midnight). Null if invalid.
+export function parseDeliveryDateKey(value: string): string | null {
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        return toDateKey(fromDateKey(value)) === value ? value : null
+    }
+    const moment = new Date(value)
+    return isNaN(moment.getTime()) ? null : toBusinessDateKey(moment)
+}
+
+// The cutoff that applies to a date, or null when there is no delivery that day
+export function getDeliveryCutoff(schedule: DeliverySchedule, date: Date): DeliveryCutoff | null {
+    const key = toDateKey(date)
+
+    if (schedule.closures.some(closure => closure.date === key)) return null
+
+    const extraDay = schedule.extraDays.find(extra => extra.date === key)
+    if (extraDay) return extraDay.cutoff
+
+    const rule = schedule.days.find(day => day.weekday === date.getDay())
+    return rule ? rule.cutoff : null
+}
+
+export function isDeliveryDay(schedule: DeliverySchedule, date: Date): boolean {
+    return getDeliveryCutoff(schedule, date) !== null
+}
+
+// The moment orders for a delivery date stop being accepted; the cutoff time is Israel time
+export function getOrderCutoffTime(deliveryDate: Date, cutoff: DeliveryCutoff): Date {
+    return getBusinessTime(toDateKey(addDays(startOfDay(deliveryDate), -cutoff.daysBefore)), cutoff.time)
+}
+
+export function isOrderingOpen(schedule: DeliverySchedule, deliveryDate: Date, now: Date = new Date()): boolean {
+    const cutoff = getDeliveryCutoff(schedule, deliveryDate)
+    if (!cutoff) return false
+    return now < getOrderCutoffTime(deliveryDate, cutoff)
+}
+
+// All delivery days between two dates (inclusive)
+export function getDeliveryDaysInRange(schedule: DeliverySchedule, start: Date, end: Date): Date[] {
+    const days: Date[] = []
+    const last = startOfDay(end)
+
+    for (let day = startOfDay(start); day <= last; day = addDays(day, 1)) {
+        if (isDeliveryDay(schedule, day)) {
+            days.push(day)
+        }
+    }
+
+    return days
+}
+
+// Delivery days that can still take new orders, soonest first
+export function getUpcomingDeliveryDates(
+    schedule: DeliverySchedule,
+    count: number = 4,
+    now: Date = new Date()
+): Date[] {
+    const dates: Date[] = []
+    let day = getBusinessToday(now)
+
+    for (let i = 0; i < MAX_LOOKAHEAD_DAYS && dates.length < count; i++) {
+        if (isOrderingOpen(schedule, day, now)) {
+            dates.push(day)
+        }
+        day = addDays(day, 1)
+    }
+
+    return dates
+}
+
+// The next delivery day from today on, regardless of whether ordering has closed
+export function getNextDeliveryDate(schedule: DeliverySchedule, now: Date = new Date()): Date | null {
+    let day = getBusinessToday(now)
+
+    for (let i = 0; i < MAX_LOOKAHEAD_DAYS; i++) {
+        if (isDeliveryDay(schedule, day)) return day
+        day = addDays(day, 1)
+    }
+
+    return null
+}
+
+// Hebrew description of a cutoff, e.g. "יום חמישי ב-18:00"
+export function formatCutoff(deliveryDate: Date, cutoff: DeliveryCutoff): string {
+    const cutoffDay = addDays(startOfDay(deliveryDate), -cutoff.daysBefore)
+    return `יום ${WEEKDAY_LABELS[cutoffDay.getDay()]} ב-${cutoff.time}`
+}
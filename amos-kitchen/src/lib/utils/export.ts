@@ -1,8 +1,14 @@
 // lib/utils/export.ts
 import * as XLSX from 'xlsx'
 import { format } from 'date-fns'
+import { formatDeliveryWindow } from '@/lib/utils/delivery-routes'
+import { fromDateKey, toBusinessDateKey } from '@/lib/utils/delivery-schedule'
+import type { AnalyticsReport } from '@/lib/utils/analytics'
+import type { Order, Customer, CustomerPreference, DeliveryManifestStop, DeliveryRoute } from '@/lib/types/firestore'
 
-interface ExportOrder {
+export type ExportFormat = 'xlsx' | 'csv'
+
+export interface ExportOrder {
   orderNumber: string
   customerName: string
   customerPhone: string
@@ -33,7 +39,34 @@ const statusLabels: Record<string, string> = {
   cancelled: 'בוטל'
 }
 
-export function exportOrdersToExcel(orders: ExportOrder[]) {
+// Flatten a Firestore order into the shape used by the export sheets
+export function toExportOrder(order: Order): ExportOrder {
+  return {
+    orderNumber: order.orderNumber,
+    customerName: order.customerData?.name || '',
+    customerPhone: order.customerData?.phone || '',
+    customerEmail: order.customerData?.email || '',
+    // The delivery day in Israel; the stored moment is the evening before in UTC
+    deliveryDate: format(fromDateKey(toBusinessDateKey(order.deliveryDate)), 'dd/MM/yyyy'),
+    deliveryAddress: order.deliveryAddress || '',
+    totalAmount: order.totalAmount,
+    status: order.status.toLowerCase(),
+    itemsCount: order.items.reduce((sum, item) => sum + item.quantity, 0),
+    items: order.items.map(item => ({
+      dishName: item.dishName,
+      quantity: item.quantity,
+      price: item.price,
+      total: item.price * item.quantity,
+      notes: item.notes || ''
+    })),
+    notes: order.notes || '',
+    createdAt: format(order.createdAt, 'dd/MM/yyyy HH:mm'),
+    updatedAt: format(order.updatedAt, 'dd/MM/yyyy HH:mm')
+  }
+}
+
+// Build the orders workbook (orders, items and summary sheets)
+export function buildOrdersWorkbook(orders: ExportOrder[]): XLSX.WorkBook {
   // Create main orders sheet data
   const ordersData = orders.map(order => ({
     'מספר הזמנה': order.orderNumber,
@@ -66,8 +99,9 @@ export function exportOrdersToExcel(orders: ExportOrder[]) {
     })
   })
 
-  // Create workbook
+  // Create workbook (right-to-left for the Hebrew columns)
   const wb = XLSX.utils.book_new()
+  wb.Workbook = { Views: [{ RTL: true }] }
 
   // Add orders sheet
   const ordersWs = XLSX.utils.json_to_sheet(ordersData)
@@ -95,6 +129,193 @@ export function exportOrdersToExcel(orders: ExportOrder[]) {
   const summaryWs = XLSX.utils.json_to_sheet(summaryData)
   XLSX.utils.book_append_sheet(wb, summaryWs, 'סיכום')
 
+  return wb
+}
+
+// Serialize a workbook for download. CSV holds the first sheet only and starts
+// with a UTF-8 BOM so Excel opens the Hebrew headers correctly.
+export function workbookToBuffer(wb: XLSX.WorkBook, exportFormat: ExportFormat): Buffer {
+  if (exportFormat === 'csv') {
+    const csv = XLSX.utils.sheet_to_csv(wb.Sheets[wb.SheetNames[0]])
+    return Buffer.from('\uFEFF' + csv, 'utf-8')
+  }
+  return XLSX.write(wb, { type: 'buffer', bookType: 'xlsx' }) as Buffer
+}
+
+export function getExportContentType(exportFormat: ExportFormat): string {
+  return exportFormat === 'csv'
+    ? 'text/csv; charset=utf-8'
+    : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+}
+
+export interface ExportCustomer extends Customer {
+  preferences: CustomerPreference[]
+  orderCount: number
+  totalSpent: number
+  lastOrderDate: Date | null
+}
+
+const preferenceTypeLabels: Record<CustomerPreference['type'], string> = {
+  ALLERGY: 'אלרגיה',
+  MEDICAL: 'רפואי',
+  DIETARY_RESTRICTION: 'הגבלה תזונתית',
+  PREFERENCE: 'העדפה'
+}
+
+const preferenceValues = (customer: ExportCustomer, type: CustomerPreference['type']) =>
+  customer.preferences.filter(p => p.type === type).map(p => p.value).join(', ')
+
+// Build the customers workbook: one row per customer plus a flat preferences sheet
+export function buildCustomersWorkbook(customers: ExportCustomer[]): XLSX.WorkBook {
+  const customersData = customers.map(customer => ({
+    'שם': customer.name,
+    'טלפון': customer.phone,
+    'אימייל': customer.email || '',
+    'כתובת': customer.address || '',
+    'הערות': customer.notes || '',
+    'אלרגיות': preferenceValues(customer, 'ALLERGY'),
+    'רפואי': preferenceValues(customer, 'MEDICAL'),
+    'הגבלות תזונתיות': preferenceValues(customer, 'DIETARY_RESTRICTION'),
+    'העדפות': preferenceValues(customer, 'PREFERENCE'),
+    'מספר הזמנות': customer.orderCount,
+    'סה"כ הוצאות': customer.totalSpent,
+    'הזמנה אחרונה': customer.lastOrderDate ? format(customer.lastOrderDate, 'dd/MM/yyyy') : '',
+    'לקוח מאז': format(customer.createdAt, 'dd/MM/yyyy')
+  }))
+
+  const preferencesData = customers.flatMap(customer =>
+    customer.preferences.map(pref => ({
+      'שם לקוח': customer.name,
+      'טלפון': customer.phone,
+      'סוג': preferenceTypeLabels[pref.type] || pref.type,
+      'ערך': pref.value,
+      'הערות': pref.notes || ''
+    }))
+  )
+
+  const wb = XLSX.utils.book_new()
+  wb.Workbook = { Views: [{ RTL: true }] }
+
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(customersData), 'לקוחות')
+
+  if (preferencesData.length > 0) {
+    XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(preferencesData), 'העדפות')
+  }
+
+  return wb
+}
+
+// Build the driver manifest workbook: one row per stop, routes one after another
+export function buildDeliveryManifestWorkbook(
+  routes: { route: DeliveryRoute, stops: DeliveryManifestStop[] }[]
+): XLSX.WorkBook {
+  const stopsData = routes.flatMap(({ route, stops }) =>
+    stops.map(stop => ({
+      'מסלול': route.name,
+      'שליח': route.driverName || '',
+      'עצירה': stop.sequence,
+      'מספר הזמנה': stop.orderNumber,
+      'לקוח': stop.customerName,
+      'טלפון': stop.phone,
+      'כתובת': stop.address || '',
+      'אזור': stop.area,
+      'הנחיות הגעה': stop.accessNotes || '',
+      'חלון זמן': formatDeliveryWindow(stop.windowStart, stop.windowEnd),
+      'לתשלום': stop.amountDue,
+      'הערות': stop.notes || '',
+      'נמסר': stop.status === 'DELIVERED' ? 'כן' : ''
+    }))
+  )
+
+  const wb = XLSX.utils.book_new()
+  wb.Workbook = { Views: [{ RTL: true }] }
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.json_to_sheet(stopsData), 'משלוחים')
+
+  return wb
+}
+
+const ANALYTICS_CATEGORY_LABELS: Record<string, string> = {
+  appetizer: 'מנה ראשונה',
+  main: 'מנה עיקרית',
+  side: 'תוספת',
+  dessert: 'קינוח',
+  beverage: 'משקה',
+  vegetables: 'ירקות',
+  meat: 'בשר',
+  dairy: 'חלב',
+  grains: 'דגנים',
+  spices: 'תבלינים',
+  other: 'אחר'
+}
+
+// Build the analytics workbook: summary, daily and weekly revenue, top dishes, top customers and categories
+export function buildAnalyticsWorkbook(report: AnalyticsReport): XLSX.WorkBook {
+  const wb = XLSX.utils.book_new()
+  wb.Workbook = { Views: [{ RTL: true }] }
+
+  const summaryData = [
+    ['סיכום כללי'],
+    ['תקופה', `${report.range.startDate} - ${report.range.endDate}`],
+    ['תקופת השוואה', `${report.range.previousStartDate} - ${report.range.previousEndDate}`],
+    ...(report.filters.category ? [['קטגוריה', ANALYTICS_CATEGORY_LABELS[report.filters.category.toLowerCase()] || report.filters.category]] : []),
+    [''],
+    ['מדד', 'ערך', 'תקופת השוואה'],
+    ['סה״כ הכנסות', report.summary.totalRevenue, report.previous.totalRevenue],
+    ['מספר הזמנות', report.summary.totalOrders, report.previous.totalOrders],
+    ['ערך הזמנה ממוצע', report.summary.averageOrderValue, report.previous.averageOrderValue],
+    ['לקוחות פעילים', report.summary.totalCustomers],
+    ['לקוחות חדשים', report.summary.newCustomers],
+    ['לקוחות חוזרים', report.summary.returningCustomers],
+    ['גידול בהכנסות %', report.summary.revenueGrowth],
+    ['גידול בהזמנות %', report.summary.ordersGrowth]
+  ]
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(summaryData), 'סיכום')
+
+  const revenueData = [
+    ['הכנסות יומיות'],
+    ['תאריך', 'הזמנות', 'סכום'],
+    ...report.revenue.daily.map(point => [point.date, point.orders, point.amount])
+  ]
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(revenueData), 'הכנסות')
+
+  const weeklyData = [
+    ['הכנסות לפי שבוע משלוח'],
+    ['שבוע שמסתיים ביום שישי', 'הזמנות', 'סכום'],
+    ...report.revenue.weekly.map(point => [point.date, point.orders, point.amount])
+  ]
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(weeklyData), 'שבועות')
+
+  const dishesData = [
+    ['מנות פופולריות'],
+    ['מנה', 'כמות', 'הכנסות'],
+    ...report.dishes.topSelling.map(dish => [dish.name, dish.quantity, dish.revenue])
+  ]
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(dishesData), 'מנות')
+
+  const customersData = [
+    ['לקוחות מובילים'],
+    ['שם', 'סה״כ הוצאות', 'מספר הזמנות'],
+    ...report.customers.topSpenders.map(customer => [customer.name, customer.totalSpent, customer.orderCount])
+  ]
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(customersData), 'לקוחות')
+
+  const categoryData = [
+    ['פילוח לפי קטגוריה'],
+    ['קטגוריה', 'כמות', 'הכנסות'],
+    ...Object.entries(report.dishes.byCategory).map(([category, stats]) => [
+      ANALYTICS_CATEGORY_LABELS[category] || category,
+      stats.quantity,
+      stats.revenue
+    ])
+  ]
+  XLSX.utils.book_append_sheet(wb, XLSX.utils.aoa_to_sheet(categoryData), 'קטגוריות')
+
+  return wb
+}
+
+export function exportOrdersToExcel(orders: ExportOrder[]) {
+  const wb = buildOrdersWorkbook(orders)
+
   // Generate filename with current date
   const filename = `orders_${format(new Date(), 'yyyy-MM-dd_HH-mm')}.xlsx`
 
@@ -0,0 +1,46 @@
+// lib/utils/invites.ts
+import type { Invite, InviteStatus } from '@/lib/types/firestore'
+
+export const INVITE_EXPIRY_OPTIONS = [1, 3, 7, 14] as const
+
+export const DEFAULT_INVITE_EXPIRY_DAYS = 7
+
+export const INVITE_STATUS_LABELS: Record<InviteStatus, string> = {
+    PENDING: 'ממתינה',
+    USED: 'נוצלה',
+    REVOKED: 'בוטלה',
+    EXPIRED: 'פגה'
+}
+
+// Thrown when an invite link can't be used to register
+export class InviteError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'InviteError'
+    }
+}
+
+export function getInviteStatus(invite: Invite, now: Date = new Date()): InviteStatus {
+    if (invite.usedAt) return 'USED'
+    if (invite.revokedAt) return 'REVOKED'
+    if (invite.expiresAt.getTime() <= now.getTime()) return 'EXPIRED'
+    return 'PENDING'
+}
+
+// Reason an invite can't be redeemed by this email, or null if it can
+export function getInviteProblem(invite: Invite, email?: string, now: Date = new Date()): string | null {
+    switch (getInviteStatus(invite, now)) {
+        case 'USED':
+            return 'ההזמנה כבר נוצלה'
+        case 'REVOKED':
+            return 'ההזמנה בוטלה'
+        case 'EXPIRED':
+            return 'תוקף ההזמנה פג'
+    }
+
+    if (email && invite.email && invite.email.toLowerCase() !== email.toLowerCase()) {
+        return 'ההזמנה נשלחה לכתובת אימייל אחרת'
+    }
+
+    return null
+}
@@ -0,0 +1,46 @@
+// lib/utils/menu.ts
+import { format } from 'date-fns'
+import { fromDateKey } from '@/lib/utils/delivery-schedule'
+import type { CapacityLimits, Menu } from '@/lib/types/firestore'
+
+export function describeDishesNotOnMenu(dishNames: string[], dateKey: string): string {
+    return `${dishNames.join(', ')} ${dishNames.length === 1 ? 'אינה' : 'אינן'} בתפריט של ${format(fromDateKey(dateKey), 'dd/MM')}`
+}
+
+// The dishes offered on a day: with a menu, only the dishes on it at their special price;
+// without one, every dish as given
+export function applyMenu<T extends { id?: string, price: number }>(
+    dishes: T[],
+    menu: Pick<Menu, 'items'> | null
+): T[] {
+    if (!menu) return dishes
+
+    const items = new Map(menu.items.map(item => [item.dishId, item]))
+    return dishes
+        .filter(dish => dish.id && items.has(dish.id))
+        .map(dish => {
+            const specialPrice = items.get(dish.id!)!.specialPrice
+            return specialPrice === null ? dish : { ...dish, price: specialPrice }
+        })
+}
+
+// Dish ids that a day's menu doesn't offer; nothing is missing when there is no menu
+export function findDishesNotOnMenu(dishIds: string[], menu: Pick<Menu, 'items'> | null): string[] {
+    if (!menu) return []
+
+    const offered = new Set(menu.items.map(item => item.dishId))
+    return Array.from(new Set(dishIds.filter(dishId => !offered.has(dishId))))
+}
+
+// Menu portion limits tighten the capacity dish limits, never loosen them
+export function applyMenuLimits(limits: CapacityLimits, menu: Pick<Menu, 'items'> | null): CapacityLimits {
+    if (!menu) return limits
+
+    const dishLimits = { ...limits.dishLimits }
+    menu.items.forEach(item => {
+        if (item.maxPortions === null) return
+        const current = dishLimits[item.dishId]
+        dishLimits[item.dishId] = current === undefined ? item.maxPortions : Math.min(current, item.maxPortions)
+    })
+    return { ...limits, dishLimits }
+}
@@ -0,0 +1,94 @@
+// lib/utils/order-diff.ts
+import type { OrderItem, PriceAdjustment } from '@/lib/types/firestore'
+
+// The parts of a line that are shown in the history
+export interface OrderItemSnapshot {
+    quantity: number
+    price: number
+    notes: string
+    discount: PriceAdjustment | null
+}
+
+export interface OrderItemChange {
+    type: 'ADDED' | 'REMOVED' | 'CHANGED'
+    dishId: string
+    dishName: string
+    before: OrderItemSnapshot | null
+    after: OrderItemSnapshot | null
+}
+
+function toSnapshot(item: OrderItem): OrderItemSnapshot {
+    return {
+        quantity: item.quantity,
+        price: item.price,
+        notes: item.notes || '',
+        discount: item.discount || null
+    }
+}
+
+function sameDiscount(a: PriceAdjustment | null, b: PriceAdjustment | null): boolean {
+    if (!a || !b) return a === b
+    return a.type === b.type && a.value === b.value
+}
+
+// Lines are matched by dish, in order, so the same dish may appear more than once
+export function diffOrderItems(before: OrderItem[], after: OrderItem[]): OrderItemChange[] {
+    const remaining = new Map<string, OrderItem[]>()
+    before.forEach(item => {
+        remaining.set(item.dishId, [...(remaining.get(item.dishId) || []), item])
+    })
+
+    const changes: OrderItemChange[] = []
+    after.forEach(item => {
+        const previous = remaining.get(item.dishId)?.shift()
+        if (!previous) {
+            changes.push({ type: 'ADDED', dishId: item.dishId, dishName: item.dishName, before: null, after: toSnapshot(item) })
+            return
+        }
+
+        const beforeSnapshot = toSnapshot(previous)
+        const afterSnapshot = toSnapshot(item)
+        if (
+            beforeSnapshot.quantity !== afterSnapshot.quantity ||
+            beforeSnapshot.notes !== afterSnapshot.notes ||
+            !sameDiscount(beforeSnapshot.discount, afterSnapshot.discount)
+        ) {
+            changes.push({ type: 'CHANGED', dishId: item.dishId, dishName: item.dishName, before: beforeSnapshot, after: afterSnapshot })
+        }
+    })
+
+    remaining.forEach(items => items.forEach(item => {
+        changes.push({ type: 'REMOVED', dishId: item.dishId, dishName: item.dishName, before: toSnapshot(item), after: null })
+    }))
+
+    return changes
+}
+
+function formatDiscount(discount: PriceAdjustment | null): string {
+    if (!discount) return 'ללא הנחה'
+    return discount.type === 'PERCENT' ? `הנחה ${discount.value}%` : `הנחה ₪${discount.value}`
+}
+
+// One readable line per change, e.g. "קוגל: כמות 2 ← 4"
+export function describeOrderItemChange(change: OrderItemChange): string {
+    if (change.type === 'ADDED') {
+        return `נוספה מנה: ${change.dishName} × ${change.after!.quantity}`
+    }
+    if (change.type === 'REMOVED') {
+        return `הוסרה מנה: ${change.dishName} × ${change.before!.quantity}`
+    }
+
+    const before = change.before!
+    const after = change.after!
+    const parts: string[] = []
+    if (before.quantity !== after.quantity) {
+        parts.push(`כמות ${before.quantity} ← ${after.quantity}`)
+    }
+    if (before.notes !== after.notes) {
+        parts.push(`הערות "${before.notes || '-'}" ← "${after.notes || '-'}"`)
+    }
+    if (!sameDiscount(before.discount, after.discount)) {
+        parts.push(`${formatDiscount(before.discount)} ← ${formatDiscount(after.discount)}`)
+    }
+    return `${change.dishName}: ${parts.join(', ')}`
+}
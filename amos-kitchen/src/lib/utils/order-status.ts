@@ -0,0 +1,118 @@
+// lib/utils/order-status.ts
+import type { Order } from '@/lib/types/firestore'
+
+type OrderStatus = Order['status']
+
+// The regular flow, in order
+export const ORDER_STATUS_FLOW: OrderStatus[] = ['NEW', 'CONFIRMED', 'PREPARING', 'READY', 'DELIVERED']
+
+export const ORDER_STATUSES: OrderStatus[] = [...ORDER_STATUS_FLOW, 'CANCELLED']
+
+// Every order moves one step forward at a time and can be cancelled until it is delivered.
+// DELIVERED and CANCELLED are final; only an owner override can move an order out of them.
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+    NEW: ['CONFIRMED', 'CANCELLED'],
+    CONFIRMED: ['PREPARING', 'CANCELLED'],
+    PREPARING: ['READY', 'CANCELLED'],
+    READY: ['DELIVERED', 'CANCELLED'],
+    DELIVERED: [],
+    CANCELLED: []
+}
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+    NEW: 'חדשה',
+    CONFIRMED: 'אושרה',
+    PREPARING: 'בהכנה',
+    READY: 'מוכנה',
+    DELIVERED: 'נמסרה',
+    CANCELLED: 'בוטלה'
+}
+
+// Label of the button that moves an order into the status
+export const ORDER_STATUS_ACTION_LABELS: Record<OrderStatus, string> = {
+    NEW: 'החזר לחדשה',
+    CONFIRMED: 'אשר הזמנה',
+    PREPARING: 'התחל הכנה',
+    READY: 'סמן כמוכן',
+    DELIVERED: 'סמן כנמסר',
+    CANCELLED: 'בטל הזמנה'
+}
+
+// Thrown when a status change was based on a status someone else has since changed
+export class OrderStatusConflictError extends Error {
+    currentStatus: OrderStatus
+
+    constructor(expectedStatus: OrderStatus, currentStatus: OrderStatus) {
+        super(`Order status is ${currentStatus}, expected ${expectedStatus}`)
+        this.name = 'OrderStatusConflictError'
+        this.currentStatus = currentStatus
+    }
+}
+
+// Thrown when a status change breaks the transition rules or is missing its reason
+export class OrderStatusTransitionError extends Error {
+    from: OrderStatus
+    to: OrderStatus
+    reasonRequired: boolean
+
+    constructor(from: OrderStatus, to: OrderStatus, reasonRequired = false) {
+        super(reasonRequired
+            ? `יש לציין סיבה למעבר לסטטוס ${ORDER_STATUS_LABELS[to]}`
+            : `לא ניתן להעביר הזמנה מסטטוס ${ORDER_STATUS_LABELS[from]} לסטטוס ${ORDER_STATUS_LABELS[to]}`)
+        this.name = 'OrderStatusTransitionError'
+        this.from = from
+        this.to = to
+        this.reasonRequired = reasonRequired
+    }
+}
+
+// Older documents stored lowercase statuses
+export function normalizeOrderStatus(status: string | undefined | null): OrderStatus {
+    return (status?.toUpperCase() || 'NEW') as OrderStatus
+}
+
+export function isOrderStatus(value: unknown): value is OrderStatus {
+    return typeof value === 'string' && ORDER_STATUSES.includes(value as OrderStatus)
+}
+
+export function getAllowedTransitions(from: OrderStatus): OrderStatus[] {
+    return ORDER_STATUS_TRANSITIONS[normalizeOrderStatus(from)] || []
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+    return getAllowedTransitions(from).includes(normalizeOrderStatus(to))
+}
+
+// DELIVERED and CANCELLED: nothing follows them in the rules
+export function isFinalOrderStatus(status: OrderStatus): boolean {
+    return getAllowedTransitions(status).length === 0
+}
+
+// The next step in the regular flow, if there is one
+export function getNextStatus(from: OrderStatus): OrderStatus | null {
+    return getAllowedTransitions(from).find(status => status !== 'CANCELLED') || null
+}
+
+// Cancelling, and any override of the rules, must say why
+export function requiresStatusReason(to: OrderStatus, override = false): boolean {
+    return override || normalizeOrderStatus(to) === 'CANCELLED'
+}
+
+// Throws OrderStatusTransitionError unless the change is allowed. An override (owners only,
+// checked by the caller) allows any change to a different status.
+export function assertStatusTransition(
+    from: OrderStatus,
+    to: OrderStatus,
+    options: { reason?: string | null, override?: boolean } = {}
+): void {
+    const current = normalizeOrderStatus(from)
+    const next = normalizeOrderStatus(to)
+    if (current === next) return
+
+    if (!options.override && !canTransition(current, next)) {
+        throw new OrderStatusTransitionError(current, next)
+    }
+    if (requiresStatusReason(next, options.override) && !options.reason?.trim()) {
+        throw new OrderStatusTransitionError(current, next, true)
+    }
+}
@@ -0,0 +1,29 @@
+// lib/utils/order-templates.ts
+
+type SourceLine = { dishId: string, dishName?: string, quantity: number, notes?: string | null }
+
+// What an order, a template or a past order pre-fills the order form with. Prices aren't
+// carried over: the form and the server price the lines from the current menu.
+export interface OrderPrefill {
+    customerId?: string
+    items: { dishId: string, quantity: number, notes: string }[]
+    notes?: string
+    unavailableDishes: string[] // names of dishes that were left out
+}
+
+// Keep the lines whose dish can be ordered now; report the rest by name
+export function buildOrderPrefill(
+    lines: SourceLine[],
+    dishes: { id?: string, name: string, isAvailable: boolean }[]
+): Pick<OrderPrefill, 'items' | 'unavailableDishes'> {
+    const available = new Map(dishes.filter(dish => dish.isAvailable && dish.id).map(dish => [dish.id!, dish]))
+
+    return {
+        items: lines
+            .filter(line => available.has(line.dishId))
+            .map(line => ({ dishId: line.dishId, quantity: line.quantity, notes: line.notes || '' })),
+        unavailableDishes: lines
+            .filter(line => !available.has(line.dishId))
+            .map(line => line.dishName || line.dishId)
+    }
+}
@@ -0,0 +1,118 @@
+// lib/utils/pagination.ts
+
+export const DEFAULT_PAGE_SIZE = 20
+export const MAX_PAGE_SIZE = 100
+
+// Returned by every paginated list next to its items
+export interface PageInfo {
+    total: number // every record matching the filters, not just this page
+    limit: number
+    sort: string // the sort actually applied, which a filter can override
+    nextCursor: string | null
+    prevCursor: string | null
+}
+
+// A sort a list offers: the field and direction; ties are broken by document id
+export interface SortOption {
+    field: string
+    direction: 'asc' | 'desc'
+}
+
+// A sort value as it travels in a cursor; dates are kept as milliseconds
+export type CursorValue = string | number | boolean | null | { ms: number }
+
+// Where a page starts: next to a record of the previous page in sort order, or, for ranked
+// search results that have no sort field, at an offset
+export type PageCursor =
+    | { sort: string, direction: 'next' | 'prev', value: CursorValue, id: string }
+    | { sort: string, offset: number }
+
+export interface PageRequest {
+    limit: number
+    sort: string
+    cursor: PageCursor | null
+}
+
+// Thrown for a cursor that was tampered with or belongs to another list
+export class PaginationError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'PaginationError'
+    }
+}
+
+// Cursors are opaque to clients; they only hand back what they were given
+export function encodeCursor(cursor: PageCursor): string {
+    return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+function decodeCursor(token: string): PageCursor {
+    let cursor: any
+    try {
+        cursor = JSON.parse(Buffer.from(token, 'base64url').toString('utf8'))
+    } catch {
+        throw new PaginationError('Invalid cursor')
+    }
+
+    const valid = cursor && typeof cursor === 'object' && typeof cursor.sort === 'string' && (
+        typeof cursor.offset === 'number'
+            ? Number.isInteger(cursor.offset) && cursor.offset >= 0
+            : (cursor.direction === 'next' || cursor.direction === 'prev') && typeof cursor.id === 'string'
+    )
+    if (!valid) {
+        throw new PaginationError('Invalid cursor')
+    }
+    return cursor
+}
+
+// Searches are ranked by match, so their pages follow the ranking instead of a sort field
+export const RELEVANCE_SORT = 'relevance'
+
+// Read `limit`, `sort` and `cursor` from a list request. A cursor carries the sort it was made
+// for; without one, an unknown sort falls back to the default. A ranked (search) request always
+// uses the relevance order.
+export function parsePageRequest(
+    searchParams: URLSearchParams,
+    options: { sorts: string[], defaultSort: string, defaultLimit?: number, ranked?: boolean }
+): PageRequest {
+    const requestedLimit = parseInt(searchParams.get('limit') || '', 10)
+    const limit = Number.isNaN(requestedLimit)
+        ? options.defaultLimit || DEFAULT_PAGE_SIZE
+        : Math.min(Math.max(requestedLimit, 1), MAX_PAGE_SIZE)
+
+    const token = searchParams.get('cursor')
+    const cursor = token ? decodeCursor(token) : null
+    const allowed = options.ranked ? [RELEVANCE_SORT] : options.sorts
+    if (cursor && !allowed.includes(cursor.sort)) {
+        throw new PaginationError('The cursor belongs to a different list')
+    }
+
+    const requestedSort = searchParams.get('sort')
+    const sort = cursor?.sort || (options.ranked
+        ? RELEVANCE_SORT
+        : requestedSort && options.sorts.includes(requestedSort) ? requestedSort : options.defaultSort)
+
+    return { limit, sort, cursor }
+}
+
+// A page with nothing on it, e.g. when the query can't run
+export function emptyPageInfo(page: PageRequest): PageInfo {
+    return { total: 0, limit: page.limit, sort: page.sort, nextCursor: null, prevCursor: null }
+}
+
+// One page of a list that is already complete in memory, e.g. ranked search results
+export function paginateInMemory<T>(items: T[], page: PageRequest): { items: T[], pageInfo: PageInfo } {
+    const offset = page.cursor && 'offset' in page.cursor ? page.cursor.offset : 0
+    const end = offset + page.limit
+
+    return {
+        items: items.slice(offset, end),
+        pageInfo: {
+            total: items.length,
+            limit: page.limit,
+            sort: page.sort,
+            nextCursor: end < items.length ? encodeCursor({ sort: page.sort, offset: end }) : null,
+            prevCursor: offset > 0 ? encodeCursor({ sort: page.sort, offset: Math.max(0, offset - page.limit) }) : null
+        }
+    }
+}
@@ -0,0 +1,115 @@
+// lib/utils/payments.ts
+import { roundMoney } from './pricing'
+import type { CustomerBalance, Order, PaymentMethod, PaymentStatus, PaymentType } from '@/lib/types/firestore'
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['CASH', 'BIT', 'PAYBOX', 'TRANSFER', 'CREDIT']
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+    CASH: 'מזומן',
+    BIT: 'ביט',
+    PAYBOX: 'פייבוקס',
+    TRANSFER: 'העברה בנקאית',
+    CREDIT: 'כרטיס אשראי'
+}
+
+export const PAYMENT_TYPE_LABELS: Record<PaymentType, string> = {
+    PAYMENT: 'תשלום',
+    REFUND: 'החזר'
+}
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+    UNPAID: 'לא שולם',
+    PARTIAL: 'שולם חלקית',
+    PAID: 'שולם',
+    OVERPAID: 'שולם ביתר'
+}
+
+// Thrown when a payment or refund can't be recorded against the order
+export class PaymentError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'PaymentError'
+    }
+}
+
+type PayableOrder = Pick<Order, 'totalAmount' | 'status' | 'amountPaid'>
+
+// A cancelled order charges nothing, so whatever was paid on it is owed back
+export function getAmountCharged(order: PayableOrder): number {
+    return order.status === 'CANCELLED' ? 0 : order.totalAmount
+}
+
+// Left to collect; negative when the customer paid more than the order costs
+export function getAmountDue(order: PayableOrder): number {
+    return roundMoney(getAmountCharged(order) - (order.amountPaid || 0))
+}
+
+export function getPaymentStatus(order: PayableOrder): PaymentStatus {
+    const charged = getAmountCharged(order)
+    const paid = order.amountPaid || 0
+
+    if (paid > charged) return 'OVERPAID'
+    if (paid >= charged) return 'PAID'
+    return paid > 0 ? 'PARTIAL' : 'UNPAID'
+}
+
+// Orders from before the payments ledger (no paid amount) don't count
+export function getCustomerBalance(orders: PayableOrder[]): CustomerBalance {
+    const tracked = orders.filter(order => order.amountPaid !== undefined)
+    const charged = roundMoney(tracked.reduce((sum, order) => sum + getAmountCharged(order), 0))
+    const paid = roundMoney(tracked.reduce((sum, order) => sum + (order.amountPaid || 0), 0))
+    return { charged, paid, balance: roundMoney(charged - paid) }
+}
+
+// The signed effect of a ledger entry on what was paid
+export function getPaymentDelta(payment: { type: PaymentType, amount: number }): number {
+    return payment.type === 'REFUND' ? -payment.amount : payment.amount
+}
+
+// A customer's line on the outstanding balances report
+export interface OutstandingBalance {
+    customerId: string
+    customerName: string
+    phone: string
+    openOrders: number
+    balance: number // positive = the customer owes, negative = credit
+    oldestDeliveryDate: string | null // ISO date of the oldest order not settled
+}
+
+// Customers whose orders aren't settled, largest debt first; credits owed back come last.
+// Orders from before the ledger was kept (no paid amount) are left out.
+export function buildOutstandingBalances(
+    orders: Pick<Order, 'customerId' | 'customerData' | 'deliveryDate' | 'totalAmount' | 'status' | 'amountPaid'>[],
+    customers: Map<string, { name: string, phone: string }>
+): OutstandingBalance[] {
+    const rows = new Map<string, OutstandingBalance>()
+
+    orders.forEach(order => {
+        if (order.amountPaid === undefined) return
+
+        const due = getAmountDue(order)
+        if (due === 0) return
+
+        const customer = customers.get(order.customerId)
+        const row = rows.get(order.customerId) || {
+            customerId: order.customerId,
+            customerName: customer?.name || order.customerData?.name || '',
+            phone: customer?.phone || order.customerData?.phone || '',
+            openOrders: 0,
+            balance: 0,
+            oldestDeliveryDate: null
+        }
+        const deliveryDate = new Date(order.deliveryDate).toISOString()
+
+        row.openOrders++
+        row.balance = roundMoney(row.balance + due)
+        if (!row.oldestDeliveryDate || deliveryDate < row.oldestDeliveryDate) {
+            row.oldestDeliveryDate = deliveryDate
+        }
+        rows.set(order.customerId, row)
+    })
+
+    return Array.from(rows.values())
+        .filter(row => row.balance !== 0)
+        .sort((a, b) => b.balance - a.balance)
+}
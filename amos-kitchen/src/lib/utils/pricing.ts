@@ -0,0 +1,108 @@
+// lib/utils/pricing.ts
+import type { Dish, OrderItem, PriceAdjustment } from '@/lib/types/firestore'
+
+export const DISCOUNT_TYPE_LABELS: Record<PriceAdjustment['type'], string> = {
+    PERCENT: 'אחוז',
+    FIXED: 'סכום קבוע'
+}
+
+export interface OrderPricing {
+    subtotal: number
+    discountAmount: number
+    deliveryFee: number
+    totalAmount: number
+}
+
+// A line as entered; the unit price always comes from the dish, never from the client
+export interface OrderLineInput {
+    dishId: string
+    quantity: number
+    discount?: PriceAdjustment | null
+    notes?: string | null
+}
+
+// Thrown when an order references a dish that can't be priced
+export class PricingError extends Error {
+    dishIds: string[]
+
+    constructor(dishIds: string[]) {
+        super(`Unknown dishes: ${dishIds.join(', ')}`)
+        this.name = 'PricingError'
+        this.dishIds = dishIds
+    }
+}
+
+// Money is kept in agorot precision
+export function roundMoney(amount: number): number {
+    return Math.round(amount * 100) / 100
+}
+
+// A discount never takes an amount below zero
+export function getDiscountAmount(amount: number, discount?: PriceAdjustment | null): number {
+    if (!discount || discount.value <= 0 || amount <= 0) return 0
+
+    const raw = discount.type === 'PERCENT'
+        ? amount * Math.min(discount.value, 100) / 100
+        : discount.value
+    return roundMoney(Math.min(raw, amount))
+}
+
+export function getLineTotal(item: Pick<OrderItem, 'price' | 'quantity' | 'discount'>): number {
+    const gross = roundMoney(item.price * item.quantity)
+    return roundMoney(gross - getDiscountAmount(gross, item.discount))
+}
+
+// What a stored line brought in. Line totals include line discounts; older orders only have the
+// unit price.
+export function getLineRevenue(item: Pick<OrderItem, 'price' | 'quantity' | 'lineTotal'>): number {
+    return item.lineTotal ?? (item.price || 0) * item.quantity
+}
+
+// Snapshot the current dish prices onto the lines. When editing an order, dishes that were
+// already on it keep the price they were ordered at. Throws PricingError for unknown dishes.
+export function priceOrderItems(
+    lines: OrderLineInput[],
+    dishes: Dish[],
+    previousItems: OrderItem[] = []
+): OrderItem[] {
+    const dishMap = new Map(dishes.map(dish => [dish.id, dish]))
+    const snapshots = new Map(previousItems.map(item => [item.dishId, item]))
+    const missing = lines
+        .filter(line => !snapshots.has(line.dishId) && !dishMap.has(line.dishId))
+        .map(line => line.dishId)
+    if (missing.length > 0) {
+        throw new PricingError(Array.from(new Set(missing)))
+    }
+
+    return lines.map(line => {
+        const snapshot = snapshots.get(line.dishId)
+        const dish = dishMap.get(line.dishId)
+        const item: OrderItem = {
+            dishId: line.dishId,
+            dishName: snapshot?.dishName || dish!.name,
+            quantity: line.quantity,
+            price: snapshot ? snapshot.price : dish!.price,
+            discount: line.discount || null,
+            notes: line.notes || ''
+        }
+        return { ...item, lineTotal: getLineTotal(item) }
+    })
+}
+
+// Totals for an order. Older orders have no lineTotal, so lines are always recomputed.
+export function calculateOrderPricing(
+    items: Pick<OrderItem, 'price' | 'quantity' | 'discount'>[],
+    discount?: PriceAdjustment | null,
+    deliveryFee = 0
+): OrderPricing {
+    const subtotal = roundMoney(items.reduce((sum, item) => sum + getLineTotal(item), 0))
+    const discountAmount = getDiscountAmount(subtotal, discount)
+    const fee = roundMoney(Math.max(0, deliveryFee))
+
+    return {
+        subtotal,
+        discountAmount,
+        deliveryFee: fee,
+        totalAmount: roundMoney(subtotal - discountAmount + fee)
+    }
+}
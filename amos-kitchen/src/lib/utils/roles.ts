@@ -0,0 +1,104 @@
+// lib/utils/roles.ts
+// Roles are stored as the `role` custom claim on the Firebase user
+
+export const USER_ROLES = ['OWNER', 'KITCHEN', 'DRIVER', 'ACCOUNTANT'] as const
+
+export type UserRole = typeof USER_ROLES[number]
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+    OWNER: 'בעלים',
+    KITCHEN: 'צוות מטבח',
+    DRIVER: 'שליח',
+    ACCOUNTANT: 'רואה חשבון (צפייה בלבד)'
+}
+
+export const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+    OWNER: 'גישה מלאה, כולל דוחות, הגדרות וניהול משתמשים',
+    KITCHEN: 'הזמנות, לקוחות, מנות ומסך המטבח',
+    DRIVER: 'רשימת המשלוחים, עדכון סטטוס הזמנה ורישום תשלומים',
+    ACCOUNTANT: 'צפייה בהזמנות, לקוחות ומנות וייצוא נתונים'
+}
+
+export type Permission =
+    | 'orders:read'
+    | 'orders:write'
+    | 'orders:status'
+    | 'orders:delete'
+    | 'orders:override' // move an order outside the status transition rules
+    | 'payments:write' // record payments and refunds
+    | 'customers:read'
+    | 'customers:write'
+    | 'customers:delete'
+    | 'dishes:read'
+    | 'dishes:write'
+    | 'dishes:delete'
+    | 'data:export'
+    | 'reports:read'
+    | 'settings:read'
+    | 'settings:write'
+    | 'users:manage'
+
+const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+    OWNER: [
+        'orders:read', 'orders:write', 'orders:status', 'orders:delete', 'orders:override',
+        'payments:write',
+        'customers:read', 'customers:write', 'customers:delete',
+        'dishes:read', 'dishes:write', 'dishes:delete',
+        'data:export', 'reports:read',
+        'settings:read', 'settings:write',
+        'users:manage'
+    ],
+    KITCHEN: [
+        'orders:read', 'orders:write', 'orders:status',
+        'payments:write',
+        'customers:read', 'customers:write',
+        'dishes:read', 'dishes:write',
+        'settings:read'
+    ],
+    DRIVER: [
+        'orders:read', 'orders:status',
+        'payments:write',
+        'customers:read',
+        'settings:read'
+    ],
+    ACCOUNTANT: [
+        'orders:read',
+        'customers:read',
+        'dishes:read',
+        'data:export',
+        'settings:read'
+    ]
+}
+
+export function isUserRole(value: unknown): value is UserRole {
+    return typeof value === 'string' && (USER_ROLES as readonly string[]).includes(value)
+}
+
+// Users without a role claim get no permissions
+export function hasPermission(role: UserRole | null | undefined, permission: Permission): boolean {
+    if (!role) return false
+    return ROLE_PERMISSIONS[role].includes(permission)
+}
+
+interface RoleClaims {
+    role?: unknown
+    email?: string | null
+    email_verified?: boolean
+}
+
+// Comma separated OWNER_EMAILS bootstrap the first owners before any claim is set. Anyone can
+// sign up with an address they don't own, so it has to be verified.
+export function isBootstrapOwner(claims: Pick<RoleClaims, 'email' | 'email_verified'>): boolean {
+    if (!claims.email || claims.email_verified !== true) return false
+    const owners = (process.env.OWNER_EMAILS || '')
+        .split(',')
+        .map(entry => entry.trim().toLowerCase())
+        .filter(Boolean)
+    return owners.includes(claims.email.toLowerCase())
+}
+
+// Resolve the role from decoded token claims
+export function getRoleFromClaims(claims: RoleClaims): UserRole | null {
+    if (isUserRole(claims.role)) return claims.role
+    return isBootstrapOwner(claims) ? 'OWNER' : null
+}
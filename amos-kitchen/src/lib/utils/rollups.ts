@@ -0,0 +1,183 @@
+// lib/utils/rollups.ts
+import { addDays, endOfWeek, startOfWeek } from 'date-fns'
+import { fromDateKey, toBusinessDateKey, toDateKey } from '@/lib/utils/delivery-schedule'
+import { getLineRevenue, roundMoney } from '@/lib/utils/pricing'
+import type { AnalyticsRollup, Dish, Order, RollupCustomer, RollupDish } from '@/lib/types/firestore'
+
+// Delivery weeks run Saturday to Friday, so each week ends with its Friday delivery
+export const DELIVERY_WEEK_STARTS_ON = 6
+
+// The Friday that ends the delivery week of a date; weekly rollups are stored under it
+export function getDeliveryWeekKey(date: Date): string {
+    return toDateKey(endOfWeek(date, { weekStartsOn: DELIVERY_WEEK_STARTS_ON }))
+}
+
+// The first and last day (Saturday and Friday) of the delivery week ending on a Friday
+export function getDeliveryWeekDays(fridayKey: string): { start: string, end: string } {
+    const start = startOfWeek(fromDateKey(fridayKey), { weekStartsOn: DELIVERY_WEEK_STARTS_ON })
+    return { start: toDateKey(start), end: toDateKey(addDays(start, 6)) }
+}
+
+export function createEmptyRollup(date: string): AnalyticsRollup {
+    return {
+        date,
+        orders: 0,
+        cancelledOrders: 0,
+        revenue: 0,
+        itemsSold: 0,
+        statusCounts: {},
+        dishes: {},
+        customers: {},
+        newCustomers: 0,
+        returningCustomers: 0,
+        updatedAt: new Date()
+    }
+}
+
+// Drop the customers, dishes and statuses left without orders and count new and returning
+// customers again
+export function settleRollup(rollup: AnalyticsRollup): AnalyticsRollup {
+    Object.keys(rollup.customers).forEach(customerId => {
+        if (rollup.customers[customerId].orders <= 0) delete rollup.customers[customerId]
+    })
+    Object.keys(rollup.dishes).forEach(dishId => {
+        if (rollup.dishes[dishId].orders <= 0) delete rollup.dishes[dishId]
+    })
+    Object.keys(rollup.statusCounts).forEach(status => {
+        if (rollup.statusCounts[status] <= 0) delete rollup.statusCounts[status]
+    })
+
+    const customers = Object.values(rollup.customers)
+    rollup.newCustomers = customers.filter(customer => customer.firstOrder).length
+    rollup.returningCustomers = customers.length - rollup.newCustomers
+    return rollup
+}
+
+// Add one order to a rollup (sign 1) or take it out (sign -1). Dishes new to the rollup are named
+// from dishMap, and isFirstOrder tells whether a customer new to it is on their first delivery.
+// Entries taken down to nothing stay until settleRollup, so an order taken out and added back
+// keeps its customer's flag and its dishes' names.
+export function applyOrderToRollup(
+    rollup: AnalyticsRollup,
+    order: Pick<Order, 'customerId' | 'customerData' | 'status' | 'totalAmount' | 'items'>,
+    sign: 1 | -1,
+    dishMap: Map<string | undefined, Dish>,
+    isFirstOrder: (customerId: string) => boolean
+): AnalyticsRollup {
+    if (order.status === 'CANCELLED') {
+        rollup.cancelledOrders += sign
+        return rollup
+    }
+
+    const amount = order.totalAmount || 0
+    rollup.orders += sign
+    rollup.revenue = roundMoney(rollup.revenue + sign * amount)
+    rollup.statusCounts[order.status] = (rollup.statusCounts[order.status] || 0) + sign
+
+    const customer: RollupCustomer = rollup.customers[order.customerId] || {
+        name: order.customerData?.name || '',
+        orders: 0,
+        revenue: 0,
+        firstOrder: isFirstOrder(order.customerId)
+    }
+    customer.orders += sign
+    customer.revenue = roundMoney(customer.revenue + sign * amount)
+    rollup.customers[order.customerId] = customer
+
+    const items = order.items || []
+    const orderDishes = new Set<string>()
+    items.forEach(item => {
+        const dish = dishMap.get(item.dishId)
+        const stats: RollupDish = rollup.dishes[item.dishId] || {
+            name: dish?.name || item.dishName || 'Unknown',
+            category: (dish?.category || 'uncategorized').toLowerCase(),
+            quantity: 0,
+            revenue: 0,
+            orders: 0
+        }
+        stats.quantity += sign * item.quantity
+        stats.revenue = roundMoney(stats.revenue + sign * getLineRevenue(item))
+        if (!orderDishes.has(item.dishId)) {
+            stats.orders += sign
+            orderDishes.add(item.dishId)
+        }
+        rollup.dishes[item.dishId] = stats
+        rollup.itemsSold += sign * item.quantity
+    })
+
+    return rollup
+}
+
+// The rollup of one delivery day from its orders. isFirstOrder tells whether the day is the
+// customer's first delivery.
+export function buildDayRollup(
+    date: string,
+    orders: Order[],
+    dishMap: Map<string | undefined, Dish>,
+    isFirstOrder: (customerId: string) => boolean
+): AnalyticsRollup {
+    const rollup = createEmptyRollup(date)
+    orders.forEach(order => applyOrderToRollup(rollup, order, 1, dishMap, isFirstOrder))
+    return settleRollup(rollup)
+}
+
+// Add rollups up, e.g. the days of a week. A customer is new when any of the days was their first.
+export function mergeRollups(date: string, rollups: AnalyticsRollup[]): AnalyticsRollup {
+    const merged = createEmptyRollup(date)
+
+    rollups.forEach(rollup => {
+        merged.orders += rollup.orders
+        merged.cancelledOrders += rollup.cancelledOrders
+        merged.revenue += rollup.revenue
+        merged.itemsSold += rollup.itemsSold
+
+        Object.entries(rollup.statusCounts).forEach(([status, count]) => {
+            merged.statusCounts[status] = (merged.statusCounts[status] || 0) + count
+        })
+        Object.entries(rollup.dishes).forEach(([dishId, dish]) => {
+            const existing = merged.dishes[dishId] || { ...dish, quantity: 0, revenue: 0, orders: 0 }
+            existing.quantity += dish.quantity
+            existing.revenue += dish.revenue
+            existing.orders += dish.orders
+            merged.dishes[dishId] = existing
+        })
+        Object.entries(rollup.customers).forEach(([customerId, customer]) => {
+            const existing = merged.customers[customerId] || { ...customer, orders: 0, revenue: 0, firstOrder: false }
+            existing.orders += customer.orders
+            existing.revenue += customer.revenue
+            existing.firstOrder = existing.firstOrder || customer.firstOrder
+            merged.customers[customerId] = existing
+        })
+    })
+
+    return settleRollup(merged)
+}
+
+// Group orders into day rollups, for a report built from orders rather than stored rollups
+export function rollupOrdersByDay(
+    orders: Order[],
+    dishMap: Map<string | undefined, Dish>,
+    isFirstOrder: (customerId: string, date: string) => boolean
+): AnalyticsRollup[] {
+    const byDay = new Map<string, Order[]>()
+    orders.forEach(order => {
+        const date = toBusinessDateKey(order.deliveryDate)
+        byDay.set(date, [...(byDay.get(date) || []), order])
+    })
+
+    return Array.from(byDay.entries()).map(([date, dayOrders]) =>
+        buildDayRollup(date, dayOrders, dishMap, customerId => isFirstOrder(customerId, date))
+    )
+}
+
+// The first delivery day of each customer, from their orders that weren't cancelled
+export function getFirstDeliveryDays(orders: Pick<Order, 'customerId' | 'deliveryDate' | 'status'>[]): Map<string, string> {
+    const firstDays = new Map<string, string>()
+    orders.forEach(order => {
+        if (order.status === 'CANCELLED' || !order.customerId) return
+        const date = toBusinessDateKey(order.deliveryDate)
+        const current = firstDays.get(order.customerId)
+        if (!current || date < current) firstDays.set(order.customerId, date)
+    })
+    return firstDays
+}
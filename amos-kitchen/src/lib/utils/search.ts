@@ -0,0 +1,160 @@
+// lib/utils/search.ts
+
+// Words longer than this are indexed by their first letters only
+const MAX_TERM_LENGTH = 20
+// The shortest phone ending that can be searched, e.g. the last four digits
+const MIN_PHONE_SUFFIX = 4
+const FINAL_LETTERS: Record<string, string> = { 'ך': 'כ', 'ם': 'מ', 'ן': 'נ', 'ף': 'פ', 'ץ': 'צ' }
+
+// Lowercase, without niqqud, accents, quotes and final letter forms, so "כֹּהֵן", "כהן" and
+// "כהנ" compare equal. Anything but Latin, Hebrew, Cyrillic and Arabic letters and digits
+// separates words.
+export function normalizeSearchText(text: string | null | undefined): string {
+    return (text || '')
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f\u0591-\u05bd\u05bf-\u05c7]/g, '')
+        .toLowerCase()
+        .replace(/[ךםןףץ]/g, letter => FINAL_LETTERS[letter])
+        .replace(/["'`׳״]/g, '')
+        .replace(/[^0-9a-z\u0400-\u04ff\u05d0-\u05ea\u0620-\u064a]+/g, ' ')
+        .trim()
+}
+
+export function tokenize(text: string | null | undefined): string[] {
+    const normalized = normalizeSearchText(text)
+    return normalized ? normalized.split(' ') : []
+}
+
+// Local phone digits: "+972-54-1234567" and "054-1234567" both become "0541234567"
+export function normalizePhoneDigits(phone: string | null | undefined): string {
+    const digits = (phone || '').replace(/\D/g, '')
+    return digits.startsWith('972') ? `0${digits.slice(3)}` : digits
+}
+
+// A phone is found by its full number, by how it starts and by its last digits
+function phoneWords(phone: string | null | undefined): string[] {
+    const digits = normalizePhoneDigits(phone)
+    if (!digits) return []
+
+    const words = [digits]
+    for (let start = 1; digits.length - start >= MIN_PHONE_SUFFIX; start++) {
+        words.push(digits.slice(start))
+    }
+    return words
+}
+
+// "ORD2024-0017" is found as "ord2024-0017", "ord20240017", "0017" and "17"
+function codeWords(code: string | null | undefined): string[] {
+    const parts = tokenize(code)
+    if (parts.length === 0) return []
+
+    const sequence = parts[parts.length - 1].replace(/^0+(?=\d)/, '')
+    return [parts.join(''), ...parts, sequence]
+}
+
+// Two-letter pieces of a word. Hebrew names are short, so longer pieces would miss most typos.
+export function getBigrams(word: string): string[] {
+    if (word.length <= 2) return [word]
+
+    const grams: string[] = []
+    for (let i = 0; i + 2 <= word.length; i++) {
+        grams.push(word.slice(i, i + 2))
+    }
+    return grams
+}
+
+export interface SearchFields {
+    words: string[]
+    terms: string[]
+    grams: string[]
+}
+
+// The index fields of a record: names are split into words, phones and codes are kept whole
+export function buildSearchFields(source: {
+    names?: (string | null | undefined)[]
+    phones?: (string | null | undefined)[]
+    codes?: (string | null | undefined)[]
+}): SearchFields {
+    const words = new Set<string>([
+        ...(source.names || []).flatMap(tokenize),
+        ...(source.phones || []).flatMap(phoneWords),
+        ...(source.codes || []).flatMap(codeWords)
+    ])
+    const terms = new Set<string>()
+    const grams = new Set<string>()
+
+    words.forEach(word => {
+        const indexed = word.slice(0, MAX_TERM_LENGTH)
+        for (let length = 1; length <= indexed.length; length++) {
+            terms.add(indexed.slice(0, length))
+        }
+        getBigrams(indexed).forEach(gram => grams.add(gram))
+    })
+
+    return { words: Array.from(words), terms: Array.from(terms), grams: Array.from(grams) }
+}
+
+// The words of a search: a phone-like search is one word of digits
+export function getQueryWords(text: string): string[] {
+    if (/^[\d\s+()-]+$/.test(text.trim()) && /\d{3}/.test(text.replace(/\D/g, ''))) {
+        return [normalizePhoneDigits(text)]
+    }
+    return Array.from(new Set(tokenize(text).map(word => word.slice(0, MAX_TERM_LENGTH))))
+}
+
+function editDistance(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i]
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            )
+        }
+        previous = current
+    }
+    return previous[b.length]
+}
+
+// Typos allowed in a search word; short words must match as typed
+export function getAllowedTypos(word: string): number {
+    if (word.length < 4) return 0
+    return word.length < 7 ? 1 : 2
+}
+
+const EXACT_SCORE = 3
+const PREFIX_SCORE = 2
+const TYPO_SCORE = 1
+
+// How well one search word matches a record: whole word, start of a word, or either with a typo
+function scoreWord(queryWord: string, words: string[]): number {
+    let best = 0
+    const allowed = getAllowedTypos(queryWord)
+
+    for (const word of words) {
+        if (word === queryWord) return EXACT_SCORE
+        if (word.startsWith(queryWord)) {
+            best = PREFIX_SCORE
+        } else if (best < TYPO_SCORE && allowed > 0) {
+            const distance = Math.min(
+                editDistance(queryWord, word),
+                editDistance(queryWord, word.slice(0, queryWord.length))
+            )
+            if (distance <= allowed) best = TYPO_SCORE
+        }
+    }
+    return best
+}
+
+// Score of a record for a search, or 0 when any search word doesn't match it
+export function scoreSearchMatch(queryWords: string[], words: string[]): number {
+    let total = 0
+    for (const queryWord of queryWords) {
+        const score = scoreWord(queryWord, words)
+        if (score === 0) return 0
+        total += score
+    }
+    return total
+}
@@ -0,0 +1,91 @@
+// lib/utils/standing-orders.ts
+import { addDays, differenceInCalendarDays } from 'date-fns'
+import { fromDateKey, isDeliveryDay, toDateKey } from '@/lib/utils/delivery-schedule'
+import type {
+    DeliverySchedule,
+    StandingOrder,
+    StandingOrderFrequency,
+    StandingOrderOccurrenceStatus
+} from '@/lib/types/firestore'
+
+export const STANDING_ORDER_FREQUENCY_LABELS: Record<StandingOrderFrequency, string> = {
+    WEEKLY: 'כל שבוע',
+    BIWEEKLY: 'כל שבועיים'
+}
+
+export const STANDING_ORDER_OCCURRENCE_LABELS: Record<StandingOrderOccurrenceStatus, string> = {
+    DUE: 'ממתינה ליצירה',
+    GENERATED: 'נוצרה הזמנה',
+    SKIPPED: 'דילוג',
+    PAUSED: 'מושהית'
+}
+
+const FREQUENCY_DAYS: Record<StandingOrderFrequency, number> = {
+    WEEKLY: 7,
+    BIWEEKLY: 14
+}
+
+type StandingSchedule = Pick<StandingOrder, 'frequency' | 'startDate' | 'endDate'>
+
+// Whether the standing order has a delivery on the date, ignoring pauses and skips
+export function isStandingOrderDate(standing: StandingSchedule, dateKey: string): boolean {
+    if (dateKey < standing.startDate) return false
+    if (standing.endDate && dateKey > standing.endDate) return false
+
+    const days = differenceInCalendarDays(fromDateKey(dateKey), fromDateKey(standing.startDate))
+    return days % FREQUENCY_DAYS[standing.frequency] === 0
+}
+
+// A pause without an end date lasts until the customer resumes
+export function isStandingOrderPaused(standing: Pick<StandingOrder, 'paused' | 'pausedUntil'>, dateKey: string): boolean {
+    if (!standing.paused) return false
+    return !standing.pausedUntil || dateKey <= standing.pausedUntil
+}
+
+// Status of the standing order for one delivery day, or null when it has no delivery that day
+export function getStandingOrderOccurrenceStatus(
+    standing: StandingOrder,
+    dateKey: string
+): StandingOrderOccurrenceStatus | null {
+    if (!isStandingOrderDate(standing, dateKey)) return null
+    if (standing.generatedDates.includes(dateKey)) return 'GENERATED'
+    if (standing.skipDates.includes(dateKey)) return 'SKIPPED'
+    if (isStandingOrderPaused(standing, dateKey)) return 'PAUSED'
+    return 'DUE'
+}
+
+// The next delivery dates of a standing order from a date on (skipped dates included, so they can
+// be un-skipped). Dates the delivery calendar has closed are left out.
+export function getStandingOrderDates(
+    standing: StandingSchedule,
+    schedule: DeliverySchedule,
+    count: number,
+    from: Date = new Date()
+): string[] {
+    const fromKey = toDateKey(from)
+    const step = FREQUENCY_DAYS[standing.frequency]
+    const dates: string[] = []
+
+    let day = fromDateKey(standing.startDate)
+    if (standing.startDate < fromKey) {
+        const periods = Math.ceil(differenceInCalendarDays(fromDateKey(fromKey), day) / step)
+        day = addDays(day, periods * step)
+    }
+
+    // Bounded so a calendar without the weekday can't loop forever
+    for (let i = 0; i < count * 4 && dates.length < count; i++, day = addDays(day, step)) {
+        const key = toDateKey(day)
+        if (standing.endDate && key > standing.endDate) break
+        if (isDeliveryDay(schedule, day)) dates.push(key)
+    }
+
+    return dates
+}
+
+// Thrown when a standing order can't be generated for the requested delivery day
+export class StandingOrderError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'StandingOrderError'
+    }
+}
@@ -0,0 +1,24 @@
+// lib/validators/address.ts
+import { z } from 'zod'
+
+const optionalPart = (max: number) => z.string().trim().max(max).nullable().optional()
+
+export const structuredAddressSchema = z.object({
+    city: z.string().trim().min(1, 'יש להזין עיר').max(100),
+    street: z.string().trim().min(1, 'יש להזין רחוב').max(100),
+    number: optionalPart(10),
+    floor: optionalPart(10),
+    apartment: optionalPart(10),
+    entryCode: optionalPart(20),
+    notes: optionalPart(300)
+}).transform(address => ({
+    city: address.city,
+    street: address.street,
+    number: address.number || null,
+    floor: address.floor || null,
+    apartment: address.apartment || null,
+    entryCode: address.entryCode || null,
+    notes: address.notes || null
+}))
+
+export type StructuredAddressInput = z.infer<typeof structuredAddressSchema>
@@ -0,0 +1,49 @@
+// lib/validators/business-settings.ts
+import { z } from 'zod'
+import { CURRENCY_OPTIONS } from '@/lib/utils/business-settings'
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'שעה לא תקינה')
+
+const optionalText = (max: number) => z.string().trim().max(max).nullable().optional()
+
+export const workingHoursSchema = z.object({
+    weekday: z.number().int().min(0).max(6),
+    open: timeSchema,
+    close: timeSchema,
+    closed: z.boolean()
+}).refine(
+    hours => hours.closed || hours.open < hours.close,
+    { message: 'שעת הסגירה חייבת להיות אחרי שעת הפתיחה' }
+)
+
+export const businessSettingsSchema = z.object({
+    businessName: z.string().trim().min(2, 'שם העסק חייב להכיל לפחות 2 תווים').max(100),
+    logoUrl: z.string().trim().url('כתובת לוגו לא תקינה').nullable().optional().or(z.literal('')),
+    vatNumber: z.string().trim().regex(/^\d{9}$/, 'מספר עוסק חייב להכיל 9 ספרות').nullable().optional().or(z.literal('')),
+    phone: optionalText(20),
+    address: optionalText(200),
+    // Prices are formatted with Intl.NumberFormat, which throws on unknown currency codes
+    currency: z.string().trim().toUpperCase().refine(
+        code => CURRENCY_OPTIONS.some(option => option.code === code),
+        { message: 'מטבע לא נתמך' }
+    ),
+    vatRate: z.number().min(0).max(100),
+    pricesIncludeVat: z.boolean(),
+    defaultDeliveryFee: z.number().min(0, 'דמי המשלוח לא יכולים להיות שליליים'),
+    orderNumberPrefix: z.string()
+        .max(10, 'הקידומת יכולה להכיל עד 10 תווים')
+        .regex(/^[A-Za-z0-9-]*$/, 'הקידומת יכולה להכיל רק אותיות באנגלית, ספרות ומקף'),
+    workingHours: z.array(workingHoursSchema).refine(
+        days => new Set(days.map(d => d.weekday)).size === days.length,
+        { message: 'כל יום בשבוע יכול להופיע פעם אחת בלבד' }
+    ),
+    notifications: z.object({
+        email: z.string().trim().email('אימייל לא תקין').nullable().optional().or(z.literal('')),
+        newOrder: z.boolean(),
+        orderCancelled: z.boolean(),
+        dailySummary: z.boolean(),
+        capacityAlert: z.boolean()
+    })
+})
+
+export type BusinessSettingsInput = z.infer<typeof businessSettingsSchema>
@@ -0,0 +1,20 @@
+// lib/validators/capacity.ts
+import { z } from 'zod'
+
+const limitSchema = z.number().int().min(0).nullable().optional()
+
+export const capacityLimitsSchema = z.object({
+    maxOrders: limitSchema,
+    maxPortions: limitSchema,
+    dishLimits: z.record(z.string(), z.number().int().min(0)).optional()
+})
+
+export const capacitySettingsSchema = z.object({
+    defaults: capacityLimitsSchema,
+    dates: z.record(
+        z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'תאריך לא תקין'),
+        capacityLimitsSchema
+    )
+})
+
+export type CapacitySettingsInput = z.infer<typeof capacitySettingsSchema>
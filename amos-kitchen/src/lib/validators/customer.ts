@@ -1,6 +1,7 @@
 // lib/validators/customer.ts
 import { z } from 'zod'
 import { PreferenceType } from '@/lib/types/database'
+import { structuredAddressSchema } from './address'
 
 // Preference validation schemas
 export const preferenceTypeSchema = z.enum(['ALLERGY', 'DIETARY_RESTRICTION', 'PREFERENCE', 'MEDICAL'])
@@ -20,6 +21,8 @@ export const createCustomerSchema = z.object({
     phone: z.string().min(9, 'מספר טלפון חייב להכיל לפחות 9 ספרות').max(15, 'מספר טלפון לא תקין'),
     email: z.string().email('כתובת אימייל לא תקינה').nullable().optional(),
     address: z.string().max(200, 'הכתובת לא יכולה להכיל יותר מ-200 תווים').nullable().optional(),
+    // When given, the one-line address is formatted from it
+    structuredAddress: structuredAddressSchema.nullable().optional(),
     notes: z.string().max(500, 'ההערות לא יכולות להכיל יותר מ-500 תווים').nullable().optional(),
     preferences: z.array(createCustomerPreferenceSchema).optional().default([])
 })
@@ -0,0 +1,32 @@
+// lib/validators/delivery-route.ts
+import { z } from 'zod'
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'שעה לא תקינה')
+
+const deliveryStopSchema = z.object({
+    orderId: z.string().min(1),
+    windowStart: timeSchema.nullable().default(null),
+    windowEnd: timeSchema.nullable().default(null)
+}).refine(
+    stop => !stop.windowStart || !stop.windowEnd || stop.windowStart < stop.windowEnd,
+    { message: 'שעת הסיום חייבת להיות אחרי שעת ההתחלה', path: ['windowEnd'] }
+)
+
+// Routes without an id are new and get one when the plan is saved
+export const deliveryPlanSchema = z.object({
+    routes: z.array(z.object({
+        id: z.string().min(1).optional(),
+        name: z.string().trim().min(1, 'יש לתת שם למסלול').max(100),
+        driverName: z.string().trim().max(100).nullable().optional(),
+        sortBy: z.enum(['AREA', 'MANUAL']).default('AREA'),
+        stops: z.array(deliveryStopSchema)
+    })).refine(
+        routes => {
+            const orderIds = routes.flatMap(route => route.stops.map(stop => stop.orderId))
+            return new Set(orderIds).size === orderIds.length
+        },
+        'כל הזמנה יכולה להופיע במסלול אחד בלבד'
+    )
+})
+
+export type DeliveryPlanInput = z.infer<typeof deliveryPlanSchema>
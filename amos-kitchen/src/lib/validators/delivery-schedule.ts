@@ -0,0 +1,30 @@
+// lib/validators/delivery-schedule.ts
+import { z } from 'zod'
+
+const dateKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'תאריך לא תקין')
+
+export const deliveryCutoffSchema = z.object({
+    daysBefore: z.number().int().min(0).max(14),
+    time: z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'שעה לא תקינה')
+})
+
+export const deliveryScheduleSchema = z.object({
+    days: z.array(z.object({
+        weekday: z.number().int().min(0).max(6),
+        cutoff: deliveryCutoffSchema
+    })).refine(
+        days => new Set(days.map(d => d.weekday)).size === days.length,
+        { message: 'כל יום בשבוע יכול להופיע פעם אחת בלבד' }
+    ),
+    closures: z.array(z.object({
+        date: dateKeySchema,
+        reason: z.string().max(100).nullable().optional()
+    })),
+    extraDays: z.array(z.object({
+        date: dateKeySchema,
+        cutoff: deliveryCutoffSchema,
+        reason: z.string().max(100).nullable().optional()
+    }))
+})
+
+export type DeliveryScheduleInput = z.infer<typeof deliveryScheduleSchema>
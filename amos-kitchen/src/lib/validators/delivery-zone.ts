@@ -0,0 +1,17 @@
+// lib/validators/delivery-zone.ts
+import { z } from 'zod'
+import { deliveryFeeSchema } from './order'
+
+const placeNamesSchema = z.array(z.string().trim().min(1).max(100))
+    .transform(names => Array.from(new Set(names)))
+
+export const deliveryZoneSchema = z.object({
+    name: z.string().trim().min(1, 'יש לתת שם לאזור').max(100),
+    cities: placeNamesSchema.refine(cities => cities.length > 0, 'יש להזין לפחות עיר אחת'),
+    // Empty means the zone covers the whole of its cities
+    streets: placeNamesSchema.default([]),
+    deliveryFee: deliveryFeeSchema,
+    minimumOrder: z.number().positive('הזמנת המינימום חייבת להיות גדולה מ-0').nullable().default(null)
+})
+
+export type DeliveryZoneInput = z.infer<typeof deliveryZoneSchema>
@@ -0,0 +1,12 @@
+// lib/validators/dish.ts
+import { z } from 'zod'
+import { isKnownAllergen } from '@/lib/utils/allergens'
+
+// Allergens must come from the same vocabulary customers use for ALLERGY preferences
+export const dishAllergensSchema = z.array(
+    z.string().refine(isKnownAllergen, { message: 'אלרגן לא מוכר' })
+).transform(values => Array.from(new Set(values.map(v => v.trim()))))
+
+export const dishIngredientsSchema = z.array(
+    z.string().trim().min(1, 'רכיב לא יכול להיות ריק').max(50, 'שם רכיב ארוך מדי')
+).max(100, 'יותר מדי רכיבים')
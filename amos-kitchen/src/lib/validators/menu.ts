@@ -0,0 +1,17 @@
+// lib/validators/menu.ts
+import { z } from 'zod'
+
+export const menuSchema = z.object({
+    items: z.array(z.object({
+        dishId: z.string().min(1),
+        specialPrice: z.number().nonnegative('המחיר אינו יכול להיות שלילי').nullable().default(null),
+        maxPortions: z.number().int().positive('מגבלת המנות חייבת להיות גדולה מ-0').nullable().default(null)
+    })).min(1, 'יש לבחור לפחות מנה אחת לתפריט')
+        .refine(
+            items => new Set(items.map(item => item.dishId)).size === items.length,
+            'כל מנה יכולה להופיע בתפריט פעם אחת'
+        ),
+    notes: z.string().max(500).nullable().optional()
+})
+
+export type MenuInput = z.infer<typeof menuSchema>
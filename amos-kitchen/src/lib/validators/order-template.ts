@@ -0,0 +1,16 @@
+// lib/validators/order-template.ts
+import { z } from 'zod'
+
+export const orderTemplateSchema = z.object({
+    name: z.string().trim().min(1, 'יש לתת שם לתבנית').max(100),
+    description: z.string().max(500).nullable().optional(),
+    items: z.array(z.object({
+        dishId: z.string().min(1, 'יש לבחור מנה'),
+        quantity: z.number().int().positive('כמות חייבת להיות גדולה מ-0'),
+        notes: z.string().max(500).nullable().optional()
+    })).min(1, 'יש להוסיף לפחות מנה אחת')
+})
+
+export const updateOrderTemplateSchema = orderTemplateSchema.partial()
+
+export type OrderTemplateInput = z.infer<typeof orderTemplateSchema>
@@ -0,0 +1,15 @@
+// lib/validators/order.ts
+import { z } from 'zod'
+
+export const priceAdjustmentSchema = z.object({
+    type: z.enum(['PERCENT', 'FIXED']),
+    value: z.number().min(0, 'ההנחה לא יכולה להיות שלילית'),
+    reason: z.string().max(200).nullable().optional()
+}).refine(
+    adjustment => adjustment.type !== 'PERCENT' || adjustment.value <= 100,
+    { message: 'הנחה באחוזים לא יכולה לעלות על 100%', path: ['value'] }
+)
+
+export const deliveryFeeSchema = z.number().min(0, 'דמי המשלוח לא יכולים להיות שליליים')
+
+export type PriceAdjustmentInput = z.infer<typeof priceAdjustmentSchema>
@@ -0,0 +1,14 @@
+// lib/validators/payment.ts
+import { z } from 'zod'
+
+export const paymentSchema = z.object({
+    type: z.enum(['PAYMENT', 'REFUND']).default('PAYMENT'),
+    method: z.enum(['CASH', 'BIT', 'PAYBOX', 'TRANSFER', 'CREDIT']),
+    amount: z.number().positive('הסכום חייב להיות גדול מ-0'),
+    // Defaults to now; set when recording a payment received earlier
+    paidAt: z.string().datetime({ offset: true }).optional(),
+    reference: z.string().trim().max(100).nullable().optional(),
+    notes: z.string().trim().max(300).nullable().optional()
+})
+
+export type PaymentInput = z.infer<typeof paymentSchema>
@@ -0,0 +1,55 @@
+// lib/validators/standing-order.ts
+import { z } from 'zod'
+import { deliveryFeeSchema, priceAdjustmentSchema } from './order'
+
+const dateKeySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'תאריך לא תקין')
+
+// Prices aren't stored: every generated order is priced from the menu of its day
+export const standingOrderSchema = z.object({
+    customerId: z.string().min(1, 'יש לבחור לקוח'),
+    items: z.array(z.object({
+        dishId: z.string().min(1, 'יש לבחור מנה'),
+        quantity: z.number().int().positive('כמות חייבת להיות גדולה מ-0'),
+        discount: priceAdjustmentSchema.nullable().optional(),
+        notes: z.string().max(500).optional()
+    })).min(1, 'יש להוסיף לפחות מנה אחת'),
+    discount: priceAdjustmentSchema.nullable().optional(),
+    // Empty means the business default at generation time
+    deliveryFee: deliveryFeeSchema.nullable().optional(),
+    deliveryAddress: z.string().max(300).nullable().optional(),
+    notes: z.string().max(1000).nullable().optional(),
+    frequency: z.enum(['WEEKLY', 'BIWEEKLY']),
+    startDate: dateKeySchema,
+    endDate: dateKeySchema.nullable().optional(),
+    skipDates: z.array(dateKeySchema).default([]),
+    // An order just placed for startDate, so that delivery isn't generated again
+    firstOrderId: z.string().min(1).optional()
+}).refine(
+    data => !data.endDate || data.endDate >= data.startDate,
+    { message: 'תאריך הסיום חייב להיות אחרי תאריך ההתחלה', path: ['endDate'] }
+)
+
+// Any part except the customer can be changed on an existing standing order
+export const updateStandingOrderSchema = z.object({
+    items: standingOrderSchema.innerType().shape.items.optional(),
+    discount: priceAdjustmentSchema.nullable().optional(),
+    deliveryFee: deliveryFeeSchema.nullable().optional(),
+    deliveryAddress: z.string().max(300).nullable().optional(),
+    notes: z.string().max(1000).nullable().optional(),
+    frequency: z.enum(['WEEKLY', 'BIWEEKLY']).optional(),
+    startDate: dateKeySchema.optional(),
+    endDate: dateKeySchema.nullable().optional(),
+    skipDates: z.array(dateKeySchema).optional()
+})
+
+export const pauseStandingOrderSchema = z.object({
+    paused: z.boolean(),
+    pausedUntil: dateKeySchema.nullable().optional()
+})
+
+export const generateStandingOrdersSchema = z.object({
+    date: dateKeySchema,
+    standingOrderIds: z.array(z.string().min(1)).min(1, 'יש לבחור לפחות הזמנה קבועה אחת')
+})
+
+export type StandingOrderFormInput = z.infer<typeof standingOrderSchema>
@@ -0,0 +1,19 @@
+// lib/validators/user.ts
+import { z } from 'zod'
+import { USER_ROLES } from '@/lib/utils/roles'
+import { DEFAULT_INVITE_EXPIRY_DAYS } from '@/lib/utils/invites'
+
+// null revokes the user's access
+export const updateUserRoleSchema = z.object({
+    role: z.enum(USER_ROLES).nullable()
+})
+
+export type UpdateUserRoleInput = z.infer<typeof updateUserRoleSchema>
+
+export const createInviteSchema = z.object({
+    role: z.enum(USER_ROLES),
+    email: z.string().email('אימייל לא תקין').nullable().optional().or(z.literal('')),
+    expiresInDays: z.number().int().min(1).max(30).default(DEFAULT_INVITE_EXPIRY_DAYS)
+})
+
+export type CreateInviteInput = z.infer<typeof createInviteSchema>